@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect } from "react";
 import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
@@ -7,9 +7,11 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { NotificationBell } from "@/components/notification-bell";
+import { GlobalSearch } from "@/components/global-search";
 import { useEmailNotifications } from "@/hooks/use-email-notifications";
+import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
-import { LogOut } from "lucide-react";
+import { LogOut, Loader2 } from "lucide-react";
 import Dashboard from "@/pages/dashboard";
 import Leads from "@/pages/leads";
 import Import from "@/pages/import";
@@ -18,16 +20,32 @@ import CompanyLeads from "@/pages/company-leads";
 import Inventory from "@/pages/inventory";
 import NotFound from "@/pages/not-found";
 import Login from "@/pages/login";
+import UsersPage from "@/pages/users";
+import AuditPage from "@/pages/audit";
+import DuplicatesPage from "@/pages/duplicates";
+import TasksPage from "@/pages/tasks";
+import ForecastPage from "@/pages/forecast";
+import TrashPage from "@/pages/trash";
+import { PERMISSIONS } from "@shared/permissions";
 
 function Router() {
+  const { can } = useAuth();
+
+  // Pages the role can't use fall through to NotFound
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
       <Route path="/leads" component={Leads} />
       <Route path="/companies/:id" component={CompanyLeads} />
-      <Route path="/import" component={Import} />
-      <Route path="/inventory" component={Inventory} />
-      <Route path="/settings" component={Settings} />
+      <Route path="/duplicates" component={DuplicatesPage} />
+      <Route path="/tasks" component={TasksPage} />
+      <Route path="/forecast" component={ForecastPage} />
+      {can(PERMISSIONS.IMPORT_RUN) && <Route path="/import" component={Import} />}
+      {can(PERMISSIONS.INVENTORY_VIEW) && <Route path="/inventory" component={Inventory} />}
+      {can(PERMISSIONS.LEADS_DELETE) && <Route path="/trash" component={TrashPage} />}
+      {can(PERMISSIONS.USERS_MANAGE) && <Route path="/users" component={UsersPage} />}
+      {can(PERMISSIONS.AUDIT_VIEW) && <Route path="/audit" component={AuditPage} />}
+      {can(PERMISSIONS.SETTINGS_MANAGE) && <Route path="/settings" component={Settings} />}
       <Route path="/login" component={Login} />
       <Route component={NotFound} />
     </Switch>
@@ -38,6 +56,7 @@ function AuthenticatedApp() {
   // Enable email reply notifications
   useEmailNotifications();
   const [, navigate] = useLocation();
+  const { logoutMutation } = useAuth();
   
   const style = {
     "--sidebar-width": "16rem",
@@ -48,74 +67,87 @@ function AuthenticatedApp() {
     navigate(`/leads?selected=${leadId}`);
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem("userRole");
-    localStorage.removeItem("username");
+  const handleLogout = async () => {
+    await logoutMutation.mutateAsync();
     navigate("/login");
   };
 
   return (
-    <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <SidebarProvider style={style as React.CSSProperties}>
-          <div className="flex h-screen w-full">
-            <AppSidebar />
-            <div className="flex flex-col flex-1 overflow-hidden">
-              <header className="flex items-center justify-between px-3 sm:px-4 py-3 sm:py-4 border-b-2 border-white/20 bg-gradient-to-br from-green-800 via-green-900 to-green-950 shadow-xl">
-                <div className="flex items-center gap-2 sm:gap-4 flex-1 min-w-0">
-                  <SidebarTrigger className="text-white hover:bg-white/20 flex-shrink-0" data-testid="button-sidebar-toggle" />
-                  <h1 className="text-lg sm:text-2xl md:text-3xl lg:text-4xl font-bold text-white tracking-tight truncate">
-                    FMD Companies Dashboard
-                  </h1>
-                </div>
-                <div className="flex items-center gap-2 sm:gap-4 flex-shrink-0">
-                  <NotificationBell onNotificationClick={handleNotificationClick} />
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={handleLogout}
-                    className="text-white hover:bg-white/20 flex items-center gap-2"
-                  >
-                    <LogOut className="h-4 w-4" />
-                    <span className="hidden sm:inline">Logout</span>
-                  </Button>
-                </div>
-              </header>
-              <main className="flex-1 overflow-y-auto p-3 sm:p-4 md:p-6">
-                <div className="max-w-7xl mx-auto">
-                  <Router />
-                </div>
-              </main>
+    <SidebarProvider style={style as React.CSSProperties}>
+      <div className="flex h-screen w-full">
+        <AppSidebar />
+        <div className="flex flex-col flex-1 overflow-hidden">
+          <header className="flex items-center justify-between px-3 sm:px-4 py-3 sm:py-4 border-b-2 border-white/20 bg-gradient-to-br from-green-800 via-green-900 to-green-950 shadow-xl">
+            <div className="flex items-center gap-2 sm:gap-4 flex-1 min-w-0">
+              <SidebarTrigger className="text-white hover:bg-white/20 flex-shrink-0" data-testid="button-sidebar-toggle" />
+              <h1 className="text-lg sm:text-2xl md:text-3xl lg:text-4xl font-bold text-white tracking-tight truncate">
+                FMD Companies Dashboard
+              </h1>
             </div>
-          </div>
-        </SidebarProvider>
-        <Toaster />
-      </TooltipProvider>
-    </QueryClientProvider>
+            <div className="flex items-center gap-2 sm:gap-4 flex-shrink-0">
+              <div className="hidden md:block w-64 lg:w-80">
+                <GlobalSearch />
+              </div>
+              <NotificationBell onNotificationClick={handleNotificationClick} />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleLogout}
+                className="text-white hover:bg-white/20 flex items-center gap-2"
+              >
+                <LogOut className="h-4 w-4" />
+                <span className="hidden sm:inline">Logout</span>
+              </Button>
+            </div>
+          </header>
+          <main className="flex-1 overflow-y-auto p-3 sm:p-4 md:p-6">
+            <div className="max-w-7xl mx-auto">
+              <Router />
+            </div>
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
   );
 }
 
-export default function App() {
-  const [location] = useLocation();
-  const isAuthenticated = localStorage.getItem("userRole");
+function AppShell() {
+  const [location, navigate] = useLocation();
+  const { user, isLoading } = useAuth();
+
+  useEffect(() => {
+    if (isLoading) return;
+    // Logged-out users always land on the login page, logged-in users never do
+    if (!user && location !== "/login") {
+      navigate("/login");
+    } else if (user && location === "/login") {
+      navigate("/");
+    }
+  }, [user, isLoading, location, navigate]);
 
-  // If on login page, show login without sidebar/header
-  if (location === "/login") {
+  if (isLoading) {
     return (
-      <QueryClientProvider client={queryClient}>
-        <TooltipProvider>
-          <Login />
-          <Toaster />
-        </TooltipProvider>
-      </QueryClientProvider>
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
     );
   }
 
-  // If not authenticated and not on login page, redirect to login
-  if (!isAuthenticated) {
-    window.location.href = "/login";
-    return null;
+  // Show login without sidebar/header
+  if (!user) {
+    return <Login />;
   }
 
   return <AuthenticatedApp />;
 }
+
+export default function App() {
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
+        <AppShell />
+        <Toaster />
+      </TooltipProvider>
+    </QueryClientProvider>
+  );
+}
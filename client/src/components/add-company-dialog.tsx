@@ -1,39 +1,76 @@
 import React from "react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { CustomFieldInputs, toCustomFieldFormValues, toCustomFieldPayload, type CustomFieldFormValues } from "@/components/custom-field-inputs";
+import { Company } from "@shared/schema";
 
 interface AddCompanyDialogProps {
   isOpen: boolean;
   onClose: () => void;
+  company?: Company | null; // Edit this company instead of adding one
 }
 
-export function AddCompanyDialog({ isOpen, onClose }: AddCompanyDialogProps) {
+const NO_OWNER = "none";
+
+export function AddCompanyDialog({ isOpen, onClose, company }: AddCompanyDialogProps) {
   const [companyName, setCompanyName] = useState("");
+  const [domains, setDomains] = useState("");
+  const [phone, setPhone] = useState("");
+  const [website, setWebsite] = useState("");
+  const [address, setAddress] = useState("");
+  const [ownerUserId, setOwnerUserId] = useState(NO_OWNER);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldFormValues>({});
   const { toast } = useToast();
+  const { fields: customFields } = useCustomFields("company");
+  const { members } = useTeamMembers();
+
+  useEffect(() => {
+    setCompanyName(company?.name ?? "");
+    setDomains(company?.domains.join(", ") ?? "");
+    setPhone(company?.phone ?? "");
+    setWebsite(company?.website ?? "");
+    setAddress(company?.address ?? "");
+    setOwnerUserId(company?.ownerUserId ?? NO_OWNER);
+    setCustomFieldValues(toCustomFieldFormValues(company?.customFields));
+  }, [company, isOpen]);
 
-  const addCompanyMutation = useMutation({
+  const saveCompanyMutation = useMutation({
     mutationFn: async (name: string) => {
-      return apiRequest("POST", "/api/companies", { name });
+      const data = {
+        name,
+        domains: domains.split(/[,\s]+/).filter(Boolean),
+        phone: phone.trim() || null,
+        website: website.trim() || null,
+        address: address.trim() || null,
+        ownerUserId: ownerUserId === NO_OWNER ? null : ownerUserId,
+        customFields: toCustomFieldPayload(customFieldValues),
+      };
+      return company
+        ? apiRequest("PATCH", `/api/companies/${company.id}`, data)
+        : apiRequest("POST", "/api/companies", data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/companies'] });
       toast({
-        title: "Company added",
-        description: "The company has been added successfully.",
+        title: company ? "Company updated" : "Company added",
+        description: company ? "The company has been updated successfully." : "The company has been added successfully.",
       });
-      setCompanyName("");
       onClose();
     },
     onError: (error: Error) => {
       toast({
-        title: "Failed to add company",
+        title: company ? "Failed to update company" : "Failed to add company",
         description: error.message,
         variant: "destructive",
       });
@@ -43,16 +80,16 @@ export function AddCompanyDialog({ isOpen, onClose }: AddCompanyDialogProps) {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!companyName.trim()) return;
-    addCompanyMutation.mutate(companyName.trim());
+    saveCompanyMutation.mutate(companyName.trim());
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent data-testid="modal-add-company">
+      <DialogContent className="max-h-[90vh] overflow-y-auto" data-testid="modal-add-company">
         <DialogHeader>
-          <DialogTitle>Add New Company</DialogTitle>
+          <DialogTitle>{company ? "Edit Company" : "Add New Company"}</DialogTitle>
           <DialogDescription>
-            Add a new company to organize your leads
+            {company ? "Update the company's details" : "Add a new company to organize your leads"}
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
@@ -68,27 +105,90 @@ export function AddCompanyDialog({ isOpen, onClose }: AddCompanyDialogProps) {
                 autoFocus
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-domains">Email Domains</Label>
+              <Input
+                id="company-domains"
+                placeholder="example.com, example.co.uk"
+                value={domains}
+                onChange={(e) => setDomains(e.target.value)}
+                data-testid="input-company-domains"
+              />
+              <p className="text-xs text-muted-foreground">
+                New leads with an email at these domains are added to this company.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="company-phone">Phone</Label>
+                <Input
+                  id="company-phone"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  data-testid="input-company-phone"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="company-website">Website</Label>
+                <Input
+                  id="company-website"
+                  placeholder="https://example.com"
+                  value={website}
+                  onChange={(e) => setWebsite(e.target.value)}
+                  data-testid="input-company-website"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="company-address">Address</Label>
+              <Textarea
+                id="company-address"
+                rows={2}
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                data-testid="input-company-address"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Owner</Label>
+              <Select value={ownerUserId} onValueChange={setOwnerUserId}>
+                <SelectTrigger data-testid="select-company-owner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_OWNER}>No owner</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.displayName || member.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <CustomFieldInputs fields={customFields} values={customFieldValues} onChange={setCustomFieldValues} />
           </div>
           <DialogFooter>
             <Button
               type="button"
               variant="outline"
               onClick={onClose}
-              disabled={addCompanyMutation.isPending}
+              disabled={saveCompanyMutation.isPending}
               data-testid="button-cancel"
             >
               Cancel
             </Button>
             <Button
               type="submit"
-              disabled={!companyName.trim() || addCompanyMutation.isPending}
+              disabled={!companyName.trim() || saveCompanyMutation.isPending}
               data-testid="button-add-company"
             >
-              {addCompanyMutation.isPending ? (
+              {saveCompanyMutation.isPending ? (
                 <>
                   <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Adding...
+                  Saving...
                 </>
+              ) : company ? (
+                "Save Changes"
               ) : (
                 "Add Company"
               )}
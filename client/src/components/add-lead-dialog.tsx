@@ -23,6 +23,8 @@ import {
 } from "@/components/ui/select";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { CustomFieldInputs, toCustomFieldFormValues, toCustomFieldPayload, type CustomFieldFormValues } from "@/components/custom-field-inputs";
 import { Loader2 } from "lucide-react";
 
 interface AddLeadDialogProps {
@@ -38,7 +40,9 @@ export function AddLeadDialog({ isOpen, onClose, lead }: AddLeadDialogProps) {
   const [subject, setSubject] = useState("");
   const [leadDetails, setLeadDetails] = useState("");
   const [companyId, setCompanyId] = useState<string>("");
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldFormValues>({});
   const { toast } = useToast();
+  const { fields: customFields } = useCustomFields("lead");
 
   const { data: companies = [] } = useQuery<Company[]>({
     queryKey: ['/api/companies'],
@@ -52,6 +56,7 @@ export function AddLeadDialog({ isOpen, onClose, lead }: AddLeadDialogProps) {
       setSubject(lead.subject || "");
       setLeadDetails(lead.leadDetails || "");
       setCompanyId(lead.companyId || "");
+      setCustomFieldValues(toCustomFieldFormValues(lead.customFields));
     } else {
       setClientName("");
       setEmail("");
@@ -59,6 +64,7 @@ export function AddLeadDialog({ isOpen, onClose, lead }: AddLeadDialogProps) {
       setSubject("");
       setLeadDetails("");
       setCompanyId("");
+      setCustomFieldValues({});
     }
   }, [lead, isOpen]);
 
@@ -114,7 +120,8 @@ export function AddLeadDialog({ isOpen, onClose, lead }: AddLeadDialogProps) {
       subject: subject || undefined,
       leadDetails: leadDetails || undefined,
       companyId: companyId || null,
-      status: lead?.status || "New",
+      customFields: toCustomFieldPayload(customFieldValues),
+      status: lead?.status, // New leads start in the pipeline's first stage (set server-side)
     };
 
     if (lead) {
@@ -128,7 +135,7 @@ export function AddLeadDialog({ isOpen, onClose, lead }: AddLeadDialogProps) {
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-fmd-burgundy">
             {lead ? "Edit Lead" : "Add New Lead"}
@@ -204,6 +211,7 @@ export function AddLeadDialog({ isOpen, onClose, lead }: AddLeadDialogProps) {
                 rows={3}
               />
             </div>
+            <CustomFieldInputs fields={customFields} values={customFieldValues} onChange={setCustomFieldValues} />
           </div>
           <DialogFooter>
             <Button
@@ -1,6 +1,6 @@
 import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Home, Upload, Settings, Database, Building2, Plus, Package } from "lucide-react";
+import { Home, Upload, Settings, Database, Building2, Plus, Package, Users, History, Copy, ListChecks, Trash2, TrendingUp } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { Company } from "@shared/schema";
 import { AddCompanyDialog } from "@/components/add-company-dialog";
@@ -18,22 +18,63 @@ import {
 } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
 import { useUnreadEmailCounts } from "@/lib/notificationStore";
+import { useAuth } from "@/hooks/use-auth";
+import { PERMISSIONS, type Permission } from "@shared/permissions";
 
-const menuItems = [
+const menuItems: { title: string; url: string; icon: typeof Home; permission: Permission }[] = [
   {
     title: "FMD Dashboard",
     url: "/",
     icon: Home,
+    permission: PERMISSIONS.LEADS_VIEW,
+  },
+  {
+    title: "Tasks",
+    url: "/tasks",
+    icon: ListChecks,
+    permission: PERMISSIONS.LEADS_VIEW,
+  },
+  {
+    title: "Forecast",
+    url: "/forecast",
+    icon: TrendingUp,
+    permission: PERMISSIONS.LEADS_VIEW,
   },
   {
     title: "Import",
     url: "/import",
     icon: Upload,
+    permission: PERMISSIONS.IMPORT_RUN,
+  },
+  {
+    title: "Duplicates",
+    url: "/duplicates",
+    icon: Copy,
+    permission: PERMISSIONS.LEADS_VIEW,
+  },
+  {
+    title: "Trash",
+    url: "/trash",
+    icon: Trash2,
+    permission: PERMISSIONS.LEADS_DELETE,
+  },
+  {
+    title: "Users",
+    url: "/users",
+    icon: Users,
+    permission: PERMISSIONS.USERS_MANAGE,
+  },
+  {
+    title: "Audit Log",
+    url: "/audit",
+    icon: History,
+    permission: PERMISSIONS.AUDIT_VIEW,
   },
   {
     title: "Settings",
     url: "/settings",
     icon: Settings,
+    permission: PERMISSIONS.SETTINGS_MANAGE,
   },
 ];
 
@@ -47,20 +88,14 @@ export function AppSidebar() {
   const [location] = useLocation();
   const [isAddCompanyOpen, setIsAddCompanyOpen] = useState(false);
   const { unreadTotal } = useUnreadEmailCounts();
-  const userRole = localStorage.getItem("userRole");
+  const { can } = useAuth();
 
   const { data: companies = [] } = useQuery<Company[]>({
     queryKey: ['/api/companies'],
   });
 
-  // Filter menu items based on user role
-  const filteredMenuItems = menuItems.filter(item => {
-    if (userRole === "client") {
-      // Hide Import and Settings for client users, but show Dashboard (leads)
-      return item.title !== "Import" && item.title !== "Settings";
-    }
-    return true;
-  });
+  // Only show pages the user's role is allowed to use
+  const filteredMenuItems = menuItems.filter(item => can(item.permission));
 
   // Show companies section for all users
   const showCompanies = true;
@@ -109,15 +144,17 @@ export function AppSidebar() {
           <SidebarGroup>
             <div className="flex items-center justify-between px-2 py-1">
               <SidebarGroupLabel className="text-sm font-semibold">FMD Companies</SidebarGroupLabel>
-              <Button
-                size="icon"
-                variant="ghost"
-                className="h-7 w-7"
-                onClick={() => setIsAddCompanyOpen(true)}
-                data-testid="button-add-company"
-              >
-                <Plus className="h-5 w-5" />
-              </Button>
+              {can(PERMISSIONS.COMPANIES_MANAGE) && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  onClick={() => setIsAddCompanyOpen(true)}
+                  data-testid="button-add-company"
+                >
+                  <Plus className="h-5 w-5" />
+                </Button>
+              )}
             </div>
             <SidebarGroupContent>
               <SidebarMenu>
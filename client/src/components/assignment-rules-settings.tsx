@@ -0,0 +1,409 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Loader2, Pencil, Plus, Shuffle, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useTags } from "@/hooks/use-tags";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { AssignmentRule, AssignmentRuleCriterion, Company, LeadAssignmentLogEntry, LeadSource, ASSIGNMENT_RULE_CRITERIA, LEAD_SOURCES } from "@shared/schema";
+
+interface RuleFormState {
+  name: string;
+  criterion: AssignmentRuleCriterion;
+  value: string;
+  userIds: string[];
+  skipAway: boolean;
+}
+
+const emptyForm: RuleFormState = {
+  name: "",
+  criterion: "keywords",
+  value: "",
+  userIds: [],
+  skipAway: true,
+};
+
+const criterionLabels: Record<AssignmentRuleCriterion, string> = {
+  company: "Belongs to a company",
+  tag: "Has a tag",
+  source: "Came from a source",
+  keywords: "Lead details mention a keyword",
+};
+
+const sourceLabels: Record<LeadSource, string> = {
+  manual: "Added by hand",
+  import: "File import",
+  web_form: "Web form",
+};
+
+type AssignmentLogEntry = LeadAssignmentLogEntry & { leadName: string };
+
+export function AssignmentRulesSettings() {
+  const { toast } = useToast();
+  const { tags } = useTags();
+  const { members, getMemberName } = useTeamMembers();
+  const [editingRule, setEditingRule] = useState<AssignmentRule | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<RuleFormState>(emptyForm);
+
+  const { data: rules = [], isLoading } = useQuery<AssignmentRule[]>({
+    queryKey: ['/api/assignment-rules'],
+  });
+
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ['/api/companies'],
+  });
+
+  const { data: decisions = [] } = useQuery<AssignmentLogEntry[]>({
+    queryKey: ['/api/assignment-log'],
+    staleTime: 0,
+  });
+
+  // How a rule reads in the list, e.g. 'Lead details mention "marble, granite"'
+  const describeRule = (rule: Pick<AssignmentRule, "criterion" | "value">): string => {
+    switch (rule.criterion) {
+      case "company":
+        return `Belongs to ${companies.find(company => company.id === rule.value)?.name ?? "a deleted company"}`;
+      case "tag":
+        return `Tagged ${tags.find(tag => tag.id === rule.value)?.name ?? "with a deleted tag"}`;
+      case "source":
+        return `Came from: ${sourceLabels[rule.value as LeadSource] ?? rule.value}`;
+      case "keywords":
+        return `Lead details mention "${rule.value}"`;
+      default:
+        return rule.criterion;
+    }
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (data: RuleFormState) => {
+      const payload = {
+        name: data.name.trim(),
+        criterion: data.criterion,
+        value: data.value.trim(),
+        userIds: data.userIds,
+        skipAway: data.skipAway ? 1 : 0,
+      };
+      if (editingRule) {
+        return apiRequest("PATCH", `/api/assignment-rules/${editingRule.id}`, payload);
+      }
+      return apiRequest("POST", "/api/assignment-rules", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignment-rules'] });
+      toast({
+        title: editingRule ? "Rule updated" : "Rule added",
+        description: "It applies to leads created from now on.",
+      });
+      closeDialog();
+    },
+    onError: showError("Failed to save rule"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (ruleIds: string[]) => {
+      return apiRequest("POST", "/api/assignment-rules/reorder", { ruleIds });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/assignment-rules'] }),
+    onError: showError("Failed to reorder rules"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/assignment-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assignment-rules'] });
+      toast({
+        title: "Rule deleted",
+        description: "New leads will no longer be assigned by this rule.",
+      });
+    },
+    onError: showError("Failed to delete rule"),
+  });
+
+  const openCreate = () => {
+    setEditingRule(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (rule: AssignmentRule) => {
+    setEditingRule(rule);
+    setForm({
+      name: rule.name,
+      criterion: rule.criterion as AssignmentRuleCriterion,
+      value: rule.value,
+      userIds: rule.userIds,
+      skipAway: rule.skipAway === 1,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingRule(null);
+    setForm(emptyForm);
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const ids = rules.map(rule => rule.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const toggleUser = (userId: string) => {
+    const userIds = form.userIds.includes(userId)
+      ? form.userIds.filter(id => id !== userId)
+      : [...form.userIds, userId];
+    setForm({ ...form, userIds });
+  };
+
+  const handleDelete = (rule: AssignmentRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+    deleteRuleMutation.mutate(rule.id);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveRuleMutation.mutate(form);
+  };
+
+  const isFormValid = form.name.trim() && form.value.trim() && form.userIds.length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Shuffle className="w-5 h-5" />
+              Lead Assignment
+            </CardTitle>
+            <CardDescription>
+              New leads go to the reps of the first rule they match, taking turns. Leads added by hand stay with whoever added them when no rule matches.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} className="bg-fmd-green hover:bg-fmd-green/90">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-6">Loading rules...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No assignment rules yet, so imported and web form leads arrive unassigned</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className="flex items-center justify-between p-3 gap-4" data-testid={`row-assignment-rule-${rule.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{rule.name}</span>
+                    {rule.skipAway === 1 && <Badge variant="outline">Skips away reps</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {describeRule(rule)} → {rule.userIds.map(id => getMemberName(id) ?? "Unknown user").join(", ")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => moveRule(index, -1)}
+                    disabled={index === 0 || reorderMutation.isPending}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => moveRule(index, 1)}
+                    disabled={index === rules.length - 1 || reorderMutation.isPending}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => openEdit(rule)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleDelete(rule)}
+                    disabled={deleteRuleMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {decisions.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Recent decisions</h3>
+            <div className="divide-y border rounded-lg max-h-80 overflow-y-auto">
+              {decisions.map((decision) => (
+                <div key={decision.id} className="p-3 text-sm" data-testid={`row-assignment-decision-${decision.id}`}>
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="font-medium truncate">
+                      {decision.leadName} → {getMemberName(decision.assignedUserId) ?? "Unassigned"}
+                    </span>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">
+                      {formatDistanceToNow(new Date(decision.createdAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {sourceLabels[decision.source as LeadSource] ?? decision.source} • {decision.reason}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Rule" : "Add Rule"}</DialogTitle>
+            <DialogDescription>
+              Matching leads are shared between the selected reps in turn
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="assignment-rule-name">Name</Label>
+                <Input
+                  id="assignment-rule-name"
+                  placeholder="e.g. Commercial projects"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>When a new lead</Label>
+                <Select
+                  value={form.criterion}
+                  onValueChange={(value) => setForm({ ...form, criterion: value as AssignmentRuleCriterion, value: "" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASSIGNMENT_RULE_CRITERIA.map((criterion) => (
+                      <SelectItem key={criterion} value={criterion}>{criterionLabels[criterion]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignment-rule-value">
+                  {form.criterion === "company" ? "Company" : form.criterion === "tag" ? "Tag" : form.criterion === "source" ? "Source" : "Keywords"}
+                </Label>
+                {form.criterion === "keywords" ? (
+                  <>
+                    <Input
+                      id="assignment-rule-value"
+                      placeholder="e.g. commercial, hotel, office"
+                      value={form.value}
+                      onChange={(e) => setForm({ ...form, value: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground">Separate keywords with commas; any one of them matches</p>
+                  </>
+                ) : (
+                  <Select value={form.value} onValueChange={(value) => setForm({ ...form, value })}>
+                    <SelectTrigger id="assignment-rule-value">
+                      <SelectValue placeholder={`Select a ${form.criterion}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {form.criterion === "company" && companies.map((company) => (
+                        <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>
+                      ))}
+                      {form.criterion === "tag" && tags.map((tag) => (
+                        <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                      ))}
+                      {form.criterion === "source" && LEAD_SOURCES.map((source) => (
+                        <SelectItem key={source} value={source}>{sourceLabels[source]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Reps</Label>
+                <div className="border rounded-md divide-y max-h-48 overflow-y-auto">
+                  {members.map((member) => (
+                    <label key={member.id} className="flex items-center gap-3 p-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={form.userIds.includes(member.id)}
+                        onCheckedChange={() => toggleUser(member.id)}
+                      />
+                      <span className="flex-1 truncate">{member.displayName || member.username}</span>
+                      {member.away === 1 && <Badge variant="outline">Away</Badge>}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Leads go to the selected reps in the order they were ticked</p>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="assignment-rule-skip-away">Skip reps who are away</Label>
+                <Switch
+                  id="assignment-rule-skip-away"
+                  checked={form.skipAway}
+                  onCheckedChange={(skipAway) => setForm({ ...form, skipAway })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={closeDialog}
+                disabled={saveRuleMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!isFormValid || saveRuleMutation.isPending}>
+                {saveRuleMutation.isPending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingRule ? (
+                  "Save Changes"
+                ) : (
+                  "Add Rule"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import React from "react";
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { TagBadge } from "@/components/tag-badge";
+import { TagPicker } from "@/components/tag-picker";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Tag } from "@shared/schema";
+
+interface BulkTagsDialogProps {
+  mode: "add" | "remove" | null; // null = closed
+  leadIds: string[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export function BulkTagsDialog({ mode, leadIds, onClose, onSuccess }: BulkTagsDialogProps) {
+  const { toast } = useToast();
+  const [chosenTags, setChosenTags] = useState<Tag[]>([]);
+
+  useEffect(() => {
+    setChosenTags([]);
+  }, [mode]);
+
+  const bulkTagsMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/leads/bulk-${mode}-tags`, { leadIds, tagIds: chosenTags.map(tag => tag.id) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      toast({
+        title: mode === "add" ? "Tags added" : "Tags removed",
+        description: `${chosenTags.map(tag => tag.name).join(", ")} ${mode === "add" ? "added to" : "removed from"} ${leadIds.length} lead(s).`,
+      });
+      onSuccess();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: mode === "add" ? "Failed to add tags" : "Failed to remove tags",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!mode) return null;
+
+  return (
+    <Dialog open={!!mode} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{mode === "add" ? "Add Tags to Leads" : "Remove Tags from Leads"}</DialogTitle>
+          <DialogDescription>
+            Choose the tags to {mode === "add" ? "add to" : "remove from"} {leadIds.length} selected lead{leadIds.length !== 1 ? "s" : ""}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap items-center gap-1 py-4 min-h-[3rem]">
+          {chosenTags.map((tag) => (
+            <TagBadge
+              key={tag.id}
+              tag={tag}
+              onRemove={() => setChosenTags(chosenTags.filter(chosen => chosen.id !== tag.id))}
+            />
+          ))}
+          <TagPicker
+            label="Choose tag"
+            excludeIds={chosenTags.map(tag => tag.id)}
+            onSelect={(tag) => setChosenTags([...chosenTags, tag])}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={bulkTagsMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => bulkTagsMutation.mutate()}
+            disabled={chosenTags.length === 0 || bulkTagsMutation.isPending}
+            className={mode === "add" ? "bg-fmd-green hover:bg-fmd-green-dark" : undefined}
+            variant={mode === "remove" ? "destructive" : "default"}
+          >
+            {bulkTagsMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {mode === "add" ? "Add Tags" : "Remove Tags"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,96 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import type { LeadCustomFieldFilter } from "@/hooks/use-leads";
+
+interface CustomFieldFilterProps {
+  value: LeadCustomFieldFilter | null;
+  onChange: (value: LeadCustomFieldFilter | null) => void;
+}
+
+const NO_FIELD = "__none__";
+
+// Filter leads by one custom field: a value for text and dropdown fields, a range for numbers and dates
+export function CustomFieldFilter({ value, onChange }: CustomFieldFilterProps) {
+  const { fields } = useCustomFields("lead");
+  if (fields.length === 0) return null;
+
+  const field = fields.find(field => field.key === value?.key);
+  const inputType = field?.type === "number" ? "number" : "date";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={field?.key ?? NO_FIELD}
+        onValueChange={(key) => onChange(key === NO_FIELD ? null : { key })}
+      >
+        <SelectTrigger className="w-44 h-9" data-testid="select-custom-field-filter">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_FIELD}>Any field</SelectItem>
+          {fields.map((field) => (
+            <SelectItem key={field.id} value={field.key}>{field.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {field?.type === "select" && (
+        <Select value={value?.value ?? ""} onValueChange={(option) => onChange({ key: field.key, value: option })}>
+          <SelectTrigger className="w-40 h-9" data-testid="select-custom-field-value">
+            <SelectValue placeholder="Choose..." />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {field?.type === "text" && (
+        <Input
+          className="w-44 h-9"
+          placeholder="Contains..."
+          value={value?.value ?? ""}
+          onChange={(e) => onChange({ key: field.key, value: e.target.value })}
+          data-testid="input-custom-field-value"
+        />
+      )}
+
+      {(field?.type === "number" || field?.type === "date") && (
+        <>
+          <Input
+            type={inputType}
+            step={inputType === "number" ? "any" : undefined}
+            className="w-auto max-w-[10rem] h-9"
+            placeholder="Min"
+            value={value?.min ?? ""}
+            onChange={(e) => onChange({ ...value!, min: e.target.value })}
+            aria-label={`${field.label} from`}
+            data-testid="input-custom-field-min"
+          />
+          <span className="text-muted-foreground">to</span>
+          <Input
+            type={inputType}
+            step={inputType === "number" ? "any" : undefined}
+            className="w-auto max-w-[10rem] h-9"
+            placeholder="Max"
+            value={value?.max ?? ""}
+            onChange={(e) => onChange({ ...value!, max: e.target.value })}
+            aria-label={`${field.label} to`}
+            data-testid="input-custom-field-max"
+          />
+        </>
+      )}
+
+      {value && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(null)}>
+          Clear field
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CustomField, CustomFieldValues } from "@shared/schema";
+
+// Form state keeps every value as a string; the server converts them to each field's type
+export type CustomFieldFormValues = Record<string, string>;
+
+const CLEAR_VALUE = "__none__";
+
+export function toCustomFieldFormValues(values: CustomFieldValues | null | undefined): CustomFieldFormValues {
+  return Object.fromEntries(Object.entries(values ?? {}).map(([key, value]) => [key, String(value)]));
+}
+
+// Drop blank inputs so clearing a field removes its value
+export function toCustomFieldPayload(values: CustomFieldFormValues): CustomFieldFormValues {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim() !== ""));
+}
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: CustomFieldFormValues;
+  onChange: (values: CustomFieldFormValues) => void;
+}
+
+export function CustomFieldInputs({ fields, values, onChange }: CustomFieldInputsProps) {
+  const setValue = (key: string, value: string) => onChange({ ...values, [key]: value });
+
+  return (
+    <>
+      {fields.map((field) => {
+        const id = `custom-field-${field.key}`;
+        const value = values[field.key] ?? "";
+        return (
+          <div key={field.id} className="grid gap-2">
+            <Label htmlFor={id}>{field.label}</Label>
+            {field.type === "select" ? (
+              <Select
+                value={value || CLEAR_VALUE}
+                onValueChange={(option) => setValue(field.key, option === CLEAR_VALUE ? "" : option)}
+              >
+                <SelectTrigger id={id} data-testid={`select-${id}`}>
+                  <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CLEAR_VALUE}>None</SelectItem>
+                  {field.options.map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={id}
+                type={field.type === "number" ? "number" : field.type === "date" ? "date" : "text"}
+                step={field.type === "number" ? "any" : undefined}
+                value={value}
+                onChange={(e) => setValue(field.key, e.target.value)}
+                data-testid={`input-${id}`}
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
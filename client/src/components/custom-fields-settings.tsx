@@ -0,0 +1,298 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Pencil, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CustomField, CustomFieldEntityType, CustomFieldType, CUSTOM_FIELD_ENTITY_TYPES, CUSTOM_FIELD_TYPES } from "@shared/schema";
+
+interface FieldFormState {
+  entityType: CustomFieldEntityType;
+  label: string;
+  type: CustomFieldType;
+  options: string; // Comma-separated
+}
+
+const emptyForm: FieldFormState = {
+  entityType: "lead",
+  label: "",
+  type: "text",
+  options: "",
+};
+
+const entityTypeLabels: Record<CustomFieldEntityType, string> = {
+  lead: "Leads",
+  company: "Companies",
+};
+
+const fieldTypeLabels: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  select: "Dropdown",
+};
+
+const parseOptions = (options: string) => options.split(",").map(option => option.trim()).filter(Boolean);
+
+export function CustomFieldsSettings() {
+  const { toast } = useToast();
+  const [editingField, setEditingField] = useState<CustomField | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<FieldFormState>(emptyForm);
+
+  const { data: fields = [], isLoading } = useQuery<CustomField[]>({
+    queryKey: ['/api/custom-fields'],
+  });
+
+  const invalidateFields = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/custom-fields'] });
+    // Deleting a field removes its values from leads and companies
+    queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveFieldMutation = useMutation({
+    mutationFn: async (data: FieldFormState) => {
+      const options = data.type === "select" ? parseOptions(data.options) : [];
+      if (editingField) {
+        return apiRequest("PATCH", `/api/custom-fields/${editingField.id}`, { label: data.label.trim(), options });
+      }
+      return apiRequest("POST", "/api/custom-fields", { ...data, label: data.label.trim(), options });
+    },
+    onSuccess: () => {
+      invalidateFields();
+      toast({
+        title: editingField ? "Field updated" : "Field added",
+        description: editingField ? "The custom field has been updated." : "The field is now available on the form.",
+      });
+      closeDialog();
+    },
+    onError: showError("Failed to save field"),
+  });
+
+  const deleteFieldMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/custom-fields/${id}`);
+    },
+    onSuccess: () => {
+      invalidateFields();
+      toast({
+        title: "Field deleted",
+        description: "The field and its values were removed.",
+      });
+    },
+    onError: showError("Failed to delete field"),
+  });
+
+  const openCreate = () => {
+    setEditingField(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (field: CustomField) => {
+    setEditingField(field);
+    setForm({
+      entityType: field.entityType as CustomFieldEntityType,
+      label: field.label,
+      type: field.type as CustomFieldType,
+      options: field.options.join(", "),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingField(null);
+    setForm(emptyForm);
+  };
+
+  const handleDelete = (field: CustomField) => {
+    if (!confirm(`Delete field "${field.label}"? Its values will be removed from every ${field.entityType}.`)) return;
+    deleteFieldMutation.mutate(field.id);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveFieldMutation.mutate(form);
+  };
+
+  const isFormValid = form.label.trim() && (form.type !== "select" || parseOptions(form.options).length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <SlidersHorizontal className="w-5 h-5" />
+              Custom Fields
+            </CardTitle>
+            <CardDescription>
+              Extra details to track on leads and companies. Lead fields can also be imported from spreadsheet columns with the same name.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} className="bg-fmd-green hover:bg-fmd-green/90">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Field
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-6">Loading fields...</p>
+        ) : (
+          CUSTOM_FIELD_ENTITY_TYPES.map((entityType) => {
+            const entityFields = fields.filter(field => field.entityType === entityType);
+            return (
+              <div key={entityType} className="space-y-2">
+                <h3 className="font-medium">{entityTypeLabels[entityType]}</h3>
+                {entityFields.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No custom fields yet</p>
+                ) : (
+                  <div className="divide-y border rounded-lg">
+                    {entityFields.map((field) => (
+                      <div key={field.id} className="flex items-center justify-between p-3 gap-4" data-testid={`row-custom-field-${field.id}`}>
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium truncate">{field.label}</span>
+                            <Badge variant="secondary">{fieldTypeLabels[field.type as CustomFieldType] ?? field.type}</Badge>
+                          </div>
+                          {field.type === "select" && (
+                            <p className="text-xs text-muted-foreground truncate">{field.options.join(", ")}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <Button size="icon" variant="ghost" onClick={() => openEdit(field)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => handleDelete(field)}
+                            disabled={deleteFieldMutation.isPending}
+                          >
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingField ? "Edit Field" : "Add Field"}</DialogTitle>
+            <DialogDescription>
+              {editingField ? "The field's type can't be changed once it has been created" : "Fields appear on the add and edit forms"}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              {!editingField && (
+                <div className="space-y-2">
+                  <Label>Applies To</Label>
+                  <Select
+                    value={form.entityType}
+                    onValueChange={(value) => setForm({ ...form, entityType: value as CustomFieldEntityType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CUSTOM_FIELD_ENTITY_TYPES.map((entityType) => (
+                        <SelectItem key={entityType} value={entityType}>{entityTypeLabels[entityType]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-label">Label</Label>
+                <Input
+                  id="custom-field-label"
+                  placeholder="e.g. Install Date"
+                  value={form.label}
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={form.type}
+                  onValueChange={(value) => setForm({ ...form, type: value as CustomFieldType })}
+                  disabled={!!editingField}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOM_FIELD_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{fieldTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.type === "select" && (
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-options">Options</Label>
+                  <Input
+                    id="custom-field-options"
+                    placeholder="Residential, Commercial, Builder"
+                    value={form.options}
+                    onChange={(e) => setForm({ ...form, options: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">Separate options with commas</p>
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={closeDialog}
+                disabled={saveFieldMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!isFormValid || saveFieldMutation.isPending}>
+                {saveFieldMutation.isPending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingField ? (
+                  "Save Changes"
+                ) : (
+                  "Add Field"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
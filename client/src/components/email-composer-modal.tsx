@@ -1,6 +1,6 @@
 import React from "react";
 import { useState, useEffect } from "react";
-import { X, Send, Loader2, Sparkles, Paperclip } from "lucide-react";
+import { X, Send, Loader2, Sparkles, Paperclip, FileText } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -13,7 +13,19 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { Lead } from "@shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useQuery } from "@tanstack/react-query";
+import { contactRoleLabels } from "@/components/lead-contacts";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { Contact, ContactRole, Lead, Quote } from "@shared/schema";
 import { fixGrammar } from "@/lib/grammar";
 import { useToast } from "@/hooks/use-toast";
 
@@ -21,7 +33,7 @@ interface EmailComposerModalProps {
   lead: Lead | null;
   isOpen: boolean;
   onClose: () => void;
-  onSend: (subject: string, body: string, attachments?: Array<{ filename: string; content: string; mimeType: string }>) => Promise<void>;
+  onSend: (subject: string, body: string, attachments?: Array<{ filename: string; content: string; mimeType: string }>, to?: string[]) => Promise<void>;
   lastReceivedEmailSubject?: string;
 }
 
@@ -32,8 +44,32 @@ export function EmailComposerModal({ lead, isOpen, onClose, onSend, lastReceived
   const [isSending, setIsSending] = useState(false);
   const [isCheckingGrammar, setIsCheckingGrammar] = useState(false);
   const [isGeneratingReply, setIsGeneratingReply] = useState(false);
+  const [recipients, setRecipients] = useState<string[]>([]);
+  const [attachingQuoteId, setAttachingQuoteId] = useState<string | null>(null);
   const { toast } = useToast();
 
+  const { data: contacts = [] } = useQuery<Contact[]>({
+    queryKey: ['/api/leads', lead?.id, 'contacts'],
+    enabled: isOpen && !!lead,
+    staleTime: 0,
+  });
+  const { data: quotes = [] } = useQuery<Quote[]>({
+    queryKey: ['/api/leads', lead?.id, 'quotes'],
+    enabled: isOpen && !!lead,
+    staleTime: 0,
+  });
+
+  const contactsWithEmail = contacts.filter(contact => contact.email && contact.email.toLowerCase() !== lead?.email.toLowerCase());
+
+  // The lead itself is always pre-selected; contacts are opt-in
+  useEffect(() => {
+    if (isOpen && lead) setRecipients([lead.email]);
+  }, [isOpen, lead?.id, lead?.email]);
+
+  const toggleRecipient = (address: string, checked: boolean) => {
+    setRecipients(current => checked ? [...current, address] : current.filter(existing => existing !== address));
+  };
+
   // Auto-populate subject when replying to a received email
   useEffect(() => {
     if (isOpen && lastReceivedEmailSubject) {
@@ -94,16 +130,34 @@ export function EmailComposerModal({ lead, isOpen, onClose, onSend, lastReceived
     e.target.value = ''; // Reset input
   };
 
+  // The server renders the quote PDF already in the attachment format used for uploaded files
+  const attachQuote = async (quote: Quote) => {
+    setAttachingQuoteId(quote.id);
+    try {
+      const res = await apiRequest("GET", `/api/quotes/${quote.id}/attachment`);
+      const attachment: { filename: string; content: string; mimeType: string } = await res.json();
+      setAttachments(current => [...current.filter(existing => existing.filename !== attachment.filename), attachment]);
+    } catch (error: any) {
+      toast({
+        title: "Failed to attach quote",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setAttachingQuoteId(null);
+    }
+  };
+
   const removeAttachment = (index: number) => {
     setAttachments(attachments.filter((_, i) => i !== index));
   };
 
   const handleSend = async () => {
-    if (!subject.trim() || !body.trim()) return;
+    if (!subject.trim() || !body.trim() || recipients.length === 0) return;
     
     setIsSending(true);
     try {
-      await onSend(subject, body, attachments.length > 0 ? attachments : undefined);
+      await onSend(subject, body, attachments.length > 0 ? attachments : undefined, recipients);
       setSubject("");
       setBody("");
       setAttachments([]);
@@ -214,13 +268,39 @@ export function EmailComposerModal({ lead, isOpen, onClose, onSend, lastReceived
         <div className="space-y-4 py-4">
           <div className="space-y-2">
             <Label htmlFor="to">To</Label>
-            <Input 
-              id="to" 
-              value={lead?.email || ""} 
-              disabled 
-              className="bg-muted"
-              data-testid="input-to-email"
-            />
+            {contactsWithEmail.length === 0 ? (
+              <Input 
+                id="to" 
+                value={lead?.email || ""} 
+                disabled 
+                className="bg-muted"
+                data-testid="input-to-email"
+              />
+            ) : (
+              <div className="border rounded-md divide-y" data-testid="list-recipients">
+                {[
+                  { key: "lead", name: lead?.clientName, email: lead?.email ?? "", role: "Lead" },
+                  ...contactsWithEmail.map(contact => ({
+                    key: contact.id,
+                    name: contact.name,
+                    email: contact.email!,
+                    role: contactRoleLabels[contact.role as ContactRole] ?? contact.role,
+                  })),
+                ].map((recipient) => (
+                  <label key={recipient.key} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={recipients.includes(recipient.email)}
+                      onCheckedChange={(checked) => toggleRecipient(recipient.email, checked === true)}
+                      disabled={isSending}
+                      data-testid={`checkbox-recipient-${recipient.key}`}
+                    />
+                    <span className="font-medium truncate">{recipient.name}</span>
+                    <span className="text-muted-foreground truncate">{recipient.email}</span>
+                    <Badge variant="secondary" className="ml-auto text-xs flex-shrink-0">{recipient.role}</Badge>
+                  </label>
+                ))}
+              </div>
+            )}
           </div>
           
           <div className="space-y-2">
@@ -295,17 +375,43 @@ export function EmailComposerModal({ lead, isOpen, onClose, onSend, lastReceived
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label>Attachments (Optional)</Label>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => document.getElementById('file-input')?.click()}
-                disabled={isSending}
-                className="h-8 text-xs"
-              >
-                <Paperclip className="w-3 h-3 mr-1" />
-                Add Files
-              </Button>
+              <div className="flex gap-2">
+                {quotes.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={isSending || !!attachingQuoteId}
+                        className="h-8 text-xs"
+                        data-testid="button-attach-quote"
+                      >
+                        {attachingQuoteId ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <FileText className="w-3 h-3 mr-1" />}
+                        Attach Quote
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {quotes.map((quote) => (
+                        <DropdownMenuItem key={quote.id} onClick={() => attachQuote(quote)}>
+                          v{quote.version} • {formatCurrency(quote.total)}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => document.getElementById('file-input')?.click()}
+                  disabled={isSending}
+                  className="h-8 text-xs"
+                >
+                  <Paperclip className="w-3 h-3 mr-1" />
+                  Add Files
+                </Button>
+              </div>
               <input
                 id="file-input"
                 type="file"
@@ -350,7 +456,7 @@ export function EmailComposerModal({ lead, isOpen, onClose, onSend, lastReceived
           </Button>
           <Button 
             onClick={handleSend}
-            disabled={isSending || !subject.trim() || !body.trim()}
+            disabled={isSending || !subject.trim() || !body.trim() || recipients.length === 0}
             data-testid="button-send"
           >
             {isSending ? (
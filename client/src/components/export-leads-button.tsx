@@ -0,0 +1,73 @@
+import React from "react";
+import { useState } from "react";
+import { Download, FileSpreadsheet, FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { buildLeadQueryParams, type LeadQueryFilters } from "@/hooks/use-leads";
+
+interface ExportLeadsButtonProps {
+  filters: LeadQueryFilters; // Same filters and sort as the list being viewed
+  className?: string;
+}
+
+export function ExportLeadsButton({ filters, className }: ExportLeadsButtonProps) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: "xlsx" | "csv") => {
+    setIsExporting(true);
+    try {
+      const params = buildLeadQueryParams(filters);
+      params.set("format", format);
+      const res = await fetch(`/api/leads/export?${params.toString()}`, { credentials: "include" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.message || `HTTP ${res.status}`);
+      }
+
+      // Keep the server's file name (leads-<date>.<format>)
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `leads.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className} disabled={isExporting} data-testid="button-export-leads">
+          {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport("xlsx")} data-testid="menu-export-xlsx">
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Excel (.xlsx)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("csv")} data-testid="menu-export-csv">
+          <FileText className="w-4 h-4 mr-2" />
+          CSV (.csv)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,170 @@
+import React from "react";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { Building2, Loader2, Mail, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { Company, Lead } from "@shared/schema";
+
+interface EmailSearchHit {
+  id: string;
+  subject: string;
+  direction: string;
+  sentAt: string;
+  snippet: string;
+  rank: number;
+}
+
+interface LeadSearchResult {
+  lead: Lead & { company?: Company | null };
+  rank: number;
+  snippet: string | null;
+  emails: EmailSearchHit[];
+}
+
+interface SearchResponse {
+  query: string;
+  results: LeadSearchResult[];
+}
+
+const MIN_QUERY_LENGTH = 2;
+const EMAILS_PER_LEAD = 2;
+
+// The server marks matches with <mark>; render those as elements and drop any other markup (e.g. from HTML email bodies)
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, index) => {
+        const clean = part.replace(/<[^>]*>/g, "");
+        return index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5">{clean}</mark>
+          : <span key={index}>{clean}</span>;
+      })}
+    </>
+  );
+}
+
+export function GlobalSearch() {
+  const [, navigate] = useLocation();
+  const [term, setTerm] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const { getStageColor } = usePipelineStages();
+  const query = useDebouncedValue(term.trim());
+  const isQueryLongEnough = query.length >= MIN_QUERY_LENGTH;
+
+  const { data, isFetching } = useQuery<SearchResponse>({
+    queryKey: ['/api/search', query],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/search?q=${encodeURIComponent(query)}`);
+      return res.json();
+    },
+    enabled: isQueryLongEnough,
+    staleTime: 30000,
+  });
+
+  const results = data?.results ?? [];
+
+  const openLead = (leadId: string) => {
+    setIsOpen(false);
+    setTerm("");
+    navigate(`/leads?selected=${leadId}`);
+  };
+
+  return (
+    <div className="relative w-full">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+      <Input
+        placeholder="Search leads, notes and emails..."
+        className="pl-9 bg-white/95"
+        value={term}
+        onChange={(e) => {
+          setTerm(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") {
+            setIsOpen(false);
+          } else if (e.key === "Enter" && results[0]) {
+            openLead(results[0].lead.id);
+          }
+        }}
+        data-testid="input-global-search"
+      />
+
+      {isOpen && isQueryLongEnough && (
+        <div
+          className="absolute right-0 top-full mt-2 w-full min-w-[22rem] max-h-[70vh] overflow-y-auto rounded-md border bg-popover text-popover-foreground shadow-lg z-50"
+          // Keep focus in the input so clicking a result doesn't close the list first
+          onMouseDown={(e) => e.preventDefault()}
+          data-testid="list-search-results"
+        >
+          {isFetching && results.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No matches for "{query}"</p>
+          ) : (
+            <ul className="divide-y">
+              {results.map(({ lead, snippet, emails }) => (
+                <li key={lead.id}>
+                  <button
+                    type="button"
+                    className="w-full text-left p-3 hover-elevate space-y-1"
+                    onClick={() => openLead(lead.id)}
+                    data-testid={`search-result-${lead.id}`}
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-semibold text-sm truncate">{lead.clientName}</span>
+                      <Badge className="text-white text-xs flex-shrink-0" style={{ backgroundColor: getStageColor(lead.status) }}>
+                        {lead.status}
+                      </Badge>
+                      {lead.company && (
+                        <span className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+                          <Building2 className="w-3 h-3" />
+                          {lead.company.name}
+                        </span>
+                      )}
+                    </div>
+                    {snippet?.includes("<mark>") && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">
+                        <Highlighted text={snippet} />
+                      </p>
+                    )}
+                    {emails.slice(0, EMAILS_PER_LEAD).map((email) => (
+                      <div key={email.id} className="text-xs border-l-2 pl-2 ml-1">
+                        <p className="flex items-center gap-1 font-medium truncate">
+                          <Mail className="w-3 h-3 flex-shrink-0" />
+                          <span className="truncate">{email.subject}</span>
+                          <span className="text-muted-foreground font-normal flex-shrink-0">
+                            • {email.direction === "received" ? "Received" : "Sent"} {format(new Date(email.sentAt), "MMM d, yyyy")}
+                          </span>
+                        </p>
+                        <p className="text-muted-foreground line-clamp-2">
+                          <Highlighted text={email.snippet} />
+                        </p>
+                      </div>
+                    ))}
+                    {emails.length > EMAILS_PER_LEAD && (
+                      <p className="text-xs text-muted-foreground ml-1">
+                        +{emails.length - EMAILS_PER_LEAD} more matching email{emails.length - EMAILS_PER_LEAD !== 1 ? "s" : ""}
+                      </p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ interface ImportSummary {
   duplicateEmails: string[];
   fileInternalDuplicates: string[];
   rejectedCount: number;
+  customFieldWarnings?: string[];
 }
 
 interface ImportSummaryDialogProps {
@@ -33,7 +34,7 @@ export function ImportSummaryDialog({
 }: ImportSummaryDialogProps) {
   if (!summary) return null;
 
-  const totalProcessed = summary.newLeads + summary.duplicateLeads;
+  const skippedDuplicates = summary.duplicateLeads + summary.fileInternalDuplicates.length;
   const successRate = summary.validRows > 0 
     ? ((summary.newLeads / summary.validRows) * 100).toFixed(1) 
     : "0";
@@ -89,7 +90,7 @@ export function ImportSummaryDialog({
               </p>
             </div>
 
-            {summary.duplicateLeads > 0 && (
+            {skippedDuplicates > 0 && (
               <div className="flex items-center justify-between p-4 rounded-lg bg-gradient-to-br from-yellow-50 to-amber-50 dark:from-yellow-950 dark:to-amber-950 border border-yellow-200 dark:border-yellow-800">
                 <div className="flex items-center gap-3">
                   <div className="p-2 rounded-full bg-yellow-600 text-white">
@@ -97,15 +98,15 @@ export function ImportSummaryDialog({
                   </div>
                   <div>
                     <p className="font-semibold text-yellow-700 dark:text-yellow-400">
-                      Duplicates Detected
+                      Duplicates Skipped
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      These emails already exist in database
+                      Rows matching an existing lead or an earlier row
                     </p>
                   </div>
                 </div>
                 <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">
-                  {summary.duplicateLeads}
+                  {skippedDuplicates}
                 </p>
               </div>
             )}
@@ -161,7 +162,7 @@ export function ImportSummaryDialog({
                 Duplicate Emails Found ({summary.duplicateEmails.length})
               </h4>
               <p className="text-sm text-muted-foreground mb-3">
-                These emails already exist in your database. They were attempted to import but may have been rejected by database constraints.
+                These emails already belong to a lead, so their rows were skipped.
               </p>
               <div className="max-h-40 overflow-y-auto space-y-1">
                 {summary.duplicateEmails.slice(0, 20).map((email, idx) => (
@@ -189,7 +190,7 @@ export function ImportSummaryDialog({
                 Duplicate Emails Within File ({summary.fileInternalDuplicates.length})
               </h4>
               <p className="text-sm text-muted-foreground mb-3">
-                These emails appeared multiple times in your upload. Only the first occurrence was processed.
+                These emails appeared multiple times in your upload. Only the first occurrence was imported.
               </p>
               <div className="max-h-40 overflow-y-auto space-y-1">
                 {summary.fileInternalDuplicates.slice(0, 20).map((email, idx) => (
@@ -208,6 +209,34 @@ export function ImportSummaryDialog({
               </div>
             </div>
           )}
+
+          {/* Custom field values that could not be read */}
+          {summary.customFieldWarnings && summary.customFieldWarnings.length > 0 && (
+            <div className="border rounded-lg p-4 bg-muted/30">
+              <h4 className="font-semibold mb-3 flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-orange-600" />
+                Skipped Custom Field Values ({summary.customFieldWarnings.length})
+              </h4>
+              <p className="text-sm text-muted-foreground mb-3">
+                These values did not match their field's type. The leads were imported without them.
+              </p>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {summary.customFieldWarnings.slice(0, 20).map((warning, idx) => (
+                  <div
+                    key={idx}
+                    className="text-sm px-3 py-1.5 bg-background rounded border text-muted-foreground"
+                  >
+                    {warning}
+                  </div>
+                ))}
+                {summary.customFieldWarnings.length > 20 && (
+                  <p className="text-sm text-muted-foreground italic px-3 py-1">
+                    ... and {summary.customFieldWarnings.length - 20} more
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="flex justify-end gap-3">
@@ -0,0 +1,57 @@
+import React from "react";
+import { useState } from "react";
+import { ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Inventory } from "@shared/schema";
+
+interface InventoryProductPickerProps {
+  items: Inventory[]; // Products to offer; callers leave out the ones that don't apply
+  value: string;
+  onSelect: (item: Inventory) => void;
+}
+
+// Searchable inventory list, matched on product name and category
+export function InventoryProductPicker({ items, value, onSelect }: InventoryProductPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const selected = items.find(item => item.id === value);
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-full justify-between font-normal" data-testid="button-inventory-product">
+          <span className="truncate">{selected?.product ?? "Choose product"}</span>
+          <ChevronsUpDown className="w-4 h-4 ml-2 opacity-50 flex-shrink-0" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0 w-80" align="start">
+        <Command>
+          <CommandInput placeholder="Find a product..." />
+          <CommandList>
+            <CommandEmpty>No matching products</CommandEmpty>
+            <CommandGroup>
+              {items.map((item) => (
+                <CommandItem
+                  key={item.id}
+                  value={`${item.productHeading ?? ""} ${item.product} ${item.id}`}
+                  onSelect={() => {
+                    onSelect(item);
+                    setIsOpen(false);
+                  }}
+                >
+                  <div className="min-w-0">
+                    <p className="truncate">{item.product}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[item.productHeading, item.sqFtPerBox && `${item.sqFtPerBox} sq ft/box`].filter(Boolean).join(" • ")}
+                    </p>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,254 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Clock, Loader2, MessageSquare, Phone, Ruler, Trash2, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { Activity, ActivityOutcome, ActivityType, ACTIVITY_OUTCOMES, ACTIVITY_TYPES } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+const activityTypeLabels: Record<ActivityType, string> = {
+  call: "Call",
+  meeting: "Meeting",
+  site_visit: "Site Visit",
+  sms: "SMS",
+};
+
+const activityTypeIcons: Record<ActivityType, typeof Phone> = {
+  call: Phone,
+  meeting: Users,
+  site_visit: Ruler,
+  sms: MessageSquare,
+};
+
+const activityOutcomeLabels: Record<ActivityOutcome, string> = {
+  completed: "Completed",
+  no_answer: "No answer",
+  left_voicemail: "Left voicemail",
+  rescheduled: "Rescheduled",
+  cancelled: "Cancelled",
+  no_show: "No show",
+};
+
+const NO_OUTCOME = "__none__";
+
+const nowInputValue = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+interface LogActivityFormProps {
+  leadId: string;
+  onDone: () => void;
+}
+
+// Quick-log form for a call, meeting, site visit or text with the lead
+export function LogActivityForm({ leadId, onDone }: LogActivityFormProps) {
+  const { toast } = useToast();
+  const [type, setType] = useState<ActivityType>("call");
+  const [outcome, setOutcome] = useState(NO_OUTCOME);
+  const [duration, setDuration] = useState("");
+  const [notes, setNotes] = useState("");
+  const [occurredAt, setOccurredAt] = useState(nowInputValue);
+
+  const logActivityMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/leads/${leadId}/activities`, {
+        type,
+        outcome: outcome === NO_OUTCOME ? null : outcome,
+        durationMinutes: duration ? parseInt(duration, 10) : null,
+        notes: notes.trim() || null,
+        occurredAt: new Date(occurredAt).toISOString(),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads', leadId, 'activities'] });
+      toast({
+        title: "Activity logged",
+        description: `${activityTypeLabels[type]} added to the timeline.`,
+      });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to log activity",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!occurredAt) return;
+    logActivityMutation.mutate();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-3 border rounded-lg bg-muted/30" data-testid="form-log-activity">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={type}
+        onValueChange={(value) => value && setType(value as ActivityType)}
+        className="justify-start flex-wrap"
+      >
+        {ACTIVITY_TYPES.map((activityType) => {
+          const Icon = activityTypeIcons[activityType];
+          return (
+            <ToggleGroupItem key={activityType} value={activityType} className="gap-1" data-testid={`toggle-activity-${activityType}`}>
+              <Icon className="w-3.5 h-3.5" />
+              {activityTypeLabels[activityType]}
+            </ToggleGroupItem>
+          );
+        })}
+      </ToggleGroup>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Outcome</Label>
+          <Select value={outcome} onValueChange={setOutcome}>
+            <SelectTrigger className="h-9" data-testid="select-activity-outcome">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_OUTCOME}>—</SelectItem>
+              {ACTIVITY_OUTCOMES.map((value) => (
+                <SelectItem key={value} value={value}>{activityOutcomeLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="activity-duration" className="text-xs">Duration (min)</Label>
+          <Input
+            id="activity-duration"
+            type="number"
+            min={0}
+            max={1440}
+            className="h-9"
+            value={duration}
+            onChange={(e) => setDuration(e.target.value)}
+            data-testid="input-activity-duration"
+          />
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="activity-occurred-at" className="text-xs">When</Label>
+        <Input
+          id="activity-occurred-at"
+          type="datetime-local"
+          className="h-9"
+          value={occurredAt}
+          onChange={(e) => setOccurredAt(e.target.value)}
+        />
+      </div>
+      <Textarea
+        placeholder="What was discussed? e.g. Measured kitchen, 320 sq ft, wants samples of oak"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        className="min-h-[80px] text-sm"
+        data-testid="input-activity-notes"
+      />
+      <div className="flex gap-2">
+        <Button
+          type="submit"
+          size="sm"
+          className="flex-1 bg-fmd-green hover:bg-fmd-green/90"
+          disabled={!occurredAt || logActivityMutation.isPending}
+          data-testid="button-save-activity"
+        >
+          {logActivityMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Log {activityTypeLabels[type]}
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={onDone} disabled={logActivityMutation.isPending}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface ActivityTimelineItemProps {
+  activity: Activity;
+}
+
+export function ActivityTimelineItem({ activity }: ActivityTimelineItemProps) {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const { getMemberName } = useTeamMembers();
+  const type = activity.type as ActivityType;
+  const Icon = activityTypeIcons[type] ?? MessageSquare;
+  const loggedBy = getMemberName(activity.createdBy);
+
+  const deleteActivityMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("DELETE", `/api/activities/${activity.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads', activity.leadId, 'activities'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete activity",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = () => {
+    if (!confirm(`Delete this ${activityTypeLabels[type]?.toLowerCase() ?? "activity"}?`)) return;
+    deleteActivityMutation.mutate();
+  };
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2 bg-muted/20 group" data-testid={`activity-item-${activity.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2 flex-wrap">
+          <Badge variant="outline" className="gap-1">
+            <Icon className="w-3 h-3" />
+            {activityTypeLabels[type] ?? activity.type}
+          </Badge>
+          {activity.outcome && (
+            <span className="text-xs font-medium">{activityOutcomeLabels[activity.outcome as ActivityOutcome] ?? activity.outcome}</span>
+          )}
+          {activity.durationMinutes != null && (
+            <span className="text-xs text-muted-foreground flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {activity.durationMinutes} min
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <span className="text-xs text-muted-foreground">
+            {format(new Date(activity.occurredAt), "MMM d, h:mm a")}
+          </span>
+          {can(PERMISSIONS.LEADS_EDIT) && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6 opacity-0 group-hover:opacity-100"
+              onClick={handleDelete}
+              disabled={deleteActivityMutation.isPending}
+              aria-label="Delete activity"
+            >
+              <Trash2 className="w-3.5 h-3.5 text-red-600" />
+            </Button>
+          )}
+        </div>
+      </div>
+      {activity.notes && (
+        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{activity.notes}</p>
+      )}
+      {loggedBy && <p className="text-xs text-muted-foreground">Logged by {loggedBy}</p>}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React from "react";
-import { Mail, Clock, Building2, Phone, MessageSquare } from "lucide-react";
+import { Mail, Clock, Building2, Phone, MessageSquare, UserCircle, Gauge } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -7,72 +7,30 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Lead } from "@shared/schema";
 import { formatDistanceToNow, format } from "date-fns";
 import { useUnreadEmailCounts } from "@/lib/notificationStore";
+import { useAuth } from "@/hooks/use-auth";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { type LeadWithCompany } from "@/hooks/use-leads";
+import { TagBadge } from "@/components/tag-badge";
+import { PERMISSIONS } from "@shared/permissions";
 
 interface LeadCardProps {
-  lead: Lead;
+  lead: LeadWithCompany;
   onReply: (lead: Lead) => void;
   onViewDetails: (lead: Lead) => void;
   onStatusChange?: (leadId: string, status: string) => void;
 }
 
-const statusConfig: Record<string, { bg: string; text: string; ring: string }> = {
-  "New": { 
-    bg: "bg-gradient-to-r from-blue-500 to-indigo-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-blue-300 ring-offset-2" 
-  },
-  "Contacted": { 
-    bg: "bg-gradient-to-r from-purple-500 to-pink-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-purple-300 ring-offset-2" 
-  },
-  "Qualified": { 
-    bg: "bg-gradient-to-r from-emerald-500 to-green-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-emerald-300 ring-offset-2" 
-  },
-  "In Progress": { 
-    bg: "bg-gradient-to-r from-amber-500 to-orange-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-amber-300 ring-offset-2" 
-  },
-  "Follow-up": { 
-    bg: "bg-gradient-to-r from-cyan-500 to-teal-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-cyan-300 ring-offset-2" 
-  },
-  "Closed Won": { 
-    bg: "bg-gradient-to-r from-green-600 to-emerald-700", 
-    text: "text-white", 
-    ring: "ring-2 ring-green-400 ring-offset-2" 
-  },
-  "Closed Lost": { 
-    bg: "bg-gradient-to-r from-red-500 to-rose-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-red-300 ring-offset-2" 
-  },
-  "Closed": { 
-    bg: "bg-gradient-to-r from-gray-500 to-slate-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-gray-300 ring-offset-2" 
-  },
-};
-
-const statusOptions = [
-  "New",
-  "Contacted",
-  "Qualified",
-  "In Progress",
-  "Follow-up",
-  "Closed Won",
-  "Closed Lost",
-  "Closed"
-];
-
 export function LeadCard({ lead, onReply, onViewDetails, onStatusChange }: LeadCardProps) {
   const { perLeadUnread } = useUnreadEmailCounts();
   const unread = perLeadUnread[lead.id] || 0;
   const hasUnread = unread > 0;
+  const { can } = useAuth();
+  const { getMemberName } = useTeamMembers();
+  const ownerName = getMemberName(lead.assignedUserId);
+  const canChangeStatus = !!onStatusChange && can(PERMISSIONS.LEADS_EDIT);
+  const { stages, getStageColor } = usePipelineStages();
+  const statusColor = getStageColor(lead.status);
   
   return (
     <Card 
@@ -101,6 +59,23 @@ export function LeadCard({ lead, onReply, onViewDetails, onStatusChange }: LeadC
                 {(lead as any).company.name}
               </Badge>
             )}
+            {ownerName && (
+              <Badge variant="outline" className="text-xs sm:text-sm gap-1 font-medium px-2 sm:px-3 py-0.5 sm:py-1" data-testid={`badge-owner-${lead.id}`}>
+                <UserCircle className="w-3 h-3 sm:w-4 sm:h-4" />
+                {ownerName}
+              </Badge>
+            )}
+            <Badge
+              variant="outline"
+              className={`text-xs sm:text-sm gap-1 font-semibold px-2 sm:px-3 py-0.5 sm:py-1 ${
+                lead.score > 0 ? 'border-fmd-green text-fmd-green' : lead.score < 0 ? 'border-red-600 text-red-600' : 'text-muted-foreground'
+              }`}
+              title="Lead score"
+              data-testid={`badge-score-${lead.id}`}
+            >
+              <Gauge className="w-3 h-3 sm:w-4 sm:h-4" />
+              {lead.score}
+            </Badge>
           </div>
           <div className="flex flex-wrap items-center gap-2 text-sm sm:text-base mb-2">
             {lead.phone && (
@@ -129,6 +104,13 @@ export function LeadCard({ lead, onReply, onViewDetails, onStatusChange }: LeadC
               )}
             </div>
           </div>
+          {lead.tags && lead.tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 mb-2" data-testid={`tags-${lead.id}`}>
+              {lead.tags.map((tag) => (
+                <TagBadge key={tag.id} tag={tag} />
+              ))}
+            </div>
+          )}
           {lead.subject && (
             <div className="flex items-center gap-2 text-sm sm:text-base text-muted-foreground mb-2">
               <MessageSquare className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-fmd-burgundy flex-shrink-0" />
@@ -150,15 +132,15 @@ export function LeadCard({ lead, onReply, onViewDetails, onStatusChange }: LeadC
           </div>
         </div>
         <div className="flex flex-col items-end gap-2 flex-shrink-0">
-          {onStatusChange ? (
+          {canChangeStatus ? (
             <div className="relative w-full min-w-[100px] sm:min-w-[120px]">
-              <div className={`${statusConfig[lead.status]?.bg || 'bg-gray-500'} ${statusConfig[lead.status]?.text || 'text-white'} px-2 sm:px-4 h-8 sm:h-10 rounded-lg font-bold text-xs sm:text-base shadow-md ${statusConfig[lead.status]?.ring || ''} transition-all hover:shadow-lg flex items-center justify-center`}>
+              <div className="text-white px-2 sm:px-4 h-8 sm:h-10 rounded-lg font-bold text-xs sm:text-base shadow-md ring-2 ring-black/10 ring-offset-2 transition-all hover:shadow-lg flex items-center justify-center" style={{ backgroundColor: statusColor }}>
                 {lead.status}
               </div>
               <Select 
                 value={lead.status} 
                 onValueChange={(value) => {
-                  onStatusChange(lead.id, value);
+                  onStatusChange!(lead.id, value);
                 }}
               >
                 <SelectTrigger 
@@ -169,27 +151,24 @@ export function LeadCard({ lead, onReply, onViewDetails, onStatusChange }: LeadC
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent onClick={(e) => e.stopPropagation()} className="text-sm sm:text-base">
-                  {statusOptions.map((status) => {
-                    const config = statusConfig[status];
-                    return (
-                      <SelectItem 
-                        key={status} 
-                        value={status} 
-                        data-testid={`option-status-${status.toLowerCase().replace(/\s+/g, '-')}`}
-                        className="cursor-pointer"
-                      >
-                        <div className="flex items-center gap-2">
-                          <div className={`w-2.5 h-2.5 sm:w-3 sm:h-3 rounded-full ${config?.bg || 'bg-gray-500'}`}></div>
-                          <span className="font-semibold">{status}</span>
-                        </div>
-                      </SelectItem>
-                    );
-                  })}
+                  {stages.map(({ name: status, color }) => (
+                    <SelectItem 
+                      key={status} 
+                      value={status} 
+                      data-testid={`option-status-${status.toLowerCase().replace(/\s+/g, '-')}`}
+                      className="cursor-pointer"
+                    >
+                      <div className="flex items-center gap-2">
+                        <div className="w-2.5 h-2.5 sm:w-3 sm:h-3 rounded-full" style={{ backgroundColor: color }}></div>
+                        <span className="font-semibold">{status}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           ) : (
-            <div className={`${statusConfig[lead.status]?.bg || 'bg-gray-500'} ${statusConfig[lead.status]?.text || 'text-white'} px-2 sm:px-4 h-8 sm:h-10 rounded-lg font-bold text-xs sm:text-base shadow-md ${statusConfig[lead.status]?.ring || ''} flex items-center justify-center w-full min-w-[100px] sm:min-w-[120px]`} data-testid={`badge-status-${lead.id}`}>
+            <div className="text-white px-2 sm:px-4 h-8 sm:h-10 rounded-lg font-bold text-xs sm:text-base shadow-md ring-2 ring-black/10 ring-offset-2 flex items-center justify-center w-full min-w-[100px] sm:min-w-[120px]" style={{ backgroundColor: statusColor }} data-testid={`badge-status-${lead.id}`}>
               {lead.status}
             </div>
           )}
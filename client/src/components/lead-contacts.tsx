@@ -0,0 +1,269 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Contact as ContactIcon, Loader2, Mail, Pencil, Phone, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Contact, ContactRole, CONTACT_ROLES } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+export const contactRoleLabels: Record<ContactRole, string> = {
+  homeowner: "Homeowner",
+  contractor: "Contractor",
+  property_manager: "Property Manager",
+  designer: "Designer",
+  architect: "Architect",
+  other: "Other",
+};
+
+interface ContactFormState {
+  name: string;
+  email: string;
+  phone: string;
+  role: ContactRole;
+}
+
+const emptyForm: ContactFormState = {
+  name: "",
+  email: "",
+  phone: "",
+  role: "contractor",
+};
+
+interface LeadContactsProps {
+  leadId: string;
+}
+
+export function LeadContacts({ leadId }: LeadContactsProps) {
+  const { can } = useAuth();
+  const canEdit = can(PERMISSIONS.LEADS_EDIT);
+  const { toast } = useToast();
+  const [editingContact, setEditingContact] = useState<Contact | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<ContactFormState>(emptyForm);
+
+  const { data: contacts = [] } = useQuery<Contact[]>({
+    queryKey: ['/api/leads', leadId, 'contacts'],
+    staleTime: 0,
+  });
+
+  const invalidateContacts = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/leads', leadId, 'contacts'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/companies'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveContactMutation = useMutation({
+    mutationFn: async (data: ContactFormState) => {
+      const payload = {
+        name: data.name.trim(),
+        email: data.email.trim() || null,
+        phone: data.phone.trim() || null,
+        role: data.role,
+      };
+      if (editingContact) {
+        return apiRequest("PATCH", `/api/contacts/${editingContact.id}`, payload);
+      }
+      return apiRequest("POST", `/api/leads/${leadId}/contacts`, payload);
+    },
+    onSuccess: () => {
+      invalidateContacts();
+      closeDialog();
+    },
+    onError: showError("Failed to save contact"),
+  });
+
+  const deleteContactMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/contacts/${id}`);
+    },
+    onSuccess: invalidateContacts,
+    onError: showError("Failed to delete contact"),
+  });
+
+  const openCreate = () => {
+    setEditingContact(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (contact: Contact) => {
+    setEditingContact(contact);
+    setForm({
+      name: contact.name,
+      email: contact.email ?? "",
+      phone: contact.phone ?? "",
+      role: contact.role as ContactRole,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingContact(null);
+    setForm(emptyForm);
+  };
+
+  const handleDelete = (contact: Contact) => {
+    if (!confirm(`Remove ${contact.name} from this lead?`)) return;
+    deleteContactMutation.mutate(contact.id);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveContactMutation.mutate(form);
+  };
+
+  return (
+    <div data-testid="section-lead-contacts">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs text-muted-foreground font-semibold uppercase tracking-wide flex items-center gap-2">
+          <ContactIcon className="w-4 h-4" />
+          Contacts
+        </label>
+        {canEdit && (
+          <Button variant="ghost" size="sm" onClick={openCreate} className="h-8" data-testid="button-add-contact">
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {contacts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No other contacts</p>
+      ) : (
+        <ul className="space-y-2">
+          {contacts.map((contact) => (
+            <li key={contact.id} className="flex items-start gap-2 group" data-testid={`contact-${contact.id}`}>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{contact.name}</span>
+                  <Badge variant="secondary" className="text-xs">
+                    {contactRoleLabels[contact.role as ContactRole] ?? contact.role}
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                  {contact.email && (
+                    <a href={`mailto:${contact.email}`} className="flex items-center gap-1 hover:underline truncate">
+                      <Mail className="w-3 h-3" />
+                      {contact.email}
+                    </a>
+                  )}
+                  {contact.phone && (
+                    <a href={`tel:${contact.phone}`} className="flex items-center gap-1 hover:underline">
+                      <Phone className="w-3 h-3" />
+                      {contact.phone}
+                    </a>
+                  )}
+                </div>
+              </div>
+              {canEdit && (
+                <div className="flex items-center opacity-0 group-hover:opacity-100">
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => openEdit(contact)} aria-label={`Edit ${contact.name}`}>
+                    <Pencil className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => handleDelete(contact)}
+                    disabled={deleteContactMutation.isPending}
+                    aria-label={`Remove ${contact.name}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-red-600" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingContact ? "Edit Contact" : "Add Contact"}</DialogTitle>
+            <DialogDescription>
+              Replies from a contact's email address are filed under this lead
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="contact-name">Name</Label>
+                <Input
+                  id="contact-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={form.role} onValueChange={(value) => setForm({ ...form, role: value as ContactRole })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONTACT_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{contactRoleLabels[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-email">Email</Label>
+                <Input
+                  id="contact-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact-phone">Phone</Label>
+                <Input
+                  id="contact-phone"
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeDialog} disabled={saveContactMutation.isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!form.name.trim() || saveContactMutation.isPending}>
+                {saveContactMutation.isPending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingContact ? (
+                  "Save Changes"
+                ) : (
+                  "Add Contact"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React from "react";
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Edit, Save, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCustomFields } from "@/hooks/use-custom-fields";
+import { CustomFieldInputs, toCustomFieldFormValues, toCustomFieldPayload, type CustomFieldFormValues } from "@/components/custom-field-inputs";
+import { CustomField, Lead } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+interface LeadCustomFieldsProps {
+  lead: Lead;
+}
+
+function formatValue(field: CustomField, value: string | number): string {
+  if (field.type === "date" && typeof value === "string") return format(parseISO(value), "MMM d, yyyy");
+  if (field.type === "number" && typeof value === "number") return value.toLocaleString();
+  return String(value);
+}
+
+export function LeadCustomFields({ lead }: LeadCustomFieldsProps) {
+  const { can } = useAuth();
+  const canEdit = can(PERMISSIONS.LEADS_EDIT);
+  const { toast } = useToast();
+  const { fields } = useCustomFields("lead");
+  const [isEditing, setIsEditing] = useState(false);
+  const [values, setValues] = useState<CustomFieldFormValues>({});
+
+  useEffect(() => {
+    setValues(toCustomFieldFormValues(lead.customFields));
+    setIsEditing(false);
+  }, [lead.id, lead.customFields]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("PATCH", `/api/leads/${lead.id}/custom-fields`, { customFields: toCustomFieldPayload(values) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      setIsEditing(false);
+      toast({
+        title: "Fields updated",
+        description: "The lead's custom fields have been saved.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save fields",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (fields.length === 0) return null;
+
+  return (
+    <div data-testid="section-custom-fields">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs text-muted-foreground font-semibold uppercase tracking-wide flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Additional Fields
+        </label>
+        {!isEditing && canEdit && (
+          <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)} className="h-8">
+            <Edit className="w-4 h-4 mr-1" />
+            Edit
+          </Button>
+        )}
+      </div>
+      {isEditing ? (
+        <div className="space-y-3">
+          <CustomFieldInputs fields={fields} values={values} onChange={setValues} />
+          <div className="flex gap-2">
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending}
+              className="flex-1 bg-fmd-green hover:bg-fmd-green/90"
+              size="sm"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saveMutation.isPending ? "Saving..." : "Save Fields"}
+            </Button>
+            <Button
+              onClick={() => {
+                setValues(toCustomFieldFormValues(lead.customFields));
+                setIsEditing(false);
+              }}
+              disabled={saveMutation.isPending}
+              variant="outline"
+              size="sm"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+          {fields.map((field) => {
+            const value = lead.customFields?.[field.key];
+            return (
+              <div key={field.id} className="min-w-0">
+                <dt className="text-xs text-muted-foreground">{field.label}</dt>
+                <dd className="truncate" data-testid={`text-custom-field-${field.key}`}>
+                  {value === undefined ? <span className="text-muted-foreground">—</span> : formatValue(field, value)}
+                </dd>
+              </div>
+            );
+          })}
+        </dl>
+      )}
+    </div>
+  );
+}
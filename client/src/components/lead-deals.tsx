@@ -0,0 +1,329 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarDays, DollarSign, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Deal, DealStage, DEAL_STAGES, DEAL_STAGE_PROBABILITIES, CLOSED_DEAL_STAGES } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+interface LeadDealsProps {
+  leadId: string;
+}
+
+export const dealStageLabels: Record<DealStage, string> = {
+  qualification: "Qualification",
+  proposal: "Proposal",
+  negotiation: "Negotiation",
+  won: "Won",
+  lost: "Lost",
+};
+
+const stageBadgeClasses: Partial<Record<DealStage, string>> = {
+  won: "border-fmd-green text-fmd-green",
+  lost: "border-red-600 text-red-600",
+};
+
+interface DealFormState {
+  name: string;
+  amount: string;
+  expectedCloseDate: string;
+  probability: string;
+  stage: DealStage;
+}
+
+const emptyForm: DealFormState = {
+  name: "",
+  amount: "",
+  expectedCloseDate: "",
+  probability: String(DEAL_STAGE_PROBABILITIES.qualification),
+  stage: "qualification",
+};
+
+export function LeadDeals({ leadId }: LeadDealsProps) {
+  const { can } = useAuth();
+  const canEdit = can(PERMISSIONS.LEADS_EDIT);
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null); // "new" while adding
+  const [form, setForm] = useState<DealFormState>(emptyForm);
+
+  const { data: deals = [], isLoading } = useQuery<Deal[]>({
+    queryKey: ['/api/leads', leadId, 'deals'],
+    staleTime: 0,
+  });
+
+  // Closing a deal moves the lead to a won or lost stage, so the lead lists change too
+  const invalidateDeals = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/forecast'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const saveDealMutation = useMutation({
+    mutationFn: async (data: DealFormState) => {
+      const payload = {
+        name: data.name.trim(),
+        amount: Number(data.amount),
+        expectedCloseDate: data.expectedCloseDate || null,
+        probability: Number(data.probability),
+        stage: data.stage,
+      };
+      if (editingId && editingId !== "new") {
+        return apiRequest("PATCH", `/api/deals/${editingId}`, payload);
+      }
+      return apiRequest("POST", `/api/leads/${leadId}/deals`, payload);
+    },
+    onSuccess: (_, data) => {
+      invalidateDeals();
+      if (CLOSED_DEAL_STAGES.includes(data.stage)) {
+        toast({ title: `Deal ${data.stage}`, description: "The lead's stage has been updated." });
+      }
+      resetForm();
+    },
+    onError: showError("Failed to save deal"),
+  });
+
+  const stageMutation = useMutation({
+    mutationFn: async ({ id, stage }: { id: string; stage: DealStage }) => {
+      return apiRequest("PATCH", `/api/deals/${id}`, { stage });
+    },
+    onSuccess: (_, { stage }) => {
+      invalidateDeals();
+      if (CLOSED_DEAL_STAGES.includes(stage)) {
+        toast({ title: `Deal ${stage}`, description: "The lead's stage has been updated." });
+      }
+    },
+    onError: showError("Failed to update deal"),
+  });
+
+  const deleteDealMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/deals/${id}`);
+    },
+    onSuccess: invalidateDeals,
+    onError: showError("Failed to delete deal"),
+  });
+
+  const openEdit = (deal: Deal) => {
+    setEditingId(deal.id);
+    setForm({
+      name: deal.name,
+      amount: String(Number(deal.amount)),
+      expectedCloseDate: deal.expectedCloseDate ?? "",
+      probability: String(deal.probability),
+      stage: deal.stage as DealStage,
+    });
+  };
+
+  const handleDelete = (deal: Deal) => {
+    if (!confirm(`Delete the deal "${deal.name}"?`)) return;
+    deleteDealMutation.mutate(deal.id);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveDealMutation.mutate(form);
+  };
+
+  const probability = Number(form.probability);
+  const isFormValid = form.name.trim() && form.amount.trim() !== "" && Number(form.amount) >= 0
+    && Number.isInteger(probability) && probability >= 0 && probability <= 100;
+  const isClosedStage = CLOSED_DEAL_STAGES.includes(form.stage);
+  const openTotal = deals
+    .filter(deal => !CLOSED_DEAL_STAGES.includes(deal.stage as DealStage))
+    .reduce((sum, deal) => sum + Number(deal.amount), 0);
+
+  const dealForm = (
+    <form onSubmit={handleSubmit} className="space-y-2 mb-3 p-3 border rounded-md bg-muted/30">
+      <Input
+        placeholder="e.g. Lobby tile, 2,400 sq ft"
+        value={form.name}
+        onChange={(e) => setForm({ ...form, name: e.target.value })}
+        autoFocus
+        data-testid="input-deal-name"
+      />
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min={0}
+          step="0.01"
+          placeholder="Amount"
+          value={form.amount}
+          onChange={(e) => setForm({ ...form, amount: e.target.value })}
+          className="flex-1"
+          aria-label="Amount"
+          data-testid="input-deal-amount"
+        />
+        <Input
+          type="date"
+          value={form.expectedCloseDate}
+          onChange={(e) => setForm({ ...form, expectedCloseDate: e.target.value })}
+          className="flex-1"
+          aria-label="Expected close date"
+          data-testid="input-deal-close-date"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Select
+          value={form.stage}
+          onValueChange={(value) => {
+            const stage = value as DealStage;
+            setForm({ ...form, stage, probability: String(DEAL_STAGE_PROBABILITIES[stage]) });
+          }}
+        >
+          <SelectTrigger className="flex-1" data-testid="select-deal-stage">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DEAL_STAGES.map((stage) => (
+              <SelectItem key={stage} value={stage}>{dealStageLabels[stage]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="relative w-28">
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={form.probability}
+            onChange={(e) => setForm({ ...form, probability: e.target.value })}
+            disabled={isClosedStage}
+            className="pr-7"
+            aria-label="Probability"
+            data-testid="input-deal-probability"
+          />
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">%</span>
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="submit"
+          size="sm"
+          className="flex-1 bg-fmd-green hover:bg-fmd-green/90"
+          disabled={!isFormValid || saveDealMutation.isPending}
+        >
+          {saveDealMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {editingId === "new" ? "Add Deal" : "Save Deal"}
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={resetForm} disabled={saveDealMutation.isPending}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div data-testid="section-lead-deals">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs text-muted-foreground font-semibold uppercase tracking-wide flex items-center gap-2">
+          <DollarSign className="w-4 h-4" />
+          Deals {openTotal > 0 && `(${formatCurrency(openTotal)} open)`}
+        </label>
+        {!editingId && canEdit && (
+          <Button variant="ghost" size="sm" onClick={() => setEditingId("new")} className="h-8" data-testid="button-add-deal">
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {editingId === "new" && dealForm}
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : deals.length === 0 ? (
+        editingId !== "new" && <p className="text-sm text-muted-foreground">No deals</p>
+      ) : (
+        <ul className="space-y-2">
+          {deals.map((deal) => editingId === deal.id ? (
+            <li key={deal.id}>{dealForm}</li>
+          ) : (
+            <li key={deal.id} className="flex items-start gap-2 group" data-testid={`deal-${deal.id}`}>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium truncate">{deal.name}</p>
+                  <span className="text-sm">{formatCurrency(deal.amount)}</span>
+                </div>
+                <p className="text-xs text-muted-foreground flex flex-wrap items-center gap-x-2">
+                  <span>{deal.probability}% likely</span>
+                  {deal.expectedCloseDate && (
+                    <span className="flex items-center gap-1">
+                      <CalendarDays className="w-3 h-3" />
+                      Closes {format(new Date(`${deal.expectedCloseDate}T00:00:00`), "MMM d, yyyy")}
+                    </span>
+                  )}
+                </p>
+              </div>
+              {canEdit ? (
+                <Select
+                  value={deal.stage}
+                  onValueChange={(stage) => stageMutation.mutate({ id: deal.id, stage: stage as DealStage })}
+                  disabled={stageMutation.isPending}
+                >
+                  <SelectTrigger className="h-7 w-32 text-xs" data-testid={`select-deal-stage-${deal.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEAL_STAGES.map((stage) => (
+                      <SelectItem key={stage} value={stage}>{dealStageLabels[stage]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Badge variant="outline" className={`text-xs ${stageBadgeClasses[deal.stage as DealStage] ?? ""}`}>
+                  {dealStageLabels[deal.stage as DealStage] ?? deal.stage}
+                </Badge>
+              )}
+              {canEdit && (
+                <div className="flex opacity-0 group-hover:opacity-100">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => openEdit(deal)}
+                    disabled={!!editingId}
+                    aria-label={`Edit deal "${deal.name}"`}
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => handleDelete(deal)}
+                    disabled={deleteDealMutation.isPending}
+                    aria-label={`Delete deal "${deal.name}"`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-red-600" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React from "react";
-import { X, Mail, Clock, User, Edit, ChevronDown, ChevronUp, Phone, MessageSquare, Save, FileText } from "lucide-react";
+import { X, Mail, Clock, User, UserCircle, Edit, ChevronDown, ChevronUp, Phone, MessageSquare, Save, FileText, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
@@ -11,9 +11,24 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Lead, Email } from "@shared/schema";
+import { Lead, Email, Activity, LeadAssignmentLogEntry } from "@shared/schema";
 import { formatDistanceToNow, format } from "date-fns";
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { LeadStageTimeline } from "@/components/lead-stage-timeline";
+import { LeadCustomFields } from "@/components/lead-custom-fields";
+import { LeadTags } from "@/components/lead-tags";
+import { LeadTasks } from "@/components/lead-tasks";
+import { LeadProducts } from "@/components/lead-products";
+import { LeadDeals } from "@/components/lead-deals";
+import { LeadQuotes } from "@/components/lead-quotes";
+import { LeadContacts } from "@/components/lead-contacts";
+import { LogActivityForm, ActivityTimelineItem } from "@/components/lead-activity";
+import { type LeadWithCompany } from "@/hooks/use-leads";
+import { PERMISSIONS } from "@shared/permissions";
 
 interface LeadDetailPanelProps {
   lead: Lead | null;
@@ -23,67 +38,37 @@ interface LeadDetailPanelProps {
   onReply: (lead: Lead) => void;
   onEdit?: (lead: Lead) => void;
   onUpdateNotes?: (leadId: string, notes: string) => void;
+  onAssign?: (leadId: string, userId: string | null) => void;
 }
 
-const statusConfig: Record<string, { bg: string; text: string; ring: string }> = {
-  "New": { 
-    bg: "bg-gradient-to-r from-blue-500 to-indigo-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-blue-300 ring-offset-2" 
-  },
-  "Contacted": { 
-    bg: "bg-gradient-to-r from-purple-500 to-pink-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-purple-300 ring-offset-2" 
-  },
-  "Qualified": { 
-    bg: "bg-gradient-to-r from-emerald-500 to-green-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-emerald-300 ring-offset-2" 
-  },
-  "In Progress": { 
-    bg: "bg-gradient-to-r from-amber-500 to-orange-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-amber-300 ring-offset-2" 
-  },
-  "Follow-up": { 
-    bg: "bg-gradient-to-r from-cyan-500 to-teal-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-cyan-300 ring-offset-2" 
-  },
-  "Closed Won": { 
-    bg: "bg-gradient-to-r from-green-600 to-emerald-700", 
-    text: "text-white", 
-    ring: "ring-2 ring-green-400 ring-offset-2" 
-  },
-  "Closed Lost": { 
-    bg: "bg-gradient-to-r from-red-500 to-rose-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-red-300 ring-offset-2" 
-  },
-  "Closed": { 
-    bg: "bg-gradient-to-r from-gray-500 to-slate-600", 
-    text: "text-white", 
-    ring: "ring-2 ring-gray-300 ring-offset-2" 
-  },
-};
-
-const statusOptions = [
-  "New",
-  "Contacted",
-  "Qualified",
-  "In Progress",
-  "Follow-up",
-  "Closed Won",
-  "Closed Lost",
-  "Closed"
-];
-
-export function LeadDetailPanel({ lead, emails, onClose, onStatusChange, onReply, onEdit, onUpdateNotes }: LeadDetailPanelProps) {
+// Emails and logged activities, shown together newest first
+type TimelineEntry =
+  | { kind: "email"; at: number; email: Email }
+  | { kind: "activity"; at: number; activity: Activity };
+
+export function LeadDetailPanel({ lead, emails, onClose, onStatusChange, onReply, onEdit, onUpdateNotes, onAssign }: LeadDetailPanelProps) {
   const [expandedEmails, setExpandedEmails] = useState<Set<string>>(new Set());
   const [notes, setNotes] = useState(lead?.notes || "");
   const [isSavingNotes, setIsSavingNotes] = useState(false);
   const [isEditingNotes, setIsEditingNotes] = useState(false);
+  const [isLoggingActivity, setIsLoggingActivity] = useState(false);
+  const { can } = useAuth();
+  const canEdit = can(PERMISSIONS.LEADS_EDIT);
+  const { members, getMemberName } = useTeamMembers();
+  const { stages, getStageColor } = usePipelineStages();
+
+  const { data: activities = [] } = useQuery<Activity[]>({
+    queryKey: ['/api/leads', lead?.id, 'activities'],
+    enabled: !!lead,
+    staleTime: 0,
+  });
+
+  // Why the rules gave the lead to its first owner; newest first
+  const { data: assignmentLog = [] } = useQuery<LeadAssignmentLogEntry[]>({
+    queryKey: ['/api/leads', lead?.id, 'assignment-log'],
+    enabled: !!lead,
+    staleTime: 0,
+  });
 
   // Sync notes when lead changes
   useEffect(() => {
@@ -91,8 +76,19 @@ export function LeadDetailPanel({ lead, emails, onClose, onStatusChange, onReply
     setIsEditingNotes(false); // Exit edit mode when lead changes
   }, [lead?.id, lead?.notes]);
 
+  useEffect(() => {
+    setIsLoggingActivity(false);
+  }, [lead?.id]);
+
   if (!lead) return null;
 
+  const timeline: TimelineEntry[] = [
+    ...emails.map((email): TimelineEntry => ({ kind: "email", at: new Date(email.sentAt).getTime(), email })),
+    ...activities.map((activity): TimelineEntry => ({ kind: "activity", at: new Date(activity.occurredAt).getTime(), activity })),
+  ].sort((a, b) => b.at - a.at);
+
+  const statusColor = getStageColor(lead.status);
+
   const handleSaveNotes = async () => {
     if (!onUpdateNotes) return;
     setIsSavingNotes(true);
@@ -134,7 +130,7 @@ export function LeadDetailPanel({ lead, emails, onClose, onStatusChange, onReply
       <div className="sticky top-0 bg-card border-b p-4 flex items-center justify-between">
         <h2 className="text-lg font-semibold">Lead Details</h2>
         <div className="flex gap-2">
-          {onEdit && (
+          {onEdit && canEdit && (
             <Button variant="ghost" size="icon" onClick={() => onEdit(lead)} title="Edit Lead">
               <Edit className="w-4 h-4" />
             </Button>
@@ -201,20 +197,19 @@ export function LeadDetailPanel({ lead, emails, onClose, onStatusChange, onReply
           <div>
             <label className="text-xs text-muted-foreground mb-3 block font-semibold uppercase tracking-wide">Status</label>
             <div className="relative">
-              <div className={`${statusConfig[lead.status]?.bg || 'bg-gray-500'} ${statusConfig[lead.status]?.text || 'text-white'} px-5 py-3 rounded-xl font-bold text-sm shadow-lg ${statusConfig[lead.status]?.ring || ''} transition-all hover:shadow-xl text-center`}>
+              <div className="text-white px-5 py-3 rounded-xl font-bold text-sm shadow-lg ring-2 ring-black/10 ring-offset-2 transition-all hover:shadow-xl text-center" style={{ backgroundColor: statusColor }}>
                 {lead.status}
               </div>
-              <Select
-                value={lead.status}
-                onValueChange={(value) => onStatusChange(lead.id, value)}
-              >
-                <SelectTrigger className="absolute inset-0 opacity-0 w-full h-full cursor-pointer" data-testid="select-status">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {statusOptions.map((status) => {
-                    const config = statusConfig[status];
-                    return (
+              {canEdit && (
+                <Select
+                  value={lead.status}
+                  onValueChange={(value) => onStatusChange(lead.id, value)}
+                >
+                  <SelectTrigger className="absolute inset-0 opacity-0 w-full h-full cursor-pointer" data-testid="select-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stages.map(({ name: status, color }) => (
                       <SelectItem 
                         key={status} 
                         value={status} 
@@ -222,15 +217,49 @@ export function LeadDetailPanel({ lead, emails, onClose, onStatusChange, onReply
                         className="cursor-pointer"
                       >
                         <div className="flex items-center gap-2">
-                          <div className={`w-3 h-3 rounded-full ${config?.bg || 'bg-gray-500'}`}></div>
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: color }}></div>
                           <span className="font-semibold">{status}</span>
                         </div>
                       </SelectItem>
-                    );
-                  })}
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="text-xs text-muted-foreground mb-2 block font-semibold uppercase tracking-wide">Assigned To</label>
+            {onAssign && canEdit ? (
+              <Select
+                value={lead.assignedUserId || "__none__"}
+                onValueChange={(value) => onAssign(lead.id, value === "__none__" ? null : value)}
+              >
+                <SelectTrigger data-testid="select-owner">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__none__">
+                    <span className="text-muted-foreground">Unassigned</span>
+                  </SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.displayName || member.username}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
-            </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <UserCircle className="w-4 h-4 text-muted-foreground" />
+                <p className="text-sm">{getMemberName(lead.assignedUserId) || "Unassigned"}</p>
+              </div>
+            )}
+            {assignmentLog[0] && (
+              <p className="text-xs text-muted-foreground mt-1" data-testid="text-assignment-reason">
+                {assignmentLog[0].reason}
+              </p>
+            )}
           </div>
 
           <div>
@@ -243,6 +272,32 @@ export function LeadDetailPanel({ lead, emails, onClose, onStatusChange, onReply
             </div>
           </div>
 
+          <LeadContacts leadId={lead.id} />
+
+          <LeadTags leadId={lead.id} tags={(lead as LeadWithCompany).tags ?? []} />
+
+          <LeadCustomFields lead={lead} />
+
+          <Separator />
+
+          <LeadStageTimeline lead={lead} />
+
+          <Separator />
+
+          <LeadProducts leadId={lead.id} />
+
+          <Separator />
+
+          <LeadDeals leadId={lead.id} />
+
+          <Separator />
+
+          <LeadQuotes leadId={lead.id} />
+
+          <Separator />
+
+          <LeadTasks lead={lead} />
+
           <Separator />
 
           <div>
@@ -251,7 +306,7 @@ export function LeadDetailPanel({ lead, emails, onClose, onStatusChange, onReply
                 <FileText className="w-4 h-4" />
                 Notes / Comments
               </label>
-              {!isEditingNotes && (
+              {!isEditingNotes && canEdit && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -299,38 +354,55 @@ export function LeadDetailPanel({ lead, emails, onClose, onStatusChange, onReply
                   className="min-h-[120px] p-3 rounded-md border bg-muted/30 text-sm whitespace-pre-wrap"
                   data-testid="notes-display"
                 >
-                  {notes || <span className="text-muted-foreground italic">No notes yet. Click Edit to add notes.</span>}
+                  {notes || <span className="text-muted-foreground italic">{canEdit ? "No notes yet. Click Edit to add notes." : "No notes yet."}</span>}
                 </div>
               )}
             </div>
           </div>
 
-          <Button className="w-full" onClick={() => onReply(lead)} data-testid="button-reply-detail">
-            <Mail className="w-4 h-4 mr-2" />
-            Send Email
-          </Button>
+          {can(PERMISSIONS.EMAILS_SEND) && (
+            <Button className="w-full" onClick={() => onReply(lead)} data-testid="button-reply-detail">
+              <Mail className="w-4 h-4 mr-2" />
+              Send Email
+            </Button>
+          )}
         </div>
 
         <Separator />
 
         <div className="space-y-4">
-          <h3 className="text-sm font-semibold">Communication History</h3>
-          {emails.length === 0 ? (
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Communication History</h3>
+            {canEdit && !isLoggingActivity && (
+              <Button variant="ghost" size="sm" onClick={() => setIsLoggingActivity(true)} className="h-8" data-testid="button-log-activity">
+                <Plus className="w-4 h-4 mr-1" />
+                Log Activity
+              </Button>
+            )}
+          </div>
+          {isLoggingActivity && (
+            <LogActivityForm leadId={lead.id} onDone={() => setIsLoggingActivity(false)} />
+          )}
+          {timeline.length === 0 ? (
             <div className="text-center py-8">
               <Mail className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-              <p className="text-sm text-muted-foreground">No emails yet</p>
+              <p className="text-sm text-muted-foreground">No emails or activities yet</p>
               <p className="text-xs text-muted-foreground mt-1">
-                Start the conversation by sending an email
+                Start the conversation by sending an email or logging a call
               </p>
             </div>
           ) : (
             <div className="space-y-3">
-              {emails.map((email) => {
+              {timeline.map((entry) => {
+                if (entry.kind === "activity") {
+                  return <ActivityTimelineItem key={`activity-${entry.activity.id}`} activity={entry.activity} />;
+                }
+                const { email } = entry;
                 const isExpanded = expandedEmails.has(email.id);
                 const isHtml = email.body.trim().startsWith('<');
                 
                 return (
-                  <div key={email.id} className="border rounded-lg p-3 space-y-2" data-testid={`email-item-${email.id}`}>
+                  <div key={`email-${email.id}`} className="border rounded-lg p-3 space-y-2" data-testid={`email-item-${email.id}`}>
                     <div className="flex items-start justify-between gap-2">
                       <Badge variant={email.direction === "sent" ? "default" : "secondary"}>
                         {email.direction === "sent" ? "Sent" : "Received"}
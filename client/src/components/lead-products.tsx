@@ -0,0 +1,251 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Package, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InventoryProductPicker } from "@/components/inventory-product-picker";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Inventory, LeadProductWithItem, inventoryNumber } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+interface LeadProductsProps {
+  leadId: string;
+}
+
+export function LeadProducts({ leadId }: LeadProductsProps) {
+  const { can } = useAuth();
+  const canEdit = can(PERMISSIONS.LEADS_EDIT);
+  const { toast } = useToast();
+  const [isAdding, setIsAdding] = useState(false);
+  const [inventoryId, setInventoryId] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [sqFt, setSqFt] = useState("");
+
+  const { data: products = [], isLoading } = useQuery<LeadProductWithItem[]>({
+    queryKey: ['/api/leads', leadId, 'products'],
+    staleTime: 0,
+  });
+
+  const { data: items = [] } = useQuery<Inventory[]>({
+    queryKey: ["/api/inventory"],
+    enabled: isAdding,
+  });
+
+  const linkedIds = new Set(products.map(link => link.inventoryId));
+  const availableItems = items.filter(item => !linkedIds.has(item.id));
+
+  // The inventory page shows how many leads wait on each product
+  const invalidateProducts = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/leads', leadId, 'products'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/inventory/waiting-leads'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setEditingId(null);
+    setInventoryId("");
+    setSqFt("");
+  };
+
+  const addProductMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/leads/${leadId}/products`, {
+        inventoryId,
+        sqFt: sqFt.trim() ? Number(sqFt) : null,
+      });
+    },
+    onSuccess: () => {
+      invalidateProducts();
+      resetForm();
+    },
+    onError: showError("Failed to add product"),
+  });
+
+  const updateProductMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("PATCH", `/api/lead-products/${id}`, { sqFt: sqFt.trim() ? Number(sqFt) : null });
+    },
+    onSuccess: () => {
+      invalidateProducts();
+      resetForm();
+    },
+    onError: showError("Failed to update product"),
+  });
+
+  const removeProductMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/lead-products/${id}`);
+    },
+    onSuccess: invalidateProducts,
+    onError: showError("Failed to remove product"),
+  });
+
+  const openEdit = (link: LeadProductWithItem) => {
+    setIsAdding(false);
+    setEditingId(link.id);
+    setSqFt(link.sqFt ? String(Number(link.sqFt)) : "");
+  };
+
+  const handleRemove = (link: LeadProductWithItem) => {
+    if (!confirm(`Remove ${link.item?.product ?? "this product"} from the lead?`)) return;
+    removeProductMutation.mutate(link.id);
+  };
+
+  const isSqFtValid = sqFt.trim() === "" || Number(sqFt) > 0;
+
+  const sqFtInput = (
+    <Input
+      type="number"
+      min={0}
+      step="any"
+      placeholder="Sq ft (optional)"
+      value={sqFt}
+      onChange={(e) => setSqFt(e.target.value)}
+      aria-label="Square feet wanted"
+      data-testid="input-lead-product-sqft"
+    />
+  );
+
+  return (
+    <div data-testid="section-lead-products">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs text-muted-foreground font-semibold uppercase tracking-wide flex items-center gap-2">
+          <Package className="w-4 h-4" />
+          Products of Interest
+        </label>
+        {!isAdding && !editingId && canEdit && (
+          <Button variant="ghost" size="sm" onClick={() => setIsAdding(true)} className="h-8" data-testid="button-add-lead-product">
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {isAdding && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addProductMutation.mutate();
+          }}
+          className="space-y-2 mb-3 p-3 border rounded-md bg-muted/30"
+        >
+          <InventoryProductPicker items={availableItems} value={inventoryId} onSelect={(item) => setInventoryId(item.id)} />
+          {sqFtInput}
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              size="sm"
+              className="flex-1 bg-fmd-green hover:bg-fmd-green/90"
+              disabled={!inventoryId || !isSqFtValid || addProductMutation.isPending}
+            >
+              {addProductMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add Product
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={resetForm} disabled={addProductMutation.isPending}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : products.length === 0 ? (
+        !isAdding && <p className="text-sm text-muted-foreground">No products</p>
+      ) : (
+        <ul className="space-y-2">
+          {products.map((link) => {
+            const wanted = link.sqFt ? Number(link.sqFt) : undefined;
+            const inStock = inventoryNumber(link.item?.totalSqFt);
+            const shortBy = wanted !== undefined ? wanted - (inStock ?? 0) : 0;
+
+            if (editingId === link.id) {
+              return (
+                <li key={link.id}>
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      updateProductMutation.mutate(link.id);
+                    }}
+                    className="space-y-2 p-3 border rounded-md bg-muted/30"
+                  >
+                    <p className="text-sm font-medium truncate">{link.item?.product ?? "Product in the trash"}</p>
+                    {sqFtInput}
+                    <div className="flex gap-2">
+                      <Button
+                        type="submit"
+                        size="sm"
+                        className="flex-1 bg-fmd-green hover:bg-fmd-green/90"
+                        disabled={!isSqFtValid || updateProductMutation.isPending}
+                      >
+                        {updateProductMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Save
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={resetForm} disabled={updateProductMutation.isPending}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                </li>
+              );
+            }
+
+            return (
+              <li key={link.id} className="flex items-start gap-2 group" data-testid={`lead-product-${link.id}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {link.item?.product ?? "Product in the trash"}
+                    {wanted !== undefined && <span className="font-normal text-muted-foreground"> • wants {wanted.toLocaleString()} sq ft</span>}
+                  </p>
+                  {link.item ? (
+                    <p className="text-xs text-muted-foreground">
+                      In stock: {link.item.boxes || 0} boxes • {link.item.totalSqFt || 0} sq ft
+                      {shortBy > 0 && <span className="text-red-600"> • short {shortBy.toLocaleString()} sq ft</span>}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Restore it from the trash to see its stock</p>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex opacity-0 group-hover:opacity-100">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() => openEdit(link)}
+                      aria-label="Edit square feet"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() => handleRemove(link)}
+                      aria-label="Remove product"
+                    >
+                      <Trash2 className="w-3.5 h-3.5 text-red-600" />
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
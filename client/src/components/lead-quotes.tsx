@@ -0,0 +1,131 @@
+import React from "react";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, FileText, Loader2, Pencil, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { QuoteBuilderDialog } from "@/components/quote-builder-dialog";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { Quote } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+interface LeadQuotesProps {
+  leadId: string;
+}
+
+export function LeadQuotes({ leadId }: LeadQuotesProps) {
+  const { can } = useAuth();
+  const canEdit = can(PERMISSIONS.LEADS_EDIT);
+  const { toast } = useToast();
+  const { getMemberName } = useTeamMembers();
+  const [builder, setBuilder] = useState<{ baseQuote?: Quote } | null>(null); // null = closed
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const { data: quotes = [], isLoading } = useQuery<Quote[]>({
+    queryKey: ['/api/leads', leadId, 'quotes'],
+    staleTime: 0,
+  });
+
+  const handleDownload = async (quote: Quote) => {
+    setDownloadingId(quote.id);
+    try {
+      const res = await fetch(`/api/quotes/${quote.id}/pdf`, { credentials: "include" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.message || `HTTP ${res.status}`);
+      }
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `quote-v${quote.version}.pdf`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Download failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <div data-testid="section-lead-quotes">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs text-muted-foreground font-semibold uppercase tracking-wide flex items-center gap-2">
+          <FileText className="w-4 h-4" />
+          Quotes
+        </label>
+        {canEdit && (
+          <Button variant="ghost" size="sm" onClick={() => setBuilder({})} className="h-8" data-testid="button-new-quote">
+            <Plus className="w-4 h-4 mr-1" />
+            New
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : quotes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No quotes</p>
+      ) : (
+        <ul className="space-y-2">
+          {quotes.map((quote) => {
+            const authorName = getMemberName(quote.createdBy);
+            return (
+              <li key={quote.id} className="flex items-start gap-2 group" data-testid={`quote-${quote.id}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">
+                    v{quote.version} • {formatCurrency(quote.total)}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {quote.lines.length} product{quote.lines.length !== 1 ? "s" : ""} • {format(new Date(quote.createdAt), "MMM d, yyyy")}
+                    {authorName && ` • ${authorName}`}
+                  </p>
+                </div>
+                <div className="flex">
+                  {canEdit && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                      onClick={() => setBuilder({ baseQuote: quote })}
+                      aria-label={`Revise quote v${quote.version}`}
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </Button>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => handleDownload(quote)}
+                    disabled={downloadingId === quote.id}
+                    aria-label={`Download quote v${quote.version}`}
+                  >
+                    {downloadingId === quote.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <QuoteBuilderDialog
+        leadId={leadId}
+        isOpen={!!builder}
+        baseQuote={builder?.baseQuote}
+        onClose={() => setBuilder(null)}
+      />
+    </div>
+  );
+}
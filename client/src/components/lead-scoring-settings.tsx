@@ -0,0 +1,309 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gauge, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { LeadScoreRule, LeadScoreCriterion, LEAD_SCORE_CRITERIA, LEAD_SCORE_CRITERIA_WITH_VALUE, NUMERIC_LEAD_SCORE_CRITERIA } from "@shared/schema";
+
+interface RuleFormState {
+  criterion: LeadScoreCriterion;
+  value: string;
+  points: string;
+}
+
+const emptyForm: RuleFormState = {
+  criterion: "has_phone",
+  value: "",
+  points: "10",
+};
+
+const criterionLabels: Record<LeadScoreCriterion, string> = {
+  has_phone: "Has a phone number",
+  has_company: "Is linked to a company",
+  details_keyword: "Lead details mention a keyword",
+  has_replied: "Has replied by email",
+  min_replies: "Has replied at least N times",
+  contacted_within_days: "Emailed within the last N days",
+  no_contact_for_days: "No email for N days",
+  status: "Is in a stage",
+};
+
+// How a rule reads in the list, e.g. 'Lead details mention "marble"'
+function describeScoreRule(rule: Pick<LeadScoreRule, "criterion" | "value">): string {
+  switch (rule.criterion) {
+    case "details_keyword":
+      return `Lead details mention "${rule.value}"`;
+    case "min_replies":
+      return `Has replied at least ${rule.value} time${rule.value === "1" ? "" : "s"}`;
+    case "contacted_within_days":
+      return `Emailed within the last ${rule.value} days`;
+    case "no_contact_for_days":
+      return `No email for ${rule.value} days`;
+    case "status":
+      return `Is in the "${rule.value}" stage`;
+    default:
+      return criterionLabels[rule.criterion as LeadScoreCriterion] ?? rule.criterion;
+  }
+}
+
+export function LeadScoringSettings() {
+  const { toast } = useToast();
+  const { stages } = usePipelineStages();
+  const [editingRule, setEditingRule] = useState<LeadScoreRule | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<RuleFormState>(emptyForm);
+
+  const { data: rules = [], isLoading } = useQuery<LeadScoreRule[]>({
+    queryKey: ['/api/lead-score-rules'],
+  });
+
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/lead-score-rules'] });
+    // Every rule change rescores all leads
+    queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (data: RuleFormState) => {
+      const payload = {
+        criterion: data.criterion,
+        value: LEAD_SCORE_CRITERIA_WITH_VALUE.includes(data.criterion) ? data.value.trim() : null,
+        points: parseInt(data.points, 10),
+      };
+      if (editingRule) {
+        return apiRequest("PATCH", `/api/lead-score-rules/${editingRule.id}`, payload);
+      }
+      return apiRequest("POST", "/api/lead-score-rules", payload);
+    },
+    onSuccess: () => {
+      invalidateRules();
+      toast({
+        title: editingRule ? "Rule updated" : "Rule added",
+        description: "Lead scores have been recalculated.",
+      });
+      closeDialog();
+    },
+    onError: showError("Failed to save rule"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/lead-score-rules/${id}`);
+    },
+    onSuccess: () => {
+      invalidateRules();
+      toast({
+        title: "Rule deleted",
+        description: "Lead scores have been recalculated.",
+      });
+    },
+    onError: showError("Failed to delete rule"),
+  });
+
+  const openCreate = () => {
+    setEditingRule(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (rule: LeadScoreRule) => {
+    setEditingRule(rule);
+    setForm({
+      criterion: rule.criterion as LeadScoreCriterion,
+      value: rule.value ?? "",
+      points: String(rule.points),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingRule(null);
+    setForm(emptyForm);
+  };
+
+  const handleDelete = (rule: LeadScoreRule) => {
+    if (!confirm(`Delete the rule "${describeScoreRule(rule)}"?`)) return;
+    deleteRuleMutation.mutate(rule.id);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveRuleMutation.mutate(form);
+  };
+
+  const needsValue = LEAD_SCORE_CRITERIA_WITH_VALUE.includes(form.criterion);
+  const isNumeric = NUMERIC_LEAD_SCORE_CRITERIA.includes(form.criterion);
+  const points = Number(form.points);
+  const isFormValid = form.points.trim() !== "" && Number.isInteger(points) && Math.abs(points) <= 100
+    && (!needsValue || (isNumeric ? /^\d+$/.test(form.value.trim()) : form.value.trim()));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Gauge className="w-5 h-5" />
+              Lead Scoring
+            </CardTitle>
+            <CardDescription>
+              A lead's score is the sum of the points of every rule it matches. Use negative points for signs a lead is going cold.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} className="bg-fmd-green hover:bg-fmd-green/90">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-6">Loading rules...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No scoring rules yet, so every lead scores 0</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between p-3 gap-4" data-testid={`row-score-rule-${rule.id}`}>
+                <div className="flex items-center gap-3 min-w-0">
+                  <Badge
+                    variant="outline"
+                    className={`w-14 justify-center flex-shrink-0 ${rule.points >= 0 ? "border-fmd-green text-fmd-green" : "border-red-600 text-red-600"}`}
+                  >
+                    {rule.points > 0 ? `+${rule.points}` : rule.points}
+                  </Badge>
+                  <span className="truncate">{describeScoreRule(rule)}</span>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button size="icon" variant="ghost" onClick={() => openEdit(rule)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleDelete(rule)}
+                    disabled={deleteRuleMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Rule" : "Add Rule"}</DialogTitle>
+            <DialogDescription>
+              Saving rescores every lead
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label>When a lead</Label>
+                <Select
+                  value={form.criterion}
+                  onValueChange={(value) => setForm({ ...form, criterion: value as LeadScoreCriterion, value: "" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEAD_SCORE_CRITERIA.map((criterion) => (
+                      <SelectItem key={criterion} value={criterion}>{criterionLabels[criterion]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {needsValue && (
+                <div className="space-y-2">
+                  <Label htmlFor="score-rule-value">
+                    {form.criterion === "details_keyword" ? "Keyword" : form.criterion === "status" ? "Stage" : form.criterion === "min_replies" ? "Replies" : "Days"}
+                  </Label>
+                  {form.criterion === "status" ? (
+                    <Select value={form.value} onValueChange={(value) => setForm({ ...form, value })}>
+                      <SelectTrigger id="score-rule-value">
+                        <SelectValue placeholder="Select a stage" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {stages.map((stage) => (
+                          <SelectItem key={stage.id} value={stage.name}>{stage.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      id="score-rule-value"
+                      type={isNumeric ? "number" : "text"}
+                      min={isNumeric ? 0 : undefined}
+                      placeholder={isNumeric ? "e.g. 7" : "e.g. commercial"}
+                      value={form.value}
+                      onChange={(e) => setForm({ ...form, value: e.target.value })}
+                    />
+                  )}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="score-rule-points">Points</Label>
+                <Input
+                  id="score-rule-points"
+                  type="number"
+                  min={-100}
+                  max={100}
+                  step={1}
+                  value={form.points}
+                  onChange={(e) => setForm({ ...form, points: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Between -100 and 100</p>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={closeDialog}
+                disabled={saveRuleMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!isFormValid || saveRuleMutation.isPending}>
+                {saveRuleMutation.isPending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingRule ? (
+                  "Save Changes"
+                ) : (
+                  "Add Rule"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
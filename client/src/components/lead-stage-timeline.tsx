@@ -0,0 +1,105 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceStrict, format } from "date-fns";
+import { History } from "lucide-react";
+import { Lead, LeadStatusChange, LeadStatusSource } from "@shared/schema";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+
+interface LeadStageTimelineProps {
+  lead: Lead;
+}
+
+interface StagePeriod {
+  status: string;
+  enteredAt: Date;
+  leftAt: Date | null; // null = current stage
+  change: LeadStatusChange | null; // null = stage before history was recorded
+}
+
+const sourceLabels: Record<LeadStatusSource, string> = {
+  manual: "Changed by",
+  email_sent: "Email sent",
+  email_replied: "Lead replied",
+  created: "Created by",
+  import: "Imported by",
+  deal: "Deal closed by",
+};
+
+function describeChange(change: LeadStatusChange): string {
+  const label = sourceLabels[change.source as LeadStatusSource] ?? change.source;
+  // Automations run on behalf of the system, so the actor adds nothing there
+  return change.source === "manual" || change.source === "created" || change.source === "import" || change.source === "deal"
+    ? `${label} ${change.actorName}`
+    : label;
+}
+
+// Turn status changes into consecutive periods, one per stage visit
+function buildPeriods(lead: Lead, history: LeadStatusChange[]): StagePeriod[] {
+  const periods: StagePeriod[] = [];
+
+  // Leads that predate status history start in the stage their first recorded change moved them out of
+  const first = history[0];
+  if (!first || first.fromStatus) {
+    periods.push({
+      status: first?.fromStatus ?? lead.status,
+      enteredAt: new Date(lead.createdAt),
+      leftAt: first ? new Date(first.changedAt) : null,
+      change: null,
+    });
+  }
+
+  history.forEach((change, index) => {
+    const next = history[index + 1];
+    periods.push({
+      status: change.toStatus,
+      enteredAt: new Date(change.changedAt),
+      leftAt: next ? new Date(next.changedAt) : null,
+      change,
+    });
+  });
+
+  return periods;
+}
+
+export function LeadStageTimeline({ lead }: LeadStageTimelineProps) {
+  const { getStageColor } = usePipelineStages();
+  const { data: history = [], isLoading } = useQuery<LeadStatusChange[]>({
+    queryKey: ['/api/leads', lead.id, 'status-history'],
+  });
+
+  const periods = buildPeriods(lead, history);
+
+  return (
+    <div>
+      <label className="text-xs text-muted-foreground mb-3 block font-semibold uppercase tracking-wide flex items-center gap-2">
+        <History className="w-4 h-4" />
+        Stage Timeline
+      </label>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading history...</p>
+      ) : (
+        <ol className="relative border-l border-muted ml-1.5 space-y-4" data-testid="list-stage-timeline">
+          {periods.slice().reverse().map((period, index) => (
+            <li key={period.change?.id ?? `initial-${index}`} className="relative pl-4">
+              <span
+                className="absolute -left-1.5 top-1 w-3 h-3 rounded-full ring-2 ring-background"
+                style={{ backgroundColor: getStageColor(period.status) }}
+              />
+              <div className="flex items-baseline justify-between gap-2">
+                <p className="text-sm font-semibold">{period.status}</p>
+                <p className="text-xs font-medium text-muted-foreground whitespace-nowrap">
+                  {formatDistanceStrict(period.leftAt ?? new Date(), period.enteredAt)}
+                  {!period.leftAt && " so far"}
+                </p>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {format(period.enteredAt, "MMM d, yyyy h:mm a")}
+                {period.change && ` • ${describeChange(period.change)}`}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Tag as TagIcon } from "lucide-react";
+import { TagBadge } from "@/components/tag-badge";
+import { TagPicker } from "@/components/tag-picker";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Tag } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+interface LeadTagsProps {
+  leadId: string;
+  tags: Tag[];
+}
+
+export function LeadTags({ leadId, tags }: LeadTagsProps) {
+  const { can } = useAuth();
+  const canEdit = can(PERMISSIONS.LEADS_EDIT);
+  const { toast } = useToast();
+
+  // Single-lead changes go through the bulk endpoints
+  const tagMutation = useMutation({
+    mutationFn: async ({ tagId, action }: { tagId: string; action: "add" | "remove" }) => {
+      return apiRequest("POST", `/api/leads/bulk-${action}-tags`, { leadIds: [leadId], tagIds: [tagId] });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update tags",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div data-testid="section-lead-tags">
+      <label className="text-xs text-muted-foreground mb-2 font-semibold uppercase tracking-wide flex items-center gap-2">
+        <TagIcon className="w-4 h-4" />
+        Tags
+      </label>
+      <div className="flex flex-wrap items-center gap-1">
+        {tags.map((tag) => (
+          <TagBadge
+            key={tag.id}
+            tag={tag}
+            onRemove={canEdit ? () => tagMutation.mutate({ tagId: tag.id, action: "remove" }) : undefined}
+          />
+        ))}
+        {tags.length === 0 && !canEdit && <span className="text-sm text-muted-foreground">No tags</span>}
+        {canEdit && (
+          <TagPicker
+            excludeIds={tags.map(tag => tag.id)}
+            onSelect={(tag) => tagMutation.mutate({ tagId: tag.id, action: "add" })}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
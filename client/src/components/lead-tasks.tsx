@@ -0,0 +1,227 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, isPast } from "date-fns";
+import { CalendarClock, ListChecks, Loader2, Plus, Trash2, UserCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { Lead, Task } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+interface LeadTasksProps {
+  lead: Lead;
+}
+
+const OWNER_VALUE = "__owner__";
+const UNASSIGNED_VALUE = "__none__";
+
+// Default due time for new tasks: tomorrow at 9:00, in the format of a datetime-local input
+function defaultDueValue(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  return format(date, "yyyy-MM-dd'T'HH:mm");
+}
+
+export function LeadTasks({ lead }: LeadTasksProps) {
+  const { can } = useAuth();
+  const canEdit = can(PERMISSIONS.LEADS_EDIT);
+  const { toast } = useToast();
+  const { members, getMemberName } = useTeamMembers();
+  const [isAdding, setIsAdding] = useState(false);
+  const [title, setTitle] = useState("");
+  const [dueAt, setDueAt] = useState(defaultDueValue);
+  const [assignee, setAssignee] = useState(OWNER_VALUE);
+
+  const { data: tasks = [], isLoading } = useQuery<Task[]>({
+    queryKey: ['/api/leads', lead.id, 'tasks'],
+    staleTime: 0,
+  });
+
+  const invalidateTasks = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/leads', lead.id, 'tasks'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setTitle("");
+    setDueAt(defaultDueValue());
+    setAssignee(OWNER_VALUE);
+  };
+
+  const createTaskMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/leads/${lead.id}/tasks`, {
+        title: title.trim(),
+        dueAt: new Date(dueAt).toISOString(),
+        // Leaving it to the server assigns the lead's owner
+        ...(assignee !== OWNER_VALUE && { assignedUserId: assignee === UNASSIGNED_VALUE ? null : assignee }),
+      });
+    },
+    onSuccess: () => {
+      invalidateTasks();
+      resetForm();
+    },
+    onError: showError("Failed to add task"),
+  });
+
+  const toggleTaskMutation = useMutation({
+    mutationFn: async ({ id, done }: { id: string; done: boolean }) => {
+      return apiRequest("PATCH", `/api/tasks/${id}`, { done });
+    },
+    onSuccess: invalidateTasks,
+    onError: showError("Failed to update task"),
+  });
+
+  const deleteTaskMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/tasks/${id}`);
+    },
+    onSuccess: invalidateTasks,
+    onError: showError("Failed to delete task"),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !dueAt) return;
+    createTaskMutation.mutate();
+  };
+
+  const openCount = tasks.filter(task => !task.done).length;
+
+  return (
+    <div data-testid="section-lead-tasks">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-xs text-muted-foreground font-semibold uppercase tracking-wide flex items-center gap-2">
+          <ListChecks className="w-4 h-4" />
+          Tasks {openCount > 0 && `(${openCount} open)`}
+        </label>
+        {!isAdding && canEdit && (
+          <Button variant="ghost" size="sm" onClick={() => setIsAdding(true)} className="h-8" data-testid="button-add-task">
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="space-y-2 mb-3 p-3 border rounded-md bg-muted/30">
+          <Input
+            placeholder="e.g. Call back about the sample"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            autoFocus
+            data-testid="input-task-title"
+          />
+          <div className="flex gap-2">
+            <Input
+              type="datetime-local"
+              value={dueAt}
+              onChange={(e) => setDueAt(e.target.value)}
+              className="flex-1"
+              aria-label="Due"
+              data-testid="input-task-due"
+            />
+            <Select value={assignee} onValueChange={setAssignee}>
+              <SelectTrigger className="w-40" data-testid="select-task-assignee">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={OWNER_VALUE}>Lead owner</SelectItem>
+                <SelectItem value={UNASSIGNED_VALUE}>Anyone</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.displayName || member.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              size="sm"
+              className="flex-1 bg-fmd-green hover:bg-fmd-green/90"
+              disabled={!title.trim() || !dueAt || createTaskMutation.isPending}
+            >
+              {createTaskMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add Task
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={resetForm} disabled={createTaskMutation.isPending}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : tasks.length === 0 ? (
+        !isAdding && <p className="text-sm text-muted-foreground">No tasks</p>
+      ) : (
+        <ul className="space-y-1">
+          {tasks.map((task) => {
+            const isDone = task.done === 1;
+            const isOverdue = !isDone && isPast(new Date(task.dueAt));
+            const assigneeName = getMemberName(task.assignedUserId);
+            return (
+              <li key={task.id} className="flex items-start gap-2 py-1 group" data-testid={`task-${task.id}`}>
+                <Checkbox
+                  checked={isDone}
+                  disabled={!canEdit || toggleTaskMutation.isPending}
+                  onCheckedChange={(checked) => toggleTaskMutation.mutate({ id: task.id, done: checked === true })}
+                  className="mt-0.5"
+                  aria-label={`Mark "${task.title}" ${isDone ? "not done" : "done"}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm ${isDone ? "line-through text-muted-foreground" : ""}`}>{task.title}</p>
+                  <p className={`text-xs flex flex-wrap items-center gap-x-2 ${isOverdue ? "text-red-600 font-medium" : "text-muted-foreground"}`}>
+                    <span className="flex items-center gap-1">
+                      <CalendarClock className="w-3 h-3" />
+                      {isOverdue && "Overdue · "}{format(new Date(task.dueAt), "MMM d, h:mm a")}
+                    </span>
+                    {assigneeName && (
+                      <span className="flex items-center gap-1 text-muted-foreground font-normal">
+                        <UserCircle className="w-3 h-3" />
+                        {assigneeName}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                {canEdit && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                    onClick={() => deleteTaskMutation.mutate(task.id)}
+                    disabled={deleteTaskMutation.isPending}
+                    aria-label={`Delete task "${task.title}"`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-red-600" />
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
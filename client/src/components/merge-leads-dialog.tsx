@@ -0,0 +1,170 @@
+import React from "react";
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { GitMerge, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { Company, Lead, MERGEABLE_LEAD_FIELDS, MergeableLeadField } from "@shared/schema";
+
+type LeadWithCompany = Lead & { company?: Company | null };
+
+interface MergeLeadsDialogProps {
+  leads: LeadWithCompany[] | null; // null = closed
+  onClose: () => void;
+}
+
+const fieldLabels: Record<MergeableLeadField, string> = {
+  clientName: "Name",
+  email: "Email",
+  phone: "Phone",
+  subject: "Subject",
+  leadDetails: "Details",
+  status: "Status",
+  companyId: "Company",
+  assignedUserId: "Owner",
+};
+
+export function MergeLeadsDialog({ leads, onClose }: MergeLeadsDialogProps) {
+  const { toast } = useToast();
+  const { getMemberName } = useTeamMembers();
+  const [survivorId, setSurvivorId] = useState("");
+  const [fieldSources, setFieldSources] = useState<Partial<Record<MergeableLeadField, string>>>({});
+
+  // Start with the oldest lead surviving and keeping its own values
+  useEffect(() => {
+    setSurvivorId(leads?.[0]?.id ?? "");
+    setFieldSources({});
+  }, [leads]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const mergeIds = (leads ?? []).map(lead => lead.id).filter(id => id !== survivorId);
+      return apiRequest("POST", "/api/leads/merge", { survivorId, mergeIds, fieldSources });
+    },
+    onSuccess: async (response) => {
+      const data = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/emails'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/search'] });
+      toast({
+        title: "Leads merged",
+        description: `${data.merged} duplicate lead(s) merged into ${data.lead.clientName}.`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to merge leads",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!leads) return null;
+
+  const describeValue = (lead: LeadWithCompany, field: MergeableLeadField): string => {
+    if (field === "companyId") return lead.company?.name ?? "No company";
+    if (field === "assignedUserId") return getMemberName(lead.assignedUserId) ?? "Unassigned";
+    return lead[field] || "—";
+  };
+
+  // Only fields where the leads disagree need a choice
+  const conflictingFields = MERGEABLE_LEAD_FIELDS.filter(
+    field => new Set(leads.map(lead => lead[field] ?? null)).size > 1
+  );
+  const notesCount = leads.filter(lead => lead.notes?.trim()).length;
+
+  return (
+    <Dialog open={!!leads} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="w-5 h-5" />
+            Merge {leads.length} Leads
+          </DialogTitle>
+          <DialogDescription>
+            Emails, notifications and notes move to the lead you keep. The other leads are deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label className="font-semibold">Keep this lead</Label>
+            <RadioGroup
+              value={survivorId}
+              onValueChange={(value) => {
+                setSurvivorId(value);
+                setFieldSources({});
+              }}
+            >
+              {leads.map((lead) => (
+                <div key={lead.id} className="flex items-center gap-3">
+                  <RadioGroupItem value={lead.id} id={`survivor-${lead.id}`} />
+                  <Label htmlFor={`survivor-${lead.id}`} className="font-normal">
+                    {lead.clientName} &lt;{lead.email}&gt;
+                    <span className="text-muted-foreground"> • added {format(new Date(lead.createdAt), "MMM d, yyyy")}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {conflictingFields.map((field) => (
+            <div key={field} className="space-y-2">
+              <Label className="font-semibold">{fieldLabels[field]}</Label>
+              <RadioGroup
+                value={fieldSources[field] ?? survivorId}
+                onValueChange={(value) => setFieldSources({ ...fieldSources, [field]: value })}
+              >
+                {leads.map((lead) => (
+                  <div key={lead.id} className="flex items-center gap-3">
+                    <RadioGroupItem value={lead.id} id={`${field}-${lead.id}`} />
+                    <Label htmlFor={`${field}-${lead.id}`} className="font-normal break-all">
+                      {describeValue(lead, field)}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+
+          {conflictingFields.length === 0 && (
+            <p className="text-sm text-muted-foreground">These leads have the same details.</p>
+          )}
+          {notesCount > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Notes from {notesCount} lead{notesCount !== 1 ? "s" : ""} will be combined on the lead you keep.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={mergeMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => mergeMutation.mutate()}
+            disabled={!survivorId || mergeMutation.isPending}
+            className="bg-fmd-green hover:bg-fmd-green-dark"
+          >
+            {mergeMutation.isPending ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Merging...
+              </>
+            ) : (
+              "Merge Leads"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+import React, { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Building2, Loader2, UserCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { useLeads, type LeadQueryFilters, type LeadWithCompany } from "@/hooks/use-leads";
+import { TagBadge } from "@/components/tag-badge";
+import { Lead, PipelineStage } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+interface PipelineBoardProps {
+  filters: LeadQueryFilters; // Applied to every column; the column sets the status
+  onViewDetails: (lead: Lead) => void;
+  onStatusChange: (leadId: string, status: string) => void;
+}
+
+const COLUMN_PAGE_SIZE = 20;
+const DRAG_TYPE = "application/x-lead";
+
+export function PipelineBoard({ filters, onViewDetails, onStatusChange }: PipelineBoardProps) {
+  const { stages, isLoading } = usePipelineStages();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4" data-testid="pipeline-board">
+      {stages.map((stage) => (
+        <BoardColumn
+          key={stage.id}
+          stage={stage}
+          filters={filters}
+          onViewDetails={onViewDetails}
+          onStatusChange={onStatusChange}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface BoardColumnProps {
+  stage: PipelineStage;
+  filters: LeadQueryFilters;
+  onViewDetails: (lead: Lead) => void;
+  onStatusChange: (leadId: string, status: string) => void;
+}
+
+function BoardColumn({ stage, filters, onViewDetails, onStatusChange }: BoardColumnProps) {
+  const { can } = useAuth();
+  const canDrag = can(PERMISSIONS.LEADS_EDIT);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const {
+    leads,
+    total,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useLeads({ ...filters, status: stage.name }, COLUMN_PAGE_SIZE);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const payload = e.dataTransfer.getData(DRAG_TYPE);
+    if (!payload) return;
+    const { leadId, status } = JSON.parse(payload) as { leadId: string; status: string };
+    if (status !== stage.name) {
+      onStatusChange(leadId, stage.name);
+    }
+  };
+
+  return (
+    <div
+      className={`flex-shrink-0 w-72 rounded-lg bg-muted/50 border-t-4 flex flex-col max-h-[calc(100vh-16rem)] transition-colors ${isDragOver ? 'bg-muted ring-2 ring-fmd-green' : ''}`}
+      style={{ borderTopColor: stage.color }}
+      onDragOver={(e) => {
+        if (!canDrag || !e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={(e) => {
+        // Moving over a card inside the column also fires dragleave
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragOver(false);
+      }}
+      onDrop={handleDrop}
+      data-testid={`column-stage-${stage.id}`}
+    >
+      <div className="flex items-center justify-between p-3">
+        <h3 className="font-semibold text-sm truncate">{stage.name}</h3>
+        <Badge variant="secondary" data-testid={`count-stage-${stage.id}`}>{total}</Badge>
+      </div>
+      <div className="flex-1 overflow-y-auto px-3 pb-3 space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : leads.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-4">No leads</p>
+        ) : (
+          leads.map((lead) => (
+            <BoardCard key={lead.id} lead={lead} draggable={canDrag} onViewDetails={onViewDetails} />
+          ))
+        )}
+        {hasNextPage && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load more"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface BoardCardProps {
+  lead: LeadWithCompany;
+  draggable: boolean;
+  onViewDetails: (lead: Lead) => void;
+}
+
+function BoardCard({ lead, draggable, onViewDetails }: BoardCardProps) {
+  const { getMemberName } = useTeamMembers();
+  const ownerName = getMemberName(lead.assignedUserId);
+
+  return (
+    <Card
+      className={`p-3 hover-elevate cursor-pointer ${draggable ? 'active:cursor-grabbing' : ''}`}
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ leadId: lead.id, status: lead.status }));
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onClick={() => onViewDetails(lead)}
+      data-testid={`board-card-${lead.id}`}
+    >
+      <p className="font-semibold text-sm truncate">{lead.clientName}</p>
+      <p className="text-xs text-muted-foreground truncate">{lead.email}</p>
+      <div className="flex flex-wrap items-center gap-1 mt-2">
+        {lead.company && (
+          <Badge variant="outline" className="text-xs gap-1 bg-fmd-green/10 border-fmd-green text-fmd-green">
+            <Building2 className="w-3 h-3" />
+            {lead.company.name}
+          </Badge>
+        )}
+        {ownerName && (
+          <Badge variant="outline" className="text-xs gap-1">
+            <UserCircle className="w-3 h-3" />
+            {ownerName}
+          </Badge>
+        )}
+        {lead.tags?.map((tag) => (
+          <TagBadge key={tag.id} tag={tag} />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        Added {formatDistanceToNow(new Date(lead.createdAt), { addSuffix: true })}
+      </p>
+    </Card>
+  );
+}
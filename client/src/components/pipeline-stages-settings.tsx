@@ -0,0 +1,330 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, GitBranch, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { PipelineStage, PipelineStageType, PipelineAutomation } from "@shared/schema";
+
+interface StageFormState {
+  name: string;
+  color: string;
+  type: PipelineStageType;
+}
+
+const emptyForm: StageFormState = {
+  name: "",
+  color: "#3b82f6",
+  type: "open",
+};
+
+const stageTypeLabels: Record<PipelineStageType, string> = {
+  open: "Open",
+  won: "Won",
+  lost: "Lost",
+};
+
+const automationLabels: Record<PipelineAutomation, string> = {
+  email_sent: "When an email is sent to the lead",
+  email_replied: "When the lead replies",
+};
+
+export function PipelineStagesSettings() {
+  const { stages, isLoading } = usePipelineStages();
+  const { toast } = useToast();
+  const [editingStage, setEditingStage] = useState<PipelineStage | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<StageFormState>(emptyForm);
+
+  const invalidateStages = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/pipeline-stages'] });
+    // Renaming a stage renames the status of its leads too
+    queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveStageMutation = useMutation({
+    mutationFn: async (data: StageFormState) => {
+      const payload = { ...data, name: data.name.trim() };
+      if (editingStage) {
+        return apiRequest("PATCH", `/api/pipeline-stages/${editingStage.id}`, payload);
+      }
+      return apiRequest("POST", "/api/pipeline-stages", payload);
+    },
+    onSuccess: () => {
+      invalidateStages();
+      toast({
+        title: editingStage ? "Stage updated" : "Stage added",
+        description: editingStage ? "The pipeline stage has been updated." : "The stage was added to the end of the pipeline.",
+      });
+      closeDialog();
+    },
+    onError: showError("Failed to save stage"),
+  });
+
+  const deleteStageMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/pipeline-stages/${id}`);
+    },
+    onSuccess: () => {
+      invalidateStages();
+      toast({
+        title: "Stage deleted",
+        description: "The stage was removed from the pipeline.",
+      });
+    },
+    onError: showError("Failed to delete stage"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (stageIds: string[]) => {
+      return apiRequest("POST", "/api/pipeline-stages/reorder", { stageIds });
+    },
+    onSuccess: invalidateStages,
+    onError: showError("Failed to reorder stages"),
+  });
+
+  const automationMutation = useMutation({
+    mutationFn: async ({ automation, stageId }: { automation: PipelineAutomation; stageId: string | null }) => {
+      if (stageId) {
+        return apiRequest("PATCH", `/api/pipeline-stages/${stageId}`, { automation });
+      }
+      const current = stages.find(stage => stage.automation === automation);
+      if (current) {
+        return apiRequest("PATCH", `/api/pipeline-stages/${current.id}`, { automation: null });
+      }
+    },
+    onSuccess: invalidateStages,
+    onError: showError("Failed to update automation"),
+  });
+
+  const openCreate = () => {
+    setEditingStage(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (stage: PipelineStage) => {
+    setEditingStage(stage);
+    setForm({
+      name: stage.name,
+      color: stage.color,
+      type: stage.type as PipelineStageType,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingStage(null);
+    setForm(emptyForm);
+  };
+
+  const handleDelete = (stage: PipelineStage) => {
+    if (!confirm(`Delete stage "${stage.name}"?`)) return;
+    deleteStageMutation.mutate(stage.id);
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    const ids = stages.map(stage => stage.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    reorderMutation.mutate(ids);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveStageMutation.mutate(form);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <GitBranch className="w-5 h-5" />
+              Sales Pipeline
+            </CardTitle>
+            <CardDescription>
+              The stages a lead moves through, in order. Won and lost stages count as closed.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} className="bg-fmd-green hover:bg-fmd-green/90">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Stage
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-6">Loading stages...</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {stages.map((stage, index) => (
+              <div key={stage.id} className="flex items-center justify-between p-3 gap-4" data-testid={`row-stage-${stage.id}`}>
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="w-4 h-4 rounded-full flex-shrink-0" style={{ backgroundColor: stage.color }} />
+                  <span className="font-medium truncate">{stage.name}</span>
+                  {stage.type !== "open" && (
+                    <Badge variant={stage.type === "won" ? "default" : "secondary"}>
+                      {stageTypeLabels[stage.type as PipelineStageType] ?? stage.type}
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => moveStage(index, -1)}
+                    disabled={index === 0 || reorderMutation.isPending}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => moveStage(index, 1)}
+                    disabled={index === stages.length - 1 || reorderMutation.isPending}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => openEdit(stage)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleDelete(stage)}
+                    disabled={deleteStageMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div>
+            <h3 className="font-medium">Automatic Stage Changes</h3>
+            <p className="text-sm text-muted-foreground">Move leads to a stage automatically when these events happen</p>
+          </div>
+          {(Object.keys(automationLabels) as PipelineAutomation[]).map((automation) => (
+            <div key={automation} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <Label>{automationLabels[automation]}</Label>
+              <Select
+                value={stages.find(stage => stage.automation === automation)?.id ?? "__none__"}
+                onValueChange={(value) => automationMutation.mutate({ automation, stageId: value === "__none__" ? null : value })}
+                disabled={automationMutation.isPending}
+              >
+                <SelectTrigger className="w-full sm:w-56" data-testid={`select-automation-${automation}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__none__">
+                    <span className="text-muted-foreground">Don't change the stage</span>
+                  </SelectItem>
+                  {stages.map((stage) => (
+                    <SelectItem key={stage.id} value={stage.id}>{stage.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingStage ? "Edit Stage" : "Add Stage"}</DialogTitle>
+            <DialogDescription>
+              {editingStage ? "Renaming a stage also updates every lead in it" : "New stages are added to the end of the pipeline"}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="stage-name">Name</Label>
+                <Input
+                  id="stage-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="stage-color">Color</Label>
+                <div className="flex items-center gap-3">
+                  <Input
+                    id="stage-color"
+                    type="color"
+                    className="w-16 h-10 p-1"
+                    value={form.color}
+                    onChange={(e) => setForm({ ...form, color: e.target.value })}
+                  />
+                  <span className="text-sm text-muted-foreground">{form.color}</span>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={form.type}
+                  onValueChange={(value) => setForm({ ...form, type: value as PipelineStageType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(stageTypeLabels) as PipelineStageType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{stageTypeLabels[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={closeDialog}
+                disabled={saveStageMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!form.name.trim() || saveStageMutation.isPending}>
+                {saveStageMutation.isPending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingStage ? (
+                  "Save Changes"
+                ) : (
+                  "Add Stage"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,385 @@
+import React from "react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { InventoryProductPicker } from "@/components/inventory-product-picker";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Inventory, PriceList, PriceListBasis, PriceListRule, PriceListWithRules } from "@shared/schema";
+
+interface PriceListsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: Inventory[];
+  categories: string[];
+}
+
+const priceListBasisLabels: Record<PriceListBasis, string> = {
+  price: "Sell price",
+  cost: "Cost",
+};
+
+interface ListFormState {
+  name: string;
+  basis: PriceListBasis;
+  markupPercent: string;
+}
+
+interface RuleFormState {
+  target: "category" | "product";
+  category: string;
+  inventoryId: string;
+  mode: "markup" | "fixed";
+  markupPercent: string;
+  pricePerSqFt: string;
+  pricePerBox: string;
+}
+
+const emptyListForm: ListFormState = { name: "", basis: "price", markupPercent: "0" };
+const emptyRuleForm: RuleFormState = { target: "category", category: "", inventoryId: "", mode: "markup", markupPercent: "", pricePerSqFt: "", pricePerBox: "" };
+
+const formatMarkup = (percent: number) => `${percent > 0 ? "+" : ""}${percent}%`;
+
+export function PriceListsDialog({ isOpen, onClose, items, categories }: PriceListsDialogProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null); // "new" while adding a list
+  const [listForm, setListForm] = useState<ListFormState>(emptyListForm);
+  const [ruleForm, setRuleForm] = useState<RuleFormState>(emptyRuleForm);
+
+  const { data: lists = [], isLoading } = useQuery<PriceListWithRules[]>({
+    queryKey: ['/api/price-lists'],
+    enabled: isOpen,
+  });
+  const selected = lists.find(list => list.id === selectedId);
+
+  // Start on the first list, and reload the form whenever another list is picked
+  useEffect(() => {
+    if (isOpen && !selectedId && lists.length > 0) setSelectedId(lists[0].id);
+  }, [isOpen, lists.length]);
+
+  useEffect(() => {
+    setListForm(selected
+      ? { name: selected.name, basis: selected.basis as PriceListBasis, markupPercent: String(Number(selected.markupPercent)) }
+      : emptyListForm);
+    setRuleForm(emptyRuleForm);
+  }, [selectedId, selected?.updatedAt]);
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveListMutation = useMutation({
+    mutationFn: async (data: ListFormState) => {
+      const payload = { name: data.name.trim(), basis: data.basis, markupPercent: Number(data.markupPercent) };
+      const res = selected
+        ? await apiRequest("PATCH", `/api/price-lists/${selected.id}`, payload)
+        : await apiRequest("POST", "/api/price-lists", payload);
+      return res.json() as Promise<PriceList>;
+    },
+    onSuccess: (list) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/price-lists'] });
+      setSelectedId(list.id);
+      toast({ title: `Price list "${list.name}" saved` });
+    },
+    onError: showError("Failed to save price list"),
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/price-lists/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/price-lists'] });
+      setSelectedId(null);
+    },
+    onError: showError("Failed to delete price list"),
+  });
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (data: RuleFormState) => {
+      return apiRequest("PUT", `/api/price-lists/${selectedId}/rules`, {
+        inventoryId: data.target === "product" ? data.inventoryId : null,
+        category: data.target === "category" ? data.category : null,
+        markupPercent: data.mode === "markup" ? Number(data.markupPercent) : null,
+        pricePerSqFt: data.mode === "fixed" ? data.pricePerSqFt : null,
+        pricePerBox: data.mode === "fixed" ? data.pricePerBox : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/price-lists'] });
+      setRuleForm(emptyRuleForm);
+    },
+    onError: showError("Failed to save rule"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/price-list-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/price-lists'] });
+    },
+    onError: showError("Failed to delete rule"),
+  });
+
+  const handleDeleteList = () => {
+    if (!selected || !confirm(`Delete the "${selected.name}" price list and its rules?`)) return;
+    deleteListMutation.mutate(selected.id);
+  };
+
+  const describeTarget = (rule: PriceListRule) => rule.inventoryId
+    ? items.find(item => item.id === rule.inventoryId)?.product ?? "Product in the trash"
+    : `All of ${rule.category}`;
+
+  const describeValue = (rule: PriceListRule) => rule.markupPercent !== null
+    ? `${formatMarkup(Number(rule.markupPercent))} markup`
+    : [rule.pricePerSqFt && `${formatCurrency(rule.pricePerSqFt)}/sq ft`, rule.pricePerBox && `${formatCurrency(rule.pricePerBox)}/box`].filter(Boolean).join(", ");
+
+  const isListFormValid = listForm.name.trim() !== "" && listForm.markupPercent.trim() !== "" && Number(listForm.markupPercent) >= -100;
+  const hasRuleTarget = ruleForm.target === "category" ? !!ruleForm.category : !!ruleForm.inventoryId;
+  const hasRuleValue = ruleForm.mode === "markup"
+    ? ruleForm.markupPercent.trim() !== "" && Number(ruleForm.markupPercent) >= -100
+    : ruleForm.pricePerSqFt.trim() !== "" || ruleForm.pricePerBox.trim() !== "";
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price Lists</DialogTitle>
+          <DialogDescription>
+            Each list marks up every product's sell price or cost. Category and product rules set their own markup or fixed prices; product rules win.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="sm:w-44 flex-shrink-0 flex sm:flex-col gap-1 overflow-x-auto">
+              {lists.map((list) => (
+                <Button
+                  key={list.id}
+                  variant={list.id === selectedId ? "secondary" : "ghost"}
+                  className="justify-start"
+                  onClick={() => setSelectedId(list.id)}
+                >
+                  <span className="truncate">{list.name}</span>
+                </Button>
+              ))}
+              <Button
+                variant={selectedId === "new" ? "secondary" : "ghost"}
+                className="justify-start"
+                onClick={() => setSelectedId("new")}
+                data-testid="button-new-price-list"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                New List
+              </Button>
+            </div>
+
+            {selectedId && (
+              <div className="flex-1 min-w-0 space-y-4">
+                <form
+                  className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    saveListMutation.mutate(listForm);
+                  }}
+                >
+                  <div className="space-y-1">
+                    <Label htmlFor="price-list-name">Name</Label>
+                    <Input
+                      id="price-list-name"
+                      placeholder="e.g. Contractor"
+                      value={listForm.name}
+                      onChange={(e) => setListForm({ ...listForm, name: e.target.value })}
+                      data-testid="input-price-list-name"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Based on</Label>
+                    <Select value={listForm.basis} onValueChange={(value) => setListForm({ ...listForm, basis: value as PriceListBasis })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="price">{priceListBasisLabels.price}</SelectItem>
+                        <SelectItem value="cost">{priceListBasisLabels.cost}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="price-list-markup">Markup (%)</Label>
+                    <Input
+                      id="price-list-markup"
+                      type="number"
+                      step="any"
+                      min={-100}
+                      value={listForm.markupPercent}
+                      onChange={(e) => setListForm({ ...listForm, markupPercent: e.target.value })}
+                      data-testid="input-price-list-markup"
+                    />
+                  </div>
+                  <p className="sm:col-span-3 text-xs text-muted-foreground">
+                    Use a negative markup for a discount, e.g. -10 for 10% off the sell price.
+                  </p>
+                  <div className="sm:col-span-3 flex gap-2">
+                    <Button
+                      type="submit"
+                      size="sm"
+                      className="bg-fmd-green hover:bg-fmd-green-dark"
+                      disabled={!isListFormValid || saveListMutation.isPending}
+                      data-testid="button-save-price-list"
+                    >
+                      {saveListMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      {selected ? "Save" : "Create List"}
+                    </Button>
+                    {selected && (
+                      <Button type="button" size="sm" variant="outline" onClick={handleDeleteList} disabled={deleteListMutation.isPending}>
+                        <Trash2 className="w-4 h-4 mr-1 text-red-600" />
+                        Delete List
+                      </Button>
+                    )}
+                  </div>
+                </form>
+
+                {selected && (
+                  <div className="space-y-2">
+                    <Label>Category and product rules</Label>
+                    {selected.rules.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Every product gets the list's markup.</p>
+                    ) : (
+                      <div className="divide-y border rounded-md">
+                        {selected.rules.map((rule) => (
+                          <div key={rule.id} className="flex items-center gap-2 p-2 text-sm" data-testid={`price-list-rule-${rule.id}`}>
+                            <span className="flex-1 min-w-0 truncate">{describeTarget(rule)}</span>
+                            <span className="text-muted-foreground flex-shrink-0">{describeValue(rule)}</span>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-7 w-7"
+                              onClick={() => deleteRuleMutation.mutate(rule.id)}
+                              disabled={deleteRuleMutation.isPending}
+                              aria-label={`Delete rule for ${describeTarget(rule)}`}
+                            >
+                              <Trash2 className="w-3.5 h-3.5 text-red-600" />
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="p-3 border rounded-md bg-muted/30 space-y-2">
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        <Select
+                          value={ruleForm.target}
+                          onValueChange={(value) => setRuleForm({ ...ruleForm, target: value as RuleFormState["target"] })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="category">Category</SelectItem>
+                            <SelectItem value="product">Product</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <div className="sm:col-span-2">
+                          {ruleForm.target === "category" ? (
+                            <Select value={ruleForm.category} onValueChange={(category) => setRuleForm({ ...ruleForm, category })}>
+                              <SelectTrigger data-testid="select-price-rule-category">
+                                <SelectValue placeholder="Choose category" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {categories.map((category) => (
+                                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <InventoryProductPicker
+                              items={items.filter(item => item.product)}
+                              value={ruleForm.inventoryId}
+                              onSelect={(item) => setRuleForm({ ...ruleForm, inventoryId: item.id })}
+                            />
+                          )}
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        <Select
+                          value={ruleForm.mode}
+                          onValueChange={(value) => setRuleForm({ ...ruleForm, mode: value as RuleFormState["mode"] })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="markup">Own markup</SelectItem>
+                            <SelectItem value="fixed">Fixed prices</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {ruleForm.mode === "markup" ? (
+                          <Input
+                            type="number"
+                            step="any"
+                            min={-100}
+                            placeholder="Markup (%)"
+                            value={ruleForm.markupPercent}
+                            onChange={(e) => setRuleForm({ ...ruleForm, markupPercent: e.target.value })}
+                            className="sm:col-span-2"
+                            aria-label="Markup percent"
+                          />
+                        ) : (
+                          <>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min={0}
+                              placeholder="Price per sq ft"
+                              value={ruleForm.pricePerSqFt}
+                              onChange={(e) => setRuleForm({ ...ruleForm, pricePerSqFt: e.target.value })}
+                              aria-label="Price per sq ft"
+                            />
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min={0}
+                              placeholder="Price per box"
+                              value={ruleForm.pricePerBox}
+                              onChange={(e) => setRuleForm({ ...ruleForm, pricePerBox: e.target.value })}
+                              aria-label="Price per box"
+                            />
+                          </>
+                        )}
+                      </div>
+                      <Button
+                        size="sm"
+                        onClick={() => saveRuleMutation.mutate(ruleForm)}
+                        disabled={!hasRuleTarget || !hasRuleValue || saveRuleMutation.isPending}
+                        data-testid="button-save-price-rule"
+                      >
+                        {saveRuleMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Set Rule
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
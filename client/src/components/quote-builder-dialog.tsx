@@ -0,0 +1,257 @@
+import React from "react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { InventoryProductPicker } from "@/components/inventory-product-picker";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_QUOTE_WASTE_FACTOR, Inventory, Quote, QuotePriceUnit, completePrices, inventoryNumber, quoteBoxes, quoteLineTotal } from "@shared/schema";
+
+interface QuoteBuilderDialogProps {
+  leadId: string;
+  isOpen: boolean;
+  baseQuote?: Quote; // Revising this version: its lines are loaded and saving adds the next version
+  onClose: () => void;
+}
+
+interface LineState {
+  key: number;
+  inventoryId: string;
+  sqFt: string;
+  priceUnit: QuotePriceUnit;
+  unitPrice: string;
+}
+
+let nextLineKey = 0;
+
+const emptyLine = (): LineState => ({ key: nextLineKey++, inventoryId: "", sqFt: "", priceUnit: "sq_ft", unitPrice: "" });
+
+// The product's standard sell price in the line's unit, to start the price off; blank if it has none
+function standardPrice(item: Inventory, priceUnit: QuotePriceUnit): string {
+  const prices = completePrices(inventoryNumber(item.pricePerSqFt), inventoryNumber(item.pricePerBox), inventoryNumber(item.sqFtPerBox));
+  const price = priceUnit === "box" ? prices.perBox : prices.perSqFt;
+  return price === undefined ? "" : String(price);
+}
+
+export function QuoteBuilderDialog({ leadId, isOpen, baseQuote, onClose }: QuoteBuilderDialogProps) {
+  const { toast } = useToast();
+  const [wasteFactor, setWasteFactor] = useState(String(DEFAULT_QUOTE_WASTE_FACTOR));
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<LineState[]>([emptyLine()]);
+
+  const { data: items = [], isLoading: isLoadingInventory } = useQuery<Inventory[]>({
+    queryKey: ["/api/inventory"],
+    enabled: isOpen,
+  });
+
+  // Products without a sq ft per box can't be turned into boxes, so they can't be quoted
+  const quotableItems = items.filter(item => (inventoryNumber(item.sqFtPerBox) ?? 0) > 0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setWasteFactor(baseQuote ? String(Number(baseQuote.wasteFactor)) : String(DEFAULT_QUOTE_WASTE_FACTOR));
+    setNotes(baseQuote?.notes ?? "");
+    setLines(baseQuote?.lines.length
+      ? baseQuote.lines.map(line => ({
+          key: nextLineKey++,
+          inventoryId: line.inventoryId ?? "",
+          sqFt: String(line.sqFt),
+          priceUnit: line.priceUnit,
+          unitPrice: String(line.unitPrice),
+        }))
+      : [emptyLine()]);
+  }, [isOpen, baseQuote?.id]);
+
+  const saveQuoteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/leads/${leadId}/quotes`, {
+        wasteFactor: Number(wasteFactor),
+        notes: notes.trim() || null,
+        lines: lines.map(line => ({
+          inventoryId: line.inventoryId,
+          sqFt: Number(line.sqFt),
+          priceUnit: line.priceUnit,
+          unitPrice: Number(line.unitPrice),
+        })),
+      });
+      return res.json() as Promise<Quote>;
+    },
+    onSuccess: (quote) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads', leadId, 'quotes'] });
+      toast({
+        title: `Quote v${quote.version} saved`,
+        description: `Total ${formatCurrency(quote.total)}`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save quote",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateLine = (key: number, updates: Partial<LineState>) => {
+    setLines(current => current.map(line => line.key === key ? { ...line, ...updates } : line));
+  };
+
+  // Same arithmetic as the server, so the preview matches the saved quote
+  const waste = Number(wasteFactor);
+  const priced = lines.map(line => {
+    const sqFtPerBox = inventoryNumber(items.find(item => item.id === line.inventoryId)?.sqFtPerBox);
+    const sqFt = Number(line.sqFt);
+    const unitPrice = Number(line.unitPrice);
+    if (!sqFtPerBox || !(sqFt > 0) || !(waste >= 0) || line.unitPrice.trim() === "" || !(unitPrice >= 0)) {
+      return { boxes: undefined, lineTotal: undefined };
+    }
+    const boxes = quoteBoxes(sqFt, sqFtPerBox, waste);
+    return { boxes, lineTotal: quoteLineTotal(boxes, sqFtPerBox, line.priceUnit, unitPrice) };
+  });
+  const isComplete = lines.length > 0 && priced.every(line => line.lineTotal !== undefined) && waste <= 100;
+  const total = priced.reduce((sum, line) => sum + (line.lineTotal ?? 0), 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{baseQuote ? `Revise Quote v${baseQuote.version}` : "New Quote"}</DialogTitle>
+          <DialogDescription>
+            Boxes are worked out from each product's sq ft per box, rounded up after adding the waste factor.
+            {baseQuote && " Saving adds a new version; earlier versions are kept."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoadingInventory ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {lines.map((line, index) => (
+                <div key={line.key} className="grid grid-cols-12 gap-2 items-end p-3 border rounded-md" data-testid={`quote-line-${index}`}>
+                  <div className="col-span-12 sm:col-span-5 space-y-1">
+                    <Label className="text-xs">Product</Label>
+                    <InventoryProductPicker
+                      items={quotableItems}
+                      value={line.inventoryId}
+                      onSelect={(item) => updateLine(line.key, { inventoryId: item.id, unitPrice: line.unitPrice || standardPrice(item, line.priceUnit) })}
+                    />
+                  </div>
+                  <div className="col-span-4 sm:col-span-2 space-y-1">
+                    <Label className="text-xs">Sq ft needed</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={line.sqFt}
+                      onChange={(e) => updateLine(line.key, { sqFt: e.target.value })}
+                      data-testid={`input-quote-sqft-${index}`}
+                    />
+                  </div>
+                  <div className="col-span-4 sm:col-span-2 space-y-1">
+                    <Label className="text-xs">Unit price</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={line.unitPrice}
+                      onChange={(e) => updateLine(line.key, { unitPrice: e.target.value })}
+                      data-testid={`input-quote-price-${index}`}
+                    />
+                  </div>
+                  <div className="col-span-4 sm:col-span-2 space-y-1">
+                    <Label className="text-xs">Per</Label>
+                    <Select value={line.priceUnit} onValueChange={(value) => updateLine(line.key, { priceUnit: value as QuotePriceUnit })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="sq_ft">Sq ft</SelectItem>
+                        <SelectItem value="box">Box</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-12 sm:col-span-1 flex sm:justify-end">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setLines(lines.filter(other => other.key !== line.key))}
+                      disabled={lines.length === 1}
+                      aria-label="Remove product"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </div>
+                  <p className="col-span-12 text-xs text-muted-foreground">
+                    {priced[index].boxes !== undefined
+                      ? `${priced[index].boxes} boxes • ${formatCurrency(priced[index].lineTotal)}`
+                      : "Choose a product and enter the sq ft and price"}
+                  </p>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setLines([...lines, emptyLine()])} data-testid="button-add-quote-line">
+                <Plus className="w-4 h-4 mr-1" />
+                Add Product
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="quote-waste">Waste factor (%)</Label>
+                <Input
+                  id="quote-waste"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  value={wasteFactor}
+                  onChange={(e) => setWasteFactor(e.target.value)}
+                  data-testid="input-quote-waste"
+                />
+              </div>
+              <div className="sm:col-span-2 space-y-1">
+                <Label htmlFor="quote-notes">Notes (printed on the quote)</Label>
+                <Textarea
+                  id="quote-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="min-h-[2.5rem]"
+                  data-testid="textarea-quote-notes"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end text-lg font-semibold">
+              Total: {formatCurrency(total)}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saveQuoteMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveQuoteMutation.mutate()}
+            disabled={!isComplete || saveQuoteMutation.isPending}
+            className="bg-fmd-green hover:bg-fmd-green-dark"
+            data-testid="button-save-quote"
+          >
+            {saveQuoteMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {baseQuote ? "Save New Version" : "Save Quote"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
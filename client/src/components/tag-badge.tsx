@@ -0,0 +1,36 @@
+import React from "react";
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Tag } from "@shared/schema";
+
+interface TagBadgeProps {
+  tag: Pick<Tag, "name" | "color">;
+  onRemove?: () => void;
+  className?: string;
+}
+
+// Tag chip tinted with the tag's color
+export function TagBadge({ tag, onRemove, className = "" }: TagBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs gap-1 font-medium ${className}`}
+      style={{ borderColor: tag.color, color: tag.color, backgroundColor: `${tag.color}1a` }}
+    >
+      {tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          className="rounded-full hover:bg-black/10"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          aria-label={`Remove tag ${tag.name}`}
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </Badge>
+  );
+}
@@ -0,0 +1,95 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Tag as TagIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useTags } from "@/hooks/use-tags";
+import { Tag } from "@shared/schema";
+
+interface TagPickerProps {
+  excludeIds?: string[]; // Tags already applied, left out of the list
+  onSelect: (tag: Tag) => void;
+  label?: string;
+}
+
+// Searchable list of tags that can also create a new tag from the search text
+export function TagPicker({ excludeIds = [], onSelect, label = "Add tag" }: TagPickerProps) {
+  const { toast } = useToast();
+  const { tags } = useTags();
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const available = tags.filter(tag => !excludeIds.includes(tag.id));
+  const trimmed = search.trim();
+  const canCreate = trimmed !== "" && !tags.some(tag => tag.name.toLowerCase() === trimmed.toLowerCase());
+
+  const createTagMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/tags", { name });
+      return res.json() as Promise<Tag>;
+    },
+    onSuccess: (tag) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      choose(tag);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create tag",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const choose = (tag: Tag) => {
+    onSelect(tag);
+    setSearch("");
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 text-xs" data-testid="button-tag-picker">
+          <Plus className="w-3 h-3 mr-1" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0 w-60" align="start">
+        <Command>
+          <CommandInput placeholder="Find or create a tag..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>{canCreate ? "No matching tags" : "No tags yet"}</CommandEmpty>
+            {available.length > 0 && (
+              <CommandGroup>
+                {available.map((tag) => (
+                  <CommandItem key={tag.id} value={tag.name} onSelect={() => choose(tag)}>
+                    <span className="w-3 h-3 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: tag.color }} />
+                    <span className="truncate">{tag.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {canCreate && (
+              <CommandGroup forceMount>
+                <CommandItem
+                  value={`__create__ ${trimmed}`}
+                  onSelect={() => createTagMutation.mutate(trimmed)}
+                  disabled={createTagMutation.isPending}
+                  forceMount
+                >
+                  <TagIcon className="w-3 h-3 mr-2" />
+                  Create "{trimmed}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
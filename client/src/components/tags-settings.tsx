@@ -0,0 +1,237 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Loader2, Pencil, Plus, Tag as TagIcon, Trash2 } from "lucide-react";
+import { TagBadge } from "@/components/tag-badge";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useTags, type TagWithCount } from "@/hooks/use-tags";
+import { TAG_COLORS } from "@shared/schema";
+
+interface TagFormState {
+  name: string;
+  color: string;
+}
+
+const emptyForm: TagFormState = {
+  name: "",
+  color: TAG_COLORS[0],
+};
+
+export function TagsSettings() {
+  const { tags, isLoading } = useTags();
+  const { toast } = useToast();
+  const [editingTag, setEditingTag] = useState<TagWithCount | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<TagFormState>(emptyForm);
+
+  const invalidateTags = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+    // Leads carry their tags' names and colors
+    queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveTagMutation = useMutation({
+    mutationFn: async (data: TagFormState) => {
+      const payload = { ...data, name: data.name.trim() };
+      if (editingTag) {
+        return apiRequest("PATCH", `/api/tags/${editingTag.id}`, payload);
+      }
+      return apiRequest("POST", "/api/tags", payload);
+    },
+    onSuccess: () => {
+      invalidateTags();
+      toast({
+        title: editingTag ? "Tag updated" : "Tag added",
+        description: editingTag ? "The tag has been updated." : "The tag can now be added to leads.",
+      });
+      closeDialog();
+    },
+    onError: showError("Failed to save tag"),
+  });
+
+  const deleteTagMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/tags/${id}`);
+    },
+    onSuccess: () => {
+      invalidateTags();
+      toast({
+        title: "Tag deleted",
+        description: "The tag was removed from all leads.",
+      });
+    },
+    onError: showError("Failed to delete tag"),
+  });
+
+  const openCreate = () => {
+    setEditingTag(null);
+    setForm({ ...emptyForm, color: TAG_COLORS[tags.length % TAG_COLORS.length] });
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (tag: TagWithCount) => {
+    setEditingTag(tag);
+    setForm({ name: tag.name, color: tag.color });
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingTag(null);
+    setForm(emptyForm);
+  };
+
+  const handleDelete = (tag: TagWithCount) => {
+    const usage = tag.leadCount > 0 ? ` It will be removed from ${tag.leadCount} lead${tag.leadCount !== 1 ? "s" : ""}.` : "";
+    if (!confirm(`Delete tag "${tag.name}"?${usage}`)) return;
+    deleteTagMutation.mutate(tag.id);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveTagMutation.mutate(form);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <TagIcon className="w-5 h-5" />
+              Lead Tags
+            </CardTitle>
+            <CardDescription>
+              Labels for grouping leads, such as "contractor" or "needs sample". Sales reps can also create tags while tagging leads.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} className="bg-fmd-green hover:bg-fmd-green/90">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Tag
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-6">Loading tags...</p>
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tags yet</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {tags.map((tag) => (
+              <div key={tag.id} className="flex items-center justify-between p-3 gap-4" data-testid={`row-tag-${tag.id}`}>
+                <div className="flex items-center gap-3 min-w-0">
+                  <TagBadge tag={tag} />
+                  <span className="text-sm text-muted-foreground">
+                    {tag.leadCount} lead{tag.leadCount !== 1 ? "s" : ""}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button size="icon" variant="ghost" onClick={() => openEdit(tag)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleDelete(tag)}
+                    disabled={deleteTagMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingTag ? "Edit Tag" : "Add Tag"}</DialogTitle>
+            <DialogDescription>
+              {editingTag ? "Changes apply to every lead with this tag" : "Tags can be added to any number of leads"}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="tag-name">Name</Label>
+                <Input
+                  id="tag-name"
+                  value={form.name}
+                  maxLength={50}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Color</Label>
+                <div className="flex flex-wrap items-center gap-2">
+                  {TAG_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      className={`w-7 h-7 rounded-full ring-offset-2 ${form.color === color ? "ring-2 ring-foreground" : ""}`}
+                      style={{ backgroundColor: color }}
+                      onClick={() => setForm({ ...form, color })}
+                      aria-label={`Color ${color}`}
+                    />
+                  ))}
+                  <Input
+                    type="color"
+                    className="w-12 h-8 p-1"
+                    value={form.color}
+                    onChange={(e) => setForm({ ...form, color: e.target.value })}
+                    aria-label="Custom color"
+                  />
+                </div>
+                {form.name.trim() && (
+                  <div className="pt-1">
+                    <TagBadge tag={{ name: form.name.trim(), color: form.color }} />
+                  </div>
+                )}
+              </div>
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={closeDialog}
+                disabled={saveTagMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!form.name.trim() || saveTagMutation.isPending}>
+                {saveTagMutation.isPending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingTag ? (
+                  "Save Changes"
+                ) : (
+                  "Add Tag"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
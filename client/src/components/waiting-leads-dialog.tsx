@@ -0,0 +1,67 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { WaitingLead } from "@shared/schema";
+
+interface WaitingLeadsDialogProps {
+  item: { id: string; product: string } | null; // null = closed
+  onClose: () => void;
+}
+
+// Open leads that have asked about a product, oldest request first
+export function WaitingLeadsDialog({ item, onClose }: WaitingLeadsDialogProps) {
+  const { getMemberName } = useTeamMembers();
+
+  const { data: leads = [], isLoading } = useQuery<WaitingLead[]>({
+    queryKey: ["/api/inventory", item?.id, "waiting-leads"],
+    enabled: !!item,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Leads Waiting on {item?.product}</DialogTitle>
+          <DialogDescription>
+            Their owners are notified whenever this product's boxes or square footage change.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : leads.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No open leads are waiting on this product</p>
+        ) : (
+          <ul className="divide-y">
+            {leads.map((lead) => {
+              const ownerName = getMemberName(lead.assignedUserId);
+              return (
+                <li key={lead.leadProductId} className="flex items-center gap-3 py-2" data-testid={`waiting-lead-${lead.id}`}>
+                  <div className="flex-1 min-w-0">
+                    <Link href={`/leads?selected=${lead.id}`} onClick={onClose} className="text-sm font-medium text-fmd-green hover:underline truncate block">
+                      {lead.clientName}
+                    </Link>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[lead.email, ownerName ?? "Unassigned"].join(" • ")}
+                    </p>
+                  </div>
+                  {lead.sqFt && (
+                    <span className="text-sm whitespace-nowrap">{Number(lead.sqFt).toLocaleString()} sq ft</span>
+                  )}
+                  <Badge variant="outline" className="text-xs">{lead.status}</Badge>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
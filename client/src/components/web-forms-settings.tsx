@@ -0,0 +1,372 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Code, Copy, FileInput, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Company, WebForm, WEB_FORM_PLACEHOLDERS } from "@shared/schema";
+
+interface WebFormState {
+  name: string;
+  companyId: string;
+  enabled: boolean;
+  redirectUrl: string;
+  acknowledgementEnabled: boolean;
+  acknowledgementSubject: string;
+  acknowledgementBody: string;
+}
+
+const emptyForm: WebFormState = {
+  name: "",
+  companyId: "",
+  enabled: true,
+  redirectUrl: "",
+  acknowledgementEnabled: false,
+  acknowledgementSubject: "Thanks for getting in touch, {{name}}",
+  acknowledgementBody: "Hi {{name}},\n\nThanks for contacting {{company}}. We've received your message and will get back to you shortly.",
+};
+
+function formEndpoint(form: WebForm): string {
+  return `${window.location.origin}/api/public/forms/${form.id}`;
+}
+
+// A plain HTML form a website can paste in; the hidden _honeypot input catches bots
+function embedSnippet(form: WebForm): string {
+  return [
+    `<form action="${formEndpoint(form)}" method="POST">`,
+    `  <input name="name" placeholder="Name" required>`,
+    `  <input name="email" type="email" placeholder="Email" required>`,
+    `  <input name="phone" placeholder="Phone">`,
+    `  <input name="subject" placeholder="Subject">`,
+    `  <textarea name="message" placeholder="Message"></textarea>`,
+    `  <input name="_honeypot" style="display:none" tabindex="-1" autocomplete="off">`,
+    `  <button type="submit">Send</button>`,
+    `</form>`,
+  ].join("\n");
+}
+
+export function WebFormsSettings() {
+  const { toast } = useToast();
+  const [editingForm, setEditingForm] = useState<WebForm | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [embedForm, setEmbedForm] = useState<WebForm | null>(null);
+  const [form, setForm] = useState<WebFormState>(emptyForm);
+
+  const { data: webForms = [], isLoading } = useQuery<WebForm[]>({
+    queryKey: ['/api/web-forms'],
+  });
+
+  const { data: companies = [] } = useQuery<Company[]>({
+    queryKey: ['/api/companies'],
+  });
+
+  const companyName = (companyId: string) => companies.find(company => company.id === companyId)?.name ?? "Unknown company";
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveFormMutation = useMutation({
+    mutationFn: async (data: WebFormState) => {
+      const payload = {
+        name: data.name.trim(),
+        companyId: data.companyId,
+        enabled: data.enabled ? 1 : 0,
+        redirectUrl: data.redirectUrl.trim() || null,
+        acknowledgementEnabled: data.acknowledgementEnabled ? 1 : 0,
+        acknowledgementSubject: data.acknowledgementSubject.trim() || null,
+        acknowledgementBody: data.acknowledgementBody.trim() || null,
+      };
+      if (editingForm) {
+        return apiRequest("PATCH", `/api/web-forms/${editingForm.id}`, payload);
+      }
+      return apiRequest("POST", "/api/web-forms", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/web-forms'] });
+      toast({
+        title: editingForm ? "Form updated" : "Form added",
+        description: editingForm ? "The web form has been updated." : "Add the form to your website using its embed code.",
+      });
+      closeDialog();
+    },
+    onError: showError("Failed to save form"),
+  });
+
+  const deleteFormMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/web-forms/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/web-forms'] });
+      toast({
+        title: "Form deleted",
+        description: "Submissions to this form will now be rejected.",
+      });
+    },
+    onError: showError("Failed to delete form"),
+  });
+
+  const copyToClipboard = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Copied", description: `${what} copied to the clipboard.` });
+    } catch {
+      toast({ title: "Copy failed", description: "Unable to write to the clipboard", variant: "destructive" });
+    }
+  };
+
+  const openCreate = () => {
+    setEditingForm(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (webForm: WebForm) => {
+    setEditingForm(webForm);
+    setForm({
+      name: webForm.name,
+      companyId: webForm.companyId,
+      enabled: webForm.enabled === 1,
+      redirectUrl: webForm.redirectUrl ?? "",
+      acknowledgementEnabled: webForm.acknowledgementEnabled === 1,
+      acknowledgementSubject: webForm.acknowledgementSubject ?? "",
+      acknowledgementBody: webForm.acknowledgementBody ?? "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingForm(null);
+    setForm(emptyForm);
+  };
+
+  const handleDelete = (webForm: WebForm) => {
+    if (!confirm(`Delete the form "${webForm.name}"? Websites posting to it will get an error.`)) return;
+    deleteFormMutation.mutate(webForm.id);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveFormMutation.mutate(form);
+  };
+
+  const isFormValid = form.name.trim() && form.companyId
+    && (!form.acknowledgementEnabled || (form.acknowledgementSubject.trim() && form.acknowledgementBody.trim()));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <FileInput className="w-5 h-5" />
+              Web Forms
+            </CardTitle>
+            <CardDescription>
+              Contact forms on your websites can post straight into the CRM. Each submission becomes a lead of the form's company.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreate} className="bg-fmd-green hover:bg-fmd-green/90">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Form
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-center py-6">Loading forms...</p>
+        ) : webForms.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No web forms yet</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {webForms.map((webForm) => (
+              <div key={webForm.id} className="flex items-center justify-between p-3 gap-4" data-testid={`row-web-form-${webForm.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{webForm.name}</span>
+                    {webForm.enabled ? (
+                      <Badge variant="outline" className="border-fmd-green text-fmd-green">Active</Badge>
+                    ) : (
+                      <Badge variant="secondary">Disabled</Badge>
+                    )}
+                    {webForm.acknowledgementEnabled === 1 && <Badge variant="outline">Auto-reply</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {companyName(webForm.companyId)} • {formEndpoint(webForm)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button size="icon" variant="ghost" title="Copy endpoint URL" onClick={() => copyToClipboard(formEndpoint(webForm), "Endpoint URL")}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" title="Embed code" onClick={() => setEmbedForm(webForm)}>
+                    <Code className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => openEdit(webForm)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleDelete(webForm)}
+                    disabled={deleteFormMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingForm ? "Edit Web Form" : "Add Web Form"}</DialogTitle>
+            <DialogDescription>
+              Submissions are checked for spam, saved as leads and announced to the team
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="web-form-name">Name</Label>
+                <Input
+                  id="web-form-name"
+                  placeholder="e.g. Website contact form"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Company</Label>
+                <Select value={form.companyId} onValueChange={(companyId) => setForm({ ...form, companyId })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a company" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="web-form-redirect">Redirect URL</Label>
+                <Input
+                  id="web-form-redirect"
+                  placeholder="https://example.com/thank-you"
+                  value={form.redirectUrl}
+                  onChange={(e) => setForm({ ...form, redirectUrl: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Where visitors land after submitting a plain HTML form. Leave empty to show a JSON response.
+                </p>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="web-form-enabled">Accept submissions</Label>
+                <Switch
+                  id="web-form-enabled"
+                  checked={form.enabled}
+                  onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="web-form-ack">Send an acknowledgement email</Label>
+                <Switch
+                  id="web-form-ack"
+                  checked={form.acknowledgementEnabled}
+                  onCheckedChange={(acknowledgementEnabled) => setForm({ ...form, acknowledgementEnabled })}
+                />
+              </div>
+              {form.acknowledgementEnabled && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="web-form-ack-subject">Subject</Label>
+                    <Input
+                      id="web-form-ack-subject"
+                      value={form.acknowledgementSubject}
+                      onChange={(e) => setForm({ ...form, acknowledgementSubject: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="web-form-ack-body">Message</Label>
+                    <Textarea
+                      id="web-form-ack-body"
+                      rows={6}
+                      value={form.acknowledgementBody}
+                      onChange={(e) => setForm({ ...form, acknowledgementBody: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Placeholders: {WEB_FORM_PLACEHOLDERS.join(", ")}
+                    </p>
+                  </div>
+                </>
+              )}
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={closeDialog}
+                disabled={saveFormMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!isFormValid || saveFormMutation.isPending}>
+                {saveFormMutation.isPending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingForm ? (
+                  "Save Changes"
+                ) : (
+                  "Add Form"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!embedForm} onOpenChange={(open) => !open && setEmbedForm(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Embed "{embedForm?.name}"</DialogTitle>
+            <DialogDescription>
+              Paste this into your website, or post JSON with the same field names to the endpoint URL.
+              Keep the hidden _honeypot input: submissions that fill it in are dropped as spam.
+            </DialogDescription>
+          </DialogHeader>
+          {embedForm && (
+            <pre className="bg-muted rounded-md p-3 text-xs overflow-x-auto">{embedSnippet(embedForm)}</pre>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => embedForm && copyToClipboard(embedSnippet(embedForm), "Embed code")}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copy Code
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { PublicUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { queryClient, apiRequest, getQueryFn } from "@/lib/queryClient";
+
+const AUTH_QUERY_KEY = ['/api/auth/me'];
+
+// Current session user, loaded from the server (null when logged out)
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: { username: string; password: string }) => {
+      const res = await apiRequest("POST", "/api/auth/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (loggedInUser) => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, loggedInUser);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      // Drop everything cached for the previous user
+      queryClient.clear();
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+    },
+  });
+
+  // Same permission check the server applies to each route
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+
+  return {
+    user: user ?? null,
+    isLoading,
+    can,
+    loginMutation,
+    logoutMutation,
+  };
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { CustomField, CustomFieldEntityType } from "@shared/schema";
+
+// Custom field definitions for one entity type, in display order
+export function useCustomFields(entityType: CustomFieldEntityType) {
+  const { data: allFields = [], isLoading } = useQuery<CustomField[]>({
+    queryKey: ['/api/custom-fields'],
+  });
+
+  const fields = allFields.filter(field => field.entityType === entityType);
+
+  return { fields, isLoading };
+}
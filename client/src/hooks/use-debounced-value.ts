@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// The value, updated only once it has stopped changing for `delay` ms (e.g. while typing a search)
+export function useDebouncedValue<T>(value: T, delay: number = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -5,6 +5,7 @@ import { queryClient } from "@/lib/queryClient";
 
 interface EmailNotification {
   id: string;
+  type: string; // 'email_reply', 'lead_assigned', 'task_due' or 'web_form'
   leadId: string;
   leadName: string;
   fromEmail: string;
@@ -71,11 +72,32 @@ export function useEmailNotifications() {
               newCount++;
               
               // Show toast
-              toast({
-                title: "📧 New Email Reply!",
-                description: `${notification.leadName} replied: "${notification.subject}"`,
-                duration: 8000,
-              });
+              if (notification.type === 'lead_assigned') {
+                toast({
+                  title: "👤 Lead Assigned to You",
+                  description: `${notification.leadName} — ${notification.subject}`,
+                  duration: 8000,
+                });
+              } else if (notification.type === 'task_due') {
+                toast({
+                  title: "⏰ Task Due",
+                  description: `${notification.leadName} — ${notification.subject.replace(/^Task due: /, '')}`,
+                  duration: 8000,
+                });
+                queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+              } else if (notification.type === 'web_form') {
+                toast({
+                  title: "📝 New Web Form Lead",
+                  description: `${notification.leadName} — ${notification.subject}`,
+                  duration: 8000,
+                });
+              } else {
+                toast({
+                  title: "📧 New Email Reply!",
+                  description: `${notification.leadName} replied: "${notification.subject}"`,
+                  duration: 8000,
+                });
+              }
               
               // Mark as shown
               shownNotificationsRef.current.add(notification.id);
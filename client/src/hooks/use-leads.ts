@@ -0,0 +1,91 @@
+import { useMemo } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Company, Lead, LeadSortField, Tag } from "@shared/schema";
+
+export type LeadWithCompany = Lead & { company?: Company | null; tags?: Tag[] };
+
+// Exact value, or an inclusive range for number and date fields
+export interface LeadCustomFieldFilter {
+  key: string;
+  value?: string;
+  min?: string;
+  max?: string;
+}
+
+export interface LeadQueryFilters {
+  status?: string;
+  companyId?: string; // "none" = leads without a company
+  assignedUserId?: string; // "none" = unassigned leads
+  search?: string;
+  from?: string; // ISO date, created on or after
+  to?: string; // ISO date, created on or before
+  sort?: LeadSortField;
+  order?: "asc" | "desc";
+  customFields?: LeadCustomFieldFilter[];
+  tagId?: string; // "none" = leads without tags
+}
+
+// Sort choices offered by the lead lists, as "field:order" select values
+export const leadSortOptions = [
+  { value: "updatedAt:desc", label: "Recently updated" },
+  { value: "score:desc", label: "Highest score" },
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "clientName:asc", label: "Name A–Z" },
+  { value: "clientName:desc", label: "Name Z–A" },
+];
+
+interface LeadPage {
+  leads: LeadWithCompany[];
+  nextCursor?: string;
+  hasMore: boolean;
+  total: number;
+}
+
+// Query string for /api/leads and /api/leads/stage-counts, skipping empty filters
+export function buildLeadQueryParams(filters: LeadQueryFilters): URLSearchParams {
+  const { customFields = [], ...rest } = filters;
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== undefined && value !== "" && value !== "all") {
+      params.set(key, String(value).trim());
+    }
+  }
+  // Sent as cf[key]=value, cf[key][min]=... and cf[key][max]=...
+  for (const { key, value, min, max } of customFields) {
+    if (value?.trim()) params.set(`cf[${key}]`, value.trim());
+    if (min?.trim()) params.set(`cf[${key}][min]`, min.trim());
+    if (max?.trim()) params.set(`cf[${key}][max]`, max.trim());
+  }
+  return params;
+}
+
+// Leads filtered, sorted and paginated by the server, with the total number of matches
+export function useLeads(filters: LeadQueryFilters, pageSize: number = 25) {
+  const queryString = buildLeadQueryParams(filters).toString();
+
+  const query = useInfiniteQuery<LeadPage>({
+    queryKey: ['/api/leads', 'list', queryString, pageSize],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(queryString);
+      params.set("limit", String(pageSize));
+      if (pageParam) params.set("cursor", pageParam as string);
+      const res = await apiRequest("GET", `/api/leads?${params.toString()}`);
+      return res.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.hasMore ? lastPage.nextCursor : undefined,
+  });
+
+  const leads = useMemo(() => query.data?.pages.flatMap(page => page.leads) ?? [], [query.data]);
+
+  return {
+    leads,
+    total: query.data?.pages[0]?.total ?? 0,
+    isLoading: query.isLoading,
+    hasNextPage: query.hasNextPage,
+    fetchNextPage: query.fetchNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+  };
+}
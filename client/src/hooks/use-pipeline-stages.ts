@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { PipelineStage } from "@shared/schema";
+
+const FALLBACK_COLOR = "#6b7280";
+
+// Configured pipeline stages in display order, plus lookups by status name
+export function usePipelineStages() {
+  const { data: stages = [], isLoading } = useQuery<PipelineStage[]>({
+    queryKey: ['/api/pipeline-stages'],
+  });
+
+  const getStage = (status: string | null | undefined) => {
+    if (!status) return undefined;
+    return stages.find(stage => stage.name === status);
+  };
+
+  const getStageColor = (status: string | null | undefined) => getStage(status)?.color ?? FALLBACK_COLOR;
+
+  return { stages, isLoading, getStage, getStageColor };
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { Tag } from "@shared/schema";
+
+export type TagWithCount = Tag & { leadCount: number };
+
+// All lead tags, sorted by name, with how many leads carry each one
+export function useTags() {
+  const { data: tags = [], isLoading } = useQuery<TagWithCount[]>({
+    queryKey: ['/api/tags'],
+  });
+
+  return { tags, isLoading };
+}
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { TeamMember } from "@shared/schema";
+
+// Users that leads can be assigned to, plus a lookup for showing owner names
+export function useTeamMembers() {
+  const { data: members = [], isLoading } = useQuery<TeamMember[]>({
+    queryKey: ['/api/users/assignable'],
+  });
+
+  const getMemberName = (userId: string | null | undefined) => {
+    if (!userId) return null;
+    const member = members.find(m => m.id === userId);
+    return member ? member.displayName || member.username : null;
+  };
+
+  return { members, isLoading, getMemberName };
+}
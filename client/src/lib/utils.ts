@@ -4,3 +4,10 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+const currencyFormat = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" })
+
+// Money amounts arrive from the API as numbers or as numeric strings
+export function formatCurrency(amount: number | string | null | undefined): string {
+  return currencyFormat.format(Number(amount ?? 0))
+}
@@ -0,0 +1,299 @@
+import React from "react";
+import { useState } from "react";
+import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronUp, History, Loader2 } from "lucide-react";
+import { AuditLogEntry, PublicUser } from "@shared/schema";
+
+interface AuditPage {
+  entries: AuditLogEntry[];
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
+const entityTypes = [
+  { value: "lead", label: "Leads" },
+  { value: "company", label: "Companies" },
+  { value: "inventory", label: "Inventory" },
+  { value: "email", label: "Emails" },
+  { value: "notification", label: "Notifications" },
+  { value: "user", label: "Users" },
+  { value: "config", label: "Configuration" },
+  { value: "pipeline_stage", label: "Pipeline Stages" },
+  { value: "custom_field", label: "Custom Fields" },
+  { value: "tag", label: "Tags" },
+  { value: "lead_tag", label: "Lead Tags" },
+  { value: "task", label: "Tasks" },
+  { value: "contact", label: "Contacts" },
+  { value: "activity", label: "Activities" },
+  { value: "lead_score_rule", label: "Scoring Rules" },
+  { value: "web_form", label: "Web Forms" },
+  { value: "assignment_rule", label: "Assignment Rules" },
+  { value: "deal", label: "Deals" },
+  { value: "quote", label: "Quotes" },
+  { value: "price_list", label: "Price Lists" },
+  { value: "price_list_rule", label: "Price List Rules" },
+  { value: "lead_product", label: "Lead Products" },
+];
+
+const actionStyles: Record<string, string> = {
+  create: "bg-green-600 text-white",
+  update: "bg-blue-600 text-white",
+  delete: "bg-red-600 text-white",
+};
+
+// Fields that changed between the before and after snapshots
+function getChangedFields(entry: AuditLogEntry): string[] {
+  const before = (entry.before ?? {}) as Record<string, unknown>;
+  const after = (entry.after ?? {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys).filter(
+    key => key !== "updatedAt" && JSON.stringify(before[key]) !== JSON.stringify(after[key])
+  );
+}
+
+// A short human label for the audited record
+function describeEntity(entry: AuditLogEntry): string {
+  const snapshot = (entry.after ?? entry.before ?? {}) as Record<string, unknown>;
+  const label = snapshot.clientName ?? snapshot.name ?? snapshot.product ?? snapshot.subject ?? snapshot.username ?? snapshot.leadName;
+  return typeof label === "string" && label ? label : entry.entityId || entry.entityType;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditPage() {
+  const [entityType, setEntityType] = useState("all");
+  const [action, setAction] = useState("all");
+  const [actorId, setActorId] = useState("all");
+  const [entityId, setEntityId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const params = new URLSearchParams();
+  if (entityType !== "all") params.set("entityType", entityType);
+  if (action !== "all") params.set("action", action);
+  if (actorId !== "all") params.set("actorId", actorId);
+  if (entityId.trim()) params.set("entityId", entityId.trim());
+  if (from) params.set("from", new Date(from).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<AuditPage>({
+    queryKey: ['/api/audit', params.toString()],
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(params);
+      if (pageParam) pageParams.set("cursor", pageParam as string);
+      const res = await fetch(`/api/audit?${pageParams.toString()}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+      return res.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.hasMore ? lastPage.nextCursor : undefined,
+    staleTime: 0,
+  });
+
+  const entries = data?.pages.flatMap(page => page.entries) ?? [];
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExpanded(next);
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-semibold mb-2">Audit Log</h1>
+        <p className="text-xs sm:text-sm text-muted-foreground">
+          Every change to leads, companies, inventory, users and configuration, with who made it
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Entity</Label>
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Entities</SelectItem>
+                {entityTypes.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                <SelectItem value="create">Created</SelectItem>
+                <SelectItem value="update">Updated</SelectItem>
+                <SelectItem value="delete">Deleted</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>User</Label>
+            <Select value={actorId} onValueChange={setActorId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Users</SelectItem>
+                {users.map(user => (
+                  <SelectItem key={user.id} value={user.id}>{user.displayName || user.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-entity-id">Record ID</Label>
+            <Input
+              id="audit-entity-id"
+              placeholder="e.g. a lead ID"
+              value={entityId}
+              onChange={(e) => setEntityId(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <History className="w-12 h-12 mx-auto mb-3 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">No audit entries match your filters</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => {
+            const isExpanded = expanded.has(entry.id);
+            const changedFields = entry.action === "update" ? getChangedFields(entry) : [];
+            const snapshot = (entry.action === "delete" ? entry.before : entry.after) as Record<string, unknown> | null;
+
+            return (
+              <Card key={entry.id}>
+                <CardContent className="p-3 sm:p-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Badge className={actionStyles[entry.action] || ""}>{entry.action}</Badge>
+                        <Badge variant="outline">{entry.entityType}</Badge>
+                        <span className="font-medium truncate">{describeEntity(entry)}</span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {entry.actorName} • {format(new Date(entry.createdAt), "MMM d, yyyy h:mm:ss a")}
+                        {changedFields.length > 0 && ` • ${changedFields.join(", ")}`}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => toggleExpanded(entry.id)}>
+                      {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                    </Button>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="mt-3 text-xs border rounded-md overflow-x-auto">
+                      {entry.action === "update" ? (
+                        <table className="w-full">
+                          <thead className="bg-muted">
+                            <tr>
+                              <th className="text-left p-2">Field</th>
+                              <th className="text-left p-2">Before</th>
+                              <th className="text-left p-2">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {changedFields.map(field => (
+                              <tr key={field} className="border-t">
+                                <td className="p-2 font-medium">{field}</td>
+                                <td className="p-2 text-red-700 break-all">{formatValue((entry.before as Record<string, unknown>)?.[field])}</td>
+                                <td className="p-2 text-green-700 break-all">{formatValue((entry.after as Record<string, unknown>)?.[field])}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      ) : (
+                        <table className="w-full">
+                          <tbody>
+                            {Object.entries(snapshot ?? {}).map(([field, value]) => (
+                              <tr key={field} className="border-t first:border-t-0">
+                                <td className="p-2 font-medium w-40">{field}</td>
+                                <td className="p-2 break-all">{formatValue(value)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      {entry.entityId && (
+                        <p className="p-2 border-t text-muted-foreground">Record ID: {entry.entityId}</p>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {hasNextPage && (
+            <div className="flex justify-center pt-2">
+              <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                {isFetchingNextPage ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  "Load more"
+                )}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,11 +6,18 @@ import { Lead, Email, Company } from "@shared/schema";
 import { LeadCard } from "@/components/lead-card";
 import { EmailComposerModal } from "@/components/email-composer-modal";
 import { LeadDetailPanel } from "@/components/lead-detail-panel";
-import { Card, CardContent } from "@/components/ui/card";
+import { AddCompanyDialog } from "@/components/add-company-dialog";
+import { ExportLeadsButton } from "@/components/export-leads-button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Loader2, Building2, Trash2 } from "lucide-react";
+import { Loader2, Building2, Trash2, Pencil, Globe, Phone, MapPin, UserCircle, AtSign } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { PERMISSIONS } from "@shared/permissions";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
   AlertDialog,
@@ -31,6 +38,11 @@ export default function CompanyLeads() {
   const [replyingToLead, setReplyingToLead] = useState<Lead | null>(null);
   const [selectedLeadIds, setSelectedLeadIds] = useState<Set<string>>(new Set());
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [stageFilter, setStageFilter] = useState<string | null>(null);
+  const { can } = useAuth();
+  const { stages } = usePipelineStages();
+  const { getMemberName } = useTeamMembers();
   const { toast } = useToast();
 
   const { data: company, isLoading: companyLoading } = useQuery<Company>({
@@ -43,7 +55,7 @@ export default function CompanyLeads() {
     enabled: !!companyId,
   });
 
-  const { data: leads = [], isLoading: leadsLoading } = useQuery<Lead[]>({
+  const { data: companyLeads = [], isLoading: leadsLoading } = useQuery<Lead[]>({
     queryKey: ['/api/companies', companyId, 'leads'],
     queryFn: async () => {
       const response = await fetch(`/api/companies/${companyId}/leads`);
@@ -59,8 +71,8 @@ export default function CompanyLeads() {
   });
 
   const sendEmailMutation = useMutation({
-    mutationFn: async ({ leadId, subject, body, attachments }: { leadId: string; subject: string; body: string; attachments?: Array<{ filename: string; content: string; mimeType: string }> }) => {
-      return apiRequest("POST", `/api/leads/${leadId}/send-email`, { subject, body, attachments });
+    mutationFn: async ({ leadId, subject, body, attachments, to }: { leadId: string; subject: string; body: string; attachments?: Array<{ filename: string; content: string; mimeType: string }>; to?: string[] }) => {
+      return apiRequest("POST", `/api/leads/${leadId}/send-email`, { subject, body, attachments, to });
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['/api/emails', variables.leadId] });
@@ -92,16 +104,40 @@ export default function CompanyLeads() {
     },
   });
 
+  const assignOwnerMutation = useMutation({
+    mutationFn: async ({ leadId, userId }: { leadId: string; userId: string | null }) => {
+      const response = await apiRequest("PATCH", `/api/leads/${leadId}/assign`, { userId });
+      return response.json() as Promise<Lead>;
+    },
+    onSuccess: (updatedLead) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'leads'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      setSelectedLead(prev => prev && prev.id === updatedLead.id ? { ...prev, assignedUserId: updatedLead.assignedUserId } : prev);
+      toast({
+        title: "Lead assigned",
+        description: "The lead owner has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to assign lead",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const bulkDeleteMutation = useMutation({
     mutationFn: async (ids: string[]) => {
-      return apiRequest("POST", `/api/leads/bulk-delete`, { ids });
+      const response = await apiRequest("POST", `/api/leads/bulk-delete`, { ids });
+      return response.json() as Promise<{ count: number }>;
     },
-    onSuccess: (data: any) => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/companies', companyId, 'leads'] });
       queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
       toast({
-        title: "Leads deleted",
-        description: `${data.count} lead(s) deleted successfully.`,
+        title: "Leads moved to the trash",
+        description: `${data.count} lead(s) can be restored from the Trash page.`,
       });
       setSelectedLeadIds(new Set());
     },
@@ -119,13 +155,14 @@ export default function CompanyLeads() {
     setIsComposerOpen(true);
   };
 
-  const handleSendEmail = async (subject: string, body: string, attachments?: Array<{ filename: string; content: string; mimeType: string }>) => {
+  const handleSendEmail = async (subject: string, body: string, attachments?: Array<{ filename: string; content: string; mimeType: string }>, to?: string[]) => {
     if (!replyingToLead) return;
     await sendEmailMutation.mutateAsync({
       leadId: replyingToLead.id,
       subject,
       body,
       attachments,
+      to,
     });
   };
 
@@ -133,6 +170,10 @@ export default function CompanyLeads() {
     updateStatusMutation.mutate({ leadId, status: newStatus });
   };
 
+  const handleAssignOwner = (leadId: string, userId: string | null) => {
+    assignOwnerMutation.mutate({ leadId, userId });
+  };
+
   const handleToggleSelectLead = (leadId: string) => {
     const newSelected = new Set(selectedLeadIds);
     if (newSelected.has(leadId)) {
@@ -163,6 +204,12 @@ export default function CompanyLeads() {
     setIsDeleteDialogOpen(false);
   };
 
+  const stageCounts = stages.map(stage => ({
+    stage,
+    count: companyLeads.filter(lead => lead.status === stage.name).length,
+  }));
+  const leads = stageFilter ? companyLeads.filter(lead => lead.status === stageFilter) : companyLeads;
+
   const allSelected = leads.length > 0 && selectedLeadIds.size === leads.length;
   const someSelected = selectedLeadIds.size > 0 && selectedLeadIds.size < leads.length;
 
@@ -204,20 +251,118 @@ export default function CompanyLeads() {
             <p className="text-sm text-muted-foreground">
               {selectedLeadIds.size > 0 
                 ? `${selectedLeadIds.size} of ${leads.length} selected`
-                : `${leads.length} lead${leads.length !== 1 ? 's' : ''}`}
+                : `${companyLeads.length} lead${companyLeads.length !== 1 ? 's' : ''}`}
             </p>
           </div>
         </div>
-        {selectedLeadIds.size > 0 && (
-          <Button
-            variant="destructive"
-            onClick={handleDeleteSelected}
-            disabled={bulkDeleteMutation.isPending}
-          >
-            <Trash2 className="w-4 h-4 mr-2" />
-            Delete {selectedLeadIds.size} Lead{selectedLeadIds.size !== 1 ? 's' : ''}
-          </Button>
-        )}
+        <div className="flex items-center gap-2">
+          {selectedLeadIds.size > 0 && can(PERMISSIONS.LEADS_DELETE) && (
+            <Button
+              variant="destructive"
+              onClick={handleDeleteSelected}
+              disabled={bulkDeleteMutation.isPending}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete {selectedLeadIds.size} Lead{selectedLeadIds.size !== 1 ? 's' : ''}
+            </Button>
+          )}
+          <ExportLeadsButton filters={{ companyId: company.id, status: stageFilter ?? undefined }} />
+          {can(PERMISSIONS.COMPANIES_MANAGE) && (
+            <Button variant="outline" onClick={() => setIsEditOpen(true)} data-testid="button-edit-company">
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card data-testid="card-company-overview">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Overview</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="flex items-start gap-2">
+              <AtSign className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+              {company.domains.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {company.domains.map((domain) => (
+                    <Badge key={domain} variant="secondary">{domain}</Badge>
+                  ))}
+                </div>
+              ) : (
+                <span className="text-muted-foreground">No email domains</span>
+              )}
+            </div>
+            {company.phone && (
+              <div className="flex items-center gap-2">
+                <Phone className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <a href={`tel:${company.phone}`} className="hover:underline">{company.phone}</a>
+              </div>
+            )}
+            {company.website && (
+              <div className="flex items-center gap-2 min-w-0">
+                <Globe className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <a
+                  href={/^https?:\/\//i.test(company.website) ? company.website : `https://${company.website}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-fmd-green hover:underline truncate"
+                >
+                  {company.website}
+                </a>
+              </div>
+            )}
+            {company.address && (
+              <div className="flex items-start gap-2">
+                <MapPin className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                <span className="whitespace-pre-line">{company.address}</span>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <UserCircle className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              <span>{getMemberName(company.ownerUserId) ?? <span className="text-muted-foreground">No owner</span>}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card data-testid="card-company-pipeline">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Pipeline</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {stageCounts.map(({ stage, count }) => (
+              <button
+                key={stage.id}
+                type="button"
+                className={`w-full flex items-center gap-3 rounded-md px-2 py-1.5 text-sm hover-elevate ${stageFilter === stage.name ? 'bg-muted' : ''}`}
+                onClick={() => {
+                  setStageFilter(stageFilter === stage.name ? null : stage.name);
+                  setSelectedLeadIds(new Set());
+                }}
+                data-testid={`button-company-stage-${stage.id}`}
+              >
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: stage.color }} />
+                <span className="flex-1 text-left truncate">{stage.name}</span>
+                <div className="w-24 h-1.5 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full rounded-full"
+                    style={{
+                      backgroundColor: stage.color,
+                      width: `${companyLeads.length > 0 ? (count / companyLeads.length) * 100 : 0}%`,
+                    }}
+                  />
+                </div>
+                <span className="w-8 text-right font-medium">{count}</span>
+              </button>
+            ))}
+            {stageFilter && (
+              <p className="text-xs text-muted-foreground pt-2">
+                Showing {stageFilter} leads only. Click the stage again to show all.
+              </p>
+            )}
+          </CardContent>
+        </Card>
       </div>
 
       {leadsLoading ? (
@@ -228,7 +373,7 @@ export default function CompanyLeads() {
         <Card>
           <CardContent className="p-12 text-center">
             <p className="text-sm text-muted-foreground">
-              No leads for this company yet.
+              {stageFilter ? `No ${stageFilter} leads for this company.` : "No leads for this company yet."}
             </p>
           </CardContent>
         </Card>
@@ -289,15 +434,18 @@ export default function CompanyLeads() {
           onClose={() => setSelectedLead(null)}
           onStatusChange={handleStatusChange}
           onReply={handleReply}
+          onAssign={handleAssignOwner}
         />
       )}
 
+      <AddCompanyDialog isOpen={isEditOpen} onClose={() => setIsEditOpen(false)} company={company} />
+
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete {selectedLeadIds.size} lead{selectedLeadIds.size !== 1 ? 's' : ''} and all associated emails. This action cannot be undone.
+              {selectedLeadIds.size} lead{selectedLeadIds.size !== 1 ? 's' : ''} will be moved to the trash. You can restore them from the Trash page until they're purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -2,11 +2,13 @@ import React from "react";
 import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Lead, Email, Company } from "@shared/schema";
+import { Lead, Email, Company, LeadSortField } from "@shared/schema";
 import { LeadCard } from "@/components/lead-card";
 import { EmailComposerModal } from "@/components/email-composer-modal";
 import { LeadDetailPanel } from "@/components/lead-detail-panel";
 import { AddLeadDialog } from "@/components/add-lead-dialog";
+import { PipelineBoard } from "@/components/pipeline-board";
+import { BulkTagsDialog } from "@/components/bulk-tags-dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -28,9 +30,17 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Users, Mail, TrendingUp, Clock, Loader2, Search, Filter, Plus, Building2, Trash2 } from "lucide-react";
+import { Users, Mail, TrendingUp, Clock, Loader2, Search, Filter, Plus, Building2, Trash2, UserCircle, LayoutList, Kanban, Tag as TagIcon, Tags } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { useTags } from "@/hooks/use-tags";
+import { useLeads, leadSortOptions, type LeadQueryFilters } from "@/hooks/use-leads";
+import { ExportLeadsButton } from "@/components/export-leads-button";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { PERMISSIONS } from "@shared/permissions";
 import { notificationStore } from "@/lib/notificationStore";
 
 export default function Dashboard() {
@@ -43,16 +53,50 @@ export default function Dashboard() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [companyFilter, setCompanyFilter] = useState("all");
+  const [ownerFilter, setOwnerFilter] = useState("all");
+  const [tagFilter, setTagFilter] = useState("all");
+  const [sortOption, setSortOption] = useState("updatedAt:desc");
+  const [createdFrom, setCreatedFrom] = useState("");
+  const [createdTo, setCreatedTo] = useState("");
   const [selectedLeadIds, setSelectedLeadIds] = useState<Set<string>>(new Set());
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isAssignCompanyDialogOpen, setIsAssignCompanyDialogOpen] = useState(false);
   const [selectedCompanyId, setSelectedCompanyId] = useState<string>("");
-  const [currentPage, setCurrentPage] = useState(1);
-  const leadsPerPage = 10;
+  const [isAssignOwnerDialogOpen, setIsAssignOwnerDialogOpen] = useState(false);
+  const [selectedOwnerId, setSelectedOwnerId] = useState<string>("");
+  const [bulkTagsMode, setBulkTagsMode] = useState<"add" | "remove" | null>(null);
+  const [view, setView] = useState<"list" | "board">("list");
+  const { user, can } = useAuth();
+  const { members } = useTeamMembers();
+  const { tags } = useTags();
+  const { stages, getStage } = usePipelineStages();
   const { toast } = useToast();
 
-  const { data: leads = [], isLoading: leadsLoading } = useQuery<Lead[]>({
-    queryKey: ['/api/leads'],
+  const debouncedSearch = useDebouncedValue(searchTerm);
+  const [sortField, sortOrder] = sortOption.split(":") as [LeadSortField, "asc" | "desc"];
+  const leadFilters: LeadQueryFilters = {
+    companyId: companyFilter,
+    assignedUserId: ownerFilter === "mine" ? user?.id : ownerFilter === "unassigned" ? "none" : undefined,
+    search: debouncedSearch,
+    tagId: tagFilter,
+    from: createdFrom ? new Date(createdFrom).toISOString() : undefined,
+    to: createdTo ? new Date(`${createdTo}T23:59:59.999`).toISOString() : undefined,
+    sort: sortField,
+    order: sortOrder,
+  };
+
+  const {
+    leads,
+    total: totalMatching,
+    isLoading: leadsLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useLeads({ ...leadFilters, status: statusFilter });
+
+  // Unfiltered lead counts per stage, for the stats cards
+  const { data: stageCounts = {} } = useQuery<Record<string, number>>({
+    queryKey: ['/api/leads', 'stage-counts'],
   });
 
   const { data: companies = [] } = useQuery<Company[]>({
@@ -69,14 +113,18 @@ export default function Dashboard() {
     const params = new URLSearchParams(location.split('?')[1] || '');
     const selectedId = params.get('selected');
     
-    if (selectedId && leads.length > 0) {
-      const lead = leads.find(l => l.id === selectedId);
-      if (lead) {
-        setSelectedLead(lead);
-        setLocation('/');
+    if (!selectedId) return;
+    // The lead may not be on the loaded pages, so fetch it directly
+    (async () => {
+      try {
+        const res = await apiRequest('GET', `/api/leads/${selectedId}`);
+        setSelectedLead(await res.json());
+      } catch (e) {
+        // ignore - the lead may have been deleted
       }
-    }
-  }, [location, leads, setLocation]);
+      setLocation('/');
+    })();
+  }, [location, setLocation]);
 
   // Update selectedLead when leads data changes (e.g., after saving notes)
   useEffect(() => {
@@ -106,8 +154,8 @@ export default function Dashboard() {
   }, [selectedLead]);
 
   const sendEmailMutation = useMutation({
-    mutationFn: async ({ leadId, subject, body, attachments }: { leadId: string; subject: string; body: string; attachments?: Array<{ filename: string; content: string; mimeType: string }> }) => {
-      return apiRequest("POST", `/api/leads/${leadId}/send-email`, { subject, body, attachments });
+    mutationFn: async ({ leadId, subject, body, attachments, to }: { leadId: string; subject: string; body: string; attachments?: Array<{ filename: string; content: string; mimeType: string }>; to?: string[] }) => {
+      return apiRequest("POST", `/api/leads/${leadId}/send-email`, { subject, body, attachments, to });
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['/api/emails', variables.leadId] });
@@ -141,13 +189,14 @@ export default function Dashboard() {
 
   const bulkDeleteMutation = useMutation({
     mutationFn: async (ids: string[]) => {
-      return apiRequest("POST", `/api/leads/bulk-delete`, { ids });
+      const response = await apiRequest("POST", `/api/leads/bulk-delete`, { ids });
+      return response.json() as Promise<{ count: number }>;
     },
-    onSuccess: (data: any) => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
       toast({
-        title: "Leads deleted",
-        description: `${data.count} lead(s) deleted successfully.`,
+        title: "Leads moved to the trash",
+        description: `${data.count} lead(s) can be restored from the Trash page.`,
       });
       setSelectedLeadIds(new Set());
     },
@@ -184,6 +233,50 @@ export default function Dashboard() {
     },
   });
 
+  const assignOwnerMutation = useMutation({
+    mutationFn: async ({ leadId, userId }: { leadId: string; userId: string | null }) => {
+      return apiRequest("PATCH", `/api/leads/${leadId}/assign`, { userId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({
+        title: "Lead assigned",
+        description: "The lead owner has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to assign lead",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bulkAssignOwnerMutation = useMutation({
+    mutationFn: async ({ leadIds, userId }: { leadIds: string[]; userId: string | null }) => {
+      return apiRequest("POST", `/api/leads/bulk-assign-owner`, { leadIds, userId });
+    },
+    onSuccess: async (response) => {
+      const data = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({
+        title: "Owner assigned",
+        description: `${data.count} lead(s) reassigned successfully.`,
+      });
+      setSelectedLeadIds(new Set());
+      setIsAssignOwnerDialogOpen(false);
+      setSelectedOwnerId("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to assign owner",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateNotesMutation = useMutation({
     mutationFn: async ({ leadId, notes }: { leadId: string; notes: string }) => {
       return apiRequest("PATCH", `/api/leads/${leadId}/notes`, { notes });
@@ -209,13 +302,14 @@ export default function Dashboard() {
     setIsComposerOpen(true);
   };
 
-  const handleSendEmail = async (subject: string, body: string, attachments?: Array<{ filename: string; content: string; mimeType: string }>) => {
+  const handleSendEmail = async (subject: string, body: string, attachments?: Array<{ filename: string; content: string; mimeType: string }>, to?: string[]) => {
     if (!replyingToLead) return;
     await sendEmailMutation.mutateAsync({
       leadId: replyingToLead.id,
       subject,
       body,
       attachments,
+      to,
     });
   };
 
@@ -223,6 +317,10 @@ export default function Dashboard() {
     updateStatusMutation.mutate({ leadId, status: newStatus });
   };
 
+  const handleAssignOwner = (leadId: string, userId: string | null) => {
+    assignOwnerMutation.mutate({ leadId, userId });
+  };
+
   const handleUpdateNotes = async (leadId: string, notes: string) => {
     await updateNotesMutation.mutateAsync({ leadId, notes });
   };
@@ -238,10 +336,10 @@ export default function Dashboard() {
   };
 
   const handleSelectAll = () => {
-    if (selectedLeadIds.size === filteredLeads.length) {
+    if (selectedLeadIds.size === leads.length) {
       setSelectedLeadIds(new Set());
     } else {
-      setSelectedLeadIds(new Set(filteredLeads.map(lead => lead.id)));
+      setSelectedLeadIds(new Set(leads.map(lead => lead.id)));
     }
   };
 
@@ -277,57 +375,38 @@ export default function Dashboard() {
     }
   };
 
+  const confirmAssignOwner = async () => {
+    if (selectedLeadIds.size > 0) {
+      await bulkAssignOwnerMutation.mutateAsync({
+        leadIds: Array.from(selectedLeadIds),
+        userId: selectedOwnerId === "__none__" ? null : selectedOwnerId,
+      });
+    }
+  };
+
   // Get the last received email's subject for the lead being replied to
   const lastReceivedEmail = emails
     .filter(email => email.direction === "received")
     .sort((a, b) => new Date(b.sentAt).getTime() - new Date(a.sentAt).getTime())
     [0];
 
-  const filteredLeads = leads
-    .filter((lead) => {
-      const matchesSearch = 
-        lead.clientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        lead.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (lead.leadDetails && lead.leadDetails.toLowerCase().includes(searchTerm.toLowerCase()));
-      
-      const matchesStatus = statusFilter === "all" || lead.status === statusFilter;
-      
-      const matchesCompany = 
-        companyFilter === "all" || 
-        (companyFilter === "none" && !lead.companyId) ||
-        lead.companyId === companyFilter;
-      
-      return matchesSearch && matchesStatus && matchesCompany;
-    })
-    .sort((a, b) => {
-      // Sort by updatedAt (most recent first), fallback to createdAt
-      const dateA = new Date(a.updatedAt || a.createdAt).getTime();
-      const dateB = new Date(b.updatedAt || b.createdAt).getTime();
-      return dateB - dateA;
-    });
-
-  // Pagination calculations
-  const totalPages = Math.ceil(filteredLeads.length / leadsPerPage);
-  const startIndex = (currentPage - 1) * leadsPerPage;
-  const endIndex = startIndex + leadsPerPage;
-  const paginatedLeads = filteredLeads.slice(startIndex, endIndex);
-
-  // Reset to page 1 when filters change
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, statusFilter, companyFilter]);
-
+  // Leads past the first open stage have been worked on; won/lost stages count as closed
+  const firstOpenStage = stages.find(stage => stage.type === "open");
+  const countWhere = (predicate: (status: string) => boolean) =>
+    Object.entries(stageCounts).reduce((sum, [status, count]) => predicate(status) ? sum + count : sum, 0);
+  const isOpen = (status: string) => (getStage(status)?.type ?? "open") === "open";
+  const totalLeads = countWhere(() => true);
   const stats = {
-    total: leads.length,
-    active: leads.filter(l => !l.status.includes("Closed")).length,
-    contacted: leads.filter(l => l.status === "Contacted" || l.status === "Qualified").length,
-    conversion: leads.length > 0 
-      ? Math.round((leads.filter(l => l.status === "Closed Won").length / leads.length) * 100) 
+    total: totalLeads,
+    active: countWhere(isOpen),
+    contacted: countWhere(status => isOpen(status) && status !== firstOpenStage?.name),
+    conversion: totalLeads > 0
+      ? Math.round((countWhere(status => getStage(status)?.type === "won") / totalLeads) * 100)
       : 0,
   };
 
-  const allFilteredSelected = filteredLeads.length > 0 && selectedLeadIds.size === filteredLeads.length;
-  const someSelected = selectedLeadIds.size > 0 && selectedLeadIds.size < filteredLeads.length;
+  const allFilteredSelected = leads.length > 0 && selectedLeadIds.size === leads.length;
+  const someSelected = selectedLeadIds.size > 0 && selectedLeadIds.size < leads.length;
 
   return (
     <div className="space-y-4 sm:space-y-6">
@@ -340,36 +419,77 @@ export default function Dashboard() {
         <div className="flex flex-wrap gap-2">
           {selectedLeadIds.size > 0 && (
             <>
-              <Button
-                variant="outline"
-                onClick={handleAssignCompany}
-                disabled={bulkAssignCompanyMutation.isPending}
-                className="text-sm sm:text-base border-fmd-green text-fmd-green hover:bg-fmd-green hover:text-white"
-              >
-                <Building2 className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
-                <span className="hidden sm:inline">Assign Company </span>({selectedLeadIds.size})
-              </Button>
-              <Button
-                variant="destructive"
-                onClick={handleDeleteSelected}
-                disabled={bulkDeleteMutation.isPending}
-                className="text-sm sm:text-base"
-              >
-                <Trash2 className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
-                Delete {selectedLeadIds.size}
-              </Button>
+              {can(PERMISSIONS.LEADS_EDIT) && (
+                <Button
+                  variant="outline"
+                  onClick={() => setIsAssignOwnerDialogOpen(true)}
+                  disabled={bulkAssignOwnerMutation.isPending}
+                  className="text-sm sm:text-base border-fmd-green text-fmd-green hover:bg-fmd-green hover:text-white"
+                >
+                  <UserCircle className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
+                  <span className="hidden sm:inline">Assign Owner </span>({selectedLeadIds.size})
+                </Button>
+              )}
+              {can(PERMISSIONS.LEADS_EDIT) && (
+                <Button
+                  variant="outline"
+                  onClick={handleAssignCompany}
+                  disabled={bulkAssignCompanyMutation.isPending}
+                  className="text-sm sm:text-base border-fmd-green text-fmd-green hover:bg-fmd-green hover:text-white"
+                >
+                  <Building2 className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
+                  <span className="hidden sm:inline">Assign Company </span>({selectedLeadIds.size})
+                </Button>
+              )}
+              {can(PERMISSIONS.LEADS_EDIT) && (
+                <Button
+                  variant="outline"
+                  onClick={() => setBulkTagsMode("add")}
+                  className="text-sm sm:text-base border-fmd-green text-fmd-green hover:bg-fmd-green hover:text-white"
+                >
+                  <TagIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
+                  <span className="hidden sm:inline">Add Tags </span>({selectedLeadIds.size})
+                </Button>
+              )}
+              {can(PERMISSIONS.LEADS_EDIT) && (
+                <Button
+                  variant="outline"
+                  onClick={() => setBulkTagsMode("remove")}
+                  className="text-sm sm:text-base"
+                >
+                  <Tags className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
+                  <span className="hidden sm:inline">Remove Tags </span>({selectedLeadIds.size})
+                </Button>
+              )}
+              {can(PERMISSIONS.LEADS_DELETE) && (
+                <Button
+                  variant="destructive"
+                  onClick={handleDeleteSelected}
+                  disabled={bulkDeleteMutation.isPending}
+                  className="text-sm sm:text-base"
+                >
+                  <Trash2 className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
+                  Delete {selectedLeadIds.size}
+                </Button>
+              )}
             </>
           )}
-          <Button 
-            onClick={() => {
-              setEditingLead(null);
-              setIsAddLeadOpen(true);
-            }}
-            className="bg-fmd-green hover:bg-fmd-green-dark text-sm sm:text-base"
-          >
-            <Plus className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
-            Add Lead
-          </Button>
+          <ExportLeadsButton
+            filters={{ ...leadFilters, status: view === "list" ? statusFilter : undefined }}
+            className="text-sm sm:text-base"
+          />
+          {can(PERMISSIONS.LEADS_EDIT) && (
+            <Button 
+              onClick={() => {
+                setEditingLead(null);
+                setIsAddLeadOpen(true);
+              }}
+              className="bg-fmd-green hover:bg-fmd-green-dark text-sm sm:text-base"
+            >
+              <Plus className="w-4 h-4 sm:w-5 sm:h-5 mr-1 sm:mr-2" />
+              Add Lead
+            </Button>
+          )}
         </div>
       </div>
 
@@ -444,6 +564,16 @@ export default function Dashboard() {
         </div>
         <div className="flex items-center gap-2 flex-wrap">
           <Filter className="w-4 h-4 sm:w-5 sm:h-5 text-muted-foreground hidden sm:block" />
+          <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+            <SelectTrigger className="w-full sm:w-40 text-sm sm:text-base h-10 sm:h-11" data-testid="select-owner-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="text-sm sm:text-base">
+              <SelectItem value="all">All Leads</SelectItem>
+              <SelectItem value="mine">My Leads</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+            </SelectContent>
+          </Select>
           <Select value={companyFilter} onValueChange={setCompanyFilter}>
             <SelectTrigger className="w-full sm:w-48 text-sm sm:text-base h-10 sm:h-11" data-testid="select-company-filter">
               <SelectValue />
@@ -460,29 +590,101 @@ export default function Dashboard() {
               ))}
             </SelectContent>
           </Select>
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
-            <SelectTrigger className="w-full sm:w-48 text-sm sm:text-base h-10 sm:h-11" data-testid="select-filter">
+          <Select value={tagFilter} onValueChange={setTagFilter}>
+            <SelectTrigger className="w-full sm:w-40 text-sm sm:text-base h-10 sm:h-11" data-testid="select-tag-filter">
               <SelectValue />
             </SelectTrigger>
             <SelectContent className="text-sm sm:text-base">
-              <SelectItem value="all">All Statuses</SelectItem>
-              <SelectItem value="New">New</SelectItem>
-              <SelectItem value="Contacted">Contacted</SelectItem>
-              <SelectItem value="Qualified">Qualified</SelectItem>
-              <SelectItem value="In Progress">In Progress</SelectItem>
-              <SelectItem value="Follow-up">Follow-up</SelectItem>
-              <SelectItem value="Closed Won">Closed Won</SelectItem>
-              <SelectItem value="Closed Lost">Closed Lost</SelectItem>
-              <SelectItem value="Closed">Closed</SelectItem>
+              <SelectItem value="all">All Tags</SelectItem>
+              <SelectItem value="none">Untagged</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag.id} value={tag.id}>
+                  <div className="flex items-center gap-2">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {view === "list" && (
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full sm:w-48 text-sm sm:text-base h-10 sm:h-11" data-testid="select-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="text-sm sm:text-base">
+                <SelectItem value="all">All Statuses</SelectItem>
+                {stages.map((stage) => (
+                  <SelectItem key={stage.id} value={stage.name}>{stage.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={sortOption} onValueChange={setSortOption}>
+            <SelectTrigger className="w-full sm:w-48 text-sm sm:text-base h-10 sm:h-11" data-testid="select-sort">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="text-sm sm:text-base">
+              {leadSortOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
       </div>
 
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Created</span>
+        <Input
+          type="date"
+          className="w-auto h-9"
+          value={createdFrom}
+          onChange={(e) => setCreatedFrom(e.target.value)}
+          aria-label="Created from"
+          data-testid="input-created-from"
+        />
+        <span className="text-muted-foreground">to</span>
+        <Input
+          type="date"
+          className="w-auto h-9"
+          value={createdTo}
+          onChange={(e) => setCreatedTo(e.target.value)}
+          aria-label="Created to"
+          data-testid="input-created-to"
+        />
+        {(createdFrom || createdTo) && (
+          <Button variant="ghost" size="sm" onClick={() => { setCreatedFrom(""); setCreatedTo(""); }}>
+            Clear dates
+          </Button>
+        )}
+      </div>
+
       <div>
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-2xl font-semibold text-fmd-black">All Leads</h2>
-          {filteredLeads.length > 0 && (
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-semibold text-fmd-black">All Leads</h2>
+            <div className="flex items-center rounded-md border p-0.5" role="group" aria-label="View">
+              <Button
+                variant={view === "list" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setView("list")}
+                data-testid="button-view-list"
+              >
+                <LayoutList className="w-4 h-4 mr-1" />
+                List
+              </Button>
+              <Button
+                variant={view === "board" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setView("board")}
+                data-testid="button-view-board"
+              >
+                <Kanban className="w-4 h-4 mr-1" />
+                Board
+              </Button>
+            </div>
+          </div>
+          {view === "list" && leads.length > 0 && (
             <div className="flex items-center gap-3">
               <Checkbox
                 checked={allFilteredSelected}
@@ -492,18 +694,24 @@ export default function Dashboard() {
               />
               <p className="text-base text-muted-foreground" data-testid="text-result-count">
                 {selectedLeadIds.size > 0 
-                  ? `${selectedLeadIds.size} of ${filteredLeads.length} selected`
-                  : `${filteredLeads.length} lead${filteredLeads.length !== 1 ? 's' : ''}`}
+                  ? `${selectedLeadIds.size} of ${totalMatching} selected`
+                  : `${totalMatching} lead${totalMatching !== 1 ? 's' : ''}`}
               </p>
             </div>
           )}
         </div>
 
-        {leadsLoading ? (
+        {view === "board" ? (
+          <PipelineBoard
+            filters={leadFilters}
+            onViewDetails={setSelectedLead}
+            onStatusChange={handleStatusChange}
+          />
+        ) : leadsLoading ? (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
           </div>
-        ) : leads.length === 0 ? (
+        ) : totalLeads === 0 ? (
           <Card>
             <CardContent className="p-12 text-center">
               <Users className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
@@ -516,7 +724,7 @@ export default function Dashboard() {
               </Button>
             </CardContent>
           </Card>
-        ) : filteredLeads.length === 0 ? (
+        ) : leads.length === 0 ? (
           <Card>
             <CardContent className="p-12 text-center">
               <p className="text-base text-muted-foreground">
@@ -527,7 +735,7 @@ export default function Dashboard() {
         ) : (
           <>
             <div className="space-y-4">
-              {paginatedLeads.map((lead) => (
+              {leads.map((lead) => (
                 <div key={lead.id} className="flex items-start gap-3">
                   <Checkbox
                     checked={selectedLeadIds.has(lead.id)}
@@ -547,63 +755,29 @@ export default function Dashboard() {
               ))}
             </div>
 
-            {/* Pagination Controls */}
-            {totalPages > 1 && (
-              <div className="flex items-center justify-between pt-4 border-t">
-                <div className="text-sm text-muted-foreground">
-                  Showing {startIndex + 1} to {Math.min(endIndex, filteredLeads.length)} of {filteredLeads.length} leads
-                </div>
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                    disabled={currentPage === 1}
-                  >
-                    Previous
-                  </Button>
-                  <div className="flex items-center gap-1">
-                    {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => {
-                      // Show first page, last page, current page, and pages around current
-                      const showPage = 
-                        page === 1 || 
-                        page === totalPages || 
-                        (page >= currentPage - 1 && page <= currentPage + 1);
-                      
-                      const showEllipsis = 
-                        (page === currentPage - 2 && currentPage > 3) ||
-                        (page === currentPage + 2 && currentPage < totalPages - 2);
-
-                      if (showEllipsis) {
-                        return <span key={page} className="px-2 text-muted-foreground">...</span>;
-                      }
-
-                      if (!showPage) return null;
-
-                      return (
-                        <Button
-                          key={page}
-                          variant={currentPage === page ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => setCurrentPage(page)}
-                          className={currentPage === page ? "bg-fmd-green hover:bg-fmd-green-dark" : ""}
-                        >
-                          {page}
-                        </Button>
-                      );
-                    })}
-                  </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                    disabled={currentPage === totalPages}
-                  >
-                    Next
-                  </Button>
-                </div>
+            <div className="flex items-center justify-between pt-4 border-t">
+              <div className="text-sm text-muted-foreground">
+                Showing {leads.length} of {totalMatching} leads
               </div>
-            )}
+              {hasNextPage && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  data-testid="button-load-more"
+                >
+                  {isFetchingNextPage ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Loading...
+                    </>
+                  ) : (
+                    "Load more"
+                  )}
+                </Button>
+              )}
+            </div>
           </>
         )}
       </div>
@@ -640,6 +814,7 @@ export default function Dashboard() {
             setIsAddLeadOpen(true);
           }}
           onUpdateNotes={handleUpdateNotes}
+          onAssign={handleAssignOwner}
         />
       )}
 
@@ -648,7 +823,7 @@ export default function Dashboard() {
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete {selectedLeadIds.size} lead{selectedLeadIds.size !== 1 ? 's' : ''} and all associated emails. This action cannot be undone.
+              {selectedLeadIds.size} lead{selectedLeadIds.size !== 1 ? 's' : ''} will be moved to the trash. You can restore them from the Trash page until they're purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -701,6 +876,55 @@ export default function Dashboard() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <AlertDialog open={isAssignOwnerDialogOpen} onOpenChange={setIsAssignOwnerDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Assign Owner to Leads</AlertDialogTitle>
+            <AlertDialogDescription>
+              Select a sales rep to own {selectedLeadIds.size} selected lead{selectedLeadIds.size !== 1 ? 's' : ''}. They will be notified.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="py-4">
+            <Select value={selectedOwnerId} onValueChange={setSelectedOwnerId}>
+              <SelectTrigger className="w-full text-base h-11">
+                <SelectValue placeholder="Select a user..." />
+              </SelectTrigger>
+              <SelectContent className="text-base">
+                <SelectItem value="__none__">Unassigned</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    <div className="flex items-center gap-2">
+                      <UserCircle className="w-4 h-4" />
+                      {member.displayName || member.username}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => setSelectedOwnerId("")}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmAssignOwner}
+              disabled={bulkAssignOwnerMutation.isPending || !selectedOwnerId}
+              className="bg-fmd-green text-white hover:bg-fmd-green-dark"
+            >
+              {bulkAssignOwnerMutation.isPending ? "Assigning..." : "Assign Owner"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <BulkTagsDialog
+        mode={bulkTagsMode}
+        leadIds={Array.from(selectedLeadIds)}
+        onClose={() => setBulkTagsMode(null)}
+        onSuccess={() => {
+          setBulkTagsMode(null);
+          setSelectedLeadIds(new Set());
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,104 @@
+import React from "react";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, GitMerge, Loader2, Mail, Phone } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { MergeLeadsDialog } from "@/components/merge-leads-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { Company, Lead } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+type LeadWithCompany = Lead & { company?: Company | null };
+
+interface DuplicateLeadGroup {
+  matchedOn: "email" | "phone";
+  value: string;
+  leads: LeadWithCompany[];
+}
+
+export default function DuplicatesPage() {
+  const { can } = useAuth();
+  const { getStageColor } = usePipelineStages();
+  const [mergingLeads, setMergingLeads] = useState<LeadWithCompany[] | null>(null);
+
+  const { data: groups = [], isLoading } = useQuery<DuplicateLeadGroup[]>({
+    queryKey: ['/api/leads', 'duplicates'],
+    staleTime: 0,
+  });
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-semibold mb-2">Duplicate Leads</h1>
+        <p className="text-xs sm:text-sm text-muted-foreground">
+          Leads that share an email address or phone number. Merge them to keep one lead with all of its emails and notes.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <Copy className="w-12 h-12 mx-auto mb-3 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">No duplicate leads found</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <Card key={`${group.matchedOn}-${group.value}`} data-testid={`group-duplicate-${group.matchedOn}-${group.value}`}>
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-3">
+                <CardTitle className="text-base flex items-center gap-2 min-w-0">
+                  {group.matchedOn === "email" ? <Mail className="w-4 h-4 flex-shrink-0" /> : <Phone className="w-4 h-4 flex-shrink-0" />}
+                  <span className="truncate">{group.value}</span>
+                  <Badge variant="secondary">{group.leads.length} leads</Badge>
+                </CardTitle>
+                {can(PERMISSIONS.LEADS_DELETE) && (
+                  <Button
+                    size="sm"
+                    onClick={() => setMergingLeads(group.leads)}
+                    className="bg-fmd-green hover:bg-fmd-green-dark flex-shrink-0"
+                  >
+                    <GitMerge className="w-4 h-4 mr-2" />
+                    Merge
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="divide-y border rounded-md">
+                  {group.leads.map((lead) => (
+                    <div key={lead.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 p-3 text-sm">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{lead.clientName}</p>
+                        <p className="text-muted-foreground truncate">
+                          {lead.email}{lead.phone && ` • ${lead.phone}`}{lead.company && ` • ${lead.company.name}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3 flex-shrink-0">
+                        <Badge className="text-white" style={{ backgroundColor: getStageColor(lead.status) }}>
+                          {lead.status}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          Added {format(new Date(lead.createdAt), "MMM d, yyyy")}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <MergeLeadsDialog leads={mergingLeads} onClose={() => setMergingLeads(null)} />
+    </div>
+  );
+}
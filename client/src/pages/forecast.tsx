@@ -0,0 +1,204 @@
+import React from "react";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { endOfMonth, format } from "date-fns";
+import { Building2, CalendarDays, Layers, Loader2, TrendingUp } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { dealStageLabels } from "@/components/lead-deals";
+import { DealStage } from "@shared/schema";
+
+interface ForecastBucket {
+  key: string | null;
+  label: string;
+  count: number;
+  amount: number;
+  weighted: number;
+}
+
+interface DealForecast {
+  openCount: number;
+  openAmount: number;
+  weightedAmount: number;
+  wonAmount: number;
+  lostAmount: number;
+  byMonth: ForecastBucket[];
+  byCompany: ForecastBucket[];
+  byStage: ForecastBucket[];
+}
+
+export default function ForecastPage() {
+  const { user } = useAuth();
+  const [ownerFilter, setOwnerFilter] = useState("all");
+  const [fromMonth, setFromMonth] = useState(""); // YYYY-MM from the month inputs
+  const [toMonth, setToMonth] = useState("");
+
+  const assignedUserId = ownerFilter === "mine" ? user?.id : undefined;
+  const from = fromMonth ? `${fromMonth}-01` : undefined;
+  const to = toMonth ? format(endOfMonth(new Date(`${toMonth}-01T00:00:00`)), "yyyy-MM-dd") : undefined;
+
+  const { data: forecast, isLoading } = useQuery<DealForecast>({
+    queryKey: ['/api/forecast', from ?? "", to ?? "", assignedUserId ?? "all"],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+      if (assignedUserId) params.set("assignedUserId", assignedUserId);
+      const res = await apiRequest("GET", `/api/forecast?${params}`);
+      return res.json();
+    },
+    staleTime: 0,
+  });
+
+  const monthLabel = (bucket: ForecastBucket) =>
+    bucket.key ? format(new Date(`${bucket.key}-01T00:00:00`), "MMMM yyyy") : bucket.label;
+
+  const renderBuckets = (buckets: ForecastBucket[], getLabel: (bucket: ForecastBucket) => string, emptyText: string) => {
+    if (buckets.length === 0) {
+      return <p className="text-sm text-muted-foreground">{emptyText}</p>;
+    }
+    const largest = Math.max(...buckets.map(bucket => bucket.amount), 1);
+    return (
+      <div className="divide-y border rounded-md">
+        {buckets.map((bucket) => (
+          <div key={bucket.key ?? "none"} className="p-3 text-sm space-y-1.5">
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-medium truncate">
+                {getLabel(bucket)}
+                <Badge variant="secondary" className="ml-2">{bucket.count}</Badge>
+              </span>
+              <span className="text-right flex-shrink-0">
+                {formatCurrency(bucket.amount)}
+                <span className="text-muted-foreground ml-2">({formatCurrency(bucket.weighted)} weighted)</span>
+              </span>
+            </div>
+            <div className="h-1.5 rounded bg-muted">
+              <div className="h-1.5 rounded bg-fmd-green" style={{ width: `${(bucket.amount / largest) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const summary = forecast ? [
+    { label: "Open Pipeline", value: forecast.openAmount, note: `${forecast.openCount} open deals` },
+    { label: "Weighted Forecast", value: forecast.weightedAmount, note: "Amount × probability" },
+    { label: "Won", value: forecast.wonAmount, note: "Closed won" },
+    { label: "Lost", value: forecast.lostAmount, note: "Closed lost" },
+  ] : [];
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-semibold mb-2">Forecast</h1>
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            Pipeline value from deals, by expected close month, company and stage.
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            type="month"
+            value={fromMonth}
+            onChange={(e) => setFromMonth(e.target.value)}
+            className="w-full sm:w-40"
+            aria-label="From month"
+            data-testid="input-forecast-from"
+          />
+          <Input
+            type="month"
+            value={toMonth}
+            onChange={(e) => setToMonth(e.target.value)}
+            className="w-full sm:w-40"
+            aria-label="To month"
+            data-testid="input-forecast-to"
+          />
+          <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+            <SelectTrigger className="w-full sm:w-40" data-testid="select-forecast-owner-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Deals</SelectItem>
+              <SelectItem value="mine">My Deals</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading || !forecast ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {summary.map((item) => (
+              <Card key={item.label}>
+                <CardContent className="p-4">
+                  <p className="text-xs text-muted-foreground uppercase tracking-wide">{item.label}</p>
+                  <p className="text-xl sm:text-2xl font-semibold mt-1">{formatCurrency(item.value)}</p>
+                  <p className="text-xs text-muted-foreground mt-1">{item.note}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card data-testid="section-forecast-by-month">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center gap-2">
+                <CalendarDays className="w-4 h-4" />
+                Open Pipeline by Month
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0">
+              {renderBuckets(forecast.byMonth, monthLabel, "No open deals in this period")}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card data-testid="section-forecast-by-company">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Building2 className="w-4 h-4" />
+                  Open Pipeline by Company
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                {renderBuckets(forecast.byCompany, bucket => bucket.label, "No open deals in this period")}
+              </CardContent>
+            </Card>
+
+            <Card data-testid="section-forecast-by-stage">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Layers className="w-4 h-4" />
+                  By Stage
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                {renderBuckets(
+                  forecast.byStage,
+                  bucket => dealStageLabels[bucket.key as DealStage] ?? bucket.label,
+                  "No deals in this period",
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {forecast.openCount === 0 && forecast.wonAmount === 0 && forecast.lostAmount === 0 && (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <TrendingUp className="w-4 h-4" />
+              Add deals from a lead's detail panel to build the forecast.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
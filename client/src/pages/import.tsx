@@ -18,6 +18,7 @@ interface ImportSummary {
   duplicateEmails: string[];
   fileInternalDuplicates: string[];
   rejectedCount: number;
+  customFieldWarnings?: string[];
 }
 
 interface ImportResponse {
@@ -68,7 +69,7 @@ export default function Import() {
         messages.push(`${data.imported} leads imported successfully`);
       }
       if (data.duplicates > 0) {
-        messages.push(`${data.duplicates} duplicates found`);
+        messages.push(`${data.duplicates} duplicates skipped`);
       }
       if (data.rejected > 0) {
         messages.push(`${data.rejected} rejected`);
@@ -126,7 +127,7 @@ export default function Import() {
               <div>
                 <p className="font-medium text-sm">Required Columns</p>
                 <p className="text-sm text-muted-foreground">
-                  Name and Email are required. Phone Number, Subject, and Lead Description are optional.
+                  Name and Email are required. Phone Number, Subject, Lead Description and Tags (comma-separated) are optional. Columns named after a custom field fill that field.
                 </p>
               </div>
             </div>
@@ -144,7 +145,7 @@ export default function Import() {
               <div>
                 <p className="font-medium text-sm">Column Headers</p>
                 <p className="text-sm text-muted-foreground">
-                  First row should contain headers: Name, Email, Phone Number, Subject, Lead Description
+                  First row should contain headers: Name, Email, Phone Number, Subject, Lead Description, Tags
                 </p>
               </div>
             </div>
@@ -1,7 +1,7 @@
 import { useState, useRef, useMemo, useCallback } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { AgGridReact } from "ag-grid-react";
-import { ColDef, GridApi, GridReadyEvent, ModuleRegistry } from "ag-grid-community";
+import { ColDef, ColGroupDef, GridApi, GridReadyEvent, ModuleRegistry, ValueFormatterParams } from "ag-grid-community";
 import { AllCommunityModule } from "ag-grid-community";
 import "ag-grid-community/styles/ag-grid.css";
 import "ag-grid-community/styles/ag-theme-alpine.css";
@@ -9,8 +9,14 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Upload, Download, Plus, Trash2, Database, Bold, Type, Palette, FolderPlus, FolderMinus, Search, X } from "lucide-react";
+import { Upload, Download, Plus, Trash2, Database, Bold, Type, Palette, FolderPlus, FolderMinus, Search, X, DollarSign } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { PERMISSIONS } from "@shared/permissions";
+import { Inventory, PriceListWithRules, priceListPrices } from "@shared/schema";
+import { PriceListsDialog } from "@/components/price-lists-dialog";
+import { WaitingLeadsDialog } from "@/components/waiting-leads-dialog";
+import { formatCurrency } from "@/lib/utils";
 import {
   Dialog,
   DialogContent,
@@ -32,11 +38,20 @@ interface InventoryItem {
   totalSqFt: string | null;
   productHeading: string | null;
   notes: string | null;
+  costPerSqFt: string | null;
+  costPerBox: string | null;
+  pricePerSqFt: string | null;
+  pricePerBox: string | null;
 }
 
+const formatPrice = (params: ValueFormatterParams) =>
+  params.value === null || params.value === undefined || params.value === "" ? "" : formatCurrency(params.value);
+
 export default function InventoryPage() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canManage = can(PERMISSIONS.INVENTORY_MANAGE);
   const gridRef = useRef<AgGridReact>(null);
   const [gridApi, setGridApi] = useState<GridApi | null>(null);
   const [activeTab, setActiveTab] = useState("all");
@@ -47,6 +62,8 @@ export default function InventoryPage() {
   const [showRemoveCategoryDialog, setShowRemoveCategoryDialog] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState("");
   const [categoryToRemove, setCategoryToRemove] = useState<string | null>(null);
+  const [showPriceListsDialog, setShowPriceListsDialog] = useState(false);
+  const [waitingLeadsItem, setWaitingLeadsItem] = useState<{ id: string; product: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Fetch inventory data
@@ -54,6 +71,15 @@ export default function InventoryPage() {
     queryKey: ["/api/inventory"],
   });
 
+  const { data: priceLists = [] } = useQuery<PriceListWithRules[]>({
+    queryKey: ["/api/price-lists"],
+  });
+
+  // Open leads that have asked about each product, keyed by inventory id
+  const { data: waitingCounts = {} } = useQuery<Record<string, number>>({
+    queryKey: ["/api/inventory/waiting-leads"],
+  });
+
   // Extract unique categories from product headings
   const categories = useMemo(() => {
     const cats = new Set<string>();
@@ -86,7 +112,7 @@ export default function InventoryPage() {
   }, [inventory, activeTab, searchQuery]);
 
   // Column definitions
-  const columnDefs = useMemo<ColDef[]>(
+  const columnDefs = useMemo<(ColDef | ColGroupDef)[]>(
     () => [
       {
         headerCheckboxSelection: true,
@@ -97,7 +123,7 @@ export default function InventoryPage() {
       {
         headerName: "Product Heading",
         field: "productHeading",
-        editable: true,
+        editable: canManage,
         cellStyle: (params) => {
           if (params.value) {
             return {
@@ -116,7 +142,7 @@ export default function InventoryPage() {
       {
         headerName: "PRODUCT",
         field: "product",
-        editable: true,
+        editable: canManage,
         flex: 2,
         cellStyle: (params) => {
           const isBold = params.data.notes?.includes("BOLD");
@@ -134,31 +160,67 @@ export default function InventoryPage() {
       {
         headerName: "Boxes",
         field: "boxes",
-        editable: true,
+        editable: canManage,
         width: 120,
       },
       {
         headerName: "Sq Ft/box",
         field: "sqFtPerBox",
-        editable: true,
+        editable: canManage,
         width: 120,
       },
       {
         headerName: "Tot Sq Ft",
         field: "totalSqFt",
-        editable: true,
+        editable: canManage,
         width: 120,
       },
+      {
+        headerName: "Waiting",
+        colId: "waitingLeads",
+        width: 100,
+        type: "rightAligned",
+        headerTooltip: "Open leads that have asked about this product; click to see them",
+        valueGetter: (params) => waitingCounts[String(params.data?.id)] ?? null,
+        cellClass: (params) => params.value ? "text-fmd-green font-semibold cursor-pointer underline" : undefined,
+        onCellClicked: (params) => {
+          if (params.value) setWaitingLeadsItem({ id: String(params.data.id), product: params.data.product });
+        },
+      },
+      ...[
+        { headerName: "Cost/sq ft", field: "costPerSqFt" },
+        { headerName: "Cost/box", field: "costPerBox" },
+        { headerName: "Price/sq ft", field: "pricePerSqFt" },
+        { headerName: "Price/box", field: "pricePerBox" },
+      ].map((column): ColDef => ({
+        ...column,
+        editable: canManage,
+        width: 115,
+        type: "rightAligned",
+        valueFormatter: formatPrice,
+      })),
+      // Worked out from the prices above and the list's rules, so they can't be edited here
+      ...priceLists.map((list): ColGroupDef => ({
+        headerName: list.name,
+        children: (["perSqFt", "perBox"] as const).map((unit): ColDef => ({
+          headerName: unit === "perSqFt" ? "/sq ft" : "/box",
+          colId: `priceList:${list.id}:${unit}`,
+          width: 100,
+          type: "rightAligned",
+          valueGetter: (params) => params.data?.product ? priceListPrices(params.data as Inventory, list, list.rules)[unit] ?? null : null,
+          valueFormatter: formatPrice,
+        })),
+      })),
       {
         headerName: "Notes",
         field: "notes",
-        editable: true,
+        editable: canManage,
         flex: 1,
         cellEditorPopup: true,
         tooltipField: "notes",
       },
     ],
-    []
+    [canManage, priceLists, waitingCounts]
   );
 
   // Default column properties
@@ -220,7 +282,7 @@ export default function InventoryPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
-      toast({ title: "Items deleted successfully" });
+      toast({ title: "Items moved to the trash" });
     },
   });
 
@@ -251,6 +313,7 @@ export default function InventoryPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/price-lists"] });
       toast({ 
         title: activeTab !== "all" 
           ? `Import successful - items added to "${activeTab}"` 
@@ -437,6 +500,15 @@ export default function InventoryPage() {
         "Sq Ft/box": row.sqFtPerBox || "",
         "Tot Sq Ft": row.totalSqFt || "",
         Notes: row.notes || "",
+        "Cost/sq ft": row.costPerSqFt || "",
+        "Cost/box": row.costPerBox || "",
+        "Price/sq ft": row.pricePerSqFt || "",
+        "Price/box": row.pricePerBox || "",
+        // Read back on import; a price that differs from what the list works out becomes an override
+        ...Object.fromEntries(priceLists.flatMap((list) => {
+          const prices = priceListPrices(row as Inventory, list, list.rules);
+          return [[`${list.name} price/sq ft`, prices.perSqFt ?? ""], [`${list.name} price/box`, prices.perBox ?? ""]];
+        })),
       }))
     );
 
@@ -461,6 +533,10 @@ export default function InventoryPage() {
           totalSqFt: cells[3] || null,
           productHeading: cells[4] || null,
           notes: cells[5] || null,
+          costPerSqFt: cells[6] || null,
+          costPerBox: cells[7] || null,
+          pricePerSqFt: cells[8] || null,
+          pricePerBox: cells[9] || null,
         };
       });
 
@@ -745,7 +821,7 @@ export default function InventoryPage() {
     setActiveTab("all");
     toast({ 
       title: "Category removed", 
-      description: `Deleted ${itemsToDelete.length} items from ${categoryToRemove}` 
+      description: `Moved ${itemsToDelete.length} items from ${categoryToRemove} to the trash` 
     });
   };
 
@@ -755,37 +831,39 @@ export default function InventoryPage() {
       <div className="w-full lg:w-64 flex-shrink-0 bg-card rounded-lg border p-2 sm:p-4 max-h-48 lg:max-h-full overflow-y-auto">
         <div className="flex items-center justify-between mb-2 sm:mb-4">
           <h2 className="text-base sm:text-lg font-semibold">Categories</h2>
-          <div className="flex gap-1">
-            <Button
-              onClick={() => setShowAddCategoryDialog(true)}
-              variant="ghost"
-              size="icon"
-              className="h-7 w-7 sm:h-8 sm:w-8"
-              title="Add Category"
-            >
-              <FolderPlus className="w-3 h-3 sm:w-4 sm:h-4" />
-            </Button>
-            <Button
-              onClick={() => {
-                if (activeTab === "all") {
-                  toast({
-                    title: "Select a category",
-                    description: "Please select a category from the list to remove",
-                    variant: "destructive",
-                  });
-                  return;
-                }
-                setCategoryToRemove(activeTab);
-                setShowRemoveCategoryDialog(true);
-              }}
-              variant="ghost"
-              size="icon"
-              className="h-7 w-7 sm:h-8 sm:w-8"
-              title="Remove Category"
-            >
-              <FolderMinus className="w-3 h-3 sm:w-4 sm:h-4" />
-            </Button>
-          </div>
+          {canManage && (
+            <div className="flex gap-1">
+              <Button
+                onClick={() => setShowAddCategoryDialog(true)}
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 sm:h-8 sm:w-8"
+                title="Add Category"
+              >
+                <FolderPlus className="w-3 h-3 sm:w-4 sm:h-4" />
+              </Button>
+              <Button
+                onClick={() => {
+                  if (activeTab === "all") {
+                    toast({
+                      title: "Select a category",
+                      description: "Please select a category from the list to remove",
+                      variant: "destructive",
+                    });
+                    return;
+                  }
+                  setCategoryToRemove(activeTab);
+                  setShowRemoveCategoryDialog(true);
+                }}
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 sm:h-8 sm:w-8"
+                title="Remove Category"
+              >
+                <FolderMinus className="w-3 h-3 sm:w-4 sm:h-4" />
+              </Button>
+            </div>
+          )}
         </div>
         <div className="flex flex-row lg:flex-col gap-2 overflow-x-auto lg:overflow-x-visible pb-2 lg:pb-0">
           <button
@@ -831,30 +909,46 @@ export default function InventoryPage() {
             )}
           </div>
           <div className="flex gap-1 sm:gap-2 flex-wrap">
-            <Button onClick={handleAddRow} size="sm" className="text-xs sm:text-sm h-8 sm:h-9">
-              <Plus className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-2" />
-              <span className="hidden sm:inline">Add New Row</span>
-            </Button>
-            <Button onClick={handleDeleteSelected} variant="destructive" size="sm" className="text-xs sm:text-sm h-8 sm:h-9">
-              <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-2" />
-              <span className="hidden sm:inline">Delete</span>
-            </Button>
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept=".xlsx,.xls"
-              onChange={handleImport}
-              className="hidden"
-            />
-            <Button
-              onClick={() => fileInputRef.current?.click()}
-              variant="outline"
-              size="sm"
-              className="text-xs sm:text-sm h-8 sm:h-9"
-            >
-              <Upload className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-2" />
-              <span className="hidden sm:inline">Import</span>
-            </Button>
+            {canManage && (
+              <>
+                <Button onClick={handleAddRow} size="sm" className="text-xs sm:text-sm h-8 sm:h-9">
+                  <Plus className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Add New Row</span>
+                </Button>
+                <Button onClick={handleDeleteSelected} variant="destructive" size="sm" className="text-xs sm:text-sm h-8 sm:h-9">
+                  <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Delete</span>
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".xlsx,.xls"
+                  onChange={handleImport}
+                  className="hidden"
+                />
+                <Button
+                  onClick={() => fileInputRef.current?.click()}
+                  variant="outline"
+                  size="sm"
+                  className="text-xs sm:text-sm h-8 sm:h-9"
+                >
+                  <Upload className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Import</span>
+                </Button>
+              </>
+            )}
+            {canManage && (
+              <Button
+                onClick={() => setShowPriceListsDialog(true)}
+                variant="outline"
+                size="sm"
+                className="text-xs sm:text-sm h-8 sm:h-9"
+                data-testid="button-price-lists"
+              >
+                <DollarSign className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-2" />
+                <span className="hidden sm:inline">Price Lists</span>
+              </Button>
+            )}
             <Button onClick={handleExport} variant="outline" size="sm" className="text-xs sm:text-sm h-8 sm:h-9">
               <Download className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-2" />
               <span className="hidden sm:inline">Export</span>
@@ -885,44 +979,46 @@ export default function InventoryPage() {
         </div>
 
         {/* Formatting Toolbar */}
-        <div className="flex items-center gap-2 sm:gap-3 p-2 sm:p-3 bg-muted rounded-lg flex-wrap overflow-x-auto">
-          <Label className="text-xs sm:text-sm font-semibold">Format:</Label>
-          <Button onClick={handleMakeBold} variant="outline" size="sm" className="h-8 sm:h-9 text-xs sm:text-sm">
-            <Bold className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-2" />
-            <span className="hidden sm:inline">Toggle Bold</span>
-          </Button>
-          <div className="flex items-center gap-2">
-            <Label htmlFor="fontSize" className="text-xs sm:text-sm">Size:</Label>
-            <Input
-              id="fontSize"
-              type="number"
-              value={fontSize}
-              onChange={(e) => setFontSize(e.target.value)}
-              className="w-12 sm:w-16 h-7 sm:h-8 text-xs sm:text-sm"
-              min="10"
-              max="32"
-            />
-            <Button onClick={handleChangeFontSize} variant="outline" size="sm" className="h-7 sm:h-8 w-7 sm:w-auto px-2">
-              <Type className="w-3 h-3 sm:w-4 sm:h-4" />
+        {canManage && (
+          <div className="flex items-center gap-2 sm:gap-3 p-2 sm:p-3 bg-muted rounded-lg flex-wrap overflow-x-auto">
+            <Label className="text-xs sm:text-sm font-semibold">Format:</Label>
+            <Button onClick={handleMakeBold} variant="outline" size="sm" className="h-8 sm:h-9 text-xs sm:text-sm">
+              <Bold className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-2" />
+              <span className="hidden sm:inline">Toggle Bold</span>
             </Button>
-          </div>
-          <div className="flex items-center gap-2">
-            <Label htmlFor="cellColor" className="text-xs sm:text-sm">Color:</Label>
-            <Input
-              id="cellColor"
-              type="color"
-              value={cellColor}
-              onChange={(e) => setCellColor(e.target.value)}
-              className="w-10 sm:w-12 h-7 sm:h-8 p-1"
-            />
-            <Button onClick={handleApplyColor} variant="outline" size="sm" className="h-7 sm:h-8 w-7 sm:w-auto px-2">
-              <Palette className="w-3 h-3 sm:w-4 sm:h-4" />
+            <div className="flex items-center gap-2">
+              <Label htmlFor="fontSize" className="text-xs sm:text-sm">Size:</Label>
+              <Input
+                id="fontSize"
+                type="number"
+                value={fontSize}
+                onChange={(e) => setFontSize(e.target.value)}
+                className="w-12 sm:w-16 h-7 sm:h-8 text-xs sm:text-sm"
+                min="10"
+                max="32"
+              />
+              <Button onClick={handleChangeFontSize} variant="outline" size="sm" className="h-7 sm:h-8 w-7 sm:w-auto px-2">
+                <Type className="w-3 h-3 sm:w-4 sm:h-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="cellColor" className="text-xs sm:text-sm">Color:</Label>
+              <Input
+                id="cellColor"
+                type="color"
+                value={cellColor}
+                onChange={(e) => setCellColor(e.target.value)}
+                className="w-10 sm:w-12 h-7 sm:h-8 p-1"
+              />
+              <Button onClick={handleApplyColor} variant="outline" size="sm" className="h-7 sm:h-8 w-7 sm:w-auto px-2">
+                <Palette className="w-3 h-3 sm:w-4 sm:h-4" />
+              </Button>
+            </div>
+            <Button onClick={handleRemoveFormatting} variant="outline" size="sm" className="h-7 sm:h-8 text-xs sm:text-sm">
+              Clear
             </Button>
           </div>
-          <Button onClick={handleRemoveFormatting} variant="outline" size="sm" className="h-7 sm:h-8 text-xs sm:text-sm">
-            Clear
-          </Button>
-        </div>
+        )}
 
         {/* Grid Content */}
         <div className="ag-theme-alpine flex-1 min-h-0" style={{ height: '100%', width: '100%' }}>
@@ -952,6 +1048,15 @@ export default function InventoryPage() {
         </div>
       </div>
 
+      <WaitingLeadsDialog item={waitingLeadsItem} onClose={() => setWaitingLeadsItem(null)} />
+
+      <PriceListsDialog
+        isOpen={showPriceListsDialog}
+        onClose={() => setShowPriceListsDialog(false)}
+        items={inventory as unknown as Inventory[]}
+        categories={categories}
+      />
+
       {/* Add Category Dialog */}
       <Dialog open={showAddCategoryDialog} onOpenChange={setShowAddCategoryDialog}>
         <DialogContent>
@@ -995,7 +1100,7 @@ export default function InventoryPage() {
           <DialogHeader>
             <DialogTitle>Remove Category</DialogTitle>
             <DialogDescription>
-              Are you sure you want to remove "{categoryToRemove}"? This will delete all {inventory.filter(i => i.productHeading === categoryToRemove).length} items in this category.
+              Are you sure you want to remove "{categoryToRemove}"? All {inventory.filter(i => i.productHeading === categoryToRemove).length} items in this category will be moved to the trash, where they can be restored.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -2,11 +2,13 @@ import React from "react";
 import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Lead, Email, Company } from "@shared/schema";
+import { Lead, Email, Company, LeadSortField } from "@shared/schema";
 import { LeadCard } from "@/components/lead-card";
 import { EmailComposerModal } from "@/components/email-composer-modal";
 import { LeadDetailPanel } from "@/components/lead-detail-panel";
 import { AddLeadDialog } from "@/components/add-lead-dialog";
+import { PipelineBoard } from "@/components/pipeline-board";
+import { CustomFieldFilter } from "@/components/custom-field-filter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -17,9 +19,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Search, Loader2, Filter, Plus, Building2, Trash2 } from "lucide-react";
+import { Search, Loader2, Filter, Plus, Building2, Trash2, LayoutList, Kanban } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { useLeads, leadSortOptions, type LeadQueryFilters, type LeadCustomFieldFilter } from "@/hooks/use-leads";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { PERMISSIONS } from "@shared/permissions";
 import { notificationStore } from "@/lib/notificationStore";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
@@ -43,13 +50,40 @@ export default function Leads() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [companyFilter, setCompanyFilter] = useState("all");
+  const [ownerFilter, setOwnerFilter] = useState("all");
+  const [sortOption, setSortOption] = useState("createdAt:desc");
+  const [createdFrom, setCreatedFrom] = useState("");
+  const [createdTo, setCreatedTo] = useState("");
+  const [customFieldFilter, setCustomFieldFilter] = useState<LeadCustomFieldFilter | null>(null);
   const [selectedLeadIds, setSelectedLeadIds] = useState<Set<string>>(new Set());
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [view, setView] = useState<"list" | "board">("list");
+  const { user, can } = useAuth();
+  const { stages } = usePipelineStages();
   const { toast } = useToast();
 
-  const { data: leads = [], isLoading } = useQuery<Lead[]>({
-    queryKey: ['/api/leads'],
-  });
+  const debouncedSearch = useDebouncedValue(searchTerm);
+  const debouncedCustomFieldFilter = useDebouncedValue(customFieldFilter);
+  const [sortField, sortOrder] = sortOption.split(":") as [LeadSortField, "asc" | "desc"];
+  const leadFilters: LeadQueryFilters = {
+    companyId: companyFilter,
+    assignedUserId: ownerFilter === "mine" ? user?.id : ownerFilter === "unassigned" ? "none" : undefined,
+    search: debouncedSearch,
+    from: createdFrom ? new Date(createdFrom).toISOString() : undefined,
+    to: createdTo ? new Date(`${createdTo}T23:59:59.999`).toISOString() : undefined,
+    sort: sortField,
+    order: sortOrder,
+    customFields: debouncedCustomFieldFilter ? [debouncedCustomFieldFilter] : undefined,
+  };
+
+  const {
+    leads,
+    total: totalMatching,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useLeads({ ...leadFilters, status: statusFilter });
 
   const { data: companies = [] } = useQuery<Company[]>({
     queryKey: ['/api/companies'],
@@ -65,15 +99,29 @@ export default function Leads() {
     const params = new URLSearchParams(location.split('?')[1] || '');
     const selectedId = params.get('selected');
     
-    if (selectedId && leads.length > 0) {
-      const lead = leads.find(l => l.id === selectedId);
-      if (lead) {
-        setSelectedLead(lead);
-        // Clear the query parameter after selecting
-        setLocation('/leads');
+    if (!selectedId) return;
+    // The lead may not be on the loaded pages, so fetch it directly
+    (async () => {
+      try {
+        const res = await apiRequest('GET', `/api/leads/${selectedId}`);
+        setSelectedLead(await res.json());
+      } catch (e) {
+        console.error('Failed to load selected lead:', e);
+      }
+      // Clear the query parameter after selecting
+      setLocation('/leads');
+    })();
+  }, [location, setLocation]);
+
+  // Keep the open lead in sync with refetched list data (e.g. after editing its tags)
+  useEffect(() => {
+    if (selectedLead && leads.length > 0) {
+      const updatedLead = leads.find(l => l.id === selectedLead.id);
+      if (updatedLead) {
+        setSelectedLead(updatedLead);
       }
     }
-  }, [location, leads, setLocation]);
+  }, [leads]);
 
   // When opening a lead, clear its unread counter and trigger a quick inbox sync
   useEffect(() => {
@@ -102,8 +150,8 @@ export default function Leads() {
   }, [selectedLead]);
 
   const sendEmailMutation = useMutation({
-    mutationFn: async ({ leadId, subject, body, attachments }: { leadId: string; subject: string; body: string; attachments?: Array<{ filename: string; content: string; mimeType: string }> }) => {
-      return apiRequest("POST", `/api/leads/${leadId}/send-email`, { subject, body, attachments });
+    mutationFn: async ({ leadId, subject, body, attachments, to }: { leadId: string; subject: string; body: string; attachments?: Array<{ filename: string; content: string; mimeType: string }>; to?: string[] }) => {
+      return apiRequest("POST", `/api/leads/${leadId}/send-email`, { subject, body, attachments, to });
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['/api/emails', variables.leadId] });
@@ -135,15 +183,36 @@ export default function Leads() {
     },
   });
 
+  const assignOwnerMutation = useMutation({
+    mutationFn: async ({ leadId, userId }: { leadId: string; userId: string | null }) => {
+      return apiRequest("PATCH", `/api/leads/${leadId}/assign`, { userId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+      toast({
+        title: "Lead assigned",
+        description: "The lead owner has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to assign lead",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const bulkDeleteMutation = useMutation({
     mutationFn: async (ids: string[]) => {
-      return apiRequest("POST", `/api/leads/bulk-delete`, { ids });
+      const response = await apiRequest("POST", `/api/leads/bulk-delete`, { ids });
+      return response.json() as Promise<{ count: number }>;
     },
-    onSuccess: (data: any) => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
       toast({
-        title: "Leads deleted",
-        description: `${data.count} lead(s) deleted successfully.`,
+        title: "Leads moved to the trash",
+        description: `${data.count} lead(s) can be restored from the Trash page.`,
       });
       setSelectedLeadIds(new Set());
     },
@@ -161,13 +230,14 @@ export default function Leads() {
     setIsComposerOpen(true);
   };
 
-  const handleSendEmail = async (subject: string, body: string, attachments?: Array<{ filename: string; content: string; mimeType: string }>) => {
+  const handleSendEmail = async (subject: string, body: string, attachments?: Array<{ filename: string; content: string; mimeType: string }>, to?: string[]) => {
     if (!replyingToLead) return;
     await sendEmailMutation.mutateAsync({
       leadId: replyingToLead.id,
       subject,
       body,
       attachments,
+      to,
     });
   };
 
@@ -175,6 +245,10 @@ export default function Leads() {
     updateStatusMutation.mutate({ leadId, status: newStatus });
   };
 
+  const handleAssignOwner = (leadId: string, userId: string | null) => {
+    assignOwnerMutation.mutate({ leadId, userId });
+  };
+
   const handleToggleSelectLead = (leadId: string) => {
     const newSelected = new Set(selectedLeadIds);
     if (newSelected.has(leadId)) {
@@ -186,10 +260,10 @@ export default function Leads() {
   };
 
   const handleSelectAll = () => {
-    if (selectedLeadIds.size === filteredLeads.length) {
+    if (selectedLeadIds.size === leads.length) {
       setSelectedLeadIds(new Set());
     } else {
-      setSelectedLeadIds(new Set(filteredLeads.map(lead => lead.id)));
+      setSelectedLeadIds(new Set(leads.map(lead => lead.id)));
     }
   };
 
@@ -211,24 +285,8 @@ export default function Leads() {
     .sort((a, b) => new Date(b.sentAt).getTime() - new Date(a.sentAt).getTime())
     [0];
 
-  const filteredLeads = leads.filter((lead) => {
-    const matchesSearch = 
-      lead.clientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      lead.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (lead.leadDetails && lead.leadDetails.toLowerCase().includes(searchTerm.toLowerCase()));
-    
-    const matchesStatus = statusFilter === "all" || lead.status === statusFilter;
-    
-    const matchesCompany = 
-      companyFilter === "all" || 
-      (companyFilter === "none" && !lead.companyId) ||
-      lead.companyId === companyFilter;
-    
-    return matchesSearch && matchesStatus && matchesCompany;
-  });
-
-  const allFilteredSelected = filteredLeads.length > 0 && selectedLeadIds.size === filteredLeads.length;
-  const someSelected = selectedLeadIds.size > 0 && selectedLeadIds.size < filteredLeads.length;
+  const allFilteredSelected = leads.length > 0 && selectedLeadIds.size === leads.length;
+  const someSelected = selectedLeadIds.size > 0 && selectedLeadIds.size < leads.length;
 
   return (
     <div className="space-y-6">
@@ -240,7 +298,27 @@ export default function Leads() {
           </p>
         </div>
         <div className="flex gap-2">
-          {selectedLeadIds.size > 0 && (
+          <div className="flex items-center rounded-md border p-0.5" role="group" aria-label="View">
+            <Button
+              variant={view === "list" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setView("list")}
+              data-testid="button-view-list"
+            >
+              <LayoutList className="w-4 h-4 mr-1" />
+              List
+            </Button>
+            <Button
+              variant={view === "board" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setView("board")}
+              data-testid="button-view-board"
+            >
+              <Kanban className="w-4 h-4 mr-1" />
+              Board
+            </Button>
+          </div>
+          {view === "list" && selectedLeadIds.size > 0 && can(PERMISSIONS.LEADS_DELETE) && (
             <Button
               variant="destructive"
               onClick={handleDeleteSelected}
@@ -250,16 +328,18 @@ export default function Leads() {
               Delete {selectedLeadIds.size} Lead{selectedLeadIds.size !== 1 ? 's' : ''}
             </Button>
           )}
-          <Button 
-            onClick={() => {
-              setEditingLead(null);
-              setIsAddLeadOpen(true);
-            }}
-            className="bg-fmd-green hover:bg-fmd-green-dark"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Lead
-          </Button>
+          {can(PERMISSIONS.LEADS_EDIT) && (
+            <Button 
+              onClick={() => {
+                setEditingLead(null);
+                setIsAddLeadOpen(true);
+              }}
+              className="bg-fmd-green hover:bg-fmd-green-dark"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Lead
+            </Button>
+          )}
         </div>
       </div>
 
@@ -276,6 +356,16 @@ export default function Leads() {
         </div>
         <div className="flex items-center gap-2">
           <Filter className="w-4 h-4 text-muted-foreground" />
+          <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+            <SelectTrigger className="w-40" data-testid="select-owner-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Leads</SelectItem>
+              <SelectItem value="mine">My Leads</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+            </SelectContent>
+          </Select>
           <Select value={companyFilter} onValueChange={setCompanyFilter}>
             <SelectTrigger className="w-48" data-testid="select-company-filter">
               <SelectValue />
@@ -292,34 +382,74 @@ export default function Leads() {
               ))}
             </SelectContent>
           </Select>
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
-            <SelectTrigger className="w-48" data-testid="select-filter">
+          {view === "list" && (
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-48" data-testid="select-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                {stages.map((stage) => (
+                  <SelectItem key={stage.id} value={stage.name}>{stage.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={sortOption} onValueChange={setSortOption}>
+            <SelectTrigger className="w-44" data-testid="select-sort">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All Statuses</SelectItem>
-              <SelectItem value="New">New</SelectItem>
-              <SelectItem value="Contacted">Contacted</SelectItem>
-              <SelectItem value="Qualified">Qualified</SelectItem>
-              <SelectItem value="In Progress">In Progress</SelectItem>
-              <SelectItem value="Follow-up">Follow-up</SelectItem>
-              <SelectItem value="Closed Won">Closed Won</SelectItem>
-              <SelectItem value="Closed Lost">Closed Lost</SelectItem>
-              <SelectItem value="Closed">Closed</SelectItem>
+              {leadSortOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
       </div>
 
-      {isLoading ? (
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Created</span>
+        <Input
+          type="date"
+          className="w-auto h-9"
+          value={createdFrom}
+          onChange={(e) => setCreatedFrom(e.target.value)}
+          aria-label="Created from"
+          data-testid="input-created-from"
+        />
+        <span className="text-muted-foreground">to</span>
+        <Input
+          type="date"
+          className="w-auto h-9"
+          value={createdTo}
+          onChange={(e) => setCreatedTo(e.target.value)}
+          aria-label="Created to"
+          data-testid="input-created-to"
+        />
+        {(createdFrom || createdTo) && (
+          <Button variant="ghost" size="sm" onClick={() => { setCreatedFrom(""); setCreatedTo(""); }}>
+            Clear dates
+          </Button>
+        )}
+        <CustomFieldFilter value={customFieldFilter} onChange={setCustomFieldFilter} />
+      </div>
+
+      {view === "board" ? (
+        <PipelineBoard
+          filters={leadFilters}
+          onViewDetails={setSelectedLead}
+          onStatusChange={handleStatusChange}
+        />
+      ) : isLoading ? (
         <div className="flex items-center justify-center py-12">
           <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
         </div>
-      ) : filteredLeads.length === 0 ? (
+      ) : leads.length === 0 ? (
         <Card>
           <CardContent className="p-12 text-center">
             <p className="text-sm text-muted-foreground">
-              {searchTerm || statusFilter !== "all" || companyFilter !== "all"
+              {searchTerm || statusFilter !== "all" || companyFilter !== "all" || ownerFilter !== "all" || createdFrom || createdTo || customFieldFilter
                 ? "No leads match your filters" 
                 : "No leads yet. Import some to get started."}
             </p>
@@ -337,13 +467,13 @@ export default function Leads() {
               />
               <p className="text-sm text-muted-foreground" data-testid="text-result-count">
                 {selectedLeadIds.size > 0 
-                  ? `${selectedLeadIds.size} of ${filteredLeads.length} selected`
-                  : `Showing ${filteredLeads.length} lead${filteredLeads.length !== 1 ? 's' : ''}`}
+                  ? `${selectedLeadIds.size} of ${totalMatching} selected`
+                  : `Showing ${leads.length} of ${totalMatching} lead${totalMatching !== 1 ? 's' : ''}`}
               </p>
             </div>
           </div>
           <div className="space-y-4">
-            {filteredLeads.map((lead) => (
+            {leads.map((lead) => (
               <div key={lead.id} className="flex items-start gap-3">
                 <Checkbox
                   checked={selectedLeadIds.has(lead.id)}
@@ -363,6 +493,25 @@ export default function Leads() {
               </div>
             ))}
           </div>
+          {hasNextPage && (
+            <div className="flex justify-center pt-4">
+              <Button
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                data-testid="button-load-more"
+              >
+                {isFetchingNextPage ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  "Load more"
+                )}
+              </Button>
+            </div>
+          )}
         </div>
       )}
 
@@ -397,6 +546,7 @@ export default function Leads() {
             setEditingLead(lead);
             setIsAddLeadOpen(true);
           }}
+          onAssign={handleAssignOwner}
         />
       )}
 
@@ -405,7 +555,7 @@ export default function Leads() {
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete {selectedLeadIds.size} lead{selectedLeadIds.size !== 1 ? 's' : ''} and all associated emails. This action cannot be undone.
+              {selectedLeadIds.size} lead{selectedLeadIds.size !== 1 ? 's' : ''} will be moved to the trash. You can restore them from the Trash page until they're purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -5,42 +5,31 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Login() {
   const [, setLocation] = useLocation();
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
+  const { loginMutation } = useAuth();
   const { toast } = useToast();
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsLoading(true);
 
-    // Simple authentication logic
-    if (username === "Admin" && password === "NapolloDevops") {
-      localStorage.setItem("userRole", "admin");
-      localStorage.setItem("username", "Admin");
+    try {
+      const user = await loginMutation.mutateAsync({ username, password });
       toast({
-        title: "Welcome Admin!",
+        title: `Welcome ${user.displayName || user.username}!`,
         description: "You have successfully logged in.",
       });
       setLocation("/");
-    } else if (username === "FMD" && password === "Napollo@786") {
-      localStorage.setItem("userRole", "client");
-      localStorage.setItem("username", "FMD");
-      toast({
-        title: "Welcome FMD!",
-        description: "You have successfully logged in.",
-      });
-      setLocation("/");
-    } else {
+    } catch (error) {
       toast({
         title: "Login Failed",
         description: "Invalid username or password.",
         variant: "destructive",
       });
-      setIsLoading(false);
     }
   };
 
@@ -68,6 +57,7 @@ export default function Login() {
                 onChange={(e) => setUsername(e.target.value)}
                 required
                 autoFocus
+                autoComplete="username"
                 className="h-12 text-base"
               />
             </div>
@@ -80,15 +70,16 @@ export default function Login() {
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 required
+                autoComplete="current-password"
                 className="h-12 text-base"
               />
             </div>
             <Button
               type="submit"
               className="w-full h-12 text-base bg-fmd-green hover:bg-fmd-green/90"
-              disabled={isLoading}
+              disabled={loginMutation.isPending}
             >
-              {isLoading ? "Logging in..." : "Login"}
+              {loginMutation.isPending ? "Logging in..." : "Login"}
             </Button>
           </form>
         </CardContent>
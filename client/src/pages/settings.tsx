@@ -9,6 +9,12 @@ import { Mail, CheckCircle2, Database, Key, Server, Save, Eye, EyeOff, Bell, Bel
 import { useToast } from "@/hooks/use-toast";
 import { Separator } from "@/components/ui/separator";
 import { queryClient } from "@/lib/queryClient";
+import { PipelineStagesSettings } from "@/components/pipeline-stages-settings";
+import { CustomFieldsSettings } from "@/components/custom-fields-settings";
+import { TagsSettings } from "@/components/tags-settings";
+import { LeadScoringSettings } from "@/components/lead-scoring-settings";
+import { WebFormsSettings } from "@/components/web-forms-settings";
+import { AssignmentRulesSettings } from "@/components/assignment-rules-settings";
 
 interface ConfigData {
   DATABASE_URL: string;
@@ -21,6 +27,7 @@ interface ConfigData {
   GROQ_MODEL: string;
   PORT: string;
   NODE_ENV: string;
+  TRASH_RETENTION_DAYS: string;
 }
 
 export default function Settings() {
@@ -35,6 +42,7 @@ export default function Settings() {
     GROQ_MODEL: '',
     PORT: '',
     NODE_ENV: '',
+    TRASH_RETENTION_DAYS: '',
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -287,6 +295,10 @@ export default function Settings() {
             <CardContent className="space-y-4">
               {renderInput('PORT', 'Server Port', '5000')}
               {renderInput('NODE_ENV', 'Environment', 'development')}
+              {renderInput('TRASH_RETENTION_DAYS', 'Trash Retention (days)', '30')}
+              <p className="text-xs text-muted-foreground">
+                Deleted leads and inventory items are purged permanently after this many days in the trash.
+              </p>
             </CardContent>
           </Card>
 
@@ -344,22 +356,23 @@ export default function Settings() {
             </CardContent>
           </Card>
 
-          {/* Lead Statuses */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">Lead Statuses</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex flex-wrap gap-2">
-                <Badge variant="default">NEW</Badge>
-                <Badge variant="secondary">CONTACTED</Badge>
-                <Badge variant="outline">QUALIFIED</Badge>
-                <Badge variant="secondary">FOLLOW-UP</Badge>
-                <Badge variant="default">CLOSED WON</Badge>
-                <Badge variant="outline">CLOSED LOST</Badge>
-              </div>
-            </CardContent>
-          </Card>
+          {/* Sales Pipeline */}
+          <PipelineStagesSettings />
+
+          {/* Custom Fields */}
+          <CustomFieldsSettings />
+
+          {/* Lead Tags */}
+          <TagsSettings />
+
+          {/* Lead Scoring */}
+          <LeadScoringSettings />
+
+          {/* Lead Assignment */}
+          <AssignmentRulesSettings />
+
+          {/* Web Forms */}
+          <WebFormsSettings />
         </div>
       )}
     </div>
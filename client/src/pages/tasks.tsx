@@ -0,0 +1,176 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { endOfDay, format, formatDistanceToNow } from "date-fns";
+import { AlertTriangle, CalendarClock, ListChecks, Loader2, UserCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useTeamMembers } from "@/hooks/use-team-members";
+import { usePipelineStages } from "@/hooks/use-pipeline-stages";
+import { Lead, Task } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+type TaskWithLead = Task & { lead: Pick<Lead, "id" | "clientName" | "email" | "status"> };
+
+export default function TasksPage() {
+  const [, navigate] = useLocation();
+  const { user, can } = useAuth();
+  const canEdit = can(PERMISSIONS.LEADS_EDIT);
+  const { toast } = useToast();
+  const { getMemberName } = useTeamMembers();
+  const { getStageColor } = usePipelineStages();
+  const [ownerFilter, setOwnerFilter] = useState("mine");
+
+  const until = endOfDay(new Date()).toISOString();
+  const assignedUserId = ownerFilter === "mine" ? user?.id : ownerFilter === "unassigned" ? "none" : undefined;
+
+  const { data: tasks = [], isLoading } = useQuery<TaskWithLead[]>({
+    queryKey: ['/api/tasks', 'due', until, assignedUserId ?? "all"],
+    queryFn: async () => {
+      const params = new URLSearchParams({ until });
+      if (assignedUserId) params.set("assignedUserId", assignedUserId);
+      const res = await apiRequest("GET", `/api/tasks/due?${params}`);
+      return res.json();
+    },
+    staleTime: 0,
+    refetchInterval: 60000,
+  });
+
+  const completeTaskMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("PATCH", `/api/tasks/${id}`, { done: true });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leads'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to complete task",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const now = Date.now();
+  const overdue = tasks.filter(task => new Date(task.dueAt).getTime() < now);
+  const dueToday = tasks.filter(task => new Date(task.dueAt).getTime() >= now);
+
+  const renderTasks = (sectionTasks: TaskWithLead[], isOverdue: boolean) => (
+    <div className="divide-y border rounded-md">
+      {sectionTasks.map((task) => {
+        const assigneeName = getMemberName(task.assignedUserId);
+        return (
+          <div key={task.id} className="flex items-start gap-3 p-3 text-sm" data-testid={`task-row-${task.id}`}>
+            <Checkbox
+              checked={false}
+              disabled={!canEdit || completeTaskMutation.isPending}
+              onCheckedChange={() => completeTaskMutation.mutate(task.id)}
+              className="mt-0.5"
+              aria-label={`Mark "${task.title}" done`}
+            />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium">{task.title}</p>
+              <button
+                type="button"
+                className="text-muted-foreground hover:underline truncate max-w-full text-left"
+                onClick={() => navigate(`/leads?selected=${task.lead.id}`)}
+              >
+                {task.lead.clientName} • {task.lead.email}
+              </button>
+            </div>
+            <div className="flex flex-col items-end gap-1 flex-shrink-0">
+              <span className={`text-xs flex items-center gap-1 ${isOverdue ? "text-red-600 font-medium" : "text-muted-foreground"}`}>
+                <CalendarClock className="w-3 h-3" />
+                {isOverdue
+                  ? formatDistanceToNow(new Date(task.dueAt), { addSuffix: true })
+                  : format(new Date(task.dueAt), "h:mm a")}
+              </span>
+              <div className="flex items-center gap-1">
+                {assigneeName && (
+                  <Badge variant="outline" className="text-xs gap-1">
+                    <UserCircle className="w-3 h-3" />
+                    {assigneeName}
+                  </Badge>
+                )}
+                <Badge className="text-white text-xs" style={{ backgroundColor: getStageColor(task.lead.status) }}>
+                  {task.lead.status}
+                </Badge>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-semibold mb-2">Tasks</h1>
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            Open follow-ups that are overdue or due by the end of today.
+          </p>
+        </div>
+        <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+          <SelectTrigger className="w-full sm:w-40" data-testid="select-task-owner-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="mine">My Tasks</SelectItem>
+            <SelectItem value="all">All Tasks</SelectItem>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : tasks.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <ListChecks className="w-12 h-12 mx-auto mb-3 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">Nothing overdue or due today</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {overdue.length > 0 && (
+            <Card data-testid="section-tasks-overdue">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2 text-red-600">
+                  <AlertTriangle className="w-4 h-4" />
+                  Overdue
+                  <Badge variant="secondary">{overdue.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">{renderTasks(overdue, true)}</CardContent>
+            </Card>
+          )}
+          {dueToday.length > 0 && (
+            <Card data-testid="section-tasks-due-today">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <CalendarClock className="w-4 h-4" />
+                  Due Today
+                  <Badge variant="secondary">{dueToday.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">{renderTasks(dueToday, false)}</CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
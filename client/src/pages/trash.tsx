@@ -0,0 +1,279 @@
+import React from "react";
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { addDays, formatDistanceToNow } from "date-fns";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Company, Inventory, Lead } from "@shared/schema";
+import { PERMISSIONS } from "@shared/permissions";
+
+interface TrashedLeads {
+  leads: (Lead & { company?: Company | null })[];
+  retentionDays: number;
+}
+
+interface TrashedInventory {
+  items: Inventory[];
+  retentionDays: number;
+}
+
+interface TrashRow {
+  id: string;
+  title: string;
+  subtitle: string;
+  deletedAt: Date | string;
+}
+
+export default function TrashPage() {
+  const { can } = useAuth();
+  const canManageInventory = can(PERMISSIONS.INVENTORY_MANAGE);
+
+  const { data: leadTrash, isLoading: leadsLoading } = useQuery<TrashedLeads>({
+    queryKey: ['/api/trash/leads'],
+    staleTime: 0,
+  });
+
+  const { data: inventoryTrash, isLoading: inventoryLoading } = useQuery<TrashedInventory>({
+    queryKey: ['/api/trash/inventory'],
+    enabled: canManageInventory,
+    staleTime: 0,
+  });
+
+  const retentionDays = leadTrash?.retentionDays ?? inventoryTrash?.retentionDays;
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div>
+        <h1 className="text-xl sm:text-2xl font-semibold mb-2">Trash</h1>
+        <p className="text-xs sm:text-sm text-muted-foreground">
+          Deleted leads and inventory items can be restored from here
+          {retentionDays ? ` for ${retentionDays} day${retentionDays !== 1 ? "s" : ""}` : ""}, after which they're deleted permanently.
+        </p>
+      </div>
+
+      <Tabs defaultValue="leads">
+        <TabsList>
+          <TabsTrigger value="leads" data-testid="tab-trash-leads">
+            Leads{leadTrash ? ` (${leadTrash.leads.length})` : ""}
+          </TabsTrigger>
+          {canManageInventory && (
+            <TabsTrigger value="inventory" data-testid="tab-trash-inventory">
+              Inventory{inventoryTrash ? ` (${inventoryTrash.items.length})` : ""}
+            </TabsTrigger>
+          )}
+        </TabsList>
+        <TabsContent value="leads">
+          <TrashList
+            kind="leads"
+            noun="lead"
+            isLoading={leadsLoading}
+            retentionDays={leadTrash?.retentionDays}
+            rows={(leadTrash?.leads ?? []).map(lead => ({
+              id: lead.id,
+              title: lead.clientName,
+              subtitle: [lead.email, lead.company?.name, lead.status].filter(Boolean).join(" • "),
+              deletedAt: lead.deletedAt!,
+            }))}
+            invalidateKeys={[['/api/leads'], ['/api/companies'], ['/api/tasks'], ['/api/search']]}
+          />
+        </TabsContent>
+        {canManageInventory && (
+          <TabsContent value="inventory">
+            <TrashList
+              kind="inventory"
+              noun="item"
+              isLoading={inventoryLoading}
+              retentionDays={inventoryTrash?.retentionDays}
+              rows={(inventoryTrash?.items ?? []).map(item => ({
+                id: item.id,
+                title: item.product,
+                subtitle: [item.productHeading, item.boxes && `${item.boxes} boxes`, item.totalSqFt && `${item.totalSqFt} sq ft`].filter(Boolean).join(" • "),
+                deletedAt: item.deletedAt!,
+              }))}
+              invalidateKeys={[['/api/inventory']]}
+            />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+}
+
+interface TrashListProps {
+  kind: "leads" | "inventory"; // Selects the /api/trash/<kind> endpoints
+  noun: string;
+  rows: TrashRow[];
+  isLoading: boolean;
+  retentionDays?: number;
+  invalidateKeys: string[][]; // Lists that change when items come back or go for good
+}
+
+function TrashList({ kind, noun, rows, isLoading, retentionDays, invalidateKeys }: TrashListProps) {
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isPurgeDialogOpen, setIsPurgeDialogOpen] = useState(false);
+
+  const plural = (count: number) => `${count} ${noun}${count !== 1 ? "s" : ""}`;
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/trash/${kind}`] });
+    invalidateKeys.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+    setSelectedIds(new Set());
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const res = await apiRequest("POST", `/api/trash/${kind}/restore`, { ids });
+      return res.json() as Promise<{ count: number }>;
+    },
+    onSuccess: (data) => {
+      onChanged();
+      toast({ title: "Restored", description: `${plural(data.count)} restored.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to restore", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const res = await apiRequest("POST", `/api/trash/${kind}/purge`, { ids });
+      return res.json() as Promise<{ count: number }>;
+    },
+    onSuccess: (data) => {
+      onChanged();
+      toast({ title: "Deleted permanently", description: `${plural(data.count)} deleted.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const allSelected = rows.length > 0 && selectedIds.size === rows.length;
+  const isPending = restoreMutation.isPending || purgeMutation.isPending;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-12 text-center">
+          <Trash2 className="w-12 h-12 mx-auto mb-3 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">The trash is empty</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0 pb-3">
+        <CardTitle className="text-base flex items-center gap-3">
+          <Checkbox
+            checked={allSelected}
+            onCheckedChange={() => setSelectedIds(allSelected ? new Set() : new Set(rows.map(row => row.id)))}
+            aria-label={`Select all ${noun}s`}
+          />
+          {selectedIds.size > 0 ? `${selectedIds.size} of ${plural(rows.length)} selected` : plural(rows.length)}
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={selectedIds.size === 0 || isPending}
+            onClick={() => restoreMutation.mutate(Array.from(selectedIds))}
+            data-testid={`button-restore-${kind}`}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Restore
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            disabled={selectedIds.size === 0 || isPending}
+            onClick={() => setIsPurgeDialogOpen(true)}
+            data-testid={`button-purge-${kind}`}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete Forever
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0">
+        <div className="divide-y border rounded-md">
+          {rows.map((row) => (
+            <div key={row.id} className="flex items-center gap-3 p-3 text-sm" data-testid={`trash-row-${row.id}`}>
+              <Checkbox
+                checked={selectedIds.has(row.id)}
+                onCheckedChange={() => toggle(row.id)}
+                aria-label={`Select ${row.title}`}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{row.title}</p>
+                {row.subtitle && <p className="text-muted-foreground truncate">{row.subtitle}</p>}
+              </div>
+              <div className="text-xs text-muted-foreground text-right flex-shrink-0">
+                <p>Deleted {formatDistanceToNow(new Date(row.deletedAt), { addSuffix: true })}</p>
+                {retentionDays && (
+                  <p>Purged {formatDistanceToNow(addDays(new Date(row.deletedAt), retentionDays), { addSuffix: true })}</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={isPurgeDialogOpen} onOpenChange={setIsPurgeDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {plural(selectedIds.size)} will be deleted permanently{kind === "leads" ? ", along with their emails" : ""}. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeMutation.mutate(Array.from(selectedIds))}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,299 @@
+import React from "react";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Pencil, Trash2, Users } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { PublicUser } from "@shared/schema";
+import { ROLES, ROLE_LABELS, type Role } from "@shared/permissions";
+
+interface UserFormState {
+  username: string;
+  displayName: string;
+  password: string;
+  role: Role;
+  away: boolean;
+}
+
+const emptyForm: UserFormState = {
+  username: "",
+  displayName: "",
+  password: "",
+  role: "sales_rep",
+  away: false,
+};
+
+export default function UsersPage() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [editingUser, setEditingUser] = useState<PublicUser | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<UserFormState>(emptyForm);
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const saveUserMutation = useMutation({
+    mutationFn: async (data: UserFormState) => {
+      const payload = {
+        displayName: data.displayName.trim() || null,
+        role: data.role,
+        ...(data.password ? { password: data.password } : {}),
+      };
+      if (editingUser) {
+        return apiRequest("PATCH", `/api/users/${editingUser.id}`, { ...payload, away: data.away ? 1 : 0 });
+      }
+      return apiRequest("POST", "/api/users", { ...payload, username: data.username.trim() });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/assignable'] });
+      toast({
+        title: editingUser ? "User updated" : "User created",
+        description: editingUser ? "The user has been updated." : "The user can now log in.",
+      });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/users/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: "User deleted",
+        description: "The user can no longer log in.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingUser(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (user: PublicUser) => {
+    setEditingUser(user);
+    setForm({
+      username: user.username,
+      displayName: user.displayName || "",
+      password: "",
+      role: user.role as Role,
+      away: user.away === 1,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingUser(null);
+    setForm(emptyForm);
+  };
+
+  const handleDelete = (user: PublicUser) => {
+    if (!confirm(`Delete user "${user.username}"?`)) return;
+    deleteUserMutation.mutate(user.id);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveUserMutation.mutate(form);
+  };
+
+  const canSubmit = editingUser
+    ? form.password === "" || form.password.length >= 8
+    : form.username.trim() !== "" && form.password.length >= 8;
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-semibold mb-2">Users</h1>
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            Manage who can log in and what their role allows them to do
+          </p>
+        </div>
+        <Button onClick={openCreate} className="text-sm sm:text-base bg-fmd-green hover:bg-fmd-green/90">
+          <Plus className="w-4 h-4 mr-2" />
+          Add User
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Team Members
+          </CardTitle>
+          <CardDescription>
+            Admins manage everything, sales reps work leads and send emails, read-only users can only view
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground text-center py-6">Loading users...</p>
+          ) : (
+            <div className="divide-y">
+              {users.map((user) => (
+                <div key={user.id} className="flex items-center justify-between py-3 gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {user.displayName || user.username}
+                      {user.id === currentUser?.id && (
+                        <span className="text-muted-foreground text-sm ml-2">(you)</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">{user.username}</p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {user.away === 1 && <Badge variant="outline">Away</Badge>}
+                    <Badge variant={user.role === "admin" ? "default" : "secondary"}>
+                      {ROLE_LABELS[user.role as Role] ?? user.role}
+                    </Badge>
+                    <Button size="icon" variant="ghost" onClick={() => openEdit(user)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => handleDelete(user)}
+                      disabled={user.id === currentUser?.id || deleteUserMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingUser ? "Edit User" : "Add User"}</DialogTitle>
+            <DialogDescription>
+              {editingUser ? "Leave the password empty to keep the current one" : "Create a login for a team member"}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit}>
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="user-username">Username</Label>
+                <Input
+                  id="user-username"
+                  value={form.username}
+                  onChange={(e) => setForm({ ...form, username: e.target.value })}
+                  disabled={!!editingUser}
+                  autoComplete="off"
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user-display-name">Display Name</Label>
+                <Input
+                  id="user-display-name"
+                  value={form.displayName}
+                  onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user-password">Password</Label>
+                <Input
+                  id="user-password"
+                  type="password"
+                  placeholder="At least 8 characters"
+                  value={form.password}
+                  onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  autoComplete="new-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select
+                  value={form.role}
+                  onValueChange={(value) => setForm({ ...form, role: value as Role })}
+                  disabled={editingUser?.id === currentUser?.id}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {editingUser && (
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="user-away">Away</Label>
+                    <p className="text-xs text-muted-foreground">Assignment rules that skip away reps pass over this user</p>
+                  </div>
+                  <Switch
+                    id="user-away"
+                    checked={form.away}
+                    onCheckedChange={(away) => setForm({ ...form, away })}
+                  />
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={closeDialog}
+                disabled={saveUserMutation.isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!canSubmit || saveUserMutation.isPending}>
+                {saveUserMutation.isPending ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingUser ? (
+                  "Save Changes"
+                ) : (
+                  "Add User"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
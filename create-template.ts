@@ -9,21 +9,24 @@ const templateData = [
     "Email": "john.smith@example.com",
     "Phone Number": "555-123-4567",
     "Subject": "Interested in flooring services",
-    "Lead Description": "Looking for hardwood flooring installation for living room and kitchen. Budget around $5000."
+    "Lead Description": "Looking for hardwood flooring installation for living room and kitchen. Budget around $5000.",
+    "Tags": "residential"
   },
   {
     "Name": "Sarah Johnson",
     "Email": "sarah.j@company.com",
     "Phone Number": "555-987-6543",
     "Subject": "Commercial flooring inquiry",
-    "Lead Description": "Need commercial grade flooring for office space, approximately 2000 sq ft."
+    "Lead Description": "Need commercial grade flooring for office space, approximately 2000 sq ft.",
+    "Tags": "commercial, needs sample"
   },
   {
     "Name": "Mike Davis",
     "Email": "mike.davis@email.com",
     "Phone Number": "555-555-1234",
     "Subject": "Tile installation quote",
-    "Lead Description": "Interested in ceramic tile for bathroom remodel. Looking for estimates."
+    "Lead Description": "Interested in ceramic tile for bathroom remodel. Looking for estimates.",
+    "Tags": ""
   }
 ];
 
@@ -37,7 +40,8 @@ ws['!cols'] = [
   { wch: 30 },  // Email
   { wch: 18 },  // Phone Number
   { wch: 30 },  // Subject
-  { wch: 60 }   // Lead Description
+  { wch: 60 },  // Lead Description
+  { wch: 30 }   // Tags
 ];
 
 // Add worksheet to workbook
@@ -54,4 +58,5 @@ console.log('   2. Email (Required)');
 console.log('   3. Phone Number (Optional)');
 console.log('   4. Subject (Optional)');
 console.log('   5. Lead Description (Optional)');
+console.log('   6. Tags (Optional, separated by commas)');
 console.log('\n💡 You can delete the sample rows and add your own data.');
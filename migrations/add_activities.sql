@@ -0,0 +1,16 @@
+-- Calls, meetings, site visits and texts logged against a lead
+CREATE TABLE IF NOT EXISTS activities (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id VARCHAR NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  outcome TEXT,
+  duration_minutes INTEGER,
+  notes TEXT,
+  occurred_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_by VARCHAR,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Used by the lead timeline
+CREATE INDEX IF NOT EXISTS idx_activities_lead_occurred ON activities(lead_id, occurred_at);
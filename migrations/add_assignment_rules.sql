@@ -0,0 +1,30 @@
+-- Rule-based auto-assignment of new leads, round-robin within each rule's group of reps
+ALTER TABLE users ADD COLUMN IF NOT EXISTS away INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS assignment_rules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  criterion TEXT NOT NULL,
+  value TEXT NOT NULL,
+  user_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  skip_away INTEGER NOT NULL DEFAULT 1,
+  last_assigned_user_id VARCHAR,
+  position INTEGER NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- One entry per new lead the rules looked at
+CREATE TABLE IF NOT EXISTS lead_assignment_log (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id VARCHAR NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  rule_id VARCHAR REFERENCES assignment_rules(id) ON DELETE SET NULL,
+  rule_name TEXT,
+  assigned_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  source TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_assignment_log_lead_id ON lead_assignment_log(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_assignment_log_created_at ON lead_assignment_log(created_at);
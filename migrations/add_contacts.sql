@@ -0,0 +1,17 @@
+-- Contacts on a lead (homeowner, contractor, property manager, ...) or company-wide
+CREATE TABLE IF NOT EXISTS contacts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id VARCHAR REFERENCES leads(id) ON DELETE CASCADE,
+  company_id VARCHAR REFERENCES companies(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  email TEXT,
+  phone TEXT,
+  role TEXT NOT NULL DEFAULT 'other',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_lead ON contacts(lead_id);
+CREATE INDEX IF NOT EXISTS idx_contacts_company ON contacts(company_id);
+-- Inbox sync matches senders against contact addresses
+CREATE INDEX IF NOT EXISTS idx_contacts_email ON contacts(lower(trim(email)));
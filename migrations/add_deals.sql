@@ -0,0 +1,19 @@
+-- Deals: the commercial side of a lead, used for the revenue forecast
+CREATE TABLE IF NOT EXISTS deals (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id VARCHAR NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL,
+  expected_close_date DATE,
+  probability INTEGER NOT NULL DEFAULT 0,
+  stage TEXT NOT NULL DEFAULT 'qualification',
+  closed_at TIMESTAMP,
+  created_by VARCHAR,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deals_lead_id ON deals(lead_id);
+
+-- Forecast totals by stage and expected close month
+CREATE INDEX IF NOT EXISTS idx_deals_stage_close_date ON deals(stage, expected_close_date);
@@ -0,0 +1,11 @@
+-- Full-text search over leads and their emails (GET /api/search).
+-- The expressions must match the ones queried in storage.searchLeadsAndEmails or the indexes go unused.
+CREATE INDEX IF NOT EXISTS idx_leads_search ON leads USING GIN (
+  to_tsvector('english',
+    coalesce(client_name, '') || ' ' || coalesce(email, '') || ' ' || coalesce(subject, '') || ' ' ||
+    coalesce(lead_details, '') || ' ' || coalesce(notes, ''))
+);
+
+CREATE INDEX IF NOT EXISTS idx_emails_search ON emails USING GIN (
+  to_tsvector('english', subject || ' ' || body)
+);
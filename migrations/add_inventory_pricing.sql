@@ -0,0 +1,30 @@
+-- Cost and sell prices on inventory, and price lists that mark them up or override them
+ALTER TABLE inventory ADD COLUMN IF NOT EXISTS cost_per_sq_ft NUMERIC(10, 2);
+ALTER TABLE inventory ADD COLUMN IF NOT EXISTS cost_per_box NUMERIC(10, 2);
+ALTER TABLE inventory ADD COLUMN IF NOT EXISTS price_per_sq_ft NUMERIC(10, 2);
+ALTER TABLE inventory ADD COLUMN IF NOT EXISTS price_per_box NUMERIC(10, 2);
+
+CREATE TABLE IF NOT EXISTS price_lists (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  basis TEXT NOT NULL DEFAULT 'price',
+  markup_percent NUMERIC(6, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS price_list_rules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_list_id VARCHAR NOT NULL REFERENCES price_lists(id) ON DELETE CASCADE,
+  inventory_id VARCHAR REFERENCES inventory(id) ON DELETE CASCADE,
+  category TEXT,
+  markup_percent NUMERIC(6, 2),
+  price_per_sq_ft NUMERIC(10, 2),
+  price_per_box NUMERIC(10, 2),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- One rule per product and one per category in each list
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_list_rules_product ON price_list_rules(price_list_id, inventory_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_list_rules_category ON price_list_rules(price_list_id, category);
@@ -0,0 +1,4 @@
+-- Lookups by normalized email/phone used by duplicate detection, merge and inbox matching.
+-- The expressions must match normalizedLeadEmail / normalizedLeadPhone in server/storage.ts.
+CREATE INDEX IF NOT EXISTS idx_leads_email_normalized ON leads (lower(trim(email)));
+CREATE INDEX IF NOT EXISTS idx_leads_phone_normalized ON leads (right(regexp_replace(phone, '[^0-9]', '', 'g'), 10));
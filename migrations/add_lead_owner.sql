@@ -0,0 +1,7 @@
+-- Add lead ownership (assigned sales rep)
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS assigned_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_assigned_user ON leads(assigned_user_id);
+
+-- Notifications can now target a single user and carry a type
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS user_id VARCHAR REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT 'email_reply';
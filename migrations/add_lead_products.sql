@@ -0,0 +1,14 @@
+-- Inventory products a lead has asked about, with the square footage they need
+CREATE TABLE IF NOT EXISTS lead_products (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id VARCHAR NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  inventory_id VARCHAR NOT NULL REFERENCES inventory(id) ON DELETE CASCADE,
+  sq_ft NUMERIC(12, 2),
+  created_by VARCHAR,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- One link per product on each lead; the second index finds the leads waiting on a product
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lead_products_lead_inventory ON lead_products(lead_id, inventory_id);
+CREATE INDEX IF NOT EXISTS idx_lead_products_inventory ON lead_products(inventory_id);
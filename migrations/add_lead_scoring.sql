@@ -0,0 +1,17 @@
+-- Rule-based lead scoring: each lead stores the sum of the points of the rules it matches
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS score INTEGER NOT NULL DEFAULT 0;
+
+-- Sorting the lead list by score
+CREATE INDEX IF NOT EXISTS idx_leads_score ON leads(score, id);
+
+CREATE TABLE IF NOT EXISTS lead_score_rules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  criterion TEXT NOT NULL,
+  value TEXT,
+  points INTEGER NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Emails per lead, for the reply count and last contact criteria
+CREATE INDEX IF NOT EXISTS idx_emails_lead_sent_at ON emails(lead_id, sent_at);
@@ -0,0 +1,13 @@
+-- Every lead status change with what caused it (manual, email_sent, email_replied, created, import)
+CREATE TABLE IF NOT EXISTS lead_status_history (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id VARCHAR NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  source TEXT NOT NULL,
+  actor_id VARCHAR,
+  actor_name TEXT NOT NULL,
+  changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_status_history_lead ON lead_status_history(lead_id, changed_at);
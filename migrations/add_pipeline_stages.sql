@@ -0,0 +1,31 @@
+-- Configurable sales pipeline; leads.status holds the stage name
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  position INTEGER NOT NULL DEFAULT 0,
+  color TEXT NOT NULL DEFAULT '#6b7280',
+  type TEXT NOT NULL DEFAULT 'open',
+  automation TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipeline_stages_automation ON pipeline_stages(automation);
+
+-- The stages that used to be hardcoded in the UI, plus "Replied" which inbox sync already set
+INSERT INTO pipeline_stages (name, position, color, type, automation) VALUES
+  ('New', 0, '#4f46e5', 'open', NULL),
+  ('Contacted', 1, '#a855f7', 'open', 'email_sent'),
+  ('Replied', 2, '#ec4899', 'open', 'email_replied'),
+  ('Qualified', 3, '#10b981', 'open', NULL),
+  ('In Progress', 4, '#f59e0b', 'open', NULL),
+  ('Follow-up', 5, '#06b6d4', 'open', NULL),
+  ('Closed Won', 6, '#059669', 'won', NULL),
+  ('Closed Lost', 7, '#e11d48', 'lost', NULL),
+  ('Closed', 8, '#64748b', 'lost', NULL)
+ON CONFLICT (name) DO NOTHING;
+
+-- Keep any other status already in use so existing leads stay valid
+INSERT INTO pipeline_stages (name, position, type)
+SELECT DISTINCT status, 100, 'open' FROM leads
+ON CONFLICT (name) DO NOTHING;
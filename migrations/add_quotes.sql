@@ -0,0 +1,14 @@
+-- Quotes: inventory products priced by square footage; each save adds a new version for the lead
+CREATE TABLE IF NOT EXISTS quotes (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id VARCHAR NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  waste_factor NUMERIC(5, 2) NOT NULL,
+  lines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total NUMERIC(12, 2) NOT NULL,
+  notes TEXT,
+  created_by VARCHAR,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_lead_version ON quotes(lead_id, version);
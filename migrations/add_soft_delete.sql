@@ -0,0 +1,6 @@
+-- Deleted leads and inventory items go to the trash first and are purged after the retention period
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE inventory ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_leads_deleted_at ON leads(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_inventory_deleted_at ON inventory(deleted_at);
@@ -0,0 +1,20 @@
+-- Colored tags for grouping leads, many-to-many through lead_tags
+CREATE TABLE IF NOT EXISTS tags (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#6b7280',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_name ON tags(lower(name));
+
+CREATE TABLE IF NOT EXISTS lead_tags (
+  lead_id VARCHAR NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  tag_id VARCHAR NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (lead_id, tag_id)
+);
+
+-- Lookups by tag for the tag filter; lookups by lead use the primary key
+CREATE INDEX IF NOT EXISTS idx_lead_tags_tag ON lead_tags(tag_id);
@@ -0,0 +1,18 @@
+-- Follow-up tasks on leads, with a reminder notification when they fall due
+CREATE TABLE IF NOT EXISTS tasks (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id VARCHAR NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  due_at TIMESTAMP NOT NULL,
+  assigned_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  done INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMP,
+  notified_at TIMESTAMP,
+  created_by VARCHAR,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_lead ON tasks(lead_id);
+-- Used by the Overdue / Due today view and the reminder job
+CREATE INDEX IF NOT EXISTS idx_tasks_open_due ON tasks(done, due_at);
@@ -0,0 +1,4 @@
+-- Replace the legacy 'client' role with the new role set (admin, sales_rep, read_only)
+UPDATE users SET role = 'sales_rep' WHERE role = 'client';
+
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'sales_rep';
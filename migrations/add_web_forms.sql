@@ -0,0 +1,15 @@
+-- Public intake forms: website posts to /api/public/forms/:id become leads of the form's company
+CREATE TABLE IF NOT EXISTS web_forms (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  company_id VARCHAR NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  redirect_url TEXT,
+  acknowledgement_enabled INTEGER NOT NULL DEFAULT 0,
+  acknowledgement_subject TEXT,
+  acknowledgement_body TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_web_forms_company_id ON web_forms(company_id);
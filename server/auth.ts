@@ -0,0 +1,193 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { requestContextMiddleware } from "./request-context";
+import { loginSchema, type User as DbUser, type PublicUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// API paths (relative to /api) that can be called without a session
+const PUBLIC_API_PATHS = new Set(["/auth/login"]);
+// Prefix for endpoints meant to be called from outside the app, e.g. website form posts
+const PUBLIC_API_PREFIX = "/public/";
+
+/**
+ * Hash a password with a random salt using scrypt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Compare a plain password against a stored "<hash>.<salt>" value
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Strip the password hash before a user leaves the server
+ */
+export function toPublicUser(user: DbUser): PublicUser {
+  const { passwordHash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Reject requests that don't carry an authenticated session
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Not authenticated" });
+}
+
+/**
+ * Reject requests whose user role doesn't grant the given permission
+ */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      console.warn(`🚫 ${req.user.username} (${req.user.role}) denied ${permission} on ${req.method} ${req.originalUrl}`);
+      return res.status(403).json({ message: "You don't have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+/**
+ * Create the first admin account from ADMIN_USERNAME / ADMIN_PASSWORD when the users table is empty
+ */
+export async function ensureInitialAdmin() {
+  const existing = await storage.countUsers();
+  if (existing > 0) return;
+
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!username || !password) {
+    console.warn("⚠️ No users exist yet. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin account.");
+    return;
+  }
+
+  await storage.createUser({
+    username,
+    passwordHash: await hashPassword(password),
+    displayName: username,
+    role: "admin",
+  });
+  console.log(`👤 Created initial admin user: ${username}`);
+}
+
+export function setupAuth(app: Express) {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret) {
+    throw new Error("SESSION_SECRET must be set to enable user sessions");
+  }
+
+  const PgStore = connectPgSimple(session);
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: new PgStore({ pool, tableName: "sessions" }),
+    secret: sessionSecret,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: "auto",
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(requestContextMiddleware);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Username and password are required" });
+    }
+
+    passport.authenticate("local", (err: any, user: Express.User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  // Every other /api route requires a logged-in user
+  app.use("/api", (req, res, next) => {
+    if (PUBLIC_API_PATHS.has(req.path) || req.path.startsWith(PUBLIC_API_PREFIX)) {
+      return next();
+    }
+    requireAuth(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    res.json(req.user);
+  });
+}
@@ -9,6 +9,8 @@ const __dirname = dirname(__filename);
 // Store runtime configuration
 let runtimeConfig: Record<string, string> = {};
 
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
 // Path to .env file
 const ENV_FILE_PATH = path.join(__dirname, '..', '.env');
 
@@ -34,9 +36,20 @@ export function initializeConfig() {
     // Server
     PORT: process.env.PORT || '5000',
     NODE_ENV: process.env.NODE_ENV || 'development',
+
+    // Days deleted leads and inventory stay in the trash before they're purged
+    TRASH_RETENTION_DAYS: process.env.TRASH_RETENTION_DAYS || String(DEFAULT_TRASH_RETENTION_DAYS),
   };
 }
 
+/**
+ * How long deleted items stay in the trash, falling back to the default for invalid values
+ */
+export function getTrashRetentionDays(): number {
+  const days = parseInt(getConfig('TRASH_RETENTION_DAYS'), 10);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
 /**
  * Get a configuration value
  */
@@ -173,6 +186,11 @@ export function validateConfig(config: Record<string, string>): { valid: boolean
     errors.push('PORT must be a number');
   }
   
+  // Validate TRASH_RETENTION_DAYS is a positive whole number
+  if (config.TRASH_RETENTION_DAYS && !/^[1-9]\d*$/.test(config.TRASH_RETENTION_DAYS.trim())) {
+    errors.push('TRASH_RETENTION_DAYS must be a whole number of days (1 or more)');
+  }
+  
   // Validate GROQ_API_KEY format
   if (config.GROQ_API_KEY && !config.GROQ_API_KEY.startsWith('gsk_')) {
     errors.push('GROQ_API_KEY should start with "gsk_"');
@@ -0,0 +1,92 @@
+import { storage } from "./storage";
+import type { CustomField, CustomFieldEntityType, CustomFieldValues } from "@shared/schema";
+
+const MAX_TEXT_LENGTH = 2000;
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function formatDate(date: Date, utc: boolean): string {
+  const year = utc ? date.getUTCFullYear() : date.getFullYear();
+  const month = (utc ? date.getUTCMonth() : date.getMonth()) + 1;
+  const day = utc ? date.getUTCDate() : date.getDate();
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * camelCase key for a new field, unique among the existing keys ("Install Date" -> "installDate")
+ */
+export function customFieldKeyFromLabel(label: string, existingKeys: string[]): string {
+  const words = label.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  let base = words.map((word, index) => index === 0 ? word : word[0].toUpperCase() + word.slice(1)).join("");
+  if (!/^[a-z]/.test(base)) base = `field${base ? base[0].toUpperCase() + base.slice(1) : ""}`;
+
+  let key = base;
+  for (let suffix = 2; existingKeys.includes(key); suffix++) {
+    key = `${base}${suffix}`;
+  }
+  return key;
+}
+
+/**
+ * Convert a raw value (JSON body, query string or spreadsheet cell) to the field's type.
+ * Returns undefined for empty values and throws with a readable message for invalid ones.
+ */
+export function coerceCustomFieldValue(field: CustomField, raw: unknown): string | number | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw === "string" && raw.trim() === "") return undefined;
+
+  switch (field.type) {
+    case "number": {
+      const value = typeof raw === "number" ? raw : Number(String(raw).replace(/[,\s]/g, ""));
+      if (!Number.isFinite(value)) throw new Error(`${field.label} must be a number`);
+      return value;
+    }
+    case "date": {
+      if (typeof raw === "number") {
+        // Spreadsheet date cell
+        return formatDate(new Date(Math.round((raw - EXCEL_EPOCH_OFFSET_DAYS) * MS_PER_DAY)), true);
+      }
+      const text = String(raw).trim();
+      if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+        const date = new Date(`${text}T00:00:00Z`);
+        if (isNaN(date.getTime()) || formatDate(date, true) !== text) {
+          throw new Error(`${field.label} must be a valid date`);
+        }
+        return text;
+      }
+      const date = new Date(text);
+      if (isNaN(date.getTime())) throw new Error(`${field.label} must be a valid date`);
+      return formatDate(date, false);
+    }
+    case "select": {
+      const text = String(raw).trim();
+      const option = field.options.find(option => option.toLowerCase() === text.toLowerCase());
+      if (!option) throw new Error(`${field.label} must be one of: ${field.options.join(", ")}`);
+      return option;
+    }
+    default: {
+      const text = String(raw).trim();
+      if (text.length > MAX_TEXT_LENGTH) throw new Error(`${field.label} must be at most ${MAX_TEXT_LENGTH} characters`);
+      return text;
+    }
+  }
+}
+
+/**
+ * Check submitted values against the entity's custom fields and return them normalized,
+ * without empty values. Throws on unknown fields or invalid values.
+ */
+export async function validateCustomFieldValues(entityType: CustomFieldEntityType, values: Record<string, unknown> | undefined): Promise<CustomFieldValues> {
+  if (!values) return {};
+  const fields = await storage.getCustomFields(entityType);
+  const result: CustomFieldValues = {};
+  for (const [key, raw] of Object.entries(values)) {
+    const field = fields.find(field => field.key === key);
+    if (!field) throw new Error(`Unknown custom field "${key}"`);
+    const value = coerceCustomFieldValue(field, raw);
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
@@ -2,7 +2,8 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { initializeConfig } from "./config-manager";
+import { initializeConfig, getTrashRetentionDays } from "./config-manager";
+import { setupAuth, ensureInitialAdmin } from "./auth";
 
 const app = express();
 
@@ -53,6 +54,10 @@ app.use((req, res, next) => {
   await initializeConfig();
   log('✅ Configuration system initialized');
 
+  // Sessions, login/logout endpoints and the /api auth guard
+  setupAuth(app);
+  await ensureInitialAdmin();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -88,6 +93,15 @@ app.use((req, res, next) => {
 
   // Start email sync background job
   startEmailSyncJob();
+
+  // Start task reminder background job
+  startTaskReminderJob();
+
+  // Start lead score refresh background job
+  startLeadScoreJob();
+
+  // Start trash purge background job
+  startTrashPurgeJob();
 })();
 
 // Notification functions using database storage
@@ -114,10 +128,81 @@ export async function addEmailNotification(leadId: string, leadName: string, fro
   };
 }
 
-export async function getRecentNotifications(since?: string) {
+// Personal notification for the rep a lead was just assigned to
+export async function addLeadAssignedNotification(lead: { id: string; clientName: string; email: string }, userId: string, assignedBy: string) {
+  const { storage } = await import('./storage');
+  
+  const notification = await storage.createNotification({
+    leadId: lead.id,
+    userId,
+    type: 'lead_assigned',
+    leadName: lead.clientName,
+    fromEmail: lead.email,
+    subject: `Assigned to you by ${assignedBy}`,
+    dismissed: 0
+  });
+  
+  console.log(`🔔 BACKEND: Created assignment notification ${notification.id} for lead ${lead.clientName} (user ${userId})`);
+  return notification;
+}
+
+// Reminder for the task's assignee (or everyone when it is unassigned) once it falls due
+export async function addTaskDueNotification(task: { title: string; assignedUserId: string | null; lead: { id: string; clientName: string; email: string } }) {
   const { storage } = await import('./storage');
   
-  const notifications = await storage.getRecentNotifications(since);
+  const notification = await storage.createNotification({
+    leadId: task.lead.id,
+    userId: task.assignedUserId,
+    type: 'task_due',
+    leadName: task.lead.clientName,
+    fromEmail: task.lead.email,
+    subject: `Task due: ${task.title}`,
+    dismissed: 0
+  });
+  
+  console.log(`🔔 BACKEND: Created task reminder ${notification.id} for lead ${task.lead.clientName}`);
+  return notification;
+}
+
+// Shared notification for a lead submitted through a public web form
+export async function addWebFormNotification(lead: { id: string; clientName: string; email: string }, formName: string) {
+  const { storage } = await import('./storage');
+  
+  const notification = await storage.createNotification({
+    leadId: lead.id,
+    type: 'web_form',
+    leadName: lead.clientName,
+    fromEmail: lead.email,
+    subject: `New submission from ${formName}`,
+    dismissed: 0
+  });
+  
+  console.log(`🔔 BACKEND: Created web form notification ${notification.id} for lead ${lead.clientName}`);
+  return notification;
+}
+
+// Tells the owner of a lead waiting on a product (or everyone when it is unassigned) that its stock changed
+export async function addStockChangedNotification(lead: { id: string; clientName: string; email: string; assignedUserId: string | null }, item: { product: string; boxes: string | null; totalSqFt: string | null }) {
+  const { storage } = await import('./storage');
+  
+  const notification = await storage.createNotification({
+    leadId: lead.id,
+    userId: lead.assignedUserId,
+    type: 'stock_changed',
+    leadName: lead.clientName,
+    fromEmail: lead.email,
+    subject: `Stock update: ${item.product} now ${item.boxes || 0} boxes, ${item.totalSqFt || 0} sq ft`,
+    dismissed: 0
+  });
+  
+  console.log(`🔔 BACKEND: Created stock notification ${notification.id} for lead ${lead.clientName}`);
+  return notification;
+}
+
+export async function getRecentNotifications(since?: string, userId?: string) {
+  const { storage } = await import('./storage');
+  
+  const notifications = await storage.getRecentNotifications(since, undefined, userId);
   
   console.log(`📊 BACKEND: Getting notifications - Found: ${notifications.length}`);
   if (since) {
@@ -126,6 +211,7 @@ export async function getRecentNotifications(since?: string) {
   
   return notifications.map(n => ({
     id: n.id,
+    type: n.type,
     leadId: n.leadId,
     leadName: n.leadName,
     fromEmail: n.fromEmail,
@@ -141,10 +227,10 @@ export async function dismissNotification(notificationId: string) {
   console.log(`🔕 BACKEND: Dismissed notification: ${notificationId}`);
 }
 
-export async function dismissNotificationsForLead(leadId: string) {
+export async function dismissNotificationsForLead(leadId: string, userId?: string) {
   const { storage } = await import('./storage');
   
-  const count = await storage.dismissNotificationsForLead(leadId);
+  const count = await storage.dismissNotificationsForLead(leadId, userId);
   console.log(`🔕 BACKEND: Dismissed ${count} notifications for lead: ${leadId}`);
 }
 
@@ -166,6 +252,7 @@ function startEmailSyncJob() {
     try {
       const { fetchNewEmails, getInReplyToHeader, isGmailConfigured } = await import('./gmail');
       const { storage } = await import('./storage');
+      const { applyStageAutomation } = await import('./pipeline');
       const { insertEmailSchema } = await import('@shared/schema');
 
       if (!isGmailConfigured()) {
@@ -219,11 +306,13 @@ function startEmailSyncJob() {
         // If no match by conversation, try by email address
         if (!lead) {
           log(`     🔍 No conversation match, looking for lead by email address`);
-          lead = await storage.getLeadByEmail(fromAddress);
+          lead = await storage.getLeadByEmail(fromAddress) ?? await storage.getLeadByContactEmail(fromAddress);
         }
         
         if (lead) {
           log(`     ✅ Matched to lead: ${lead.clientName} (${lead.id})`);
+          // Replies can come in before the sender's company was set up
+          await storage.assignCompanyByEmailDomain(lead);
           log(`     💾 Saving new email to database...`);
           
           const emailData = insertEmailSchema.parse({
@@ -241,8 +330,8 @@ function startEmailSyncJob() {
           await storage.createEmail(emailData);
           savedCount++;
           
-          // Update lead status to "Replied" if they responded
-          await storage.updateLeadStatus(lead.id, 'Replied');
+          // Move the lead to the stage configured for replies
+          await applyStageAutomation(lead.id, 'email_replied');
           log(`     📨 Saved reply from ${fromAddress} for lead ${lead.clientName}`);
           
           // Add notification for this new reply
@@ -272,3 +361,83 @@ function startEmailSyncJob() {
   // Then run every 30 seconds
   setInterval(syncEmails, SYNC_INTERVAL);
 }
+
+// Background job that sends a reminder when a task falls due
+function startTaskReminderJob() {
+  const CHECK_INTERVAL = 60 * 1000; // 1 minute
+
+  log('⏰ Task reminder job started (checking every minute)');
+
+  const sendReminders = async () => {
+    try {
+      const { storage } = await import('./storage');
+      const dueTasks = await storage.claimDueTasks(new Date());
+
+      for (const task of dueTasks) {
+        await addTaskDueNotification(task);
+      }
+
+      if (dueTasks.length > 0) {
+        log(`✅ Task reminders: ${dueTasks.length} notification(s) created`);
+      }
+    } catch (error: any) {
+      log(`❌ Task reminder error: ${error.message}`);
+      console.error(error);
+    }
+  };
+
+  setTimeout(sendReminders, 10000); // Wait 10 seconds after server start
+  setInterval(sendReminders, CHECK_INTERVAL);
+}
+
+// Scores are recalculated whenever a lead or its emails change; this catches up
+// time-based rules ("days since last contact") for leads nobody touched
+function startLeadScoreJob() {
+  const REFRESH_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+  log('📈 Lead score job started (refreshing every hour)');
+
+  const refreshScores = async () => {
+    try {
+      const { storage } = await import('./storage');
+      const changed = await storage.recalculateLeadScores();
+
+      if (changed > 0) {
+        log(`✅ Lead scores: ${changed} lead(s) rescored`);
+      }
+    } catch (error: any) {
+      log(`❌ Lead score error: ${error.message}`);
+      console.error(error);
+    }
+  };
+
+  setTimeout(refreshScores, 30000); // Wait 30 seconds after server start
+  setInterval(refreshScores, REFRESH_INTERVAL);
+}
+
+// Permanently deletes leads and inventory items that have been in the trash longer than TRASH_RETENTION_DAYS
+function startTrashPurgeJob() {
+  const PURGE_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+  const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+  log('🗑️ Trash purge job started (checking every 6 hours)');
+
+  const purgeTrash = async () => {
+    try {
+      const { storage } = await import('./storage');
+      // Read on every run so a changed retention period applies without a restart
+      const retentionDays = getTrashRetentionDays();
+      const purged = await storage.purgeExpiredTrash(new Date(Date.now() - retentionDays * MS_PER_DAY));
+
+      if (purged.leads > 0 || purged.inventory > 0) {
+        log(`✅ Trash purge: ${purged.leads} lead(s) and ${purged.inventory} inventory item(s) older than ${retentionDays} days removed`);
+      }
+    } catch (error: any) {
+      log(`❌ Trash purge error: ${error.message}`);
+      console.error(error);
+    }
+  };
+
+  setTimeout(purgeTrash, 60000); // Wait 1 minute after server start
+  setInterval(purgeTrash, PURGE_INTERVAL);
+}
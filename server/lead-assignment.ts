@@ -0,0 +1,21 @@
+import { storage } from "./storage";
+import type { Lead, LeadSource } from "@shared/schema";
+
+/**
+ * Run the assignment rules over freshly created leads and let each rep know about the leads a rule gave them.
+ * Returns the leads with their new owners, in the order given.
+ */
+export async function autoAssignLeads(newLeads: Lead[], source: LeadSource, fallbackUserId: string | null = null): Promise<Lead[]> {
+  const decisions = await storage.assignLeadsByRules(newLeads.map(lead => lead.id), source, fallbackUserId);
+  const assigned = new Map(decisions.map(decision => [decision.lead.id, decision.lead]));
+
+  const { addLeadAssignedNotification } = await import("./index");
+  for (const decision of decisions) {
+    if (decision.ruleName && decision.userId) {
+      console.log(`🎯 Lead ${decision.lead.clientName} assigned by rule "${decision.ruleName}" to ${decision.userId}`);
+      await addLeadAssignedNotification(decision.lead, decision.userId, `rule "${decision.ruleName}"`);
+    }
+  }
+
+  return newLeads.map(lead => assigned.get(lead.id) ?? lead);
+}
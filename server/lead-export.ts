@@ -0,0 +1,98 @@
+import type { Response } from "express";
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import { storage, type LeadFilters, type LeadSort, type LeadWithCompany } from "./storage";
+import type { CustomField } from "@shared/schema";
+
+export const LEAD_EXPORT_FORMATS = ["xlsx", "csv"] as const;
+export type LeadExportFormat = typeof LEAD_EXPORT_FORMATS[number];
+
+const EXPORT_PAGE_SIZE = 500;
+
+// The first columns use the names /api/import/file and create-template.ts read, so an export can be imported again.
+// Custom fields follow under their labels (also matched by the import), then details: of these the import
+// reads back Company (matched by name), Status (if it is still a pipeline stage) and Notes; the rest are informational.
+const IMPORT_COLUMNS = ["Name", "Email", "Phone Number", "Subject", "Lead Description", "Tags"];
+const DETAIL_COLUMNS = ["Company", "Status", "Owner", "Score", "Notes", "Created", "Last Email", "Emails Sent", "Emails Received"];
+
+type ExportRow = Record<string, string | number>;
+
+function formatDate(date: Date | null | undefined): string {
+  return date ? format(date, "yyyy-MM-dd HH:mm") : "";
+}
+
+/**
+ * Write every lead matching the filters as a spreadsheet download.
+ * CSV is streamed a page at a time; XLSX has to be assembled in memory before it can be sent.
+ */
+export async function writeLeadExport(res: Response, filters: LeadFilters, sort: LeadSort, exportFormat: LeadExportFormat): Promise<void> {
+  const [customFields, users] = await Promise.all([storage.getCustomFields("lead"), storage.getAllUsers()]);
+  const ownerNames = new Map(users.map(user => [user.id, user.displayName || user.username]));
+  const columns = [...IMPORT_COLUMNS, ...customFields.map(field => field.label), ...DETAIL_COLUMNS];
+
+  const toRows = async (leads: LeadWithCompany[]): Promise<ExportRow[]> => {
+    const emailStats = await storage.getEmailStatsForLeads(leads.map(lead => lead.id));
+    return leads.map(lead => {
+      const stats = emailStats.get(lead.id);
+      return {
+        "Name": lead.clientName,
+        "Email": lead.email,
+        "Phone Number": lead.phone ?? "",
+        "Subject": lead.subject ?? "",
+        "Lead Description": lead.leadDetails ?? "",
+        "Tags": (lead.tags ?? []).map(tag => tag.name).join(", "),
+        ...customFieldCells(customFields, lead),
+        "Company": lead.company?.name ?? "",
+        "Status": lead.status,
+        "Owner": (lead.assignedUserId && ownerNames.get(lead.assignedUserId)) || "",
+        "Score": lead.score,
+        "Notes": lead.notes ?? "",
+        "Created": formatDate(lead.createdAt),
+        "Last Email": formatDate(stats?.lastEmailAt),
+        "Emails Sent": stats?.sent ?? 0,
+        "Emails Received": stats?.received ?? 0,
+      };
+    });
+  };
+
+  const contentDisposition = `attachment; filename="leads-${format(new Date(), "yyyy-MM-dd")}.${exportFormat}"`;
+
+  if (exportFormat === "csv") {
+    res.setHeader("Content-Disposition", contentDisposition);
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    // Byte order mark so Excel opens the file as UTF-8
+    res.write("\uFEFF" + XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet([columns])) + "\n");
+    await forEachLeadPage(filters, sort, async (leads) => {
+      const sheet = XLSX.utils.json_to_sheet(await toRows(leads), { header: columns, skipHeader: true });
+      res.write(XLSX.utils.sheet_to_csv(sheet) + "\n");
+    });
+    res.end();
+    return;
+  }
+
+  const rows: ExportRow[] = [];
+  await forEachLeadPage(filters, sort, async (leads) => {
+    rows.push(...await toRows(leads));
+  });
+  const sheet = XLSX.utils.json_to_sheet(rows, { header: columns });
+  sheet["!cols"] = columns.map(column => ({ wch: column === "Lead Description" || column === "Notes" ? 60 : Math.max(column.length + 2, 18) }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Leads");
+  res.setHeader("Content-Disposition", contentDisposition);
+  res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+  res.end(XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+}
+
+async function forEachLeadPage(filters: LeadFilters, sort: LeadSort, handlePage: (leads: LeadWithCompany[]) => Promise<void>): Promise<void> {
+  let cursor: string | undefined;
+  do {
+    const page = await storage.getAllLeads(EXPORT_PAGE_SIZE, cursor, filters, sort);
+    if (page.leads.length > 0) await handlePage(page.leads);
+    cursor = page.hasMore ? page.nextCursor : undefined;
+  } while (cursor);
+}
+
+// Custom field values keyed by label; dates are already stored as YYYY-MM-DD, which the import accepts
+function customFieldCells(fields: CustomField[], lead: LeadWithCompany): ExportRow {
+  return Object.fromEntries(fields.map(field => [field.label, lead.customFields?.[field.key] ?? ""]));
+}
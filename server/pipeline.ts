@@ -0,0 +1,44 @@
+import { storage } from "./storage";
+import type { Lead, PipelineAutomation } from "@shared/schema";
+
+// Used only if the pipeline_stages table is empty (e.g. before the migration has run)
+const FALLBACK_STAGE = "New";
+
+/**
+ * Whether a status names a configured pipeline stage
+ */
+export async function isKnownStage(status: string): Promise<boolean> {
+  return !!(await storage.getPipelineStageByName(status));
+}
+
+/**
+ * Status for leads created without one: the first open stage of the pipeline
+ */
+export async function getDefaultStageName(): Promise<string> {
+  const stages = await storage.getPipelineStages();
+  const firstOpen = stages.find(stage => stage.type === "open") ?? stages[0];
+  return firstOpen?.name ?? FALLBACK_STAGE;
+}
+
+/**
+ * Move a lead to the stage configured for an automatic transition.
+ * Does nothing when no stage is mapped to the automation.
+ */
+export async function applyStageAutomation(leadId: string, automation: PipelineAutomation): Promise<Lead | undefined> {
+  const stage = await storage.getPipelineStageForAutomation(automation);
+  if (!stage) return undefined;
+  return await storage.updateLeadStatus(leadId, stage.name, automation);
+}
+
+/**
+ * Move a lead to the first won or lost stage when one of its deals closes.
+ * Does nothing when the pipeline has no stage of that type or the lead is already in one.
+ */
+export async function applyDealOutcome(leadId: string, outcome: "won" | "lost"): Promise<Lead | undefined> {
+  const stages = await storage.getPipelineStages();
+  const stage = stages.find(stage => stage.type === outcome);
+  if (!stage) return undefined;
+  const lead = await storage.getLead(leadId);
+  if (!lead || stages.some(other => other.type === outcome && other.name === lead.status)) return lead;
+  return await storage.updateLeadStatus(leadId, stage.name, "deal");
+}
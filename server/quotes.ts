@@ -0,0 +1,217 @@
+import { storage } from "./storage";
+import { inventoryNumber, quoteBoxes, quoteLineTotal, type Company, type InsertQuote, type Lead, type Quote, type QuoteLine } from "@shared/schema";
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const PRODUCT_MAX_CHARS = 44; // Longer names are cut so they don't run into the Sq Ft column
+
+// Helvetica advance widths (per 1000 units of font size) for the characters in numbers and prices;
+// anything else is measured as a digit, which is close enough for right-aligning columns
+const HELVETICA_WIDTHS: Record<string, number> = { " ": 278, ",": 278, ".": 278, "-": 333, "/": 278, "$": 556 };
+
+type PdfFont = "F1" | "F2"; // Helvetica, Helvetica-Bold
+
+/**
+ * Price the requested lines against the current inventory.
+ * Boxes are counted from each product's sq ft per box after adding the waste factor.
+ */
+export async function priceQuote(input: InsertQuote): Promise<{ lines: QuoteLine[]; total: number }> {
+  const items = await storage.getInventoryItemsByIds(Array.from(new Set(input.lines.map(line => line.inventoryId))));
+
+  const lines = input.lines.map((line): QuoteLine => {
+    const item = items.find(candidate => candidate.id === line.inventoryId);
+    if (!item) {
+      throw new Error("A product on this quote is no longer in inventory");
+    }
+    const sqFtPerBox = inventoryNumber(item.sqFtPerBox);
+    if (!sqFtPerBox || sqFtPerBox <= 0) {
+      throw new Error(`${item.product} has no sq ft per box in inventory`);
+    }
+    const boxes = quoteBoxes(line.sqFt, sqFtPerBox, input.wasteFactor);
+    return {
+      inventoryId: item.id,
+      product: item.product,
+      sqFt: line.sqFt,
+      sqFtPerBox,
+      boxes,
+      priceUnit: line.priceUnit,
+      unitPrice: line.unitPrice,
+      lineTotal: quoteLineTotal(boxes, sqFtPerBox, line.priceUnit, line.unitPrice),
+    };
+  });
+
+  const total = Math.round(lines.reduce((sum, line) => sum + line.lineTotal, 0) * 100) / 100;
+  return { lines, total };
+}
+
+/**
+ * The quote's PDF and a file name like quote-jane-doe-v2.pdf; undefined if its lead is gone
+ */
+export async function renderQuoteFile(quote: Quote): Promise<{ filename: string; pdf: Buffer } | undefined> {
+  const lead = await storage.getLead(quote.leadId);
+  if (!lead) return undefined;
+  const company = lead.companyId ? await storage.getCompany(lead.companyId) : undefined;
+  const name = lead.clientName.replace(/[^A-Za-z0-9]+/g, "-").replace(/^-+|-+$/g, "").toLowerCase() || "lead";
+  return { filename: `quote-${name}-v${quote.version}.pdf`, pdf: renderQuotePdf(quote, lead, company) };
+}
+
+/**
+ * Render a quote as a one-or-more page PDF.
+ * Uses the standard Helvetica fonts, so no font files or PDF library are needed.
+ */
+export function renderQuotePdf(quote: Quote, lead: Lead, company: Company | undefined): Buffer {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const text = (x: number, value: string, size = 10, font: PdfFont = "F1") => {
+    ops.push(`BT /${font} ${size} Tf ${x.toFixed(2)} ${y} Td (${pdfString(value)}) Tj ET`);
+  };
+  const rightText = (right: number, value: string, size = 10, font: PdfFont = "F1") => {
+    text(right - textWidth(value, size), value, size, font);
+  };
+  const rule = () => {
+    ops.push(`${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S`);
+  };
+  const tableHeader = () => {
+    text(MARGIN, "Product", 9, "F2");
+    rightText(330, "Sq Ft", 9, "F2");
+    rightText(385, "Boxes", 9, "F2");
+    rightText(480, "Unit Price", 9, "F2");
+    rightText(PAGE_WIDTH - MARGIN, "Total", 9, "F2");
+    y -= 6;
+    rule();
+    y -= 16;
+  };
+  const newPage = () => {
+    ops = ["0.5 w"];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  newPage();
+  text(MARGIN, "Quote", 22, "F2");
+  rightText(PAGE_WIDTH - MARGIN, `Version ${quote.version}`, 11, "F2");
+  y -= 16;
+  rightText(PAGE_WIDTH - MARGIN, formatDate(quote.createdAt), 10);
+  y -= 30;
+
+  text(MARGIN, "Prepared for", 9, "F2");
+  y -= 14;
+  for (const line of [lead.clientName, company?.name, lead.email, lead.phone]) {
+    if (!line) continue;
+    text(MARGIN, line, 10);
+    y -= 14;
+  }
+  y -= 16;
+
+  tableHeader();
+  for (const line of quote.lines) {
+    if (y < MARGIN + 80) {
+      newPage();
+      tableHeader();
+    }
+    const product = line.product.length > PRODUCT_MAX_CHARS ? `${line.product.slice(0, PRODUCT_MAX_CHARS - 3)}...` : line.product;
+    text(MARGIN, product, 10);
+    rightText(330, formatNumber(line.sqFt), 10);
+    rightText(385, String(line.boxes), 10);
+    rightText(480, `${formatMoney(line.unitPrice)} / ${line.priceUnit === "box" ? "box" : "sq ft"}`, 10);
+    rightText(PAGE_WIDTH - MARGIN, formatMoney(line.lineTotal), 10);
+    y -= 12;
+    text(MARGIN, `${formatNumber(line.sqFtPerBox)} sq ft per box, ${formatNumber(line.boxes * line.sqFtPerBox)} sq ft supplied`, 8);
+    y -= 18;
+  }
+
+  y += 6;
+  rule();
+  y -= 18;
+  text(300, `Includes ${formatNumber(Number(quote.wasteFactor))}% waste allowance`, 9);
+  y -= 18;
+  text(300, "Total", 12, "F2");
+  rightText(PAGE_WIDTH - MARGIN, formatMoney(Number(quote.total)), 12, "F2");
+  y -= 32;
+
+  if (quote.notes) {
+    if (y < MARGIN + 40) newPage();
+    text(MARGIN, "Notes", 9, "F2");
+    y -= 14;
+    for (const line of wrapText(quote.notes, 95)) {
+      if (y < MARGIN) newPage();
+      text(MARGIN, line, 10);
+      y -= 13;
+    }
+  }
+
+  return buildPdf(pages);
+}
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+}
+
+function textWidth(value: string, size: number): number {
+  return value.split("").reduce((width, char) => width + (HELVETICA_WIDTHS[char] ?? 556), 0) * size / 1000;
+}
+
+function wrapText(value: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of value.split(/\r?\n/)) {
+    let current = "";
+    for (const word of paragraph.split(/\s+/)) {
+      if (current && current.length + word.length + 1 > maxChars) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    lines.push(current);
+  }
+  return lines;
+}
+
+// PDF string literal in the fonts' WinAnsi encoding; characters it can't show become "?"
+function pdfString(value: string): string {
+  return value
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "?")
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function buildPdf(pages: string[][]): Buffer {
+  // Objects 1-4 are fixed; each page then takes two: the page and its content stream
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  pages.forEach((pageOps, index) => {
+    const content = pageOps.join("\n");
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`);
+    objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = Buffer.byteLength(pdf, "latin1");
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
@@ -0,0 +1,31 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+
+export interface RequestActor {
+  id: string;
+  name: string;
+}
+
+interface RequestContext {
+  actor: RequestActor | null;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Make the logged-in user available to code deeper in the call chain (e.g. storage audit entries)
+ * without threading it through every function signature. Must run after passport.session().
+ */
+export function requestContextMiddleware(req: Request, _res: Response, next: NextFunction) {
+  const actor = req.user
+    ? { id: req.user.id, name: req.user.displayName || req.user.username }
+    : null;
+  requestContext.run({ actor }, next);
+}
+
+/**
+ * The user behind the current request, or null for background jobs and anonymous requests
+ */
+export function getCurrentActor(): RequestActor | null {
+  return requestContext.getStore()?.actor ?? null;
+}
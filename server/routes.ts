@@ -1,20 +1,140 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import * as XLSX from "xlsx";
-import { storage } from "./storage";
+import { storage, type LeadFilters, type CustomFieldFilter } from "./storage";
 import { db } from "./db";
 import { sql } from "drizzle-orm";
-import { insertLeadSchema, insertEmailSchema, insertCompanySchema, insertInventorySchema } from "@shared/schema";
+import { insertLeadSchema, insertEmailSchema, insertCompanySchema, insertInventorySchema, createUserSchema, updateUserSchema, assignLeadSchema, bulkAssignOwnerSchema, mergeLeadsSchema, insertPipelineStageSchema, updatePipelineStageSchema, reorderPipelineStagesSchema, insertCustomFieldSchema, updateCustomFieldSchema, customFieldValuesSchema, type CustomFieldEntityType, insertTagSchema, updateTagSchema, bulkLeadTagsSchema, insertTaskSchema, updateTaskSchema, insertLeadScoreRuleSchema, insertWebFormSchema, insertAssignmentRuleSchema, reorderAssignmentRulesSchema, insertActivitySchema, updateActivitySchema, insertDealSchema, updateDealSchema, type Deal, insertQuoteSchema, insertLeadProductSchema, updateLeadProductSchema, insertPriceListSchema, updatePriceListSchema, insertPriceListRuleSchema, priceSchema, priceListPrices, type PriceListWithRules, type Inventory, insertContactSchema, updateContactSchema, LEAD_SORT_FIELDS, type InsertCompany, type InsertAssignmentRule, type LeadSortField, type TeamMember } from "@shared/schema";
 import { sendEmail, isGmailConfigured, getAuthorizationUrl, exchangeCodeForTokens } from "./gmail";
 import { grammarFix, generateAutoReply } from "./groq";
-import { getAllConfig, saveConfigToFile, validateConfig } from "./config-manager";
+import { getAllConfig, getTrashRetentionDays, saveConfigToFile, validateConfig } from "./config-manager";
+import { requirePermission, hashPassword, toPublicUser } from "./auth";
+import { PERMISSIONS, hasPermission } from "@shared/permissions";
+import { isKnownStage, getDefaultStageName, applyStageAutomation, applyDealOutcome } from "./pipeline";
+import { coerceCustomFieldValue, customFieldKeyFromLabel, validateCustomFieldValues } from "./custom-fields";
+import { LEAD_EXPORT_FORMATS, writeLeadExport, type LeadExportFormat } from "./lead-export";
+import { autoAssignLeads } from "./lead-assignment";
+import { WEB_FORM_HONEYPOT_FIELD, isWebFormRateLimited, parseWebFormSubmission, sendWebFormAcknowledgement } from "./web-forms";
+import { priceQuote, renderQuoteFile } from "./quotes";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Web form posts come from customers' websites, which the browser treats as a different origin
+function setPublicCorsHeaders(res: Response) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+}
+
+/**
+ * Read the lead list filters shared by /api/leads and its counts from the query string.
+ * Custom fields are filtered with cf[key]=value, or cf[key][min]/cf[key][max] for number and date ranges.
+ */
+async function parseLeadFilters(query: Request["query"]): Promise<{ filters?: LeadFilters; error?: string }> {
+  const createdFrom = query.from ? new Date(query.from as string) : undefined;
+  const createdTo = query.to ? new Date(query.to as string) : undefined;
+  if ((createdFrom && isNaN(createdFrom.getTime())) || (createdTo && isNaN(createdTo.getTime()))) {
+    return { error: "Invalid date filter" };
+  }
+
+  const customFieldFilters: CustomFieldFilter[] = [];
+  if (query.cf && typeof query.cf === "object") {
+    const fields = await storage.getCustomFields("lead");
+    for (const [key, raw] of Object.entries(query.cf)) {
+      const field = fields.find(field => field.key === key);
+      if (!field) {
+        return { error: `Unknown custom field "${key}"` };
+      }
+      try {
+        if (typeof raw === "string") {
+          const value = field.type === "text" ? raw.trim() || undefined : coerceCustomFieldValue(field, raw);
+          if (value !== undefined) customFieldFilters.push({ key, type: field.type as CustomFieldFilter["type"], value });
+        } else if (raw && typeof raw === "object" && (field.type === "number" || field.type === "date")) {
+          const { min, max } = raw as Record<string, unknown>;
+          customFieldFilters.push({
+            key,
+            type: field.type,
+            min: coerceCustomFieldValue(field, min),
+            max: coerceCustomFieldValue(field, max),
+          });
+        } else {
+          return { error: `Invalid filter for custom field "${key}"` };
+        }
+      } catch (error: any) {
+        return { error: error.message };
+      }
+    }
+  }
+
+  return {
+    filters: {
+      status: query.status as string | undefined,
+      companyId: query.companyId as string | undefined,
+      assignedUserId: query.assignedUserId as string | undefined,
+      search: query.search as string | undefined,
+      createdFrom,
+      createdTo,
+      customFields: customFieldFilters,
+      tagId: query.tagId as string | undefined,
+    },
+  };
+}
+
+/**
+ * Why a company profile can't be saved: an unknown owner, or a domain already owned by another company.
+ * Returns the HTTP status and message, or undefined if the profile is fine.
+ */
+async function checkCompanyProfile(data: InsertCompany, companyId?: string): Promise<{ status: number; message: string } | undefined> {
+  if (data.ownerUserId && !(await storage.getUser(data.ownerUserId))) {
+    return { status: 400, message: "Owner not found" };
+  }
+  const owners = await storage.getCompaniesByDomains(data.domains ?? []);
+  const other = owners.find(company => company.id !== companyId);
+  if (other) {
+    const domain = other.domains.find(domain => data.domains?.includes(domain));
+    return { status: 409, message: `${domain} already belongs to ${other.name}` };
+  }
+  return undefined;
+}
+
+// The rule's reps must exist, and so must the company or tag it matches on
+async function checkAssignmentRule(data: InsertAssignmentRule): Promise<string | undefined> {
+  const userIds = new Set((await storage.getAllUsers()).map(user => user.id));
+  if (data.userIds.some(id => !userIds.has(id))) {
+    return "User not found";
+  }
+  if (data.criterion === "company" && !(await storage.getCompany(data.value))) {
+    return "Company not found";
+  }
+  if (data.criterion === "tag" && !(await storage.getTag(data.value))) {
+    return "Tag not found";
+  }
+  return undefined;
+}
+
+// Winning or losing a deal moves its lead to the matching pipeline stage
+async function applyDealStageChange(deal: Deal, previousStage?: string): Promise<void> {
+  if ((deal.stage === "won" || deal.stage === "lost") && deal.stage !== previousStage) {
+    await applyDealOutcome(deal.leadId, deal.stage);
+  }
+}
+
+// A change to a product's boxes or square footage is passed on to the leads waiting on it
+async function notifyLeadsWaitingOnProduct(before: Inventory, item: Inventory): Promise<void> {
+  if (before.boxes === item.boxes && before.totalSqFt === item.totalSqFt) return;
+  const waiting = await storage.getLeadsWaitingOnProduct(item.id);
+  if (waiting.length === 0) return;
+  const { addStockChangedNotification } = await import("./index");
+  for (const lead of waiting) {
+    await addStockChangedNotification(lead, item);
+  }
+  console.log(`📦 Stock of ${item.product} changed; notified ${waiting.length} waiting lead(s)`);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Grammar check endpoint for email composition
-  app.post("/api/grammar/fix", async (req, res) => {
+  app.post("/api/grammar/fix", requirePermission(PERMISSIONS.EMAILS_SEND), async (req, res) => {
     try {
       const { text } = req.body;
       if (!text) {
@@ -29,7 +149,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI Auto-reply generation endpoint
-  app.post("/api/emails/generate-reply", async (req, res) => {
+  app.post("/api/emails/generate-reply", requirePermission(PERMISSIONS.EMAILS_SEND), async (req, res) => {
     try {
       const { leadId, currentDraft } = req.body;
       
@@ -74,7 +194,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // OAuth authentication routes for Gmail
-  app.get("/api/auth/gmail", async (req, res) => {
+  app.get("/api/auth/gmail", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     try {
       const authUrl = getAuthorizationUrl();
       if (!authUrl) {
@@ -88,7 +208,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/auth/callback", async (req, res) => {
+  app.get("/api/auth/callback", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     try {
       const code = req.query.code as string;
       if (!code) {
@@ -132,7 +252,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/auth/status", async (req, res) => {
+  app.get("/api/auth/status", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
     res.json({
       emailProvider: 'gmail',
       gmail: isGmailConfigured(),
@@ -146,7 +266,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Debug endpoint to test email configuration
-  app.get("/api/debug/email-config", async (req, res) => {
+  app.get("/api/debug/email-config", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     res.json({
       provider: 'gmail',
       gmail: {
@@ -161,7 +281,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test if Gmail is accessible
-  app.get("/api/debug/test-mailbox", async (req, res) => {
+  app.get("/api/debug/test-mailbox", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     try {
       const { fetchNewEmails } = await import("./gmail");
       
@@ -186,15 +306,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/leads", async (req, res) => {
+  app.get("/api/leads", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
     try {
       // Check if client wants pagination (has limit or cursor param)
       const wantsPagination = req.query.limit || req.query.cursor;
       
       if (wantsPagination) {
-        const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
+        const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 100, 500) : 100;
         const cursor = req.query.cursor as string | undefined;
-        const result = await storage.getAllLeads(limit, cursor);
+        const { filters, error } = await parseLeadFilters(req.query);
+        if (error) {
+          return res.status(400).json({ message: error });
+        }
+
+        const sortField = (req.query.sort as string | undefined) ?? "createdAt";
+        if (!(LEAD_SORT_FIELDS as readonly string[]).includes(sortField)) {
+          return res.status(400).json({ message: `Sort must be one of: ${LEAD_SORT_FIELDS.join(", ")}` });
+        }
+        const direction = req.query.order === "asc" ? "asc" : "desc";
+
+        const result = await storage.getAllLeads(limit, cursor, filters, { field: sortField as LeadSortField, direction });
         res.json(result);
       } else {
         // Backward compatibility: return simple array with reasonable limit
@@ -202,11 +333,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.json(result.leads);
       }
     } catch (error: any) {
+      const status = error.message === "Invalid cursor" ? 400 : 500;
+      res.status(status).json({ message: error.message });
+    }
+  });
+
+  // Lead count per pipeline stage (same filters as /api/leads, minus status)
+  app.get("/api/leads/stage-counts", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const { filters, error } = await parseLeadFilters(req.query);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      const counts = await storage.countLeadsByStatus(filters);
+      res.json(counts);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Every lead matching the list filters and sort as an XLSX or CSV download
+  app.get("/api/leads/export", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const exportFormat = (req.query.format as string | undefined) ?? "xlsx";
+      if (!(LEAD_EXPORT_FORMATS as readonly string[]).includes(exportFormat)) {
+        return res.status(400).json({ message: `Format must be one of: ${LEAD_EXPORT_FORMATS.join(", ")}` });
+      }
+      const { filters, error } = await parseLeadFilters(req.query);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      const sortField = (req.query.sort as string | undefined) ?? "createdAt";
+      if (!(LEAD_SORT_FIELDS as readonly string[]).includes(sortField)) {
+        return res.status(400).json({ message: `Sort must be one of: ${LEAD_SORT_FIELDS.join(", ")}` });
+      }
+      const direction = req.query.order === "asc" ? "asc" : "desc";
+
+      await writeLeadExport(res, filters!, { field: sortField as LeadSortField, direction }, exportFormat as LeadExportFormat);
+    } catch (error: any) {
+      console.error("❌ Lead export failed:", error);
+      if (res.headersSent) {
+        // Part of a CSV has gone out already; cut it off so the download doesn't look complete
+        res.destroy(error);
+      } else {
+        res.status(500).json({ message: error.message });
+      }
+    }
+  });
+
+  app.get("/api/leads/duplicates", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const groups = await storage.findDuplicateLeads();
+      res.json(groups);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Full-text search over leads and their emails, grouped by lead
+  app.get("/api/search", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (query.length < 2) {
+        return res.status(400).json({ message: "Search query must be at least 2 characters" });
+      }
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 20, 50) : 20;
+      const results = await storage.searchLeadsAndEmails(query, limit);
+      res.json({ query, results });
+    } catch (error: any) {
+      console.error("❌ Search failed:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/leads/:id", async (req, res) => {
+  app.get("/api/leads/:id", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
     try {
       const lead = await storage.getLead(req.params.id);
       if (!lead) {
@@ -218,19 +418,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/leads", async (req, res) => {
+  app.post("/api/leads", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
     try {
       const validatedData = insertLeadSchema.parse(req.body);
-      const lead = await storage.createLead(validatedData);
+      if (validatedData.status && !(await isKnownStage(validatedData.status))) {
+        return res.status(400).json({ message: `Unknown status "${validatedData.status}"` });
+      }
+      const status = validatedData.status || await getDefaultStageName();
+      const customFields = await validateCustomFieldValues("lead", validatedData.customFields);
+      // Assignment rules go first; leads no rule places belong to whoever added them
+      const created = await storage.createLead({ ...validatedData, status, customFields }, null);
+      const [lead] = await autoAssignLeads([created], "manual", req.user!.id);
       res.status(201).json(lead);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.patch("/api/leads/:id", async (req, res) => {
+  app.patch("/api/leads/:id", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
     try {
       const validatedData = insertLeadSchema.parse(req.body);
+      if (validatedData.status && !(await isKnownStage(validatedData.status))) {
+        return res.status(400).json({ message: `Unknown status "${validatedData.status}"` });
+      }
+      // Custom fields are only replaced when sent
+      if (validatedData.customFields) {
+        validatedData.customFields = await validateCustomFieldValues("lead", validatedData.customFields);
+      }
       const lead = await storage.updateLead(req.params.id, validatedData);
       if (!lead) {
         return res.status(404).json({ message: "Lead not found" });
@@ -241,12 +455,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/leads/:id/status", async (req, res) => {
+  app.patch("/api/leads/:id/status", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
     try {
       const { status } = req.body;
       if (!status) {
         return res.status(400).json({ message: "Status is required" });
       }
+      if (!(await isKnownStage(status))) {
+        return res.status(400).json({ message: `Unknown status "${status}"` });
+      }
       const lead = await storage.updateLeadStatus(req.params.id, status);
       if (!lead) {
         return res.status(404).json({ message: "Lead not found" });
@@ -257,7 +474,211 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/leads/:id/notes", async (req, res) => {
+  app.patch("/api/leads/:id/custom-fields", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const values = await validateCustomFieldValues("lead", customFieldValuesSchema.parse(req.body.customFields ?? {}));
+      const lead = await storage.updateLeadCustomFields(req.params.id, values);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      res.json(lead);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/leads/:id/status-history", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const history = await storage.getLeadStatusHistory(req.params.id);
+      res.json(history);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/leads/:id/assignment-log", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const entries = await storage.getLeadAssignmentLog(req.params.id);
+      res.json(entries);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/leads/:id/tasks", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const leadTasks = await storage.getTasksForLead(req.params.id);
+      res.json(leadTasks);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/:id/tasks", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = insertTaskSchema.parse(req.body);
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      if (data.assignedUserId && !(await storage.getUser(data.assignedUserId))) {
+        return res.status(400).json({ message: "User not found" });
+      }
+      const task = await storage.createTask({
+        ...data,
+        // Follow-ups belong to the lead's owner unless someone else is named
+        assignedUserId: data.assignedUserId !== undefined ? data.assignedUserId : lead.assignedUserId,
+        leadId: lead.id,
+        createdBy: req.user!.id,
+      });
+      console.log(`✅ Task "${task.title}" added to lead ${lead.clientName}, due ${task.dueAt.toISOString()}`);
+      res.status(201).json(task);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/leads/:id/contacts", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const leadContacts = await storage.getContactsForLead(req.params.id);
+      res.json(leadContacts);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/:id/contacts", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = insertContactSchema.parse(req.body);
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const contact = await storage.createContact({ ...data, leadId: lead.id, companyId: lead.companyId });
+      console.log(`✅ Contact ${contact.name} (${contact.role}) added to lead ${lead.clientName}`);
+      res.status(201).json(contact);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/leads/:id/activities", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const leadActivities = await storage.getActivitiesForLead(req.params.id);
+      res.json(leadActivities);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/:id/activities", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = insertActivitySchema.parse(req.body);
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const activity = await storage.createActivity({ ...data, leadId: lead.id, createdBy: req.user!.id });
+      console.log(`✅ Logged ${activity.type} on lead ${lead.clientName}`);
+      res.status(201).json(activity);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/leads/:id/deals", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const leadDeals = await storage.getDealsForLead(req.params.id);
+      res.json(leadDeals);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/:id/deals", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = insertDealSchema.parse(req.body);
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const deal = await storage.createDeal({ ...data, leadId: lead.id, createdBy: req.user!.id });
+      await applyDealStageChange(deal);
+      console.log(`💰 Deal ${deal.name} (${deal.amount}) added to lead ${lead.clientName}`);
+      res.status(201).json(deal);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Quote versions for a lead, newest first
+  app.get("/api/leads/:id/quotes", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const leadQuotes = await storage.getQuotesForLead(req.params.id);
+      res.json(leadQuotes);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Prices the products from inventory and saves the result as the lead's next quote version
+  app.post("/api/leads/:id/quotes", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = insertQuoteSchema.parse(req.body);
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const { lines, total } = await priceQuote(data);
+      const quote = await storage.createQuote({
+        leadId: lead.id,
+        wasteFactor: data.wasteFactor,
+        lines,
+        total,
+        notes: data.notes || null,
+        createdBy: req.user!.id,
+      });
+      console.log(`🧾 Quote v${quote.version} (${quote.total}) saved for lead ${lead.clientName}`);
+      res.status(201).json(quote);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Inventory products the lead has asked about, with their current stock
+  app.get("/api/leads/:id/products", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const products = await storage.getLeadProducts(req.params.id);
+      res.json(products);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/:id/products", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = insertLeadProductSchema.parse(req.body);
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const item = await storage.getInventoryItem(data.inventoryId);
+      if (!item) {
+        return res.status(400).json({ message: "Product not found" });
+      }
+      const existing = await storage.getLeadProducts(lead.id);
+      if (existing.some(link => link.inventoryId === item.id)) {
+        return res.status(409).json({ message: `${item.product} is already on this lead` });
+      }
+      const link = await storage.createLeadProduct({ ...data, leadId: lead.id, createdBy: req.user!.id });
+      console.log(`📦 Linked ${item.product} to lead ${lead.clientName}`);
+      res.status(201).json(link);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/leads/:id/notes", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
     try {
       const { notes } = req.body;
       if (notes === undefined) {
@@ -273,19 +694,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/leads/:id", async (req, res) => {
+  app.delete("/api/leads/:id", requirePermission(PERMISSIONS.LEADS_DELETE), async (req, res) => {
     try {
       const success = await storage.deleteLead(req.params.id);
       if (!success) {
         return res.status(404).json({ message: "Lead not found" });
       }
-      res.json({ message: "Lead deleted successfully" });
+      res.json({ message: "Lead moved to the trash" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/leads/bulk-delete", async (req, res) => {
+  app.post("/api/leads/bulk-delete", requirePermission(PERMISSIONS.LEADS_DELETE), async (req, res) => {
     try {
       const { ids } = req.body;
       if (!ids || !Array.isArray(ids) || ids.length === 0) {
@@ -293,7 +714,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       const deletedCount = await storage.deleteLeads(ids);
       res.json({ 
-        message: `${deletedCount} lead(s) deleted successfully`,
+        message: `${deletedCount} lead(s) moved to the trash`,
         count: deletedCount
       });
     } catch (error: any) {
@@ -301,7 +722,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/leads/bulk-assign-company", async (req, res) => {
+  // Trash: deleted leads can be restored or purged until the retention period runs out
+  app.get("/api/trash/leads", requirePermission(PERMISSIONS.LEADS_DELETE), async (req, res) => {
+    try {
+      const leads = await storage.getDeletedLeads();
+      res.json({ leads, retentionDays: getTrashRetentionDays() });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/trash/leads/restore", requirePermission(PERMISSIONS.LEADS_DELETE), async (req, res) => {
+    try {
+      const { ids } = req.body;
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return res.status(400).json({ message: "Lead IDs array is required" });
+      }
+      const count = await storage.restoreLeads(ids);
+      res.json({ count });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/trash/leads/purge", requirePermission(PERMISSIONS.LEADS_DELETE), async (req, res) => {
+    try {
+      const { ids } = req.body;
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return res.status(400).json({ message: "Lead IDs array is required" });
+      }
+      const count = await storage.purgeLeads(ids);
+      res.json({ count });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/bulk-assign-company", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
     try {
       const { leadIds, companyId } = req.body;
       console.log("📋 Bulk assign company request:", { leadIds, companyId });
@@ -331,42 +788,183 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/leads/:id/send-email", async (req, res) => {
+  app.post("/api/leads/bulk-add-tags", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
     try {
-      const lead = await storage.getLead(req.params.id);
-      if (!lead) {
-        return res.status(404).json({ message: "Lead not found" });
+      const { leadIds, tagIds } = bulkLeadTagsSchema.parse(req.body);
+      console.log("🏷️ Bulk add tags request:", { count: leadIds.length, tagIds });
+      const added = await storage.addTagsToLeads(leadIds, tagIds);
+      res.json({
+        message: `Tags added to ${leadIds.length} lead(s)`,
+        count: added
+      });
+    } catch (error: any) {
+      console.error("❌ Error adding tags:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/bulk-remove-tags", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const { leadIds, tagIds } = bulkLeadTagsSchema.parse(req.body);
+      console.log("🏷️ Bulk remove tags request:", { count: leadIds.length, tagIds });
+      const removed = await storage.removeTagsFromLeads(leadIds, tagIds);
+      res.json({
+        message: `Tags removed from ${leadIds.length} lead(s)`,
+        count: removed
+      });
+    } catch (error: any) {
+      console.error("❌ Error removing tags:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/leads/:id/assign", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const { userId } = assignLeadSchema.parse(req.body);
+
+      if (userId) {
+        const owner = await storage.getUser(userId);
+        if (!owner) {
+          return res.status(400).json({ message: "User not found" });
+        }
+        if (!hasPermission(owner.role, PERMISSIONS.LEADS_EDIT)) {
+          return res.status(400).json({ message: "This user can't edit leads, so they can't own them" });
+        }
       }
 
-      const { subject, body, attachments } = req.body;
-      if (!subject || !body) {
-        return res.status(400).json({ message: "Subject and body are required" });
+      const existing = await storage.getLead(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Lead not found" });
       }
 
-      // Get existing emails to find conversation thread
-      const existingEmailsResult = await storage.getEmailsByLeadId(lead.id, 100); // Get last 100 emails
-      const lastEmail = existingEmailsResult.emails.length > 0 
-        ? existingEmailsResult.emails[0] // Already sorted by sentAt desc
-        : null;
+      const lead = await storage.updateLeadOwner(req.params.id, userId);
+      console.log(`👤 Lead ${req.params.id} assigned to ${userId || 'nobody'} by ${req.user!.username}`);
 
-      console.log(`📧 Sending email via Gmail...`);
-      
-      if (lastEmail) {
-        console.log(`🧵 Found existing conversation - replying to thread`);
-        console.log(`   Last Message ID: ${lastEmail.messageId}`);
-        console.log(`   Thread ID: ${lastEmail.conversationId}`);
+      if (lead && userId && userId !== existing.assignedUserId && userId !== req.user!.id) {
+        const { addLeadAssignedNotification } = await import("./index");
+        await addLeadAssignedNotification(lead, userId, req.user!.displayName || req.user!.username);
       }
 
-      // Determine the email subject - add "Re:" only if not already present
-      let emailSubject = subject;
-      if (lastEmail) {
-        const baseSubject = lastEmail.subject.replace(/^Re:\s*/i, '');
-        emailSubject = `Re: ${baseSubject}`;
+      res.json(lead);
+    } catch (error: any) {
+      console.error("❌ Error assigning lead:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/merge", requirePermission(PERMISSIONS.LEADS_DELETE), async (req, res) => {
+    try {
+      const { survivorId, mergeIds, fieldSources } = mergeLeadsSchema.parse(req.body);
+      const mergingIds = new Set([survivorId, ...mergeIds]);
+      if (mergingIds.size < 2) {
+        return res.status(400).json({ message: "Select at least two different leads to merge" });
+      }
+      const unknownSource = Object.values(fieldSources).find(id => !mergingIds.has(id));
+      if (unknownSource) {
+        return res.status(400).json({ message: `Lead ${unknownSource} is not part of this merge` });
       }
 
-      // Send email using Gmail
-      const result = await sendEmail(
-        lead.email, 
+      console.log("🔀 Merging leads:", { survivorId, mergeIds });
+      const lead = await storage.mergeLeads(survivorId, mergeIds, fieldSources);
+      if (!lead) {
+        return res.status(404).json({ message: "One or more leads not found" });
+      }
+      res.json({ lead, merged: mergingIds.size - 1 });
+    } catch (error: any) {
+      console.error("❌ Error merging leads:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/bulk-assign-owner", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const { leadIds, userId } = bulkAssignOwnerSchema.parse(req.body);
+      console.log("📋 Bulk assign owner request:", { count: leadIds.length, userId });
+
+      if (userId) {
+        const owner = await storage.getUser(userId);
+        if (!owner) {
+          return res.status(400).json({ message: "User not found" });
+        }
+        if (!hasPermission(owner.role, PERMISSIONS.LEADS_EDIT)) {
+          return res.status(400).json({ message: "This user can't edit leads, so they can't own them" });
+        }
+      }
+
+      // Leads the user already owned aren't returned, so they aren't notified again
+      const updated = await storage.updateLeadsOwner(leadIds, userId);
+
+      if (userId && userId !== req.user!.id) {
+        const { addLeadAssignedNotification } = await import("./index");
+        const assignedBy = req.user!.displayName || req.user!.username;
+        for (const lead of updated) {
+          await addLeadAssignedNotification(lead, userId, assignedBy);
+        }
+      }
+
+      res.json({
+        message: `${updated.length} lead(s) assigned successfully`,
+        count: updated.length
+      });
+    } catch (error: any) {
+      console.error("❌ Error assigning owner:", error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/leads/:id/send-email", requirePermission(PERMISSIONS.EMAILS_SEND), async (req, res) => {
+    try {
+      const lead = await storage.getLead(req.params.id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      const { subject, body, attachments, to } = req.body;
+      if (!subject || !body) {
+        return res.status(400).json({ message: "Subject and body are required" });
+      }
+
+      // Recipients default to the lead; any of the lead's contacts can be added
+      let recipients: string[] = [lead.email];
+      if (to !== undefined) {
+        if (!Array.isArray(to) || to.length === 0 || to.some(address => typeof address !== "string")) {
+          return res.status(400).json({ message: "Select at least one recipient" });
+        }
+        const leadContacts = await storage.getContactsForLead(lead.id);
+        const allowed = new Set([lead.email, ...leadContacts.map(contact => contact.email)]
+          .filter((address): address is string => !!address)
+          .map(address => address.trim().toLowerCase()));
+        const unknown = to.find((address: string) => !allowed.has(address.trim().toLowerCase()));
+        if (unknown) {
+          return res.status(400).json({ message: `${unknown} is not a contact of this lead` });
+        }
+        recipients = Array.from(new Set(to.map((address: string) => address.trim())));
+      }
+
+      // Get existing emails to find conversation thread
+      const existingEmailsResult = await storage.getEmailsByLeadId(lead.id, 100); // Get last 100 emails
+      const lastEmail = existingEmailsResult.emails.length > 0 
+        ? existingEmailsResult.emails[0] // Already sorted by sentAt desc
+        : null;
+
+      console.log(`📧 Sending email via Gmail...`);
+      
+      if (lastEmail) {
+        console.log(`🧵 Found existing conversation - replying to thread`);
+        console.log(`   Last Message ID: ${lastEmail.messageId}`);
+        console.log(`   Thread ID: ${lastEmail.conversationId}`);
+      }
+
+      // Determine the email subject - add "Re:" only if not already present
+      let emailSubject = subject;
+      if (lastEmail) {
+        const baseSubject = lastEmail.subject.replace(/^Re:\s*/i, '');
+        emailSubject = `Re: ${baseSubject}`;
+      }
+
+      // Send email using Gmail
+      const result = await sendEmail(
+        recipients.join(", "),
         emailSubject, 
         body, 
         undefined, // fromEmail (use default)
@@ -389,13 +987,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         messageId: result.messageId || null,
         conversationId: result.threadId || null,
         fromEmail: fromEmail || null,
-        toEmail: lead.email,
+        toEmail: recipients.join(", "),
         inReplyTo: lastEmail?.messageId || null,
       });
 
       const email = await storage.createEmail(emailData);
       
-      await storage.updateLeadStatus(lead.id, "Contacted");
+      await applyStageAutomation(lead.id, "email_sent");
 
       res.json({ success: true, email });
     } catch (error: any) {
@@ -404,7 +1002,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/emails/:leadId", async (req, res) => {
+  app.get("/api/emails/:leadId", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
     try {
       const wantsPagination = req.query.limit || req.query.cursor;
       
@@ -424,11 +1022,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get recent email notifications
-  app.get("/api/notifications/emails", async (req, res) => {
+  app.get("/api/notifications/emails", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
     try {
       const { getRecentNotifications } = await import("./index");
       const since = req.query.since as string | undefined;
-      const notifications = await getRecentNotifications(since);
+      const notifications = await getRecentNotifications(since, req.user!.id);
       console.log(`📡 Notification request - since: ${since || 'all'}, returning: ${notifications.length} notifications`);
       if (notifications.length > 0) {
         console.log(`   Notification IDs: ${notifications.map(n => n.id).join(', ')}`);
@@ -441,12 +1039,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dismiss notifications for a specific lead (when user views the lead)
-  app.post("/api/notifications/dismiss/:leadId", async (req, res) => {
+  app.post("/api/notifications/dismiss/:leadId", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
     try {
       const { dismissNotificationsForLead } = await import("./index");
       const { leadId } = req.params;
       console.log(`🔕 Dismissing notifications for lead: ${leadId}`);
-      await dismissNotificationsForLead(leadId);
+      await dismissNotificationsForLead(leadId, req.user!.id);
       res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -454,7 +1052,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dismiss a specific notification by ID
-  app.post("/api/notifications/dismiss-id/:notificationId", async (req, res) => {
+  app.post("/api/notifications/dismiss-id/:notificationId", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
     try {
       const { dismissNotification } = await import("./index");
       const { notificationId } = req.params;
@@ -466,7 +1064,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Clear all notifications (admin action from Settings)
-  app.post("/api/notifications/clear", async (req, res) => {
+  app.post("/api/notifications/clear", requirePermission(PERMISSIONS.NOTIFICATIONS_MANAGE), async (req, res) => {
     try {
       const { clearAllNotifications } = await import("./index");
       await clearAllNotifications();
@@ -478,7 +1076,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Sync emails from inbox (check for new replies)
-  app.post("/api/emails/sync", async (req, res) => {
+  app.post("/api/emails/sync", requirePermission(PERMISSIONS.EMAILS_SEND), async (req, res) => {
     try {
       const { fetchNewEmails, getInReplyToHeader } = await import("./gmail");
       const { addEmailNotification } = await import("./index");
@@ -532,7 +1130,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // If no match by thread, try by email address
         if (!lead) {
           console.log(`     No thread match, looking for lead by email address`);
-          lead = await storage.getLeadByEmail(fromAddress);
+          lead = await storage.getLeadByEmail(fromAddress) ?? await storage.getLeadByContactEmail(fromAddress);
           if (lead) {
             matchedCount++;
           }
@@ -540,6 +1138,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (lead) {
           console.log(`     Matched to lead: ${lead.clientName} (${lead.id})`);
+          // Replies can come in before the sender's company was set up
+          await storage.assignCompanyByEmailDomain(lead);
           console.log(`     Saving new email to database...`);
           
           const emailData = insertEmailSchema.parse({
@@ -557,8 +1157,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           await storage.createEmail(emailData);
           savedCount++;
           
-          // Update lead status to "Replied" if they responded
-          await storage.updateLeadStatus(lead.id, "Replied");
+          // Move the lead to the stage configured for replies
+          await applyStageAutomation(lead.id, "email_replied");
           
           // Add notification for this new reply
           const notification = await addEmailNotification(lead.id, lead.clientName, fromAddress, email.subject || '(No Subject)');
@@ -581,7 +1181,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/import/file", upload.single("file"), async (req, res) => {
+  app.post("/api/import/file", requirePermission(PERMISSIONS.IMPORT_RUN), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -623,6 +1223,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return "";
       };
 
+      const defaultStatus = await getDefaultStageName();
+
+      // Custom fields are mapped from columns named after their label or key; raw cells keep spreadsheet dates as serials
+      const leadCustomFields = await storage.getCustomFields("lead");
+      const customFieldColumns = leadCustomFields
+        .map(field => ({
+          field,
+          column: actualColumns.find(column => {
+            const name = column.trim().toLowerCase();
+            return name === field.label.toLowerCase() || name === field.key.toLowerCase();
+          }),
+        }))
+        .filter((mapping): mapping is { field: typeof mapping.field; column: string } => !!mapping.column);
+      const customFieldWarnings: string[] = [];
+
       const leads = rawData
         .map((row: any, index: number) => {
           // Get values using case-insensitive matching
@@ -647,6 +1262,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
             "lead_details", "description", "LEAD DESCRIPTION", "DESCRIPTION"
           ]);
 
+          // Written by the lead export; resolved against the pipeline and companies once all rows are read
+          const status = getColumnValue(row, ["Status", "status", "STATUS"]);
+          const companyName = getColumnValue(row, ["Company", "company", "COMPANY"]);
+          const notes = getColumnValue(row, ["Notes", "notes", "NOTES"]);
+
+          // Comma- or semicolon-separated tag names
+          const tagNames = getColumnValue(row, ["Tags", "tags", "TAGS", "Tag", "tag"])
+            .split(/[,;]/)
+            .map(name => name.trim())
+            .filter(Boolean);
+
           // Skip rows without name or email
           if (!clientName || !email) {
             console.log(`⚠️ Skipping row ${index + 2}: Missing name or email`, { 
@@ -663,6 +1289,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
             return null;
           }
 
+          // Invalid custom values are dropped so the rest of the row still imports
+          const customFields: Record<string, string | number> = {};
+          for (const { field, column } of customFieldColumns) {
+            try {
+              const value = coerceCustomFieldValue(field, row[column]);
+              if (value !== undefined) customFields[field.key] = value;
+            } catch (error: any) {
+              customFieldWarnings.push(`Row ${index + 2}: ${error.message}`);
+            }
+          }
+
           console.log(`✅ Row ${index + 2}: ${clientName} <${email}>`);
 
           return {
@@ -671,150 +1308,884 @@ export async function registerRoutes(app: Express): Promise<Server> {
             phone: phone || null,
             subject: subject || null,
             leadDetails: leadDetails || "",
-            status: "New",
+            notes: notes || null,
+            status,
+            companyName,
+            customFields,
+            tagNames,
           };
         })
         .filter((lead): lead is NonNullable<typeof lead> => lead !== null);
 
-      if (leads.length === 0) {
-        return res.status(400).json({ 
-          message: "No valid leads found. Ensure your Excel has 'Name' and 'Email' columns with data. Detected columns: " + actualColumns.join(", ")
-        });
+      if (leads.length === 0) {
+        return res.status(400).json({ 
+          message: "No valid leads found. Ensure your Excel has 'Name' and 'Email' columns with data. Detected columns: " + actualColumns.join(", ")
+        });
+      }
+
+      console.log(`✅ Found ${leads.length} valid leads to import`);
+
+      // Rows whose email already belongs to a lead, or repeats an earlier row, are skipped rather than imported as duplicates
+      const existingEmails = await storage.findExistingLeadEmails(leads.map(lead => lead.email));
+      const duplicateEmails: string[] = [];
+      const fileInternalDuplicates: string[] = [];
+      const seenFileEmails = new Set<string>();
+      const newLeads = leads.filter((lead) => {
+        const emailLower = lead.email.trim().toLowerCase();
+        if (existingEmails.has(emailLower)) {
+          duplicateEmails.push(lead.email);
+          return false;
+        }
+        if (seenFileEmails.has(emailLower)) {
+          fileInternalDuplicates.push(lead.email);
+          return false;
+        }
+        seenFileEmails.add(emailLower);
+        return true;
+      });
+
+      console.log(`📊 Import Summary:`);
+      console.log(`   - Total leads to import: ${newLeads.length}`);
+      console.log(`   - Database duplicates skipped: ${duplicateEmails.length}`);
+      console.log(`   - File internal duplicates skipped: ${fileInternalDuplicates.length}`);
+
+      // A Status that isn't a configured stage falls back to the default stage; an unknown Company leaves domain matching to createLeads
+      const knownStatuses = new Set<string>();
+      for (const status of Array.from(new Set(newLeads.map(lead => lead.status).filter(Boolean)))) {
+        if (await isKnownStage(status)) knownStatuses.add(status);
+      }
+      const companyIdsByName = new Map<string, string>();
+      for (const company of await storage.getCompaniesByNames(newLeads.map(lead => lead.companyName))) {
+        const name = company.name.trim().toLowerCase();
+        if (!companyIdsByName.has(name)) companyIdsByName.set(name, company.id);
+      }
+
+      const validatedLeads = newLeads.map(({ tagNames, companyName, ...lead }) => insertLeadSchema.parse({
+        ...lead,
+        status: knownStatuses.has(lead.status) ? lead.status : defaultStatus,
+        companyId: companyIdsByName.get(companyName.toLowerCase()) ?? null,
+      }));
+      const createdLeads = await storage.createLeads(validatedLeads);
+      const createdCount = createdLeads.length;
+
+      // Tag the new leads, creating tags that don't exist yet; rows come back in the order they were inserted
+      const importTags = await storage.findOrCreateTags(newLeads.flatMap(lead => lead.tagNames));
+      const tagIdsByName = new Map(importTags.map(tag => [tag.name.toLowerCase(), tag.id]));
+      const leadIdsByTag = new Map<string, string[]>();
+      createdLeads.forEach((created, index) => {
+        for (const name of newLeads[index].tagNames) {
+          const tagId = tagIdsByName.get(name.toLowerCase());
+          if (tagId) leadIdsByTag.set(tagId, [...(leadIdsByTag.get(tagId) ?? []), created.id]);
+        }
+      });
+      for (const [tagId, leadIds] of Array.from(leadIdsByTag.entries())) {
+        await storage.addTagsToLeads(leadIds, [tagId]);
+      }
+
+      // After tagging, so rules can match on the imported tags
+      await autoAssignLeads(createdLeads, "import");
+      
+      console.log(`✅ Successfully imported ${createdCount} leads`);
+
+      res.json({ 
+        success: true, 
+        total: leads.length,
+        imported: createdCount,
+        duplicates: duplicateEmails.length + fileInternalDuplicates.length,
+        rejected: newLeads.length - createdCount,
+        summary: {
+          totalRows: rawData.length,
+          validRows: leads.length,
+          newLeads: createdCount,
+          duplicateLeads: duplicateEmails.length,
+          invalidRows: rawData.length - leads.length,
+          duplicateEmails: duplicateEmails,
+          fileInternalDuplicates: fileInternalDuplicates,
+          rejectedCount: newLeads.length - createdCount,
+          customFieldWarnings: customFieldWarnings
+        }
+      });
+    } catch (error: any) {
+      console.error("❌ Error importing file:", error);
+      res.status(400).json({ message: error.message || "Failed to import file" });
+    }
+  });
+
+  app.get("/api/companies", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 1000;
+      const companies = await storage.getAllCompanies(limit);
+      res.json(companies);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/companies/:id", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const company = await storage.getCompany(req.params.id);
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      res.json(company);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/companies/:id/leads", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const leads = await storage.getLeadsByCompany(req.params.id);
+      res.json(leads);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/companies/:id/contacts", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const companyContacts = await storage.getContactsForCompany(req.params.id);
+      res.json(companyContacts);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Company-wide contact, not tied to a lead
+  app.post("/api/companies/:id/contacts", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = insertContactSchema.parse(req.body);
+      const company = await storage.getCompany(req.params.id);
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      const contact = await storage.createContact({ ...data, leadId: null, companyId: company.id });
+      res.status(201).json(contact);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/companies", requirePermission(PERMISSIONS.COMPANIES_MANAGE), async (req, res) => {
+    try {
+      const validatedData = insertCompanySchema.parse(req.body);
+      const problem = await checkCompanyProfile(validatedData);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+      const customFields = await validateCustomFieldValues("company", validatedData.customFields);
+      const company = await storage.createCompany({ ...validatedData, customFields });
+      res.status(201).json(company);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/companies/:id", requirePermission(PERMISSIONS.COMPANIES_MANAGE), async (req, res) => {
+    try {
+      const validatedData = insertCompanySchema.parse(req.body);
+      const problem = await checkCompanyProfile(validatedData, req.params.id);
+      if (problem) {
+        return res.status(problem.status).json({ message: problem.message });
+      }
+      if (validatedData.customFields) {
+        validatedData.customFields = await validateCustomFieldValues("company", validatedData.customFields);
+      }
+      const company = await storage.updateCompany(req.params.id, validatedData);
+      if (!company) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      res.json(company);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/companies/:id", requirePermission(PERMISSIONS.COMPANIES_MANAGE), async (req, res) => {
+    try {
+      const deleted = await storage.deleteCompany(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Company not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Pipeline stages (leads.status holds the stage name)
+  app.get("/api/pipeline-stages", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const stages = await storage.getPipelineStages();
+      res.json(stages);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/pipeline-stages", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const data = insertPipelineStageSchema.parse(req.body);
+      if (await storage.getPipelineStageByName(data.name)) {
+        return res.status(409).json({ message: "A stage with this name already exists" });
+      }
+      const stage = await storage.createPipelineStage(data);
+      res.status(201).json(stage);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/pipeline-stages/reorder", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const { stageIds } = reorderPipelineStagesSchema.parse(req.body);
+      const stages = await storage.reorderPipelineStages(stageIds);
+      res.json(stages);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/pipeline-stages/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const data = updatePipelineStageSchema.parse(req.body);
+      if (data.name) {
+        const existing = await storage.getPipelineStageByName(data.name);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ message: "A stage with this name already exists" });
+        }
+      }
+      const stage = await storage.updatePipelineStage(req.params.id, data);
+      if (!stage) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+      res.json(stage);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/pipeline-stages/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const stage = await storage.getPipelineStage(req.params.id);
+      if (!stage) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+      // Leads store the stage name, so a stage in use can't go away underneath them
+      const leadCount = await storage.countLeadsWithStatus(stage.name);
+      if (leadCount > 0) {
+        return res.status(409).json({ message: `${leadCount} lead(s) are still in "${stage.name}". Move them to another stage first.` });
+      }
+      await storage.deletePipelineStage(stage.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Open tasks due by the given time (the end of the user's day), for the Overdue / Due today view
+  app.get("/api/tasks/due", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const until = req.query.until ? new Date(req.query.until as string) : new Date();
+      if (isNaN(until.getTime())) {
+        return res.status(400).json({ message: "Invalid until date" });
+      }
+      const dueTasks = await storage.getOpenTasksDueBy(until, req.query.assignedUserId as string | undefined);
+      res.json(dueTasks);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/tasks/:id", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = updateTaskSchema.parse(req.body);
+      if (data.assignedUserId && !(await storage.getUser(data.assignedUserId))) {
+        return res.status(400).json({ message: "User not found" });
+      }
+      const task = await storage.updateTask(req.params.id, data);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      res.json(task);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/tasks/:id", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const deleted = await storage.deleteTask(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/contacts/:id", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = updateContactSchema.parse(req.body);
+      const contact = await storage.updateContact(req.params.id, data);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      res.json(contact);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/contacts/:id", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const deleted = await storage.deleteContact(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/activities/:id", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = updateActivitySchema.parse(req.body);
+      const activity = await storage.updateActivity(req.params.id, data);
+      if (!activity) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      res.json(activity);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/activities/:id", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const deleted = await storage.deleteActivity(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/deals/:id", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = updateDealSchema.parse(req.body);
+      const existing = await storage.getDeal(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+      const deal = await storage.updateDeal(req.params.id, data);
+      if (!deal) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+      await applyDealStageChange(deal, existing.stage);
+      res.json(deal);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/deals/:id", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const deleted = await storage.deleteDeal(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/lead-products/:id", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = updateLeadProductSchema.parse(req.body);
+      const link = await storage.updateLeadProduct(req.params.id, data);
+      if (!link) {
+        return res.status(404).json({ message: "Product link not found" });
+      }
+      res.json(link);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/lead-products/:id", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const deleted = await storage.deleteLeadProduct(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Product link not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/quotes/:id/pdf", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id);
+      const file = quote ? await renderQuoteFile(quote) : undefined;
+      if (!file) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+      res.setHeader("Content-Type", "application/pdf");
+      res.send(file.pdf);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // The PDF in the attachment format the email send endpoints take, for attaching in the composer
+  app.get("/api/quotes/:id/attachment", requirePermission(PERMISSIONS.EMAILS_SEND), async (req, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id);
+      const file = quote ? await renderQuoteFile(quote) : undefined;
+      if (!file) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.json({ filename: file.filename, content: file.pdf.toString("base64"), mimeType: "application/pdf" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Revenue forecast from open deals; ?from=&to= limit by expected close date (YYYY-MM-DD), ?assignedUserId= to one rep
+  app.get("/api/forecast", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const isDay = (value: unknown) => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+      const { from, to, assignedUserId } = req.query;
+      if ((from !== undefined && !isDay(from)) || (to !== undefined && !isDay(to))) {
+        return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+      }
+      const forecast = await storage.getDealForecast({
+        from: from as string | undefined,
+        to: to as string | undefined,
+        assignedUserId: typeof assignedUserId === "string" ? assignedUserId : undefined,
+      });
+      res.json(forecast);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Lead tags; anyone who can edit leads can create them while tagging, renaming and deleting is for admins
+  app.get("/api/tags", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const allTags = await storage.getTags();
+      res.json(allTags);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/tags", requirePermission(PERMISSIONS.LEADS_EDIT), async (req, res) => {
+    try {
+      const data = insertTagSchema.parse(req.body);
+      if (await storage.getTagByName(data.name)) {
+        return res.status(409).json({ message: `Tag "${data.name}" already exists` });
+      }
+      const tag = await storage.createTag(data);
+      res.status(201).json(tag);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/tags/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const data = updateTagSchema.parse(req.body);
+      if (data.name) {
+        const existing = await storage.getTagByName(data.name);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ message: `Tag "${data.name}" already exists` });
+        }
+      }
+      const tag = await storage.updateTag(req.params.id, data);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      res.json(tag);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/tags/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const deleted = await storage.deleteTag(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Custom field definitions for leads and companies
+  app.get("/api/custom-fields", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const fields = await storage.getCustomFields();
+      res.json(fields);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/custom-fields", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const data = insertCustomFieldSchema.parse(req.body);
+      const existing = await storage.getCustomFields(data.entityType);
+      if (existing.some(field => field.label.toLowerCase() === data.label.toLowerCase())) {
+        return res.status(409).json({ message: "A field with this label already exists" });
+      }
+      const key = customFieldKeyFromLabel(data.label, existing.map(field => field.key));
+      const field = await storage.createCustomField({ ...data, key });
+      res.status(201).json(field);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/custom-fields/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const data = updateCustomFieldSchema.parse(req.body);
+      const current = await storage.getCustomField(req.params.id);
+      if (!current) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+      if (data.label) {
+        const existing = await storage.getCustomFields(current.entityType as CustomFieldEntityType);
+        if (existing.some(field => field.id !== current.id && field.label.toLowerCase() === data.label!.toLowerCase())) {
+          return res.status(409).json({ message: "A field with this label already exists" });
+        }
+      }
+      if (current.type === "select" && data.options && data.options.length === 0) {
+        return res.status(400).json({ message: "Select fields need at least one option" });
+      }
+      const field = await storage.updateCustomField(req.params.id, data);
+      res.json(field);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/custom-fields/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const deleted = await storage.deleteCustomField(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Lead scoring rules; every change rescores all leads
+  app.get("/api/lead-score-rules", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const rules = await storage.getLeadScoreRules();
+      res.json(rules);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/lead-score-rules", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const data = insertLeadScoreRuleSchema.parse(req.body);
+      if (data.criterion === "status" && !(await storage.getPipelineStageByName(data.value!))) {
+        return res.status(400).json({ message: `Stage "${data.value}" does not exist` });
+      }
+      const rule = await storage.createLeadScoreRule(data);
+      res.status(201).json(rule);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Rules are small, so updates replace the whole rule
+  app.patch("/api/lead-score-rules/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const data = insertLeadScoreRuleSchema.parse(req.body);
+      if (data.criterion === "status" && !(await storage.getPipelineStageByName(data.value!))) {
+        return res.status(400).json({ message: `Stage "${data.value}" does not exist` });
+      }
+      const rule = await storage.updateLeadScoreRule(req.params.id, data);
+      if (!rule) {
+        return res.status(404).json({ message: "Scoring rule not found" });
       }
+      res.json(rule);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
 
-      console.log(`✅ Found ${leads.length} valid leads to import`);
+  app.delete("/api/lead-score-rules/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const deleted = await storage.deleteLeadScoreRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Scoring rule not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Get all existing emails from database for duplicate detection
-      const existingLeadsResult = await storage.getAllLeads(10000); // High limit for import
-      const existingEmails = new Set(existingLeadsResult.leads.map(lead => lead.email.toLowerCase()));
+  app.get("/api/assignment-rules", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const rules = await storage.getAssignmentRules();
+      res.json(rules);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Detect duplicates within the file itself
-      const emailCount = new Map<string, number>();
-      leads.forEach(lead => {
-        const email = lead.email.toLowerCase();
-        emailCount.set(email, (emailCount.get(email) || 0) + 1);
-      });
+  app.post("/api/assignment-rules", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const data = insertAssignmentRuleSchema.parse(req.body);
+      const problem = await checkAssignmentRule(data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      const rule = await storage.createAssignmentRule(data);
+      res.status(201).json(rule);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
 
-      const duplicatesWithinFile = Array.from(emailCount.entries())
-        .filter(([_, count]) => count > 1)
-        .map(([email]) => email);
+  app.post("/api/assignment-rules/reorder", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const { ruleIds } = reorderAssignmentRulesSchema.parse(req.body);
+      const rules = await storage.reorderAssignmentRules(ruleIds);
+      res.json(rules);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
 
-      // Track duplicates for reporting only (still import them)
-      const duplicateEmails: string[] = [];
-      const fileInternalDuplicates: string[] = [];
-      const processedFileEmails = new Set<string>();
+  app.patch("/api/assignment-rules/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const data = insertAssignmentRuleSchema.parse(req.body);
+      const problem = await checkAssignmentRule(data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      const rule = await storage.updateAssignmentRule(req.params.id, data);
+      if (!rule) {
+        return res.status(404).json({ message: "Assignment rule not found" });
+      }
+      res.json(rule);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
 
-      leads.forEach((lead) => {
-        const emailLower = lead.email.toLowerCase();
-        
-        // Check if email already exists in database
-        if (existingEmails.has(emailLower)) {
-          duplicateEmails.push(lead.email);
-        }
-        
-        // Check if this email appears multiple times in the file
-        if (duplicatesWithinFile.includes(emailLower)) {
-          if (!processedFileEmails.has(emailLower)) {
-            processedFileEmails.add(emailLower);
-            fileInternalDuplicates.push(lead.email);
-          }
-        }
-      });
+  app.delete("/api/assignment-rules/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const deleted = await storage.deleteAssignmentRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Assignment rule not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      console.log(`📊 Import Summary:`);
-      console.log(`   - Total leads to import: ${leads.length}`);
-      console.log(`   - Database duplicates found: ${duplicateEmails.length}`);
-      console.log(`   - File internal duplicates: ${fileInternalDuplicates.length}`);
+  // Most recent assignment decisions across all leads, for reviewing the rules
+  app.get("/api/assignment-log", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const entries = await storage.getLeadAssignmentLog(undefined, 50);
+      res.json(entries);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Import ALL leads (including duplicates)
-      const validatedLeads = leads.map((lead) => insertLeadSchema.parse(lead));
-      const createdLeads = await storage.createLeads(validatedLeads);
-      const createdCount = createdLeads.length;
-      
-      console.log(`✅ Successfully imported ${createdCount} leads`);
+  app.get("/api/web-forms", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const forms = await storage.getWebForms();
+      res.json(forms);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      res.json({ 
-        success: true, 
-        total: leads.length,
-        imported: createdCount,
-        duplicates: duplicateEmails.length,
-        rejected: leads.length - createdCount,
-        summary: {
-          totalRows: rawData.length,
-          validRows: leads.length,
-          newLeads: createdCount,
-          duplicateLeads: duplicateEmails.length,
-          invalidRows: rawData.length - leads.length,
-          duplicateEmails: duplicateEmails,
-          fileInternalDuplicates: fileInternalDuplicates,
-          rejectedCount: leads.length - createdCount
-        }
-      });
+  app.post("/api/web-forms", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const data = insertWebFormSchema.parse(req.body);
+      if (!(await storage.getCompany(data.companyId))) {
+        return res.status(400).json({ message: "Company not found" });
+      }
+      const form = await storage.createWebForm(data);
+      res.status(201).json(form);
     } catch (error: any) {
-      console.error("❌ Error importing file:", error);
-      res.status(400).json({ message: error.message || "Failed to import file" });
+      res.status(400).json({ message: error.message });
     }
   });
 
-  app.get("/api/companies", async (req, res) => {
+  app.patch("/api/web-forms/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 1000;
-      const companies = await storage.getAllCompanies(limit);
-      res.json(companies);
+      const data = insertWebFormSchema.parse(req.body);
+      if (!(await storage.getCompany(data.companyId))) {
+        return res.status(400).json({ message: "Company not found" });
+      }
+      const form = await storage.updateWebForm(req.params.id, data);
+      if (!form) {
+        return res.status(404).json({ message: "Web form not found" });
+      }
+      res.json(form);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/web-forms/:id", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
+    try {
+      const deleted = await storage.deleteWebForm(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Web form not found" });
+      }
+      res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/companies/:id", async (req, res) => {
+  // Website form intake. Public (see auth.ts) and callable from any origin, so only the form id identifies the caller.
+  // Accepts JSON from scripts or urlencoded posts from plain HTML forms, which are redirected when the form has a redirect URL.
+  app.options("/api/public/forms/:id", (req, res) => {
+    setPublicCorsHeaders(res);
+    res.sendStatus(204);
+  });
+
+  app.post("/api/public/forms/:id", async (req, res) => {
+    setPublicCorsHeaders(res);
     try {
-      const company = await storage.getCompany(req.params.id);
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      const form = await storage.getWebForm(req.params.id);
+      if (!form || !form.enabled) {
+        return res.status(404).json({ message: "Form not found" });
       }
-      res.json(company);
+
+      const respond = () => {
+        if (form.redirectUrl && req.is("application/x-www-form-urlencoded")) {
+          return res.redirect(303, form.redirectUrl);
+        }
+        res.status(201).json({ success: true });
+      };
+
+      // Bots get the same answer as people so they don't learn to skip the trap
+      if (req.body?.[WEB_FORM_HONEYPOT_FIELD]) {
+        console.log(`🍯 Ignored web form "${form.name}" submission from ${req.ip} (honeypot filled)`);
+        return respond();
+      }
+      if (isWebFormRateLimited(form.id, req.ip ?? "unknown")) {
+        console.warn(`🚫 Rate limited web form "${form.name}" submissions from ${req.ip}`);
+        return res.status(429).json({ message: "Too many submissions. Please try again later." });
+      }
+
+      const data = parseWebFormSubmission(form, req.body ?? {}, await getDefaultStageName());
+      const [lead] = await autoAssignLeads([await storage.createLead(data, null)], "web_form");
+      console.log(`📝 Web form "${form.name}" created lead ${lead.clientName} (${lead.id})`);
+
+      const { addWebFormNotification } = await import("./index");
+      await addWebFormNotification(lead, form.name);
+
+      if (form.acknowledgementEnabled) {
+        // The lead is already saved, so a failed acknowledgement must not fail the submission
+        try {
+          await sendWebFormAcknowledgement(form, lead);
+        } catch (error: any) {
+          console.error(`❌ Web form acknowledgement to ${lead.email} failed:`, error.message);
+        }
+      }
+
+      respond();
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Users that leads can be assigned to (everyone who can work leads)
+  app.get("/api/users/assignable", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const allUsers = await storage.getAllUsers();
+      const team: TeamMember[] = allUsers
+        .filter(user => hasPermission(user.role, PERMISSIONS.LEADS_EDIT))
+        .map(({ id, username, displayName, role, away }) => ({ id, username, displayName, role, away }));
+      res.json(team);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/companies/:id/leads", async (req, res) => {
+  // User management endpoints (admin only)
+  app.get("/api/users", requirePermission(PERMISSIONS.USERS_MANAGE), async (req, res) => {
     try {
-      const leads = await storage.getLeadsByCompany(req.params.id);
-      res.json(leads);
+      const allUsers = await storage.getAllUsers();
+      res.json(allUsers.map(toPublicUser));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/companies", async (req, res) => {
+  app.post("/api/users", requirePermission(PERMISSIONS.USERS_MANAGE), async (req, res) => {
     try {
-      const validatedData = insertCompanySchema.parse(req.body);
-      const company = await storage.createCompany(validatedData);
-      res.status(201).json(company);
+      const { password, ...data } = createUserSchema.parse(req.body);
+      const existing = await storage.getUserByUsername(data.username);
+      if (existing) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      const user = await storage.createUser({ ...data, passwordHash: await hashPassword(password) });
+      console.log(`👤 ${req.user!.username} created user ${user.username} (${user.role})`);
+      res.status(201).json(toPublicUser(user));
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.patch("/api/companies/:id", async (req, res) => {
+  app.patch("/api/users/:id", requirePermission(PERMISSIONS.USERS_MANAGE), async (req, res) => {
     try {
-      const validatedData = insertCompanySchema.parse(req.body);
-      const company = await storage.updateCompany(req.params.id, validatedData);
-      if (!company) {
-        return res.status(404).json({ message: "Company not found" });
+      const { password, ...data } = updateUserSchema.parse(req.body);
+
+      // Admins can't demote themselves, so there is always someone left to manage users
+      if (req.params.id === req.user!.id && data.role && data.role !== req.user!.role) {
+        return res.status(400).json({ message: "You can't change your own role" });
       }
-      res.json(company);
+
+      const updates = password ? { ...data, passwordHash: await hashPassword(password) } : data;
+      const user = await storage.updateUser(req.params.id, updates);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.delete("/api/companies/:id", async (req, res) => {
+  app.delete("/api/users/:id", requirePermission(PERMISSIONS.USERS_MANAGE), async (req, res) => {
     try {
-      const deleted = await storage.deleteCompany(req.params.id);
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ message: "You can't delete your own account" });
+      }
+      const deleted = await storage.deleteUser(req.params.id);
       if (!deleted) {
-        return res.status(404).json({ message: "Company not found" });
+        return res.status(404).json({ message: "User not found" });
       }
       res.json({ success: true });
     } catch (error: any) {
@@ -822,8 +2193,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Audit trail (read-only; entries are never modified)
+  app.get("/api/audit", requirePermission(PERMISSIONS.AUDIT_VIEW), async (req, res) => {
+    try {
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 50, 200) : 50;
+      const cursor = req.query.cursor as string | undefined;
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return res.status(400).json({ message: "Invalid date filter" });
+      }
+
+      const result = await storage.getAuditLog({
+        entityType: req.query.entityType as string | undefined,
+        entityId: req.query.entityId as string | undefined,
+        action: req.query.action as string | undefined,
+        actorId: req.query.actorId as string | undefined,
+        from,
+        to,
+      }, limit, cursor);
+      res.json(result);
+    } catch (error: any) {
+      const status = error.message === "Invalid cursor" ? 400 : 500;
+      res.status(status).json({ message: error.message });
+    }
+  });
+
   // Configuration management endpoints
-  app.get("/api/config", async (req, res) => {
+  app.get("/api/config", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     try {
       const config = getAllConfig(false); // Don't include full sensitive values
       res.json(config);
@@ -832,7 +2230,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/config", async (req, res) => {
+  app.post("/api/config", requirePermission(PERMISSIONS.SETTINGS_MANAGE), async (req, res) => {
     try {
       const updates = req.body;
       
@@ -846,9 +2244,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Save to .env file and update runtime config
+      const before = getAllConfig(false);
+      const rawBefore = getAllConfig(true);
       const success = saveConfigToFile(updates);
       
       if (success) {
+        // Changes are found on the real values (masking hides most edits to secrets), but only masked values reach the log
+        const after = getAllConfig(false);
+        const rawAfter = getAllConfig(true);
+        const changedKeys = Object.keys(rawAfter).filter(key => rawBefore[key] !== rawAfter[key]);
+        if (changedKeys.length > 0) {
+          await storage.recordAudit("config", "update", [{
+            id: ".env",
+            before: Object.fromEntries(changedKeys.map(key => [key, before[key]])),
+            after: Object.fromEntries(changedKeys.map(key => [key, after[key]])),
+          }]);
+        }
+
         res.json({ 
           success: true, 
           message: "Configuration updated successfully. Some changes may require a server restart." 
@@ -864,7 +2276,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Inventory management endpoints
-  app.post("/api/migrate/inventory-schema", async (req, res) => {
+  app.post("/api/migrate/inventory-schema", requirePermission(PERMISSIONS.SYSTEM_MIGRATE), async (req, res) => {
     try {
       const { db } = await import('./db');
       const { sql: execSql } = await import('drizzle-orm');
@@ -900,7 +2312,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/inventory", async (req, res) => {
+  app.get("/api/inventory", requirePermission(PERMISSIONS.INVENTORY_VIEW), async (req, res) => {
     try {
       const wantsPagination = req.query.limit || req.query.cursor;
       
@@ -919,7 +2331,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/inventory/:id", async (req, res) => {
+  // Number of open leads waiting on each product, keyed by inventory id
+  app.get("/api/inventory/waiting-leads", requirePermission(PERMISSIONS.INVENTORY_VIEW), async (req, res) => {
+    try {
+      const counts = await storage.getWaitingLeadCounts();
+      res.json(counts);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/inventory/:id", requirePermission(PERMISSIONS.INVENTORY_VIEW), async (req, res) => {
     try {
       const item = await storage.getInventoryItem(req.params.id);
       if (!item) {
@@ -931,7 +2353,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/inventory", async (req, res) => {
+  app.get("/api/inventory/:id/waiting-leads", requirePermission(PERMISSIONS.LEADS_VIEW), async (req, res) => {
+    try {
+      const item = await storage.getInventoryItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: "Item not found" });
+      }
+      const waiting = await storage.getLeadsWaitingOnProduct(item.id);
+      res.json(waiting);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/inventory", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const validated = insertInventorySchema.parse(req.body);
       const item = await storage.createInventoryItem(validated);
@@ -941,20 +2376,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/inventory/:id", async (req, res) => {
+  app.put("/api/inventory/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const validated = insertInventorySchema.parse(req.body);
-      const item = await storage.updateInventoryItem(req.params.id, validated);
-      if (!item) {
+      const before = await storage.getInventoryItem(req.params.id);
+      const item = before && await storage.updateInventoryItem(req.params.id, validated);
+      if (!before || !item) {
         return res.status(404).json({ message: "Item not found" });
       }
+      // The change is already saved, so failed notifications must not fail the request
+      try {
+        await notifyLeadsWaitingOnProduct(before, item);
+      } catch (error: any) {
+        console.error(`❌ Stock notifications for ${item.product} failed:`, error.message);
+      }
       res.json(item);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
 
-  app.delete("/api/inventory/:id", async (req, res) => {
+  app.delete("/api/inventory/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const deleted = await storage.deleteInventoryItem(req.params.id);
       if (!deleted) {
@@ -966,7 +2408,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/inventory/bulk-delete", async (req, res) => {
+  app.post("/api/inventory/bulk-delete", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
     try {
       const { ids } = req.body;
       if (!Array.isArray(ids)) {
@@ -979,7 +2421,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/inventory/import", upload.single("file"), async (req, res) => {
+  app.get("/api/trash/inventory", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const items = await storage.getDeletedInventory();
+      res.json({ items, retentionDays: getTrashRetentionDays() });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/trash/inventory/restore", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const { ids } = req.body;
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return res.status(400).json({ message: "Invalid request: ids must be a non-empty array" });
+      }
+      const count = await storage.restoreInventoryItems(ids);
+      res.json({ success: true, count });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/trash/inventory/purge", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const { ids } = req.body;
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return res.status(400).json({ message: "Invalid request: ids must be a non-empty array" });
+      }
+      const count = await storage.purgeInventoryItems(ids);
+      res.json({ success: true, count });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/inventory/import", requirePermission(PERMISSIONS.INVENTORY_MANAGE), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -1003,6 +2480,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log(`📊 Processing ${rawData.length} rows from inventory Excel file`);
 
+      // Price list columns as exported ("Contractor price/sq ft"), matched by list name
+      const lists = await storage.getPriceLists();
+      const importedListPrices: Array<Array<{ list: PriceListWithRules; perSqFt: string | null; perBox: string | null }>> = [];
+
       const items: any[] = [];
       // IMPORTANT: If targetCategory is specified, NEVER use currentHeading from Excel
       // If no targetCategory, start with null and let Excel headings populate it
@@ -1080,7 +2561,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           sqFtPerBox: sqFtBoxValue,
           totalSqFt: totalSqFt,
           notes: notes,
+          costPerSqFt: getColumnValue(["Cost/sq ft", "Cost/Sq Ft", "COST/SQ FT", "cost_per_sq_ft"]) || null,
+          costPerBox: getColumnValue(["Cost/box", "Cost/Box", "COST/BOX", "cost_per_box"]) || null,
+          pricePerSqFt: getColumnValue(["Price/sq ft", "Price/Sq Ft", "PRICE/SQ FT", "price_per_sq_ft"]) || null,
+          pricePerBox: getColumnValue(["Price/box", "Price/Box", "PRICE/BOX", "price_per_box"]) || null,
         };
+        importedListPrices.push(lists.map(list => ({
+          list,
+          perSqFt: priceSchema.parse(getColumnValue([`${list.name} price/sq ft`])),
+          perBox: priceSchema.parse(getColumnValue([`${list.name} price/box`])),
+        })));
 
         console.log(`✅ Row ${rowNumber}: "${item.product}" → Category: "${item.productHeading}" ${targetCategory ? '[FORCED]' : '[FROM EXCEL]'}`);
         items.push(item);
@@ -1097,11 +2587,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedItems = items.map((item) => insertInventorySchema.parse(item));
       const createdItems = await storage.createInventoryItems(validatedItems);
 
-      console.log(`🎉 Successfully imported ${createdItems.length} items`);
+      // A price list column only becomes an override for the product where it differs from what the list works out
+      let priceOverrides = 0;
+      for (let i = 0; i < createdItems.length; i++) {
+        for (const { list, perSqFt, perBox } of importedListPrices[i]) {
+          if (perSqFt === null && perBox === null) continue;
+          const workedOut = priceListPrices(createdItems[i], list, list.rules);
+          const matches = (imported: string | null, expected: number | undefined) => imported === null || Number(imported) === expected;
+          if (matches(perSqFt, workedOut.perSqFt) && matches(perBox, workedOut.perBox)) continue;
+          await storage.savePriceListRule(list.id, { inventoryId: createdItems[i].id, markupPercent: null, pricePerSqFt: perSqFt, pricePerBox: perBox });
+          priceOverrides++;
+        }
+      }
+
+      console.log(`🎉 Successfully imported ${createdItems.length} items (${priceOverrides} price list overrides)`);
       res.json({ 
         success: true, 
         total: items.length,
-        imported: createdItems.length
+        imported: createdItems.length,
+        priceOverrides,
       });
     } catch (error: any) {
       console.error("❌ Error importing inventory file:", error);
@@ -1109,8 +2613,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Price lists with their product and category rules; the prices themselves are worked out where they're shown
+  app.get("/api/price-lists", requirePermission(PERMISSIONS.INVENTORY_VIEW), async (req, res) => {
+    try {
+      const lists = await storage.getPriceLists();
+      res.json(lists);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/price-lists", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const data = insertPriceListSchema.parse(req.body);
+      if (await storage.getPriceListByName(data.name)) {
+        return res.status(409).json({ message: `Price list "${data.name}" already exists` });
+      }
+      const list = await storage.createPriceList(data);
+      res.status(201).json(list);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/price-lists/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const data = updatePriceListSchema.parse(req.body);
+      if (data.name) {
+        const existing = await storage.getPriceListByName(data.name);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ message: `Price list "${data.name}" already exists` });
+        }
+      }
+      const list = await storage.updatePriceList(req.params.id, data);
+      if (!list) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+      res.json(list);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/price-lists/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const deleted = await storage.deletePriceList(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Sets the list's markup or fixed prices for one product or category, replacing any it had
+  app.put("/api/price-lists/:id/rules", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const data = insertPriceListRuleSchema.parse(req.body);
+      const lists = await storage.getPriceLists();
+      if (!lists.some(list => list.id === req.params.id)) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+      if (data.inventoryId && !(await storage.getInventoryItem(data.inventoryId))) {
+        return res.status(400).json({ message: "Product not found" });
+      }
+      const rule = await storage.savePriceListRule(req.params.id, data);
+      res.json(rule);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/price-list-rules/:id", requirePermission(PERMISSIONS.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const deleted = await storage.deletePriceListRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Price list rule not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Migration endpoint to update inventory schema
-  app.post("/api/migrate-inventory", async (req, res) => {
+  app.post("/api/migrate-inventory", requirePermission(PERMISSIONS.SYSTEM_MIGRATE), async (req, res) => {
     try {
       console.log("🔧 Running inventory schema migration...");
       
@@ -1144,7 +2732,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Migration endpoint to add notes column to leads table
-  app.post("/api/migrate/add-notes-to-leads", async (req, res) => {
+  app.post("/api/migrate/add-notes-to-leads", requirePermission(PERMISSIONS.SYSTEM_MIGRATE), async (req, res) => {
     try {
       console.log("🔄 Running migration: add notes column to leads table");
       
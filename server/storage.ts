@@ -1,93 +1,671 @@
-import { leads, emails, companies, inventory, notifications, type Lead, type InsertLead, type Email, type InsertEmail, type Company, type InsertCompany, type Inventory, type InsertInventory, type Notification, type InsertNotification } from "@shared/schema";
+import { users, leads, emails, companies, inventory, notifications, auditLog, pipelineStages, leadStatusHistory, customFields, tags, leadTags, tasks, contacts, activities, leadScoreRules, deals, webForms, assignmentRules, leadAssignmentLog, quotes, priceLists, priceListRules, leadProducts, TAG_COLORS, DEAL_STAGES, CLOSED_DEAL_STAGES, DEAL_STAGE_PROBABILITIES, emailDomain, type AuditLogEntry, type LeadStatusSource, type LeadStatusChange, type PipelineStage, type PipelineAutomation, type LeadSortField, type MergeableLeadField, type CustomField, type CustomFieldEntityType, type CustomFieldType, type CustomFieldValues, type InsertCustomField, type UpdateCustomField, type Tag, type InsertTag, type UpdateTag, type Task, type InsertTask, type UpdateTask, type Contact, type InsertContact, type UpdateContact, type Activity, type InsertActivity, type UpdateActivity, type LeadScoreRule, type InsertLeadScoreRule, type Deal, type DealStage, type InsertDeal, type UpdateDeal, type Quote, type QuoteLine, type LeadProduct, type LeadProductWithItem, type InsertLeadProduct, type UpdateLeadProduct, type WaitingLead, type PriceList, type PriceListWithRules, type InsertPriceList, type UpdatePriceList, type PriceListRule, type InsertPriceListRule, type WebForm, type InsertWebForm, type AssignmentRule, type InsertAssignmentRule, type LeadAssignmentLogEntry, type LeadSource, type InsertPipelineStage, type UpdatePipelineStage, type User, type InsertUser, type Lead, type InsertLead, type Email, type InsertEmail, type Company, type InsertCompany, type Inventory, type InsertInventory, type Notification, type InsertNotification } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, inArray, and, gt, lt } from "drizzle-orm";
+import { eq, asc, desc, inArray, notInArray, and, or, gt, gte, lt, lte, count, max, isNull, isNotNull, ilike, sql, getTableColumns, type SQL, type AnyColumn } from "drizzle-orm";
+import { getCurrentActor } from "./request-context";
+import { PERMISSIONS, hasPermission } from "@shared/permissions";
 
-export type LeadWithCompany = Lead & { company?: Company | null };
+export type LeadWithCompany = Lead & { company?: Company | null; tags?: Tag[] };
+export type TagWithCount = Tag & { leadCount: number };
+export type AssignmentLogEntryWithLead = LeadAssignmentLogEntry & { leadName: string };
+export type TaskWithLead = Task & { lead: Pick<Lead, "id" | "clientName" | "email" | "status"> };
+
+export type AuditEntityType = "lead" | "company" | "inventory" | "email" | "notification" | "user" | "config" | "pipeline_stage" | "custom_field" | "tag" | "lead_tag" | "task" | "contact" | "activity" | "lead_score_rule" | "web_form" | "assignment_rule" | "deal" | "quote" | "price_list" | "price_list_rule" | "lead_product";
+export type AuditAction = "create" | "update" | "delete";
+export type AuditChange = { id: string | null; before?: unknown; after?: unknown };
+
+export interface LeadFilters {
+  status?: string;
+  companyId?: string; // "none" = leads without a company
+  assignedUserId?: string; // "none" = unassigned leads
+  search?: string; // Matches name, email or lead details
+  createdFrom?: Date;
+  createdTo?: Date;
+  customFields?: CustomFieldFilter[];
+  tagId?: string; // "none" = leads without tags
+}
+
+export interface CustomFieldFilter {
+  key: string;
+  type: CustomFieldType;
+  value?: string | number; // Text fields match contains, other types match exactly
+  min?: string | number; // Inclusive range for number and date fields
+  max?: string | number;
+}
+
+// WHERE conditions for one custom field filter on a JSONB custom_fields column
+function customFieldConditions(column: AnyColumn, filter: CustomFieldFilter): SQL[] {
+  const conditions: SQL[] = [];
+  const text = sql`${column}->>${filter.key}::text`;
+  if (filter.value !== undefined) {
+    if (filter.type === "text") {
+      conditions.push(sql`${text} ILIKE ${`%${String(filter.value).replace(/[\\%_]/g, "\\$&")}%`}`);
+    } else {
+      // Containment can use the GIN index on custom_fields
+      conditions.push(sql`${column} @> ${JSON.stringify({ [filter.key]: filter.value })}::jsonb`);
+    }
+  }
+  // Dates are stored as YYYY-MM-DD, so they compare correctly as text
+  const comparable = filter.type === "number"
+    ? sql`(CASE WHEN jsonb_typeof(${column}->${filter.key}::text) = 'number' THEN (${text})::numeric END)`
+    : text;
+  if (filter.min !== undefined) conditions.push(sql`${comparable} >= ${filter.min}`);
+  if (filter.max !== undefined) conditions.push(sql`${comparable} <= ${filter.max}`);
+  return conditions;
+}
+
+// When a lead matches a scoring rule; evaluated inside UPDATE leads, so it can refer to the row being scored
+function leadScoreCondition(rule: LeadScoreRule): SQL {
+  const receivedCount = sql`(SELECT count(*) FROM ${emails} WHERE ${emails.leadId} = ${leads.id} AND ${emails.direction} = 'received')`;
+  const lastContact = sql`(SELECT max(${emails.sentAt}) FROM ${emails} WHERE ${emails.leadId} = ${leads.id})`;
+  const days = sql`make_interval(days => ${Number(rule.value) || 0}::integer)`;
+  switch (rule.criterion) {
+    case "has_phone":
+      return sql`coalesce(trim(${leads.phone}), '') <> ''`;
+    case "has_company":
+      return sql`${leads.companyId} IS NOT NULL`;
+    case "details_keyword":
+      return sql`${leads.leadDetails} ILIKE ${`%${(rule.value ?? "").replace(/[\\%_]/g, "\\$&")}%`}`;
+    case "has_replied":
+      return sql`${receivedCount} > 0`;
+    case "min_replies":
+      return sql`${receivedCount} >= ${Number(rule.value) || 0}`;
+    case "contacted_within_days":
+      return sql`${lastContact} >= now() - ${days}`;
+    case "no_contact_for_days":
+      return sql`coalesce(${lastContact} < now() - ${days}, true)`;
+    case "status":
+      return sql`${leads.status} = ${rule.value}`;
+    default:
+      return sql`false`; // Criterion from a newer version; scores nothing
+  }
+}
+
+// Why an assignment rule matches a lead, or null when it doesn't
+function assignmentRuleMatch(rule: AssignmentRule, lead: Lead, tagIds: string[], source: LeadSource): string | null {
+  switch (rule.criterion) {
+    case "company":
+      return lead.companyId === rule.value ? "company" : null;
+    case "tag":
+      return tagIds.includes(rule.value) ? "tag" : null;
+    case "source":
+      return source === rule.value ? `source is ${source}` : null;
+    case "keywords": {
+      const details = (lead.leadDetails ?? "").toLowerCase();
+      const keyword = rule.value.split(",").map(word => word.trim()).find(word => word && details.includes(word.toLowerCase()));
+      return keyword ? `details mention "${keyword}"` : null;
+    }
+    default:
+      return null; // Criterion from a newer version; matches nothing
+  }
+}
+
+type AssignableRep = Pick<User, "id" | "username" | "displayName" | "role" | "away">;
+
+/**
+ * The rep after the rule's last pick, in the order of its group. Members who can no longer
+ * work leads are dropped; away members are passed over (and reported) when the rule skips them.
+ */
+function nextRoundRobinRep(rule: AssignmentRule, lastUserId: string | null, reps: Map<string, AssignableRep>): { userId: string | null; skipped: AssignableRep[] } {
+  const group = rule.userIds.filter(id => {
+    const rep = reps.get(id);
+    return rep && hasPermission(rep.role, PERMISSIONS.LEADS_EDIT);
+  });
+  const start = lastUserId ? group.indexOf(lastUserId) + 1 : 0;
+  const skipped: AssignableRep[] = [];
+  for (let i = 0; i < group.length; i++) {
+    const rep = reps.get(group[(start + i) % group.length])!;
+    if (rule.skipAway && rep.away) {
+      skipped.push(rep);
+      continue;
+    }
+    return { userId: rep.id, skipped };
+  }
+  return { userId: null, skipped };
+}
+
+export interface LeadAssignmentDecision {
+  lead: Lead;
+  userId: string | null;
+  ruleName: string | null; // null when no rule placed the lead
+  reason: string;
+}
+
+export interface DealForecastFilters {
+  from?: string; // Expected close dates from this day (YYYY-MM-DD), inclusive
+  to?: string; // ...up to this day, inclusive
+  assignedUserId?: string; // Deals on this rep's leads
+}
+
+export interface ForecastBucket {
+  key: string | null; // Month (YYYY-MM), company id or stage; null = no close date / no company
+  label: string;
+  count: number;
+  amount: number;
+  weighted: number; // Amount times probability
+}
+
+export interface DealForecast {
+  openCount: number;
+  openAmount: number;
+  weightedAmount: number;
+  wonAmount: number;
+  lostAmount: number;
+  byMonth: ForecastBucket[]; // Open deals only
+  byCompany: ForecastBucket[]; // Open deals only
+  byStage: ForecastBucket[]; // Every stage, won and lost included
+}
+
+// Probability follows the stage once a deal is closed; open deals keep theirs, or take the stage default
+function dealProbability(stage: DealStage, probability: number | undefined): number {
+  return CLOSED_DEAL_STAGES.includes(stage) || probability === undefined ? DEAL_STAGE_PROBABILITIES[stage] : probability;
+}
+
+export interface LeadSort {
+  field: LeadSortField;
+  direction: "asc" | "desc";
+}
+
+export interface LeadPage {
+  leads: LeadWithCompany[];
+  nextCursor?: string;
+  hasMore: boolean;
+  total: number;
+}
+
+export interface LeadEmailStats {
+  sent: number;
+  received: number;
+  lastEmailAt: Date | null;
+}
+
+const DEFAULT_LEAD_SORT: LeadSort = { field: "createdAt", direction: "desc" };
+
+const leadSortColumns = {
+  createdAt: leads.createdAt,
+  updatedAt: leads.updatedAt,
+  clientName: leads.clientName,
+  score: leads.score,
+};
+
+export interface EmailSearchHit {
+  id: string;
+  subject: string;
+  direction: string;
+  sentAt: Date;
+  snippet: string; // Highlighted with <mark> tags
+  rank: number;
+}
+
+export interface LeadSearchResult {
+  lead: LeadWithCompany;
+  rank: number; // Best rank of the lead itself or any of its emails
+  snippet: string | null; // Highlighted match in the lead's own fields, null if only emails matched
+  emails: EmailSearchHit[];
+}
+
+// Must match the expressions indexed in migrations/add_full_text_search.sql
+const leadSearchDocument = sql`to_tsvector('english', coalesce(${leads.clientName}, '') || ' ' || coalesce(${leads.email}, '') || ' ' || coalesce(${leads.subject}, '') || ' ' || coalesce(${leads.leadDetails}, '') || ' ' || coalesce(${leads.notes}, ''))`;
+const emailSearchDocument = sql`to_tsvector('english', ${emails.subject} || ' ' || ${emails.body})`;
+
+const SEARCH_HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=\" … \"";
+const MAX_EMAIL_SEARCH_HITS = 100;
+
+// Free text to a prefix tsquery ("parma sp" -> "parma:* & sp:*") so half-typed words still match.
+// Only (Latin) letters and digits are kept, so the result is always valid to_tsquery syntax.
+function toPrefixTsQuery(text: string): string | null {
+  const words = text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) ?? [];
+  return words.length > 0 ? words.map(word => `${word}:*`).join(" & ") : null;
+}
+
+export interface DuplicateLeadGroup {
+  matchedOn: "email" | "phone";
+  value: string; // The normalized email or phone shared by the group
+  leads: LeadWithCompany[];
+}
+
+// How leads are compared for duplicates: case/space-insensitive email, and the last 10 digits
+// of the phone number so "+1 (555) 010-2030" and "555.010.2030" match
+const normalizedLeadEmail = sql<string>`lower(trim(${leads.email}))`;
+const normalizedLeadPhone = sql<string>`right(regexp_replace(${leads.phone}, '[^0-9]', '', 'g'), 10)`;
+const MIN_PHONE_DIGITS = 7;
+const MAX_DUPLICATE_GROUPS = 200;
+const EMAIL_LOOKUP_BATCH_SIZE = 1000;
+
+const MAX_DUE_TASKS = 500;
+
+// Leads and inventory items in the trash are hidden everywhere except the trash itself
+const activeLead = isNull(leads.deletedAt);
+const activeInventory = isNull(inventory.deletedAt);
+const MAX_TRASH_ITEMS = 1000;
+
+// Leads in a won or lost stage aren't waiting on anything; statuses without a stage row count as open
+const waitingLeadStage = sql`not exists (select 1 from ${pipelineStages} where ${pipelineStages.name} = ${leads.status} and ${pipelineStages.type} <> 'open')`;
+
+export interface AuditLogFilters {
+  entityType?: string;
+  entityId?: string;
+  action?: string;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Either the pool-backed db or a transaction handle
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const AUDIT_BATCH_SIZE = 500;
+
+// Never copy credentials into the audit trail
+function redactAuditValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "object" && "passwordHash" in value) {
+    const { passwordHash: _passwordHash, ...rest } = value as Record<string, unknown>;
+    return rest;
+  }
+  return value;
+}
+
+// Match up before/after rows of a bulk update by id
+function pairChanges<T extends { id: string }>(before: T[], after: T[]): AuditChange[] {
+  const beforeById = new Map(before.map(row => [row.id, row]));
+  return after.map(row => ({ id: row.id, before: beforeById.get(row.id), after: row }));
+}
+
+// Keyset cursors carry the sort value and id of the last row, so ties on the sort column don't skip rows.
+// The value is Postgres' own text form, which keeps the microseconds a JS Date would drop.
+function encodeCursor(sortValue: string, id: string): string {
+  return Buffer.from(JSON.stringify([sortValue, id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [string, string] {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof value !== "string" || typeof id !== "string") throw new Error();
+    return [value, id];
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+}
 
 export interface IStorage {
-  getAllLeads(limit?: number, cursor?: string): Promise<{ leads: LeadWithCompany[]; nextCursor?: string; hasMore: boolean }>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+  countUsers(): Promise<number>;
+  getAllLeads(limit?: number, cursor?: string, filters?: LeadFilters, sort?: LeadSort): Promise<LeadPage>;
+  countLeadsByStatus(filters?: LeadFilters): Promise<Record<string, number>>;
+  searchLeadsAndEmails(query: string, limit?: number): Promise<LeadSearchResult[]>;
   getLeadsByCompany(companyId: string, limit?: number): Promise<LeadWithCompany[]>;
   getLead(id: string): Promise<LeadWithCompany | undefined>;
   getLeadByEmail(email: string): Promise<Lead | undefined>;
-  createLead(lead: InsertLead): Promise<Lead>;
+  getLeadByContactEmail(email: string): Promise<Lead | undefined>;
+  findExistingLeadEmails(emails: string[]): Promise<Set<string>>;
+  findDuplicateLeads(): Promise<DuplicateLeadGroup[]>;
+  mergeLeads(survivorId: string, mergeIds: string[], fieldSources?: Partial<Record<MergeableLeadField, string>>): Promise<Lead | undefined>;
+  createLead(lead: InsertLead, assignedUserId?: string | null): Promise<Lead>;
   updateLead(id: string, lead: InsertLead): Promise<Lead | undefined>;
-  updateLeadStatus(id: string, status: string): Promise<Lead | undefined>;
+  updateLeadStatus(id: string, status: string, source?: LeadStatusSource): Promise<Lead | undefined>;
+  getLeadStatusHistory(leadId: string): Promise<LeadStatusChange[]>;
   updateLeadCompany(id: string, companyId: string | null): Promise<Lead | undefined>;
+  assignCompanyByEmailDomain(lead: Lead): Promise<Lead>;
+  updateLeadOwner(id: string, userId: string | null): Promise<Lead | undefined>;
+  updateLeadsOwner(ids: string[], userId: string | null): Promise<Lead[]>;
   updateLeadNotes(id: string, notes: string): Promise<Lead | undefined>;
+  updateLeadCustomFields(id: string, values: CustomFieldValues): Promise<Lead | undefined>;
   deleteLead(id: string): Promise<boolean>;
   deleteLeads(ids: string[]): Promise<number>;
+  getDeletedLeads(limit?: number): Promise<LeadWithCompany[]>;
+  restoreLeads(ids: string[]): Promise<number>;
+  purgeLeads(ids: string[]): Promise<number>;
   getEmailsByLeadId(leadId: string, limit?: number, cursor?: string): Promise<{ emails: Email[]; nextCursor?: string; hasMore: boolean }>;
+  getEmailStatsForLeads(leadIds: string[]): Promise<Map<string, LeadEmailStats>>;
   getEmailByMessageId(messageId: string): Promise<Email | undefined>;
   getEmailByConversationId(conversationId: string): Promise<Email | undefined>;
   createEmail(email: InsertEmail): Promise<Email>;
   createLeads(leadsList: InsertLead[]): Promise<Lead[]>;
   getAllCompanies(limit?: number): Promise<Company[]>;
   getCompany(id: string): Promise<Company | undefined>;
+  getCompaniesByDomains(domains: string[]): Promise<Company[]>;
+  getCompaniesByNames(names: string[]): Promise<Company[]>;
   createCompany(company: InsertCompany): Promise<Company>;
   updateCompany(id: string, company: InsertCompany): Promise<Company | undefined>;
   deleteCompany(id: string): Promise<boolean>;
   getAllInventory(limit?: number, cursor?: string): Promise<{ items: Inventory[]; nextCursor?: string; hasMore: boolean }>;
   getInventoryItem(id: string): Promise<Inventory | undefined>;
+  getInventoryItemsByIds(ids: string[]): Promise<Inventory[]>;
   createInventoryItem(item: InsertInventory): Promise<Inventory>;
   updateInventoryItem(id: string, item: InsertInventory): Promise<Inventory | undefined>;
   deleteInventoryItem(id: string): Promise<boolean>;
   deleteInventoryItems(ids: string[]): Promise<number>;
+  getDeletedInventory(limit?: number): Promise<Inventory[]>;
+  restoreInventoryItems(ids: string[]): Promise<number>;
+  purgeInventoryItems(ids: string[]): Promise<number>;
+  purgeExpiredTrash(deletedBefore: Date): Promise<{ leads: number; inventory: number }>;
   createInventoryItems(items: InsertInventory[]): Promise<Inventory[]>;
   createNotification(notification: InsertNotification): Promise<Notification>;
-  getRecentNotifications(since?: string, limit?: number): Promise<Notification[]>;
+  getRecentNotifications(since?: string, limit?: number, userId?: string): Promise<Notification[]>;
   dismissNotification(notificationId: string): Promise<boolean>;
-  dismissNotificationsForLead(leadId: string): Promise<number>;
+  dismissNotificationsForLead(leadId: string, userId?: string): Promise<number>;
   clearAllNotifications(): Promise<boolean>;
+  getPipelineStages(): Promise<PipelineStage[]>;
+  getPipelineStage(id: string): Promise<PipelineStage | undefined>;
+  getPipelineStageByName(name: string): Promise<PipelineStage | undefined>;
+  getPipelineStageForAutomation(automation: PipelineAutomation): Promise<PipelineStage | undefined>;
+  createPipelineStage(stage: InsertPipelineStage): Promise<PipelineStage>;
+  updatePipelineStage(id: string, updates: UpdatePipelineStage): Promise<PipelineStage | undefined>;
+  reorderPipelineStages(stageIds: string[]): Promise<PipelineStage[]>;
+  deletePipelineStage(id: string): Promise<boolean>;
+  countLeadsWithStatus(status: string): Promise<number>;
+  getCustomFields(entityType?: CustomFieldEntityType): Promise<CustomField[]>;
+  getCustomField(id: string): Promise<CustomField | undefined>;
+  createCustomField(field: InsertCustomField & { key: string }): Promise<CustomField>;
+  updateCustomField(id: string, updates: UpdateCustomField): Promise<CustomField | undefined>;
+  deleteCustomField(id: string): Promise<boolean>;
+  getTags(): Promise<TagWithCount[]>;
+  getTag(id: string): Promise<Tag | undefined>;
+  getTagByName(name: string): Promise<Tag | undefined>;
+  createTag(tag: InsertTag): Promise<Tag>;
+  updateTag(id: string, updates: UpdateTag): Promise<Tag | undefined>;
+  deleteTag(id: string): Promise<boolean>;
+  findOrCreateTags(names: string[]): Promise<Tag[]>;
+  addTagsToLeads(leadIds: string[], tagIds: string[]): Promise<number>;
+  removeTagsFromLeads(leadIds: string[], tagIds: string[]): Promise<number>;
+  getTasksForLead(leadId: string): Promise<Task[]>;
+  getTask(id: string): Promise<Task | undefined>;
+  getOpenTasksDueBy(until: Date, assignedUserId?: string): Promise<TaskWithLead[]>;
+  createTask(task: InsertTask & { leadId: string; createdBy: string | null }): Promise<Task>;
+  updateTask(id: string, updates: UpdateTask): Promise<Task | undefined>;
+  deleteTask(id: string): Promise<boolean>;
+  claimDueTasks(now: Date): Promise<TaskWithLead[]>;
+  getContactsForLead(leadId: string): Promise<Contact[]>;
+  getContactsForCompany(companyId: string): Promise<Contact[]>;
+  getContact(id: string): Promise<Contact | undefined>;
+  createContact(contact: InsertContact & { leadId: string | null; companyId: string | null }): Promise<Contact>;
+  updateContact(id: string, updates: UpdateContact): Promise<Contact | undefined>;
+  deleteContact(id: string): Promise<boolean>;
+  getActivitiesForLead(leadId: string): Promise<Activity[]>;
+  createActivity(activity: InsertActivity & { leadId: string; createdBy: string | null }): Promise<Activity>;
+  updateActivity(id: string, updates: UpdateActivity): Promise<Activity | undefined>;
+  deleteActivity(id: string): Promise<boolean>;
+  getDealsForLead(leadId: string): Promise<Deal[]>;
+  getDeal(id: string): Promise<Deal | undefined>;
+  createDeal(deal: InsertDeal & { leadId: string; createdBy: string | null }): Promise<Deal>;
+  updateDeal(id: string, updates: UpdateDeal): Promise<Deal | undefined>;
+  deleteDeal(id: string): Promise<boolean>;
+  getDealForecast(filters?: DealForecastFilters): Promise<DealForecast>;
+  getQuotesForLead(leadId: string): Promise<Quote[]>;
+  getQuote(id: string): Promise<Quote | undefined>;
+  createQuote(quote: { leadId: string; wasteFactor: number; lines: QuoteLine[]; total: number; notes: string | null; createdBy: string | null }): Promise<Quote>;
+  getLeadProducts(leadId: string): Promise<LeadProductWithItem[]>;
+  getLeadProduct(id: string): Promise<LeadProduct | undefined>;
+  createLeadProduct(link: InsertLeadProduct & { leadId: string; createdBy: string | null }): Promise<LeadProduct>;
+  updateLeadProduct(id: string, updates: UpdateLeadProduct): Promise<LeadProduct | undefined>;
+  deleteLeadProduct(id: string): Promise<boolean>;
+  getLeadsWaitingOnProduct(inventoryId: string): Promise<WaitingLead[]>;
+  getWaitingLeadCounts(): Promise<Record<string, number>>;
+  getPriceLists(): Promise<PriceListWithRules[]>;
+  getPriceListByName(name: string): Promise<PriceList | undefined>;
+  createPriceList(list: InsertPriceList): Promise<PriceList>;
+  updatePriceList(id: string, updates: UpdatePriceList): Promise<PriceList | undefined>;
+  deletePriceList(id: string): Promise<boolean>;
+  savePriceListRule(priceListId: string, rule: InsertPriceListRule): Promise<PriceListRule>;
+  deletePriceListRule(id: string): Promise<boolean>;
+  getLeadScoreRules(): Promise<LeadScoreRule[]>;
+  createLeadScoreRule(rule: InsertLeadScoreRule): Promise<LeadScoreRule>;
+  updateLeadScoreRule(id: string, rule: InsertLeadScoreRule): Promise<LeadScoreRule | undefined>;
+  deleteLeadScoreRule(id: string): Promise<boolean>;
+  recalculateLeadScores(): Promise<number>;
+  getAssignmentRules(): Promise<AssignmentRule[]>;
+  getAssignmentRule(id: string): Promise<AssignmentRule | undefined>;
+  createAssignmentRule(rule: InsertAssignmentRule): Promise<AssignmentRule>;
+  updateAssignmentRule(id: string, rule: InsertAssignmentRule): Promise<AssignmentRule | undefined>;
+  reorderAssignmentRules(ruleIds: string[]): Promise<AssignmentRule[]>;
+  deleteAssignmentRule(id: string): Promise<boolean>;
+  assignLeadsByRules(leadIds: string[], source: LeadSource, fallbackUserId?: string | null): Promise<LeadAssignmentDecision[]>;
+  getLeadAssignmentLog(leadId?: string, limit?: number): Promise<AssignmentLogEntryWithLead[]>;
+  getWebForms(): Promise<WebForm[]>;
+  getWebForm(id: string): Promise<WebForm | undefined>;
+  createWebForm(form: InsertWebForm): Promise<WebForm>;
+  updateWebForm(id: string, form: InsertWebForm): Promise<WebForm | undefined>;
+  deleteWebForm(id: string): Promise<boolean>;
+  recordAudit(entityType: AuditEntityType, action: AuditAction, changes: AuditChange[]): Promise<void>;
+  getAuditLog(filters?: AuditLogFilters, limit?: number, cursor?: string): Promise<{ entries: AuditLogEntry[]; nextCursor?: string; hasMore: boolean }>;
 }
 
 export class DatabaseStorage implements IStorage {
-  async getAllLeads(limit: number = 100, cursor?: string): Promise<{ leads: LeadWithCompany[]; nextCursor?: string; hasMore: boolean }> {
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values(insertUser)
+        .returning();
+      await this.audit(tx, "user", "create", [{ id: user.id, after: user }]);
+      return user;
+    });
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(users).where(eq(users.id, id));
+      if (!before) return undefined;
+      const [user] = await tx
+        .update(users)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(users.id, id))
+        .returning();
+      await this.audit(tx, "user", "update", [{ id, before, after: user }]);
+      return user;
+    });
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(users).where(eq(users.id, id)).returning();
+      await this.audit(tx, "user", "delete", result.map(user => ({ id: user.id, before: user })));
+      return result.length > 0;
+    });
+  }
+
+  async countUsers(): Promise<number> {
+    const [result] = await db.select({ value: count() }).from(users);
+    return result?.value ?? 0;
+  }
+
+  async getAllLeads(limit: number = 100, cursor?: string, filters: LeadFilters = {}, sort: LeadSort = DEFAULT_LEAD_SORT): Promise<LeadPage> {
     // Fetch one extra to determine if there are more results
     const fetchLimit = limit + 1;
-    
-    let query = db
-      .select({
-        lead: leads,
-        company: companies,
-      })
-      .from(leads)
-      .leftJoin(companies, eq(leads.companyId, companies.id))
-      .orderBy(desc(leads.createdAt))
-      .limit(fetchLimit);
-    
-    // Apply cursor if provided (cursor is the createdAt timestamp of last item)
+    const filterConditions = this.leadFilterConditions(filters);
+    const sortColumn = leadSortColumns[sort.field];
+    const orderBy = sort.direction === "asc"
+      ? [asc(sortColumn), asc(leads.id)]
+      : [desc(sortColumn), desc(leads.id)];
+
+    const pageConditions = [...filterConditions];
     if (cursor) {
-      const cursorDate = new Date(cursor);
-      query = db
+      const [value, id] = decodeCursor(cursor);
+      const cursorValue = sort.field === "clientName" ? sql`${value}`
+        : sort.field === "score" ? sql`${value}::integer`
+        : sql`${value}::timestamp`;
+      pageConditions.push(sort.direction === "asc"
+        ? sql`(${sortColumn}, ${leads.id}) > (${cursorValue}, ${id})`
+        : sql`(${sortColumn}, ${leads.id}) < (${cursorValue}, ${id})`);
+    }
+
+    const [result, [{ total }]] = await Promise.all([
+      db
         .select({
           lead: leads,
           company: companies,
+          sortValue: sql<string>`${sortColumn}::text`,
         })
         .from(leads)
         .leftJoin(companies, eq(leads.companyId, companies.id))
-        .where(lt(leads.createdAt, cursorDate))
-        .orderBy(desc(leads.createdAt))
-        .limit(fetchLimit);
-    }
-    
-    const result = await query;
+        .where(pageConditions.length > 0 ? and(...pageConditions) : undefined)
+        .orderBy(...orderBy)
+        .limit(fetchLimit),
+      db
+        .select({ total: count() })
+        .from(leads)
+        .where(filterConditions.length > 0 ? and(...filterConditions) : undefined),
+    ]);
+
     const hasMore = result.length > limit;
     const items = result.slice(0, limit);
     
     const nextCursor = hasMore && items.length > 0
-      ? items[items.length - 1].lead.createdAt.toISOString()
+      ? encodeCursor(items[items.length - 1].sortValue, items[items.length - 1].lead.id)
       : undefined;
     
     return {
-      leads: items.map(({ lead, company }) => ({
+      leads: await this.withTags(items.map(({ lead, company }) => ({
         ...lead,
         company: company || null,
-      })),
+      }))),
       nextCursor,
-      hasMore
+      hasMore,
+      total,
     };
   }
 
+  async countLeadsByStatus(filters: LeadFilters = {}): Promise<Record<string, number>> {
+    const conditions = this.leadFilterConditions({ ...filters, status: undefined });
+    const rows = await db
+      .select({ status: leads.status, count: count() })
+      .from(leads)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(leads.status);
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  /**
+   * WHERE conditions shared by the lead list and its counts
+   */
+  private leadFilterConditions(filters: LeadFilters): SQL[] {
+    const conditions: SQL[] = [activeLead];
+    if (filters.status) {
+      conditions.push(eq(leads.status, filters.status));
+    }
+    if (filters.companyId === "none") {
+      conditions.push(isNull(leads.companyId));
+    } else if (filters.companyId) {
+      conditions.push(eq(leads.companyId, filters.companyId));
+    }
+    if (filters.assignedUserId === "none") {
+      conditions.push(isNull(leads.assignedUserId));
+    } else if (filters.assignedUserId) {
+      conditions.push(eq(leads.assignedUserId, filters.assignedUserId));
+    }
+    if (filters.createdFrom) {
+      conditions.push(gte(leads.createdAt, filters.createdFrom));
+    }
+    if (filters.createdTo) {
+      conditions.push(lte(leads.createdAt, filters.createdTo));
+    }
+    const search = filters.search?.trim();
+    if (search) {
+      const pattern = `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(
+        ilike(leads.clientName, pattern),
+        ilike(leads.email, pattern),
+        ilike(leads.leadDetails, pattern),
+      )!);
+    }
+    for (const filter of filters.customFields ?? []) {
+      conditions.push(...customFieldConditions(leads.customFields, filter));
+    }
+    if (filters.tagId === "none") {
+      conditions.push(sql`NOT EXISTS (SELECT 1 FROM ${leadTags} WHERE ${leadTags.leadId} = ${leads.id})`);
+    } else if (filters.tagId) {
+      conditions.push(sql`EXISTS (SELECT 1 FROM ${leadTags} WHERE ${leadTags.leadId} = ${leads.id} AND ${leadTags.tagId} = ${filters.tagId})`);
+    }
+    return conditions;
+  }
+
+  /**
+   * Full-text search over lead fields and email subjects/bodies, grouped by lead and ranked
+   */
+  async searchLeadsAndEmails(query: string, limit: number = 20): Promise<LeadSearchResult[]> {
+    const prefixQuery = toPrefixTsQuery(query);
+    if (!prefixQuery) return [];
+    const tsQuery = sql`to_tsquery('english', ${prefixQuery})`;
+    const leadRank = sql<number>`ts_rank(${leadSearchDocument}, ${tsQuery})`;
+    const emailRank = sql<number>`ts_rank(${emailSearchDocument}, ${tsQuery})`;
+
+    const [leadHits, emailHits] = await Promise.all([
+      db
+        .select({
+          id: leads.id,
+          rank: leadRank,
+          snippet: sql<string>`ts_headline('english', concat_ws(' ', ${leads.clientName}, ${leads.email}, ${leads.subject}, ${leads.leadDetails}, ${leads.notes}), ${tsQuery}, ${SEARCH_HEADLINE_OPTIONS})`,
+        })
+        .from(leads)
+        .where(and(sql`${leadSearchDocument} @@ ${tsQuery}`, activeLead))
+        .orderBy(desc(leadRank))
+        .limit(limit),
+      db
+        .select({
+          id: emails.id,
+          leadId: emails.leadId,
+          subject: emails.subject,
+          direction: emails.direction,
+          sentAt: emails.sentAt,
+          rank: emailRank,
+          snippet: sql<string>`ts_headline('english', ${emails.subject} || ' ' || ${emails.body}, ${tsQuery}, ${SEARCH_HEADLINE_OPTIONS})`,
+        })
+        .from(emails)
+        .where(sql`${emailSearchDocument} @@ ${tsQuery}`)
+        .orderBy(desc(emailRank))
+        .limit(MAX_EMAIL_SEARCH_HITS),
+    ]);
+
+    const leadIds = Array.from(new Set([...leadHits.map(hit => hit.id), ...emailHits.map(hit => hit.leadId)]));
+    if (leadIds.length === 0) return [];
+
+    const rows = await db
+      .select({ lead: leads, company: companies })
+      .from(leads)
+      .leftJoin(companies, eq(leads.companyId, companies.id))
+      .where(and(inArray(leads.id, leadIds), activeLead));
+
+    const results = new Map<string, LeadSearchResult>(rows.map(({ lead, company }) => [
+      lead.id,
+      { lead: { ...lead, company: company || null }, rank: 0, snippet: null, emails: [] },
+    ]));
+    for (const hit of leadHits) {
+      const result = results.get(hit.id);
+      if (!result) continue;
+      result.rank = Math.max(result.rank, Number(hit.rank));
+      result.snippet = hit.snippet;
+    }
+    for (const { leadId, rank, ...email } of emailHits) {
+      const result = results.get(leadId);
+      if (!result) continue;
+      result.rank = Math.max(result.rank, Number(rank));
+      result.emails.push({ ...email, rank: Number(rank) });
+    }
+
+    return Array.from(results.values())
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit);
+  }
+
   async getLeadsByCompany(companyId: string, limit: number = 1000): Promise<LeadWithCompany[]> {
     const result = await db
       .select({
@@ -96,14 +674,14 @@ export class DatabaseStorage implements IStorage {
       })
       .from(leads)
       .leftJoin(companies, eq(leads.companyId, companies.id))
-      .where(eq(leads.companyId, companyId))
+      .where(and(eq(leads.companyId, companyId), activeLead))
       .orderBy(desc(leads.createdAt))
       .limit(limit);
     
-    return result.map(({ lead, company }) => ({
+    return await this.withTags(result.map(({ lead, company }) => ({
       ...lead,
       company: company || null,
-    }));
+    })));
   }
 
   async getLead(id: string): Promise<LeadWithCompany | undefined> {
@@ -114,88 +692,465 @@ export class DatabaseStorage implements IStorage {
       })
       .from(leads)
       .leftJoin(companies, eq(leads.companyId, companies.id))
-      .where(eq(leads.id, id));
+      .where(and(eq(leads.id, id), activeLead));
     
     if (result.length === 0) return undefined;
     
     const { lead, company } = result[0];
-    return {
-      ...lead,
-      company: company || null,
-    };
+    const [withTags] = await this.withTags([{ ...lead, company: company || null }]);
+    return withTags;
   }
 
   async getLeadByEmail(email: string): Promise<Lead | undefined> {
-    const [lead] = await db.select().from(leads).where(eq(leads.email, email));
+    const [lead] = await db
+      .select()
+      .from(leads)
+      .where(and(eq(normalizedLeadEmail, email.trim().toLowerCase()), activeLead))
+      .orderBy(asc(leads.createdAt))
+      .limit(1);
     return lead || undefined;
   }
 
-  async createLead(insertLead: InsertLead): Promise<Lead> {
-    const [lead] = await db
-      .insert(leads)
-      .values(insertLead)
-      .returning();
-    return lead;
+  /**
+   * The oldest lead with a contact at this address, for mail from someone other than the lead itself
+   */
+  async getLeadByContactEmail(email: string): Promise<Lead | undefined> {
+    const [row] = await db
+      .select({ lead: leads })
+      .from(contacts)
+      .innerJoin(leads, eq(contacts.leadId, leads.id))
+      .where(and(eq(sql`lower(trim(${contacts.email}))`, email.trim().toLowerCase()), activeLead))
+      .orderBy(asc(leads.createdAt))
+      .limit(1);
+    return row?.lead;
+  }
+
+  /**
+   * Which of the given emails already belong to a lead, as normalized (lowercase) emails
+   */
+  async findExistingLeadEmails(emailList: string[]): Promise<Set<string>> {
+    const normalized = Array.from(new Set(emailList.map(email => email.trim().toLowerCase())));
+    const existing = new Set<string>();
+    for (let i = 0; i < normalized.length; i += EMAIL_LOOKUP_BATCH_SIZE) {
+      const rows = await db
+        .selectDistinct({ email: normalizedLeadEmail })
+        .from(leads)
+        .where(and(inArray(normalizedLeadEmail, normalized.slice(i, i + EMAIL_LOOKUP_BATCH_SIZE)), activeLead));
+      rows.forEach(row => existing.add(row.email));
+    }
+    return existing;
+  }
+
+  /**
+   * Groups of leads sharing a normalized email or phone number, oldest lead first
+   */
+  async findDuplicateLeads(): Promise<DuplicateLeadGroup[]> {
+    const leadIdsInOrder = sql<string[]>`array_agg(${leads.id} order by ${leads.createdAt})`;
+    const [emailGroups, phoneGroups] = await Promise.all([
+      db
+        .select({ value: normalizedLeadEmail, ids: leadIdsInOrder })
+        .from(leads)
+        .where(activeLead)
+        .groupBy(normalizedLeadEmail)
+        .having(sql`count(*) > 1`)
+        .limit(MAX_DUPLICATE_GROUPS),
+      db
+        .select({ value: normalizedLeadPhone, ids: leadIdsInOrder })
+        .from(leads)
+        .where(and(sql`length(regexp_replace(${leads.phone}, '[^0-9]', '', 'g')) >= ${MIN_PHONE_DIGITS}`, activeLead))
+        .groupBy(normalizedLeadPhone)
+        .having(sql`count(*) > 1`)
+        .limit(MAX_DUPLICATE_GROUPS),
+    ]);
+
+    const groups = [
+      ...emailGroups.map(group => ({ ...group, matchedOn: "email" as const })),
+      ...phoneGroups.map(group => ({ ...group, matchedOn: "phone" as const })),
+    ];
+    if (groups.length === 0) return [];
+
+    const rows = await db
+      .select({ lead: leads, company: companies })
+      .from(leads)
+      .leftJoin(companies, eq(leads.companyId, companies.id))
+      .where(inArray(leads.id, Array.from(new Set(groups.flatMap(group => group.ids)))));
+    const leadsById = new Map<string, LeadWithCompany>(rows.map(({ lead, company }) => [lead.id, { ...lead, company: company || null }]));
+
+    return groups.map(({ matchedOn, value, ids }) => ({
+      matchedOn,
+      value,
+      leads: ids.map(id => leadsById.get(id)).filter((lead): lead is LeadWithCompany => !!lead),
+    }));
+  }
+
+  /**
+   * Merge duplicate leads into one surviving lead in a single transaction.
+   * Fields listed in fieldSources are copied from the chosen lead, every lead's notes are kept,
+   * emails, notifications, tags, tasks, contacts, activities, deals, quotes and linked products move to the survivor
+   * (quotes renumbered after its latest version, products it already links combined), and the other leads are deleted.
+   */
+  async mergeLeads(survivorId: string, mergeIds: string[], fieldSources: Partial<Record<MergeableLeadField, string>> = {}): Promise<Lead | undefined> {
+    const duplicateIds = Array.from(new Set(mergeIds.filter(id => id !== survivorId)));
+
+    return await db.transaction(async (tx) => {
+      const rows = await tx.select().from(leads).where(and(inArray(leads.id, [survivorId, ...duplicateIds]), activeLead));
+      const leadsById = new Map(rows.map(lead => [lead.id, lead]));
+      const survivor = leadsById.get(survivorId);
+      if (!survivor || duplicateIds.some(id => !leadsById.has(id))) return undefined;
+      const duplicates = duplicateIds.map(id => leadsById.get(id)!);
+
+      const fields: Record<string, unknown> = {};
+      for (const [field, sourceId] of Object.entries(fieldSources) as [MergeableLeadField, string][]) {
+        const source = leadsById.get(sourceId);
+        if (source) fields[field] = source[field];
+      }
+      const mergedNotes = [
+        survivor.notes,
+        ...duplicates
+          .filter(lead => lead.notes?.trim())
+          .map(lead => `Merged from ${lead.clientName} <${lead.email}>:\n${lead.notes}`),
+      ].filter(Boolean).join("\n\n");
+      fields.notes = mergedNotes || null;
+      // Custom field values the survivor lacks are filled in from the merged leads
+      fields.customFields = Object.assign({}, ...duplicates.map(lead => lead.customFields).reverse(), survivor.customFields);
+
+      if (duplicateIds.length > 0) {
+        const emailsBefore = await tx.select().from(emails).where(inArray(emails.leadId, duplicateIds));
+        const movedEmails = await tx
+          .update(emails)
+          .set({ leadId: survivorId })
+          .where(inArray(emails.leadId, duplicateIds))
+          .returning();
+        await this.audit(tx, "email", "update", pairChanges(emailsBefore, movedEmails));
+
+        const notificationsBefore = await tx.select().from(notifications).where(inArray(notifications.leadId, duplicateIds));
+        const movedNotifications = await tx
+          .update(notifications)
+          .set({ leadId: survivorId })
+          .where(inArray(notifications.leadId, duplicateIds))
+          .returning();
+        await this.audit(tx, "notification", "update", pairChanges(notificationsBefore, movedNotifications));
+
+        // The survivor keeps every tag of the merged leads; their own links go with them when they're deleted
+        const mergedTagIds = (await tx
+          .selectDistinct({ tagId: leadTags.tagId })
+          .from(leadTags)
+          .where(inArray(leadTags.leadId, duplicateIds)))
+          .map(row => row.tagId);
+        await this.linkTags(tx, [survivorId], mergedTagIds);
+
+        const tasksBefore = await tx.select().from(tasks).where(inArray(tasks.leadId, duplicateIds));
+        const movedTasks = await tx
+          .update(tasks)
+          .set({ leadId: survivorId, updatedAt: new Date() })
+          .where(inArray(tasks.leadId, duplicateIds))
+          .returning();
+        await this.audit(tx, "task", "update", pairChanges(tasksBefore, movedTasks));
+
+        const contactsBefore = await tx.select().from(contacts).where(inArray(contacts.leadId, duplicateIds));
+        const movedContacts = await tx
+          .update(contacts)
+          .set({ leadId: survivorId, updatedAt: new Date() })
+          .where(inArray(contacts.leadId, duplicateIds))
+          .returning();
+        await this.audit(tx, "contact", "update", pairChanges(contactsBefore, movedContacts));
+
+        const activitiesBefore = await tx.select().from(activities).where(inArray(activities.leadId, duplicateIds));
+        const movedActivities = await tx
+          .update(activities)
+          .set({ leadId: survivorId, updatedAt: new Date() })
+          .where(inArray(activities.leadId, duplicateIds))
+          .returning();
+        await this.audit(tx, "activity", "update", pairChanges(activitiesBefore, movedActivities));
+
+        const dealsBefore = await tx.select().from(deals).where(inArray(deals.leadId, duplicateIds));
+        const movedDeals = await tx
+          .update(deals)
+          .set({ leadId: survivorId, updatedAt: new Date() })
+          .where(inArray(deals.leadId, duplicateIds))
+          .returning();
+        await this.audit(tx, "deal", "update", pairChanges(dealsBefore, movedDeals));
+
+        // Moved quotes become the survivor's next versions, oldest first, so (lead, version) stays unique
+        await tx.select({ id: leads.id }).from(leads).where(eq(leads.id, survivorId)).for("update");
+        const [{ latestVersion }] = await tx.select({ latestVersion: max(quotes.version) }).from(quotes).where(eq(quotes.leadId, survivorId));
+        const quotesBefore = await tx
+          .select()
+          .from(quotes)
+          .where(inArray(quotes.leadId, duplicateIds))
+          .orderBy(asc(quotes.createdAt), asc(quotes.version));
+        const movedQuotes: Quote[] = [];
+        let version = latestVersion ?? 0;
+        for (const quote of quotesBefore) {
+          version += 1;
+          const [moved] = await tx
+            .update(quotes)
+            .set({ leadId: survivorId, version })
+            .where(eq(quotes.id, quote.id))
+            .returning();
+          movedQuotes.push(moved);
+        }
+        await this.audit(tx, "quote", "update", pairChanges(quotesBefore, movedQuotes));
+
+        // A product linked to more than one of the leads keeps a single link, wanting the combined square footage
+        const keptLinks = new Map((await tx.select().from(leadProducts).where(eq(leadProducts.leadId, survivorId))).map(link => [link.inventoryId, link]));
+        const linksBefore = await tx
+          .select()
+          .from(leadProducts)
+          .where(inArray(leadProducts.leadId, duplicateIds))
+          .orderBy(asc(leadProducts.createdAt));
+        const linkChanges: AuditChange[] = [];
+        for (const link of linksBefore) {
+          const kept = keptLinks.get(link.inventoryId);
+          if (!kept) {
+            const [moved] = await tx
+              .update(leadProducts)
+              .set({ leadId: survivorId, updatedAt: new Date() })
+              .where(eq(leadProducts.id, link.id))
+              .returning();
+            keptLinks.set(moved.inventoryId, moved);
+            linkChanges.push({ id: link.id, before: link, after: moved });
+            continue;
+          }
+          await tx.delete(leadProducts).where(eq(leadProducts.id, link.id));
+          linkChanges.push({ id: link.id, before: link });
+          if (link.sqFt === null) continue;
+          const [combined] = await tx
+            .update(leadProducts)
+            .set({ sqFt: kept.sqFt === null ? link.sqFt : (Number(kept.sqFt) + Number(link.sqFt)).toFixed(2), updatedAt: new Date() })
+            .where(eq(leadProducts.id, kept.id))
+            .returning();
+          keptLinks.set(combined.inventoryId, combined);
+          linkChanges.push({ id: kept.id, before: kept, after: combined });
+        }
+        await this.audit(tx, "lead_product", "update", linkChanges.filter(change => change.after));
+        await this.audit(tx, "lead_product", "delete", linkChanges.filter(change => !change.after));
+
+        const deleted = await tx.delete(leads).where(inArray(leads.id, duplicateIds)).returning();
+        await this.audit(tx, "lead", "delete", deleted.map(lead => ({ id: lead.id, before: lead })));
+      }
+
+      await tx
+        .update(leads)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(eq(leads.id, survivorId));
+      // Rescored with the moved emails and the merged fields
+      const [lead] = await this.scoreLeads(tx, [survivorId]);
+      await this.audit(tx, "lead", "update", [{ id: survivorId, before: survivor, after: lead }]);
+      if (lead.status !== survivor.status) {
+        await this.recordStatusChanges(tx, [{ leadId: survivorId, fromStatus: survivor.status, toStatus: lead.status }], "manual");
+      }
+      return lead;
+    });
+  }
+
+  async createLead(insertLead: InsertLead, assignedUserId: string | null = null): Promise<Lead> {
+    return await db.transaction(async (tx) => {
+      const companyId = insertLead.companyId ?? (await this.companyIdsByEmailDomain(tx, [insertLead.email]))[0];
+      const [created] = await tx
+        .insert(leads)
+        .values({ ...insertLead, companyId, assignedUserId })
+        .returning();
+      const [lead] = await this.scoreLeads(tx, [created.id]);
+      await this.audit(tx, "lead", "create", [{ id: lead.id, after: lead }]);
+      await this.recordStatusChanges(tx, [{ leadId: lead.id, fromStatus: null, toStatus: lead.status }], "created");
+      return lead;
+    });
   }
 
   async updateLead(id: string, insertLead: InsertLead): Promise<Lead | undefined> {
-    const [lead] = await db
-      .update(leads)
-      .set({ ...insertLead, updatedAt: new Date() })
-      .where(eq(leads.id, id))
-      .returning();
-    return lead || undefined;
+    return await this.updateLeadFields(id, insertLead);
   }
 
-  async updateLeadStatus(id: string, status: string): Promise<Lead | undefined> {
-    const [lead] = await db
-      .update(leads)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(leads.id, id))
-      .returning();
-    return lead || undefined;
+  async updateLeadStatus(id: string, status: string, source: LeadStatusSource = "manual"): Promise<Lead | undefined> {
+    return await this.updateLeadFields(id, { status }, source);
+  }
+
+  async getLeadStatusHistory(leadId: string): Promise<LeadStatusChange[]> {
+    return await db
+      .select()
+      .from(leadStatusHistory)
+      .where(eq(leadStatusHistory.leadId, leadId))
+      .orderBy(asc(leadStatusHistory.changedAt));
   }
 
   async updateLeadCompany(id: string, companyId: string | null): Promise<Lead | undefined> {
     console.log(`💾 Updating lead ${id} with companyId: ${companyId}`);
-    const [lead] = await db
-      .update(leads)
-      .set({ companyId, updatedAt: new Date() })
-      .where(eq(leads.id, id))
-      .returning();
+    const lead = await this.updateLeadFields(id, { companyId });
     console.log(`💾 Lead updated:`, lead);
-    return lead || undefined;
+    return lead;
+  }
+
+  /**
+   * File a lead without a company under the company whose domain matches its email
+   */
+  async assignCompanyByEmailDomain(lead: Lead): Promise<Lead> {
+    if (lead.companyId) return lead;
+    const [companyId] = await this.companyIdsByEmailDomain(db, [lead.email]);
+    if (!companyId) return lead;
+    return await this.updateLeadFields(lead.id, { companyId }) ?? lead;
+  }
+
+  /**
+   * The matching company id (or null) for each email, in the order given
+   */
+  private async companyIdsByEmailDomain(executor: DbExecutor, emailList: string[]): Promise<(string | null)[]> {
+    const domains = emailList.map(email => emailDomain(email));
+    const unique = Array.from(new Set(domains.filter((domain): domain is string => !!domain)));
+    if (unique.length === 0) return domains.map(() => null);
+
+    const companyIdByDomain = new Map<string, string>();
+    const rows = await executor
+      .select({ id: companies.id, domains: companies.domains })
+      .from(companies)
+      .where(sql`${companies.domains} ?| ARRAY[${sql.join(unique.map(domain => sql`${domain}`), sql`, `)}]::text[]`)
+      .orderBy(asc(companies.createdAt));
+    for (const row of rows) {
+      // Oldest company wins if two ever share a domain
+      row.domains.forEach(domain => {
+        if (!companyIdByDomain.has(domain)) companyIdByDomain.set(domain, row.id);
+      });
+    }
+    return domains.map(domain => (domain && companyIdByDomain.get(domain)) || null);
+  }
+
+  async updateLeadOwner(id: string, userId: string | null): Promise<Lead | undefined> {
+    return await this.updateLeadFields(id, { assignedUserId: userId });
+  }
+
+  /**
+   * Give the leads a new owner, leaving trashed ones alone; returns only the leads whose owner actually changed
+   */
+  async updateLeadsOwner(ids: string[], userId: string | null): Promise<Lead[]> {
+    if (ids.length === 0) return [];
+    return await db.transaction(async (tx) => {
+      const ownerChanges = and(inArray(leads.id, ids), activeLead, sql`${leads.assignedUserId} is distinct from ${userId}`);
+      const before = await tx.select().from(leads).where(ownerChanges);
+      if (before.length === 0) return [];
+      const updated = await tx
+        .update(leads)
+        .set({ assignedUserId: userId, updatedAt: new Date() })
+        .where(inArray(leads.id, before.map(lead => lead.id)))
+        .returning();
+      await this.audit(tx, "lead", "update", pairChanges(before, updated));
+      return updated;
+    });
   }
 
   async updateLeadNotes(id: string, notes: string): Promise<Lead | undefined> {
-    const [lead] = await db
-      .update(leads)
-      .set({ notes, updatedAt: new Date() })
-      .where(eq(leads.id, id))
-      .returning();
-    return lead || undefined;
+    return await this.updateLeadFields(id, { notes });
+  }
+
+  async updateLeadCustomFields(id: string, values: CustomFieldValues): Promise<Lead | undefined> {
+    return await this.updateLeadFields(id, { customFields: values });
+  }
+
+  /**
+   * Update some lead columns and record the before/after in the audit log,
+   * plus a status history entry when the status changes
+   */
+  private async updateLeadFields(id: string, fields: Partial<typeof leads.$inferInsert>, statusSource: LeadStatusSource = "manual"): Promise<Lead | undefined> {
+    return await db.transaction(async (tx) => {
+      // Leads in the trash can't be edited until they're restored
+      const [before] = await tx.select().from(leads).where(and(eq(leads.id, id), activeLead));
+      if (!before) return undefined;
+      await tx
+        .update(leads)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(eq(leads.id, id));
+      const [lead] = await this.scoreLeads(tx, [id]);
+      await this.audit(tx, "lead", "update", [{ id, before, after: lead }]);
+      if (lead.status !== before.status) {
+        await this.recordStatusChanges(tx, [{ leadId: id, fromStatus: before.status, toStatus: lead.status }], statusSource);
+      }
+      return lead;
+    });
   }
 
   async deleteLead(id: string): Promise<boolean> {
-    // First delete associated emails
-    await db.delete(emails).where(eq(emails.leadId, id));
-    
-    // Then delete the lead
-    const result = await db.delete(leads).where(eq(leads.id, id)).returning();
-    return result.length > 0;
+    return (await this.deleteLeads([id])) > 0;
   }
 
+  /**
+   * Move leads to the trash; their emails and history stay until the lead is purged
+   */
   async deleteLeads(ids: string[]): Promise<number> {
     if (ids.length === 0) return 0;
-    
-    // First delete associated emails for all leads
-    await db.delete(emails).where(inArray(emails.leadId, ids));
-    
-    // Then delete all leads
-    const result = await db.delete(leads).where(inArray(leads.id, ids)).returning();
+    return await db.transaction(async (tx) => {
+      const before = await tx.select().from(leads).where(and(inArray(leads.id, ids), activeLead));
+      if (before.length === 0) return 0;
+      const trashed = await tx
+        .update(leads)
+        .set({ deletedAt: new Date() })
+        .where(inArray(leads.id, before.map(lead => lead.id)))
+        .returning();
+      await this.audit(tx, "lead", "update", pairChanges(before, trashed));
+      return trashed.length;
+    });
+  }
+
+  async getDeletedLeads(limit: number = MAX_TRASH_ITEMS): Promise<LeadWithCompany[]> {
+    const rows = await db
+      .select({ lead: leads, company: companies })
+      .from(leads)
+      .leftJoin(companies, eq(leads.companyId, companies.id))
+      .where(isNotNull(leads.deletedAt))
+      .orderBy(desc(leads.deletedAt), desc(leads.id))
+      .limit(limit);
+    return rows.map(({ lead, company }) => ({ ...lead, company: company || null }));
+  }
+
+  async restoreLeads(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    return await db.transaction(async (tx) => {
+      const before = await tx.select().from(leads).where(and(inArray(leads.id, ids), isNotNull(leads.deletedAt)));
+      if (before.length === 0) return 0;
+      const restored = await tx
+        .update(leads)
+        .set({ deletedAt: null })
+        .where(inArray(leads.id, before.map(lead => lead.id)))
+        .returning();
+      await this.audit(tx, "lead", "update", pairChanges(before, restored));
+      return restored.length;
+    });
+  }
+
+  /**
+   * Permanently delete leads that are already in the trash, with their emails
+   */
+  async purgeLeads(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    return await db.transaction(async (tx) => await this.purgeLeadsWhere(tx, and(inArray(leads.id, ids), isNotNull(leads.deletedAt))!));
+  }
+
+  private async purgeLeadsWhere(executor: DbExecutor, condition: SQL): Promise<number> {
+    const ids = (await executor.select({ id: leads.id }).from(leads).where(condition)).map(lead => lead.id);
+    if (ids.length === 0) return 0;
+    await executor.delete(emails).where(inArray(emails.leadId, ids));
+    // Keep a snapshot of each lead in the audit log
+    const result = await executor.delete(leads).where(inArray(leads.id, ids)).returning();
+    await this.audit(executor, "lead", "delete", result.map(lead => ({ id: lead.id, before: lead })));
     return result.length;
   }
 
+  /**
+   * Sent/received email counts and the latest email date per lead; leads without emails are left out
+   */
+  async getEmailStatsForLeads(leadIds: string[]): Promise<Map<string, LeadEmailStats>> {
+    if (leadIds.length === 0) return new Map();
+    const rows = await db
+      .select({
+        leadId: emails.leadId,
+        sent: sql<number>`count(*) filter (where ${emails.direction} = 'sent')`.mapWith(Number),
+        received: sql<number>`count(*) filter (where ${emails.direction} = 'received')`.mapWith(Number),
+        lastEmailAt: max(emails.sentAt),
+      })
+      .from(emails)
+      .where(inArray(emails.leadId, leadIds))
+      .groupBy(emails.leadId);
+    return new Map(rows.map(({ leadId, ...stats }) => [leadId, stats]));
+  }
+
   async getEmailsByLeadId(leadId: string, limit: number = 50, cursor?: string): Promise<{ emails: Email[]; nextCursor?: string; hasMore: boolean }> {
     const fetchLimit = limit + 1;
     
@@ -247,16 +1202,30 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createEmail(insertEmail: InsertEmail): Promise<Email> {
-    const [email] = await db
-      .insert(emails)
-      .values(insertEmail)
-      .returning();
-    return email;
+    return await db.transaction(async (tx) => {
+      const [email] = await tx
+        .insert(emails)
+        .values(insertEmail)
+        .returning();
+      await this.audit(tx, "email", "create", [{ id: email.id, after: email }]);
+      await this.scoreLeads(tx, [email.leadId]);
+      return email;
+    });
   }
 
   async createLeads(leadsList: InsertLead[]): Promise<Lead[]> {
     if (leadsList.length === 0) return [];
-    return await db.insert(leads).values(leadsList).returning();
+    return await db.transaction(async (tx) => {
+      const domainCompanyIds = await this.companyIdsByEmailDomain(tx, leadsList.map(lead => lead.email));
+      const inserted = await tx
+        .insert(leads)
+        .values(leadsList.map((lead, index) => ({ ...lead, companyId: lead.companyId ?? domainCompanyIds[index] })))
+        .returning({ id: leads.id });
+      const created = await this.scoreLeads(tx, inserted.map(lead => lead.id));
+      await this.audit(tx, "lead", "create", created.map(lead => ({ id: lead.id, after: lead })));
+      await this.recordStatusChanges(tx, created.map(lead => ({ leadId: lead.id, fromStatus: null, toStatus: lead.status })), "import");
+      return created;
+    });
   }
 
   async getAllCompanies(limit: number = 1000): Promise<Company[]> {
@@ -268,50 +1237,79 @@ export class DatabaseStorage implements IStorage {
     return company || undefined;
   }
 
+  /**
+   * Companies that own any of these domains
+   */
+  async getCompaniesByDomains(domains: string[]): Promise<Company[]> {
+    if (domains.length === 0) return [];
+    return await db
+      .select()
+      .from(companies)
+      .where(sql`${companies.domains} ?| ARRAY[${sql.join(domains.map(domain => sql`${domain}`), sql`, `)}]::text[]`);
+  }
+
+  /**
+   * Companies whose name matches any of these, ignoring case, oldest first
+   */
+  async getCompaniesByNames(names: string[]): Promise<Company[]> {
+    const normalized = Array.from(new Set(names.map(name => name.trim().toLowerCase()).filter(Boolean)));
+    if (normalized.length === 0) return [];
+    return await db
+      .select()
+      .from(companies)
+      .where(inArray(sql`lower(trim(${companies.name}))`, normalized))
+      .orderBy(asc(companies.createdAt));
+  }
+
   async createCompany(insertCompany: InsertCompany): Promise<Company> {
-    const [company] = await db
-      .insert(companies)
-      .values(insertCompany)
-      .returning();
-    return company;
+    return await db.transaction(async (tx) => {
+      const [company] = await tx
+        .insert(companies)
+        .values(insertCompany)
+        .returning();
+      await this.audit(tx, "company", "create", [{ id: company.id, after: company }]);
+      return company;
+    });
   }
 
   async updateCompany(id: string, insertCompany: InsertCompany): Promise<Company | undefined> {
-    const [company] = await db
-      .update(companies)
-      .set({ ...insertCompany, updatedAt: new Date() })
-      .where(eq(companies.id, id))
-      .returning();
-    return company || undefined;
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(companies).where(eq(companies.id, id));
+      if (!before) return undefined;
+      const [company] = await tx
+        .update(companies)
+        .set({ ...insertCompany, updatedAt: new Date() })
+        .where(eq(companies.id, id))
+        .returning();
+      await this.audit(tx, "company", "update", [{ id, before, after: company }]);
+      return company;
+    });
   }
 
   async deleteCompany(id: string): Promise<boolean> {
-    const result = await db.delete(companies).where(eq(companies.id, id)).returning();
-    return result.length > 0;
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(companies).where(eq(companies.id, id)).returning();
+      await this.audit(tx, "company", "delete", result.map(company => ({ id: company.id, before: company })));
+      return result.length > 0;
+    });
   }
 
   async getAllInventory(limit: number = 100, cursor?: string): Promise<{ items: Inventory[]; nextCursor?: string; hasMore: boolean }> {
     const fetchLimit = limit + 1;
     
-    let query = db
+    const conditions = [activeInventory];
+    if (cursor) {
+      conditions.push(lt(inventory.createdAt, new Date(cursor)));
+    }
+    
+    const result = await db
       .select()
       .from(inventory)
+      .where(and(...conditions))
       .orderBy(desc(inventory.createdAt))
       .limit(fetchLimit);
-    
-    if (cursor) {
-      const cursorDate = new Date(cursor);
-      query = db
-        .select()
-        .from(inventory)
-        .where(lt(inventory.createdAt, cursorDate))
-        .orderBy(desc(inventory.createdAt))
-        .limit(fetchLimit);
-    }
-    
-    const result = await query;
-    const hasMore = result.length > limit;
-    const items = result.slice(0, limit);
+    const hasMore = result.length > limit;
+    const items = result.slice(0, limit);
     
     const nextCursor = hasMore && items.length > 0
       ? items[items.length - 1].createdAt.toISOString()
@@ -325,77 +1323,147 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getInventoryItem(id: string): Promise<Inventory | undefined> {
-    const [item] = await db.select().from(inventory).where(eq(inventory.id, id));
+    const [item] = await db.select().from(inventory).where(and(eq(inventory.id, id), activeInventory));
     return item || undefined;
   }
 
+  async getInventoryItemsByIds(ids: string[]): Promise<Inventory[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(inventory).where(and(inArray(inventory.id, ids), activeInventory));
+  }
+
   async createInventoryItem(insertItem: InsertInventory): Promise<Inventory> {
-    const [item] = await db
-      .insert(inventory)
-      .values(insertItem)
-      .returning();
-    return item;
+    return (await this.createInventoryItems([insertItem]))[0];
   }
 
   async updateInventoryItem(id: string, insertItem: InsertInventory): Promise<Inventory | undefined> {
-    const [item] = await db
-      .update(inventory)
-      .set({ ...insertItem, updatedAt: new Date() })
-      .where(eq(inventory.id, id))
-      .returning();
-    return item || undefined;
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(inventory).where(and(eq(inventory.id, id), activeInventory));
+      if (!before) return undefined;
+      const [item] = await tx
+        .update(inventory)
+        .set({ ...insertItem, updatedAt: new Date() })
+        .where(eq(inventory.id, id))
+        .returning();
+      await this.audit(tx, "inventory", "update", [{ id, before, after: item }]);
+      return item;
+    });
   }
 
   async deleteInventoryItem(id: string): Promise<boolean> {
-    const result = await db.delete(inventory).where(eq(inventory.id, id)).returning();
-    return result.length > 0;
+    return (await this.deleteInventoryItems([id])) > 0;
   }
 
+  /**
+   * Move inventory items to the trash
+   */
   async deleteInventoryItems(ids: string[]): Promise<number> {
     if (ids.length === 0) return 0;
-    const result = await db.delete(inventory).where(inArray(inventory.id, ids)).returning();
+    return await db.transaction(async (tx) => {
+      const before = await tx.select().from(inventory).where(and(inArray(inventory.id, ids), activeInventory));
+      if (before.length === 0) return 0;
+      const trashed = await tx
+        .update(inventory)
+        .set({ deletedAt: new Date() })
+        .where(inArray(inventory.id, before.map(item => item.id)))
+        .returning();
+      await this.audit(tx, "inventory", "update", pairChanges(before, trashed));
+      return trashed.length;
+    });
+  }
+
+  async getDeletedInventory(limit: number = MAX_TRASH_ITEMS): Promise<Inventory[]> {
+    return await db
+      .select()
+      .from(inventory)
+      .where(isNotNull(inventory.deletedAt))
+      .orderBy(desc(inventory.deletedAt), desc(inventory.id))
+      .limit(limit);
+  }
+
+  async restoreInventoryItems(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    return await db.transaction(async (tx) => {
+      const before = await tx.select().from(inventory).where(and(inArray(inventory.id, ids), isNotNull(inventory.deletedAt)));
+      if (before.length === 0) return 0;
+      const restored = await tx
+        .update(inventory)
+        .set({ deletedAt: null })
+        .where(inArray(inventory.id, before.map(item => item.id)))
+        .returning();
+      await this.audit(tx, "inventory", "update", pairChanges(before, restored));
+      return restored.length;
+    });
+  }
+
+  /**
+   * Permanently delete inventory items that are already in the trash
+   */
+  async purgeInventoryItems(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    return await db.transaction(async (tx) => await this.purgeInventoryWhere(tx, and(inArray(inventory.id, ids), isNotNull(inventory.deletedAt))!));
+  }
+
+  private async purgeInventoryWhere(executor: DbExecutor, condition: SQL): Promise<number> {
+    const result = await executor.delete(inventory).where(condition).returning();
+    await this.audit(executor, "inventory", "delete", result.map(item => ({ id: item.id, before: item })));
     return result.length;
   }
 
+  /**
+   * Permanently delete everything that has been in the trash since before the cutoff
+   */
+  async purgeExpiredTrash(deletedBefore: Date): Promise<{ leads: number; inventory: number }> {
+    return await db.transaction(async (tx) => ({
+      leads: await this.purgeLeadsWhere(tx, lt(leads.deletedAt, deletedBefore)),
+      inventory: await this.purgeInventoryWhere(tx, lt(inventory.deletedAt, deletedBefore)),
+    }));
+  }
+
   async createInventoryItems(items: InsertInventory[]): Promise<Inventory[]> {
     if (items.length === 0) return [];
-    return await db.insert(inventory).values(items).returning();
+    return await db.transaction(async (tx) => {
+      const created = await tx.insert(inventory).values(items).returning();
+      await this.audit(tx, "inventory", "create", created.map(item => ({ id: item.id, after: item })));
+      return created;
+    });
   }
 
   async createNotification(insertNotification: InsertNotification): Promise<Notification> {
-    const [notification] = await db
-      .insert(notifications)
-      .values(insertNotification)
-      .returning();
-    return notification;
+    return await db.transaction(async (tx) => {
+      const [notification] = await tx
+        .insert(notifications)
+        .values(insertNotification)
+        .returning();
+      await this.audit(tx, "notification", "create", [{ id: notification.id, after: notification }]);
+      return notification;
+    });
   }
 
-  async getRecentNotifications(since?: string, limit: number = 100): Promise<Notification[]> {
-    let query = db
+  async getRecentNotifications(since?: string, limit: number = 100, userId?: string): Promise<Notification[]> {
+    const conditions = [eq(notifications.dismissed, 0)];
+    if (since) {
+      conditions.push(gt(notifications.createdAt, new Date(since)));
+    }
+    if (userId) {
+      // Broadcast notifications plus the ones addressed to this user
+      conditions.push(or(isNull(notifications.userId), eq(notifications.userId, userId))!);
+    }
+
+    const allNotifications = await db
       .select()
       .from(notifications)
-      .where(eq(notifications.dismissed, 0))
+      .where(and(...conditions))
       .orderBy(desc(notifications.createdAt))
       .limit(limit);
-
-    if (since) {
-      const sinceDate = new Date(since);
-      query = db
-        .select()
-        .from(notifications)
-        .where(and(eq(notifications.dismissed, 0), gt(notifications.createdAt, sinceDate)))
-        .orderBy(desc(notifications.createdAt))
-        .limit(limit);
-    }
-
-    const allNotifications = await query;
     
-    // Keep only the latest notification per lead
+    // Keep only the latest notification per lead and type
     const latestByLead = new Map<string, Notification>();
     for (const n of allNotifications) {
-      const existing = latestByLead.get(n.leadId);
+      const key = `${n.leadId}:${n.type}`;
+      const existing = latestByLead.get(key);
       if (!existing || new Date(n.createdAt) > new Date(existing.createdAt)) {
-        latestByLead.set(n.leadId, n);
+        latestByLead.set(key, n);
       }
     }
 
@@ -405,29 +1473,1244 @@ export class DatabaseStorage implements IStorage {
   }
 
   async dismissNotification(notificationId: string): Promise<boolean> {
-    const result = await db
-      .update(notifications)
-      .set({ dismissed: 1 })
-      .where(eq(notifications.id, notificationId))
+    const result = await this.dismissNotificationsWhere(eq(notifications.id, notificationId));
+    return result > 0;
+  }
+
+  async dismissNotificationsForLead(leadId: string, userId?: string): Promise<number> {
+    // Without a user, dismiss everything; with one, leave other users' personal notifications alone
+    const condition = userId
+      ? and(eq(notifications.leadId, leadId), or(isNull(notifications.userId), eq(notifications.userId, userId)))
+      : eq(notifications.leadId, leadId);
+    return await this.dismissNotificationsWhere(condition);
+  }
+
+  async clearAllNotifications(): Promise<boolean> {
+    const result = await this.dismissNotificationsWhere(eq(notifications.dismissed, 0));
+    return result > 0;
+  }
+
+  private async dismissNotificationsWhere(condition: SQL | undefined): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const updated = await tx
+        .update(notifications)
+        .set({ dismissed: 1 })
+        .where(and(condition, eq(notifications.dismissed, 0)))
+        .returning();
+      await this.audit(tx, "notification", "update", updated.map(n => ({
+        id: n.id,
+        before: { dismissed: 0 },
+        after: { dismissed: 1 },
+      })));
+      return updated.length;
+    });
+  }
+
+  async getPipelineStages(): Promise<PipelineStage[]> {
+    return await db.select().from(pipelineStages).orderBy(asc(pipelineStages.position), asc(pipelineStages.name));
+  }
+
+  async getPipelineStage(id: string): Promise<PipelineStage | undefined> {
+    const [stage] = await db.select().from(pipelineStages).where(eq(pipelineStages.id, id));
+    return stage || undefined;
+  }
+
+  async getPipelineStageByName(name: string): Promise<PipelineStage | undefined> {
+    const [stage] = await db.select().from(pipelineStages).where(eq(pipelineStages.name, name));
+    return stage || undefined;
+  }
+
+  async getPipelineStageForAutomation(automation: PipelineAutomation): Promise<PipelineStage | undefined> {
+    const [stage] = await db.select().from(pipelineStages).where(eq(pipelineStages.automation, automation));
+    return stage || undefined;
+  }
+
+  async createPipelineStage(stage: InsertPipelineStage): Promise<PipelineStage> {
+    return await db.transaction(async (tx) => {
+      if (stage.automation) {
+        await this.releaseAutomation(tx, stage.automation);
+      }
+      // New stages go to the end of the pipeline
+      const [{ lastPosition }] = await tx.select({ lastPosition: max(pipelineStages.position) }).from(pipelineStages);
+      const [created] = await tx
+        .insert(pipelineStages)
+        .values({ ...stage, position: (lastPosition ?? -1) + 1 })
+        .returning();
+      await this.audit(tx, "pipeline_stage", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async updatePipelineStage(id: string, updates: UpdatePipelineStage): Promise<PipelineStage | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(pipelineStages).where(eq(pipelineStages.id, id));
+      if (!before) return undefined;
+      if (updates.automation && updates.automation !== before.automation) {
+        await this.releaseAutomation(tx, updates.automation);
+      }
+      const [stage] = await tx
+        .update(pipelineStages)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(pipelineStages.id, id))
+        .returning();
+      await this.audit(tx, "pipeline_stage", "update", [{ id, before, after: stage }]);
+
+      // Leads reference stages by name, so carry them over to the new name
+      if (stage.name !== before.name) {
+        const leadsBefore = await tx.select().from(leads).where(eq(leads.status, before.name));
+        const renamed = await tx
+          .update(leads)
+          .set({ status: stage.name, updatedAt: new Date() })
+          .where(eq(leads.status, before.name))
+          .returning();
+        await this.audit(tx, "lead", "update", pairChanges(leadsBefore, renamed));
+        // Keep the stage timeline readable under the new name
+        await tx.update(leadStatusHistory).set({ toStatus: stage.name }).where(eq(leadStatusHistory.toStatus, before.name));
+        await tx.update(leadStatusHistory).set({ fromStatus: stage.name }).where(eq(leadStatusHistory.fromStatus, before.name));
+
+        const statusRule = and(eq(leadScoreRules.criterion, "status"), eq(leadScoreRules.value, before.name));
+        const rulesBefore = await tx.select().from(leadScoreRules).where(statusRule);
+        const renamedRules = await tx
+          .update(leadScoreRules)
+          .set({ value: stage.name, updatedAt: new Date() })
+          .where(statusRule)
+          .returning();
+        await this.audit(tx, "lead_score_rule", "update", pairChanges(rulesBefore, renamedRules));
+      }
+      return stage;
+    });
+  }
+
+  async reorderPipelineStages(stageIds: string[]): Promise<PipelineStage[]> {
+    return await db.transaction(async (tx) => {
+      const before = await tx.select().from(pipelineStages).where(inArray(pipelineStages.id, stageIds));
+      const updated: PipelineStage[] = [];
+      for (let position = 0; position < stageIds.length; position++) {
+        const [stage] = await tx
+          .update(pipelineStages)
+          .set({ position, updatedAt: new Date() })
+          .where(eq(pipelineStages.id, stageIds[position]))
+          .returning();
+        if (stage) updated.push(stage);
+      }
+      await this.audit(tx, "pipeline_stage", "update", pairChanges(before, updated));
+      return updated;
+    });
+  }
+
+  async deletePipelineStage(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(pipelineStages).where(eq(pipelineStages.id, id)).returning();
+      await this.audit(tx, "pipeline_stage", "delete", result.map(stage => ({ id: stage.id, before: stage })));
+      return result.length > 0;
+    });
+  }
+
+  // Leads in the trash count too, so restoring one never brings back a stage that's gone
+  async countLeadsWithStatus(status: string): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(leads).where(eq(leads.status, status));
+    return result.count;
+  }
+
+  async getCustomFields(entityType?: CustomFieldEntityType): Promise<CustomField[]> {
+    return await db
+      .select()
+      .from(customFields)
+      .where(entityType ? eq(customFields.entityType, entityType) : undefined)
+      .orderBy(asc(customFields.entityType), asc(customFields.position), asc(customFields.createdAt));
+  }
+
+  async getCustomField(id: string): Promise<CustomField | undefined> {
+    const [field] = await db.select().from(customFields).where(eq(customFields.id, id));
+    return field || undefined;
+  }
+
+  async createCustomField(field: InsertCustomField & { key: string }): Promise<CustomField> {
+    return await db.transaction(async (tx) => {
+      // New fields go after the entity's existing ones
+      const [{ lastPosition }] = await tx
+        .select({ lastPosition: max(customFields.position) })
+        .from(customFields)
+        .where(eq(customFields.entityType, field.entityType));
+      const [created] = await tx
+        .insert(customFields)
+        .values({ ...field, position: (lastPosition ?? -1) + 1 })
+        .returning();
+      await this.audit(tx, "custom_field", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async updateCustomField(id: string, updates: UpdateCustomField): Promise<CustomField | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(customFields).where(eq(customFields.id, id));
+      if (!before) return undefined;
+      const [field] = await tx
+        .update(customFields)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(customFields.id, id))
+        .returning();
+      await this.audit(tx, "custom_field", "update", [{ id, before, after: field }]);
+      return field;
+    });
+  }
+
+  /**
+   * Delete a custom field along with its stored values
+   */
+  async deleteCustomField(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [field] = await tx.delete(customFields).where(eq(customFields.id, id)).returning();
+      if (!field) return false;
+      await this.audit(tx, "custom_field", "delete", [{ id: field.id, before: field }]);
+
+      const hasValue = (column: AnyColumn) => sql`${column} ? ${field.key}::text`;
+      if (field.entityType === "lead") {
+        const before = await tx.select().from(leads).where(hasValue(leads.customFields));
+        const updated = await tx
+          .update(leads)
+          .set({ customFields: sql`${leads.customFields} - ${field.key}::text` })
+          .where(hasValue(leads.customFields))
+          .returning();
+        await this.audit(tx, "lead", "update", pairChanges(before, updated));
+      } else {
+        const before = await tx.select().from(companies).where(hasValue(companies.customFields));
+        const updated = await tx
+          .update(companies)
+          .set({ customFields: sql`${companies.customFields} - ${field.key}::text` })
+          .where(hasValue(companies.customFields))
+          .returning();
+        await this.audit(tx, "company", "update", pairChanges(before, updated));
+      }
+      return true;
+    });
+  }
+
+  async getTags(): Promise<TagWithCount[]> {
+    const rows = await db
+      .select({ tag: tags, leadCount: count(leadTags.leadId) })
+      .from(tags)
+      .leftJoin(leadTags, eq(leadTags.tagId, tags.id))
+      .groupBy(tags.id)
+      .orderBy(asc(sql`lower(${tags.name})`));
+    return rows.map(({ tag, leadCount }) => ({ ...tag, leadCount }));
+  }
+
+  async getTag(id: string): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(eq(tags.id, id));
+    return tag || undefined;
+  }
+
+  async getTagByName(name: string): Promise<Tag | undefined> {
+    const [tag] = await db.select().from(tags).where(sql`lower(${tags.name}) = lower(${name.trim()})`);
+    return tag || undefined;
+  }
+
+  async createTag(tag: InsertTag): Promise<Tag> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(tags)
+        .values({ name: tag.name.trim(), color: tag.color ?? TAG_COLORS[await this.nextTagColorIndex(tx)] })
+        .returning();
+      await this.audit(tx, "tag", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async updateTag(id: string, updates: UpdateTag): Promise<Tag | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(tags).where(eq(tags.id, id));
+      if (!before) return undefined;
+      const [tag] = await tx
+        .update(tags)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(tags.id, id))
+        .returning();
+      await this.audit(tx, "tag", "update", [{ id, before, after: tag }]);
+      return tag;
+    });
+  }
+
+  async deleteTag(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const links = await tx.select().from(leadTags).where(eq(leadTags.tagId, id));
+      const [tag] = await tx.delete(tags).where(eq(tags.id, id)).returning();
+      if (!tag) return false;
+      // The links are removed by the cascade; record them so the tag's leads can be recovered
+      await this.audit(tx, "lead_tag", "delete", links.map(link => ({ id: link.leadId, before: link })));
+      await this.audit(tx, "tag", "delete", [{ id: tag.id, before: tag }]);
+      return true;
+    });
+  }
+
+  /**
+   * Tags with the given names (matched regardless of case), creating the missing ones, e.g. for an import's Tags column
+   */
+  async findOrCreateTags(names: string[]): Promise<Tag[]> {
+    const byLowerName = new Map<string, string>();
+    for (const name of names) {
+      const trimmed = name.trim();
+      if (trimmed && !byLowerName.has(trimmed.toLowerCase())) byLowerName.set(trimmed.toLowerCase(), trimmed);
+    }
+    if (byLowerName.size === 0) return [];
+    const lowerNames = Array.from(byLowerName.keys());
+
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select().from(tags).where(inArray(sql`lower(${tags.name})`, lowerNames));
+      const existingNames = new Set(existing.map(tag => tag.name.toLowerCase()));
+      const missing = lowerNames.filter(name => !existingNames.has(name));
+      if (missing.length === 0) return existing;
+
+      const firstColor = await this.nextTagColorIndex(tx);
+      const created = await tx
+        .insert(tags)
+        .values(missing.map((name, index) => ({
+          name: byLowerName.get(name)!,
+          color: TAG_COLORS[(firstColor + index) % TAG_COLORS.length],
+        })))
+        .returning();
+      await this.audit(tx, "tag", "create", created.map(tag => ({ id: tag.id, after: tag })));
+      return [...existing, ...created];
+    });
+  }
+
+  /**
+   * Returns the number of new lead-tag links; links that already exist are left alone
+   */
+  async addTagsToLeads(leadIds: string[], tagIds: string[]): Promise<number> {
+    if (leadIds.length === 0 || tagIds.length === 0) return 0;
+    return await db.transaction(async (tx) => {
+      return await this.linkTags(tx, leadIds, tagIds);
+    });
+  }
+
+  async removeTagsFromLeads(leadIds: string[], tagIds: string[]): Promise<number> {
+    if (leadIds.length === 0 || tagIds.length === 0) return 0;
+    return await db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(leadTags)
+        .where(and(inArray(leadTags.leadId, leadIds), inArray(leadTags.tagId, tagIds)))
+        .returning();
+      await this.audit(tx, "lead_tag", "delete", removed.map(link => ({ id: link.leadId, before: link })));
+      return removed.length;
+    });
+  }
+
+  private async linkTags(executor: DbExecutor, leadIds: string[], tagIds: string[]): Promise<number> {
+    if (leadIds.length === 0 || tagIds.length === 0) return 0;
+    const added = await executor
+      .insert(leadTags)
+      .values(leadIds.flatMap(leadId => tagIds.map(tagId => ({ leadId, tagId }))))
+      .onConflictDoNothing()
       .returning();
-    return result.length > 0;
+    await this.audit(executor, "lead_tag", "create", added.map(link => ({ id: link.leadId, after: link })));
+    return added.length;
   }
 
-  async dismissNotificationsForLead(leadId: string): Promise<number> {
-    const result = await db
-      .update(notifications)
-      .set({ dismissed: 1 })
-      .where(eq(notifications.leadId, leadId))
+  async getTasksForLead(leadId: string): Promise<Task[]> {
+    return await db
+      .select()
+      .from(tasks)
+      .where(eq(tasks.leadId, leadId))
+      .orderBy(asc(tasks.done), asc(tasks.dueAt));
+  }
+
+  async getTask(id: string): Promise<Task | undefined> {
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
+    return task || undefined;
+  }
+
+  /**
+   * Open tasks due at or before `until`, oldest first, for the Overdue / Due today view.
+   * "none" as the assignee returns unassigned tasks.
+   */
+  async getOpenTasksDueBy(until: Date, assignedUserId?: string): Promise<TaskWithLead[]> {
+    const conditions = [eq(tasks.done, 0), lte(tasks.dueAt, until)];
+    if (assignedUserId === "none") {
+      conditions.push(isNull(tasks.assignedUserId));
+    } else if (assignedUserId) {
+      conditions.push(eq(tasks.assignedUserId, assignedUserId));
+    }
+    return await this.selectTasksWithLead(db, and(...conditions)!, MAX_DUE_TASKS);
+  }
+
+  async createTask(task: InsertTask & { leadId: string; createdBy: string | null }): Promise<Task> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(tasks).values(task).returning();
+      await this.audit(tx, "task", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async updateTask(id: string, updates: UpdateTask): Promise<Task | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(tasks).where(eq(tasks.id, id));
+      if (!before) return undefined;
+
+      const { done, ...fields } = updates;
+      const changes: Partial<typeof tasks.$inferInsert> = { ...fields, updatedAt: new Date() };
+      if (done !== undefined && done !== (before.done === 1)) {
+        changes.done = done ? 1 : 0;
+        changes.completedAt = done ? new Date() : null;
+      }
+      // A new due date gets its own reminder
+      if (fields.dueAt && fields.dueAt.getTime() !== before.dueAt.getTime()) {
+        changes.notifiedAt = null;
+      }
+
+      const [task] = await tx.update(tasks).set(changes).where(eq(tasks.id, id)).returning();
+      await this.audit(tx, "task", "update", [{ id, before, after: task }]);
+      return task;
+    });
+  }
+
+  async deleteTask(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [task] = await tx.delete(tasks).where(eq(tasks.id, id)).returning();
+      if (!task) return false;
+      await this.audit(tx, "task", "delete", [{ id: task.id, before: task }]);
+      return true;
+    });
+  }
+
+  /**
+   * Mark open tasks that have fallen due as notified and return them, so each reminder is sent once
+   * even if several server instances run the job
+   */
+  async claimDueTasks(now: Date): Promise<TaskWithLead[]> {
+    return await db.transaction(async (tx) => {
+      // Tasks on trashed leads wait; they're reminded if the lead is restored
+      const due = and(
+        eq(tasks.done, 0),
+        isNull(tasks.notifiedAt),
+        lte(tasks.dueAt, now),
+        sql`EXISTS (SELECT 1 FROM ${leads} WHERE ${leads.id} = ${tasks.leadId} AND ${activeLead})`,
+      )!;
+      const before = await tx.select().from(tasks).where(due).for("update", { skipLocked: true });
+      if (before.length === 0) return [];
+
+      const claimed = await tx
+        .update(tasks)
+        .set({ notifiedAt: now })
+        .where(inArray(tasks.id, before.map(task => task.id)))
+        .returning();
+      await this.audit(tx, "task", "update", pairChanges(before, claimed));
+      return await this.selectTasksWithLead(tx, inArray(tasks.id, claimed.map(task => task.id)));
+    });
+  }
+
+  private async selectTasksWithLead(executor: DbExecutor, condition: SQL, limit?: number): Promise<TaskWithLead[]> {
+    const query = executor
+      .select({
+        task: tasks,
+        lead: { id: leads.id, clientName: leads.clientName, email: leads.email, status: leads.status },
+      })
+      .from(tasks)
+      .innerJoin(leads, and(eq(tasks.leadId, leads.id), activeLead))
+      .where(condition)
+      .orderBy(asc(tasks.dueAt), asc(tasks.id));
+    const rows = limit ? await query.limit(limit) : await query;
+    return rows.map(({ task, lead }) => ({ ...task, lead }));
+  }
+
+  async getContactsForLead(leadId: string): Promise<Contact[]> {
+    return await db
+      .select()
+      .from(contacts)
+      .where(eq(contacts.leadId, leadId))
+      .orderBy(asc(contacts.createdAt));
+  }
+
+  async getContactsForCompany(companyId: string): Promise<Contact[]> {
+    return await db
+      .select()
+      .from(contacts)
+      .where(eq(contacts.companyId, companyId))
+      .orderBy(asc(contacts.name));
+  }
+
+  async getContact(id: string): Promise<Contact | undefined> {
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, id));
+    return contact || undefined;
+  }
+
+  async createContact(contact: InsertContact & { leadId: string | null; companyId: string | null }): Promise<Contact> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(contacts).values(contact).returning();
+      await this.audit(tx, "contact", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async updateContact(id: string, updates: UpdateContact): Promise<Contact | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(contacts).where(eq(contacts.id, id));
+      if (!before) return undefined;
+      const [contact] = await tx
+        .update(contacts)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(contacts.id, id))
+        .returning();
+      await this.audit(tx, "contact", "update", [{ id, before, after: contact }]);
+      return contact;
+    });
+  }
+
+  async deleteContact(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [contact] = await tx.delete(contacts).where(eq(contacts.id, id)).returning();
+      if (!contact) return false;
+      await this.audit(tx, "contact", "delete", [{ id: contact.id, before: contact }]);
+      return true;
+    });
+  }
+
+  async getActivitiesForLead(leadId: string): Promise<Activity[]> {
+    return await db
+      .select()
+      .from(activities)
+      .where(eq(activities.leadId, leadId))
+      .orderBy(desc(activities.occurredAt));
+  }
+
+  async createActivity(activity: InsertActivity & { leadId: string; createdBy: string | null }): Promise<Activity> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(activities).values(activity).returning();
+      await this.audit(tx, "activity", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async updateActivity(id: string, updates: UpdateActivity): Promise<Activity | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(activities).where(eq(activities.id, id));
+      if (!before) return undefined;
+      const [activity] = await tx
+        .update(activities)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(activities.id, id))
+        .returning();
+      await this.audit(tx, "activity", "update", [{ id, before, after: activity }]);
+      return activity;
+    });
+  }
+
+  async deleteActivity(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [activity] = await tx.delete(activities).where(eq(activities.id, id)).returning();
+      if (!activity) return false;
+      await this.audit(tx, "activity", "delete", [{ id: activity.id, before: activity }]);
+      return true;
+    });
+  }
+
+  async getDealsForLead(leadId: string): Promise<Deal[]> {
+    return await db
+      .select()
+      .from(deals)
+      .where(eq(deals.leadId, leadId))
+      .orderBy(desc(deals.createdAt));
+  }
+
+  async getDeal(id: string): Promise<Deal | undefined> {
+    const [deal] = await db.select().from(deals).where(eq(deals.id, id));
+    return deal || undefined;
+  }
+
+  async createDeal(deal: InsertDeal & { leadId: string; createdBy: string | null }): Promise<Deal> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(deals)
+        .values({
+          ...deal,
+          probability: dealProbability(deal.stage, deal.probability),
+          closedAt: CLOSED_DEAL_STAGES.includes(deal.stage) ? new Date() : null,
+        })
+        .returning();
+      await this.audit(tx, "deal", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async updateDeal(id: string, updates: UpdateDeal): Promise<Deal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(deals).where(eq(deals.id, id));
+      if (!before) return undefined;
+      const stage = (updates.stage ?? before.stage) as DealStage;
+      const isClosed = CLOSED_DEAL_STAGES.includes(stage);
+      const stageChanged = stage !== before.stage;
+      const [deal] = await tx
+        .update(deals)
+        .set({
+          ...updates,
+          // Moving stage without a new probability takes the new stage's default
+          probability: dealProbability(stage, updates.probability ?? (stageChanged ? undefined : before.probability)),
+          closedAt: isClosed ? (stageChanged ? new Date() : before.closedAt) : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(deals.id, id))
+        .returning();
+      await this.audit(tx, "deal", "update", [{ id, before, after: deal }]);
+      return deal;
+    });
+  }
+
+  async deleteDeal(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deal] = await tx.delete(deals).where(eq(deals.id, id)).returning();
+      if (!deal) return false;
+      await this.audit(tx, "deal", "delete", [{ id: deal.id, before: deal }]);
+      return true;
+    });
+  }
+
+  /**
+   * Pipeline value of the deals on active leads, totalled by expected close month, company and stage
+   */
+  async getDealForecast(filters: DealForecastFilters = {}): Promise<DealForecast> {
+    const conditions: SQL[] = [activeLead];
+    if (filters.from) conditions.push(gte(deals.expectedCloseDate, filters.from));
+    if (filters.to) conditions.push(lte(deals.expectedCloseDate, filters.to));
+    if (filters.assignedUserId) conditions.push(eq(leads.assignedUserId, filters.assignedUserId));
+    const openConditions = and(...conditions, notInArray(deals.stage, [...CLOSED_DEAL_STAGES]));
+
+    const totals = {
+      count: sql<number>`count(*)`.mapWith(Number),
+      amount: sql<number>`coalesce(sum(${deals.amount}), 0)`.mapWith(Number),
+      weighted: sql<number>`coalesce(sum(${deals.amount} * ${deals.probability} / 100), 0)`.mapWith(Number),
+    };
+    const month = sql<string | null>`to_char(${deals.expectedCloseDate}, 'YYYY-MM')`;
+
+    const [monthRows, companyRows, stageRows] = await Promise.all([
+      db
+        .select({ key: month, ...totals })
+        .from(deals)
+        .innerJoin(leads, eq(deals.leadId, leads.id))
+        .where(openConditions)
+        .groupBy(month)
+        .orderBy(sql`1 NULLS LAST`),
+      db
+        .select({ key: companies.id, label: companies.name, ...totals })
+        .from(deals)
+        .innerJoin(leads, eq(deals.leadId, leads.id))
+        .leftJoin(companies, eq(leads.companyId, companies.id))
+        .where(openConditions)
+        .groupBy(companies.id, companies.name)
+        .orderBy(desc(totals.weighted)),
+      db
+        .select({ key: deals.stage, ...totals })
+        .from(deals)
+        .innerJoin(leads, eq(deals.leadId, leads.id))
+        .where(and(...conditions))
+        .groupBy(deals.stage),
+    ]);
+
+    const stageTotal = (stage: DealStage) => stageRows.find(row => row.key === stage)?.amount ?? 0;
+    return {
+      openCount: monthRows.reduce((sum, row) => sum + row.count, 0),
+      openAmount: monthRows.reduce((sum, row) => sum + row.amount, 0),
+      weightedAmount: monthRows.reduce((sum, row) => sum + row.weighted, 0),
+      wonAmount: stageTotal("won"),
+      lostAmount: stageTotal("lost"),
+      byMonth: monthRows.map(row => ({ ...row, label: row.key ?? "No close date" })),
+      byCompany: companyRows.map(row => ({ ...row, label: row.label ?? "No company" })),
+      byStage: DEAL_STAGES.map(stage => ({ count: 0, amount: 0, weighted: 0, ...stageRows.find(row => row.key === stage), key: stage, label: stage })),
+    };
+  }
+
+  async getQuotesForLead(leadId: string): Promise<Quote[]> {
+    return await db
+      .select()
+      .from(quotes)
+      .where(eq(quotes.leadId, leadId))
+      .orderBy(desc(quotes.version));
+  }
+
+  async getQuote(id: string): Promise<Quote | undefined> {
+    const [quote] = await db.select().from(quotes).where(eq(quotes.id, id));
+    return quote || undefined;
+  }
+
+  /**
+   * Save a quote as the lead's next version
+   */
+  async createQuote(quote: { leadId: string; wasteFactor: number; lines: QuoteLine[]; total: number; notes: string | null; createdBy: string | null }): Promise<Quote> {
+    return await db.transaction(async (tx) => {
+      // Lock the lead so two quotes saved at once don't both take the same version
+      await tx.select({ id: leads.id }).from(leads).where(eq(leads.id, quote.leadId)).for("update");
+      const [{ latest }] = await tx.select({ latest: max(quotes.version) }).from(quotes).where(eq(quotes.leadId, quote.leadId));
+      const [created] = await tx
+        .insert(quotes)
+        .values({
+          ...quote,
+          version: (latest ?? 0) + 1,
+          wasteFactor: String(quote.wasteFactor),
+          total: quote.total.toFixed(2),
+        })
+        .returning();
+      await this.audit(tx, "quote", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async getLeadProducts(leadId: string): Promise<LeadProductWithItem[]> {
+    const rows = await db
+      .select({ link: leadProducts, item: inventory })
+      .from(leadProducts)
+      .leftJoin(inventory, and(eq(leadProducts.inventoryId, inventory.id), activeInventory))
+      .where(eq(leadProducts.leadId, leadId))
+      .orderBy(asc(leadProducts.createdAt));
+    return rows.map(({ link, item }) => ({ ...link, item }));
+  }
+
+  async getLeadProduct(id: string): Promise<LeadProduct | undefined> {
+    const [link] = await db.select().from(leadProducts).where(eq(leadProducts.id, id));
+    return link || undefined;
+  }
+
+  async createLeadProduct(link: InsertLeadProduct & { leadId: string; createdBy: string | null }): Promise<LeadProduct> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(leadProducts).values(link).returning();
+      await this.audit(tx, "lead_product", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async updateLeadProduct(id: string, updates: UpdateLeadProduct): Promise<LeadProduct | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(leadProducts).where(eq(leadProducts.id, id));
+      if (!before) return undefined;
+      const [link] = await tx
+        .update(leadProducts)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(leadProducts.id, id))
+        .returning();
+      await this.audit(tx, "lead_product", "update", [{ id, before, after: link }]);
+      return link;
+    });
+  }
+
+  async deleteLeadProduct(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [link] = await tx.delete(leadProducts).where(eq(leadProducts.id, id)).returning();
+      if (!link) return false;
+      await this.audit(tx, "lead_product", "delete", [{ id: link.id, before: link }]);
+      return true;
+    });
+  }
+
+  /**
+   * Active leads still in an open stage that have asked about the product, oldest request first
+   */
+  async getLeadsWaitingOnProduct(inventoryId: string): Promise<WaitingLead[]> {
+    return await db
+      .select({
+        id: leads.id,
+        clientName: leads.clientName,
+        email: leads.email,
+        status: leads.status,
+        assignedUserId: leads.assignedUserId,
+        leadProductId: leadProducts.id,
+        sqFt: leadProducts.sqFt,
+      })
+      .from(leadProducts)
+      .innerJoin(leads, eq(leadProducts.leadId, leads.id))
+      .where(and(eq(leadProducts.inventoryId, inventoryId), activeLead, waitingLeadStage))
+      .orderBy(asc(leadProducts.createdAt));
+  }
+
+  async getWaitingLeadCounts(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ inventoryId: leadProducts.inventoryId, count: sql<number>`count(*)`.mapWith(Number) })
+      .from(leadProducts)
+      .innerJoin(leads, eq(leadProducts.leadId, leads.id))
+      .where(and(activeLead, waitingLeadStage))
+      .groupBy(leadProducts.inventoryId);
+    return Object.fromEntries(rows.map(row => [row.inventoryId, row.count]));
+  }
+
+  async getPriceLists(): Promise<PriceListWithRules[]> {
+    const [lists, rules] = await Promise.all([
+      db.select().from(priceLists).orderBy(asc(sql`lower(${priceLists.name})`)),
+      db.select().from(priceListRules).orderBy(asc(priceListRules.createdAt)),
+    ]);
+    return lists.map(list => ({ ...list, rules: rules.filter(rule => rule.priceListId === list.id) }));
+  }
+
+  async getPriceListByName(name: string): Promise<PriceList | undefined> {
+    const [list] = await db.select().from(priceLists).where(sql`lower(${priceLists.name}) = lower(${name.trim()})`);
+    return list || undefined;
+  }
+
+  async createPriceList(list: InsertPriceList): Promise<PriceList> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(priceLists).values(list).returning();
+      await this.audit(tx, "price_list", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async updatePriceList(id: string, updates: UpdatePriceList): Promise<PriceList | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(priceLists).where(eq(priceLists.id, id));
+      if (!before) return undefined;
+      const [list] = await tx
+        .update(priceLists)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(priceLists.id, id))
+        .returning();
+      await this.audit(tx, "price_list", "update", [{ id, before, after: list }]);
+      return list;
+    });
+  }
+
+  async deletePriceList(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const rules = await tx.select().from(priceListRules).where(eq(priceListRules.priceListId, id));
+      const [list] = await tx.delete(priceLists).where(eq(priceLists.id, id)).returning();
+      if (!list) return false;
+      // The rules go with the list by cascade; record them too
+      await this.audit(tx, "price_list_rule", "delete", rules.map(rule => ({ id: rule.id, before: rule })));
+      await this.audit(tx, "price_list", "delete", [{ id: list.id, before: list }]);
+      return true;
+    });
+  }
+
+  /**
+   * Set the list's rule for a product or category, replacing the one it already has
+   */
+  async savePriceListRule(priceListId: string, rule: InsertPriceListRule): Promise<PriceListRule> {
+    return await db.transaction(async (tx) => {
+      const values = {
+        inventoryId: rule.inventoryId ?? null,
+        category: rule.inventoryId ? null : rule.category ?? null,
+        markupPercent: rule.markupPercent ?? null,
+        pricePerSqFt: rule.pricePerSqFt,
+        pricePerBox: rule.pricePerBox,
+      };
+      const target = values.inventoryId ? eq(priceListRules.inventoryId, values.inventoryId) : eq(priceListRules.category, values.category!);
+      const [before] = await tx.select().from(priceListRules).where(and(eq(priceListRules.priceListId, priceListId), target));
+      if (before) {
+        const [updated] = await tx
+          .update(priceListRules)
+          .set({ ...values, updatedAt: new Date() })
+          .where(eq(priceListRules.id, before.id))
+          .returning();
+        await this.audit(tx, "price_list_rule", "update", [{ id: before.id, before, after: updated }]);
+        return updated;
+      }
+      const [created] = await tx.insert(priceListRules).values({ ...values, priceListId }).returning();
+      await this.audit(tx, "price_list_rule", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async deletePriceListRule(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [rule] = await tx.delete(priceListRules).where(eq(priceListRules.id, id)).returning();
+      if (!rule) return false;
+      await this.audit(tx, "price_list_rule", "delete", [{ id: rule.id, before: rule }]);
+      return true;
+    });
+  }
+
+  async getLeadScoreRules(): Promise<LeadScoreRule[]> {
+    return await db.select().from(leadScoreRules).orderBy(asc(leadScoreRules.createdAt));
+  }
+
+  async createLeadScoreRule(rule: InsertLeadScoreRule): Promise<LeadScoreRule> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(leadScoreRules).values(rule).returning();
+      await this.audit(tx, "lead_score_rule", "create", [{ id: created.id, after: created }]);
+      await this.rescoreAllLeads(tx);
+      return created;
+    });
+  }
+
+  async updateLeadScoreRule(id: string, rule: InsertLeadScoreRule): Promise<LeadScoreRule | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(leadScoreRules).where(eq(leadScoreRules.id, id));
+      if (!before) return undefined;
+      const [updated] = await tx
+        .update(leadScoreRules)
+        .set({ ...rule, value: rule.value ?? null, updatedAt: new Date() })
+        .where(eq(leadScoreRules.id, id))
+        .returning();
+      await this.audit(tx, "lead_score_rule", "update", [{ id, before, after: updated }]);
+      await this.rescoreAllLeads(tx);
+      return updated;
+    });
+  }
+
+  async deleteLeadScoreRule(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [rule] = await tx.delete(leadScoreRules).where(eq(leadScoreRules.id, id)).returning();
+      if (!rule) return false;
+      await this.audit(tx, "lead_score_rule", "delete", [{ id: rule.id, before: rule }]);
+      await this.rescoreAllLeads(tx);
+      return true;
+    });
+  }
+
+  /**
+   * Rescore every lead, e.g. as "days since last contact" rules age. Returns how many scores changed.
+   */
+  async recalculateLeadScores(): Promise<number> {
+    return await db.transaction(async (tx) => this.rescoreAllLeads(tx));
+  }
+
+  async getAssignmentRules(): Promise<AssignmentRule[]> {
+    return await db.select().from(assignmentRules).orderBy(asc(assignmentRules.position));
+  }
+
+  async getAssignmentRule(id: string): Promise<AssignmentRule | undefined> {
+    const [rule] = await db.select().from(assignmentRules).where(eq(assignmentRules.id, id));
+    return rule || undefined;
+  }
+
+  async createAssignmentRule(rule: InsertAssignmentRule): Promise<AssignmentRule> {
+    return await db.transaction(async (tx) => {
+      // New rules are tried last
+      const [{ lastPosition }] = await tx.select({ lastPosition: max(assignmentRules.position) }).from(assignmentRules);
+      const [created] = await tx
+        .insert(assignmentRules)
+        .values({ ...rule, position: (lastPosition ?? -1) + 1 })
+        .returning();
+      await this.audit(tx, "assignment_rule", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async updateAssignmentRule(id: string, rule: InsertAssignmentRule): Promise<AssignmentRule | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(assignmentRules).where(eq(assignmentRules.id, id));
+      if (!before) return undefined;
+      const [updated] = await tx
+        .update(assignmentRules)
+        .set({ ...rule, updatedAt: new Date() })
+        .where(eq(assignmentRules.id, id))
+        .returning();
+      await this.audit(tx, "assignment_rule", "update", [{ id, before, after: updated }]);
+      return updated;
+    });
+  }
+
+  async reorderAssignmentRules(ruleIds: string[]): Promise<AssignmentRule[]> {
+    return await db.transaction(async (tx) => {
+      const before = await tx.select().from(assignmentRules).where(inArray(assignmentRules.id, ruleIds));
+      const updated: AssignmentRule[] = [];
+      for (let position = 0; position < ruleIds.length; position++) {
+        const [rule] = await tx
+          .update(assignmentRules)
+          .set({ position, updatedAt: new Date() })
+          .where(eq(assignmentRules.id, ruleIds[position]))
+          .returning();
+        if (rule) updated.push(rule);
+      }
+      await this.audit(tx, "assignment_rule", "update", pairChanges(before, updated));
+      return updated;
+    });
+  }
+
+  async deleteAssignmentRule(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [rule] = await tx.delete(assignmentRules).where(eq(assignmentRules.id, id)).returning();
+      if (!rule) return false;
+      await this.audit(tx, "assignment_rule", "delete", [{ id: rule.id, before: rule }]);
+      return true;
+    });
+  }
+
+  /**
+   * Give new leads without an owner to the next rep of the first rule they match. Leads no rule
+   * can place go to fallbackUserId (e.g. whoever added them by hand) or stay unassigned.
+   * Every decision, including "nobody", is written to the assignment log.
+   */
+  async assignLeadsByRules(leadIds: string[], source: LeadSource, fallbackUserId: string | null = null): Promise<LeadAssignmentDecision[]> {
+    if (leadIds.length === 0) return [];
+    return await db.transaction(async (tx) => {
+      // Locking the rules makes concurrent intakes take turns, so a round-robin slot is never handed out twice
+      const rules = await tx.select().from(assignmentRules).orderBy(asc(assignmentRules.position)).for("update");
+      if (rules.length === 0 && !fallbackUserId) return [];
+
+      const unassigned = await tx
+        .select()
+        .from(leads)
+        .where(and(inArray(leads.id, leadIds), isNull(leads.assignedUserId), activeLead));
+      if (unassigned.length === 0) return [];
+
+      const tagRows = await tx.select().from(leadTags).where(inArray(leadTags.leadId, unassigned.map(lead => lead.id)));
+      const tagIdsByLead = new Map<string, string[]>();
+      for (const { leadId, tagId } of tagRows) {
+        tagIdsByLead.set(leadId, [...(tagIdsByLead.get(leadId) ?? []), tagId]);
+      }
+      const reps = new Map((await tx
+        .select({ id: users.id, username: users.username, displayName: users.displayName, role: users.role, away: users.away })
+        .from(users)).map(rep => [rep.id, rep]));
+      const repName = (rep: AssignableRep) => rep.displayName || rep.username;
+
+      const lastPicks = new Map(rules.map(rule => [rule.id, rule.lastAssignedUserId]));
+      const decisions: (LeadAssignmentDecision & { ruleId: string | null })[] = unassigned.map(lead => {
+        const unavailable: string[] = [];
+        for (const rule of rules) {
+          const match = assignmentRuleMatch(rule, lead, tagIdsByLead.get(lead.id) ?? [], source);
+          if (!match) continue;
+          const { userId, skipped } = nextRoundRobinRep(rule, lastPicks.get(rule.id) ?? null, reps);
+          const skippedNote = skipped.length > 0 ? `; skipped ${skipped.map(repName).join(", ")} (away)` : "";
+          if (userId) {
+            lastPicks.set(rule.id, userId);
+            return { lead, userId, ruleId: rule.id, ruleName: rule.name, reason: `Matched rule "${rule.name}" (${match}); ${repName(reps.get(userId)!)} was next in turn${skippedNote}` };
+          }
+          unavailable.push(`Rule "${rule.name}" matched (${match}) but no rep was available${skippedNote}`);
+        }
+        const outcome = fallbackUserId ? "kept by the person who added it" : "left unassigned";
+        const reason = unavailable.length > 0 ? `${unavailable.join("; ")}; ${outcome}` : `No rule matched; ${outcome}`;
+        return { lead, userId: fallbackUserId, ruleId: null, ruleName: null, reason };
+      });
+
+      // One update per rep keeps big imports to a handful of statements
+      const leadIdsByUser = new Map<string, string[]>();
+      for (const decision of decisions) {
+        if (decision.userId) leadIdsByUser.set(decision.userId, [...(leadIdsByUser.get(decision.userId) ?? []), decision.lead.id]);
+      }
+      const assignedById = new Map<string, Lead>();
+      for (const [userId, ids] of Array.from(leadIdsByUser.entries())) {
+        const updated = await tx
+          .update(leads)
+          .set({ assignedUserId: userId, updatedAt: new Date() })
+          .where(inArray(leads.id, ids))
+          .returning();
+        await this.audit(tx, "lead", "update", pairChanges(unassigned, updated));
+        updated.forEach(lead => assignedById.set(lead.id, lead));
+      }
+
+      // The round-robin pointer is bookkeeping, so it isn't audited
+      for (const rule of rules) {
+        const lastPick = lastPicks.get(rule.id) ?? null;
+        if (lastPick !== rule.lastAssignedUserId) {
+          await tx.update(assignmentRules).set({ lastAssignedUserId: lastPick }).where(eq(assignmentRules.id, rule.id));
+        }
+      }
+
+      const logRows = decisions.map(decision => ({
+        leadId: decision.lead.id,
+        ruleId: decision.ruleId,
+        ruleName: decision.ruleName,
+        assignedUserId: decision.userId,
+        source,
+        reason: decision.reason,
+      }));
+      for (let i = 0; i < logRows.length; i += AUDIT_BATCH_SIZE) {
+        await tx.insert(leadAssignmentLog).values(logRows.slice(i, i + AUDIT_BATCH_SIZE));
+      }
+
+      return decisions.map(({ ruleId: _ruleId, ...decision }) => ({ ...decision, lead: assignedById.get(decision.lead.id) ?? decision.lead }));
+    });
+  }
+
+  async getLeadAssignmentLog(leadId?: string, limit: number = 100): Promise<AssignmentLogEntryWithLead[]> {
+    return await db
+      .select({ ...getTableColumns(leadAssignmentLog), leadName: leads.clientName })
+      .from(leadAssignmentLog)
+      .innerJoin(leads, eq(leadAssignmentLog.leadId, leads.id))
+      .where(leadId ? eq(leadAssignmentLog.leadId, leadId) : undefined)
+      .orderBy(desc(leadAssignmentLog.createdAt))
+      .limit(limit);
+  }
+
+  async getWebForms(): Promise<WebForm[]> {
+    return await db.select().from(webForms).orderBy(asc(webForms.createdAt));
+  }
+
+  async getWebForm(id: string): Promise<WebForm | undefined> {
+    const [form] = await db.select().from(webForms).where(eq(webForms.id, id));
+    return form || undefined;
+  }
+
+  async createWebForm(form: InsertWebForm): Promise<WebForm> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(webForms).values(form).returning();
+      await this.audit(tx, "web_form", "create", [{ id: created.id, after: created }]);
+      return created;
+    });
+  }
+
+  async updateWebForm(id: string, form: InsertWebForm): Promise<WebForm | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(webForms).where(eq(webForms.id, id));
+      if (!before) return undefined;
+      const [updated] = await tx
+        .update(webForms)
+        .set({
+          ...form,
+          redirectUrl: form.redirectUrl ?? null,
+          acknowledgementSubject: form.acknowledgementSubject ?? null,
+          acknowledgementBody: form.acknowledgementBody ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(webForms.id, id))
+        .returning();
+      await this.audit(tx, "web_form", "update", [{ id, before, after: updated }]);
+      return updated;
+    });
+  }
+
+  async deleteWebForm(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [form] = await tx.delete(webForms).where(eq(webForms.id, id)).returning();
+      if (!form) return false;
+      await this.audit(tx, "web_form", "delete", [{ id: form.id, before: form }]);
+      return true;
+    });
+  }
+
+  private async rescoreAllLeads(executor: DbExecutor): Promise<number> {
+    const score = await this.leadScoreExpression(executor);
+    const changed = await executor
+      .update(leads)
+      .set({ score })
+      .where(sql`${leads.score} IS DISTINCT FROM ${score}`)
+      .returning({ id: leads.id });
+    return changed.length;
+  }
+
+  /**
+   * Recompute the score of the given leads from their current fields and emails.
+   * Scores are derived data, so they aren't audited and don't touch updatedAt.
+   * Returns the rescored leads in the order of ids.
+   */
+  private async scoreLeads(executor: DbExecutor, ids: string[]): Promise<Lead[]> {
+    if (ids.length === 0) return [];
+    const scored = await executor
+      .update(leads)
+      .set({ score: await this.leadScoreExpression(executor) })
+      .where(inArray(leads.id, ids))
       .returning();
-    return result.length;
+    const scoredById = new Map(scored.map(lead => [lead.id, lead]));
+    return ids.map(id => scoredById.get(id)).filter((lead): lead is Lead => !!lead);
   }
 
-  async clearAllNotifications(): Promise<boolean> {
-    const result = await db
-      .update(notifications)
-      .set({ dismissed: 1 })
+  private async leadScoreExpression(executor: DbExecutor): Promise<SQL> {
+    const rules = await executor.select().from(leadScoreRules);
+    if (rules.length === 0) return sql`0`;
+    return sql`(${sql.join(rules.map(rule => sql`CASE WHEN ${leadScoreCondition(rule)} THEN ${rule.points}::integer ELSE 0 END`), sql` + `)})`;
+  }
+
+  /**
+   * New tags cycle through the palette so neighbouring chips are easy to tell apart
+   */
+  private async nextTagColorIndex(executor: DbExecutor): Promise<number> {
+    const [{ total }] = await executor.select({ total: count() }).from(tags);
+    return total % TAG_COLORS.length;
+  }
+
+  private async withTags<T extends Lead>(leadsList: T[]): Promise<(T & { tags: Tag[] })[]> {
+    if (leadsList.length === 0) return [];
+    const rows = await db
+      .select({ leadId: leadTags.leadId, tag: tags })
+      .from(leadTags)
+      .innerJoin(tags, eq(leadTags.tagId, tags.id))
+      .where(inArray(leadTags.leadId, leadsList.map(lead => lead.id)))
+      .orderBy(asc(sql`lower(${tags.name})`));
+
+    const tagsByLead = new Map<string, Tag[]>();
+    for (const { leadId, tag } of rows) {
+      tagsByLead.set(leadId, [...(tagsByLead.get(leadId) ?? []), tag]);
+    }
+    return leadsList.map(lead => ({ ...lead, tags: tagsByLead.get(lead.id) ?? [] }));
+  }
+
+  /**
+   * An automation targets a single stage, so take it off whichever stage has it now
+   */
+  private async releaseAutomation(executor: DbExecutor, automation: PipelineAutomation): Promise<void> {
+    const released = await executor
+      .update(pipelineStages)
+      .set({ automation: null, updatedAt: new Date() })
+      .where(eq(pipelineStages.automation, automation))
       .returning();
-    return result.length > 0;
+    await this.audit(executor, "pipeline_stage", "update", released.map(stage => ({
+      id: stage.id,
+      before: { automation },
+      after: { automation: null },
+    })));
+  }
+
+  async recordAudit(entityType: AuditEntityType, action: AuditAction, changes: AuditChange[]): Promise<void> {
+    await this.audit(db, entityType, action, changes);
+  }
+
+  async getAuditLog(filters: AuditLogFilters = {}, limit: number = 50, cursor?: string): Promise<{ entries: AuditLogEntry[]; nextCursor?: string; hasMore: boolean }> {
+    const conditions: SQL[] = [];
+    if (filters.entityType) conditions.push(eq(auditLog.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditLog.entityId, filters.entityId));
+    if (filters.action) conditions.push(eq(auditLog.action, filters.action));
+    if (filters.actorId) conditions.push(eq(auditLog.actorId, filters.actorId));
+    if (filters.from) conditions.push(gte(auditLog.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLog.createdAt, filters.to));
+    if (cursor) {
+      // Rows written in one transaction share created_at, so the id breaks the tie
+      const [createdAt, id] = decodeCursor(cursor);
+      conditions.push(sql`(${auditLog.createdAt}, ${auditLog.id}) < (${createdAt}::timestamp, ${id})`);
+    }
+
+    const result = await db
+      .select({ entry: auditLog, createdAtText: sql<string>`${auditLog.createdAt}::text` })
+      .from(auditLog)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(limit + 1);
+
+    const hasMore = result.length > limit;
+    const page = result.slice(0, limit);
+    const nextCursor = hasMore && page.length > 0
+      ? encodeCursor(page[page.length - 1].createdAtText, page[page.length - 1].entry.id)
+      : undefined;
+
+    return { entries: page.map(row => row.entry), nextCursor, hasMore };
+  }
+
+  /**
+   * Append status history entries on the same executor as the lead write
+   */
+  private async recordStatusChanges(
+    executor: DbExecutor,
+    changes: { leadId: string; fromStatus: string | null; toStatus: string }[],
+    source: LeadStatusSource,
+  ): Promise<void> {
+    if (changes.length === 0) return;
+    const actor = getCurrentActor();
+    const rows = changes.map(change => ({
+      ...change,
+      source,
+      actorId: actor?.id ?? null,
+      actorName: actor?.name ?? "System",
+    }));
+    for (let i = 0; i < rows.length; i += AUDIT_BATCH_SIZE) {
+      await executor.insert(leadStatusHistory).values(rows.slice(i, i + AUDIT_BATCH_SIZE));
+    }
+  }
+
+  /**
+   * Append audit entries on the same executor as the write, so both commit or roll back together
+   */
+  private async audit(executor: DbExecutor, entityType: AuditEntityType, action: AuditAction, changes: AuditChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    const actor = getCurrentActor();
+    const rows = changes.map(change => ({
+      actorId: actor?.id ?? null,
+      actorName: actor?.name ?? "System",
+      entityType,
+      entityId: change.id,
+      action,
+      before: redactAuditValue(change.before),
+      after: redactAuditValue(change.after),
+    }));
+
+    // Keep each insert well under Postgres' bind parameter limit on big imports/deletes
+    for (let i = 0; i < rows.length; i += AUDIT_BATCH_SIZE) {
+      await executor.insert(auditLog).values(rows.slice(i, i + AUDIT_BATCH_SIZE));
+    }
   }
 }
 
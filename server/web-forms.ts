@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { sendEmail } from "./gmail";
+import { insertEmailSchema, insertLeadSchema, type Company, type Lead, type WebForm } from "@shared/schema";
+
+// Hidden input that people never fill in; bots that fill every field give themselves away
+export const WEB_FORM_HONEYPOT_FIELD = "_honeypot";
+
+const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
+const RATE_LIMIT_MAX_SUBMISSIONS = 5; // Per form and IP address within the window
+
+// Form field names accepted for each lead field, so existing website forms work without renaming inputs
+const FIELD_ALIASES = {
+  clientName: ["clientName", "name", "full_name", "fullName", "your-name"],
+  email: ["email", "your-email", "email_address"],
+  phone: ["phone", "phone_number", "phoneNumber", "tel"],
+  subject: ["subject", "your-subject"],
+  leadDetails: ["leadDetails", "message", "details", "comments", "your-message"],
+} as const;
+
+const KNOWN_FIELDS = new Set<string>(Object.values(FIELD_ALIASES).flat());
+
+// Form posts need a real address to reply to, so require one here
+const webFormLeadSchema = insertLeadSchema.extend({
+  clientName: z.string().trim().min(1, "Name is required").max(200),
+  email: z.string().trim().email("Email is invalid"),
+});
+
+const submissionsByKey = new Map<string, number[]>();
+
+/**
+ * Record a submission for the form and IP address; true when they're over the limit.
+ * Kept in memory, so the limit resets when the server restarts.
+ */
+export function isWebFormRateLimited(formId: string, ip: string, now: number = Date.now()): boolean {
+  const key = `${formId}:${ip}`;
+  const recent = (submissionsByKey.get(key) ?? []).filter(time => now - time < RATE_LIMIT_WINDOW_MS);
+  const limited = recent.length >= RATE_LIMIT_MAX_SUBMISSIONS;
+  if (!limited) recent.push(now);
+  submissionsByKey.set(key, recent);
+
+  // Drop keys that have gone quiet so the map doesn't grow forever
+  if (submissionsByKey.size > 1000) {
+    Array.from(submissionsByKey.entries()).forEach(([otherKey, times]) => {
+      if (times.every(time => now - time >= RATE_LIMIT_WINDOW_MS)) submissionsByKey.delete(otherKey);
+    });
+  }
+  return limited;
+}
+
+function firstValue(body: Record<string, unknown>, names: readonly string[]): string | undefined {
+  for (const name of names) {
+    const value = body[name];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+/**
+ * Validate a form post as a lead of the form's company.
+ * Fields the lead has no column for are kept as "Field: value" lines under the message.
+ */
+export function parseWebFormSubmission(form: WebForm, body: Record<string, unknown>, status: string) {
+  const extraLines = Object.entries(body)
+    .filter(([name, value]) => !KNOWN_FIELDS.has(name) && !name.startsWith("_") && typeof value === "string" && value.trim())
+    .map(([name, value]) => `${name}: ${(value as string).trim()}`);
+  const message = firstValue(body, FIELD_ALIASES.leadDetails);
+
+  return webFormLeadSchema.parse({
+    clientName: firstValue(body, FIELD_ALIASES.clientName),
+    email: firstValue(body, FIELD_ALIASES.email),
+    phone: firstValue(body, FIELD_ALIASES.phone) ?? null,
+    subject: firstValue(body, FIELD_ALIASES.subject) ?? null,
+    leadDetails: [message, extraLines.join("\n")].filter(Boolean).join("\n\n") || null,
+    companyId: form.companyId,
+    status,
+  });
+}
+
+function fillPlaceholders(template: string, lead: Lead, company: Company | undefined): string {
+  return template
+    .replace(/\{\{name\}\}/g, lead.clientName)
+    .replace(/\{\{email\}\}/g, lead.email)
+    .replace(/\{\{subject\}\}/g, lead.subject ?? "")
+    .replace(/\{\{company\}\}/g, company?.name ?? "");
+}
+
+/**
+ * Email the submitter the form's acknowledgement and keep it in the lead's history
+ */
+export async function sendWebFormAcknowledgement(form: WebForm, lead: Lead): Promise<void> {
+  const company = await storage.getCompany(form.companyId);
+  const subject = fillPlaceholders(form.acknowledgementSubject ?? "", lead, company);
+  const body = fillPlaceholders(form.acknowledgementBody ?? "", lead, company);
+
+  const result = await sendEmail(lead.email, subject, body);
+  if (!result.success) {
+    throw new Error(result.message);
+  }
+
+  await storage.createEmail(insertEmailSchema.parse({
+    leadId: lead.id,
+    subject,
+    body,
+    direction: "sent",
+    messageId: result.messageId || null,
+    conversationId: result.threadId || null,
+    fromEmail: process.env.EMAIL_FROM_ADDRESS || null,
+    toEmail: lead.email,
+  }));
+}
@@ -0,0 +1,55 @@
+// Roles and the permissions each one grants.
+// Shared by the server (route enforcement) and the client (showing/hiding actions).
+
+export const PERMISSIONS = {
+  LEADS_VIEW: "leads:view",
+  LEADS_EDIT: "leads:edit",
+  LEADS_DELETE: "leads:delete",
+  EMAILS_SEND: "emails:send",
+  COMPANIES_MANAGE: "companies:manage",
+  INVENTORY_VIEW: "inventory:view",
+  INVENTORY_MANAGE: "inventory:manage",
+  IMPORT_RUN: "import:run",
+  NOTIFICATIONS_MANAGE: "notifications:manage",
+  SETTINGS_MANAGE: "settings:manage",
+  USERS_MANAGE: "users:manage",
+  AUDIT_VIEW: "audit:view",
+  SYSTEM_MIGRATE: "system:migrate",
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export const ROLES = ["admin", "sales_rep", "read_only"] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Admin",
+  sales_rep: "Sales Rep",
+  read_only: "Read Only",
+};
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: Object.values(PERMISSIONS),
+  sales_rep: [
+    PERMISSIONS.LEADS_VIEW,
+    PERMISSIONS.LEADS_EDIT,
+    PERMISSIONS.LEADS_DELETE,
+    PERMISSIONS.EMAILS_SEND,
+    PERMISSIONS.COMPANIES_MANAGE,
+    PERMISSIONS.INVENTORY_VIEW,
+  ],
+  read_only: [
+    PERMISSIONS.LEADS_VIEW,
+    PERMISSIONS.INVENTORY_VIEW,
+  ],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!isRole(role)) return false;
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
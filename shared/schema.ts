@@ -1,15 +1,47 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, numeric, date, json, jsonb, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { ROLES } from "./permissions";
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt hash in the form "<hash>.<salt>"
+  displayName: text("display_name"),
+  role: text("role").notNull().default("sales_rep"), // see ROLES in shared/permissions.ts
+  away: integer("away").notNull().default(0), // 1 = out of office; assignment rules can skip them
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Express session storage used by connect-pg-simple (kept here so db:push doesn't drop it)
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_sessions_expire").on(table.expire),
+]);
+
+// Values of admin-defined custom fields, keyed by CustomField.key (numbers as numbers, dates as YYYY-MM-DD)
+export type CustomFieldValues = Record<string, string | number>;
 
 export const companies = pgTable("companies", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
+  domains: jsonb("domains").$type<string[]>().notNull().default([]), // Email domains; new leads from them are filed under this company
+  phone: text("phone"),
+  website: text("website"),
+  address: text("address"),
+  ownerUserId: varchar("owner_user_id").references(() => users.id, { onDelete: "set null" }), // Account manager
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("idx_companies_domains").using("gin", table.domains),
+]);
 
 export const leads = pgTable("leads", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -21,9 +53,18 @@ export const leads = pgTable("leads", {
   leadDetails: text("lead_details"),
   notes: text("notes"), // Internal notes/comments for the lead
   status: text("status").notNull().default("New"),
+  assignedUserId: varchar("assigned_user_id").references(() => users.id, { onDelete: "set null" }), // Owning sales rep
+  customFields: jsonb("custom_fields").$type<CustomFieldValues>().notNull().default({}),
+  score: integer("score").notNull().default(0), // Sum of the matching lead score rules; kept up to date by storage
+  deletedAt: timestamp("deleted_at"), // Set when the lead is moved to the trash; purged after the retention period
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("idx_leads_score").on(table.score, table.id),
+  index("idx_leads_deleted_at").on(table.deletedAt),
+  // Full-text search; must stay identical to the document searched in storage.searchLeadsAndEmails
+  index("idx_leads_search").using("gin", sql`to_tsvector('english', coalesce(${table.clientName}, '') || ' ' || coalesce(${table.email}, '') || ' ' || coalesce(${table.subject}, '') || ' ' || coalesce(${table.leadDetails}, '') || ' ' || coalesce(${table.notes}, ''))`),
+]);
 
 export const emails = pgTable("emails", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -37,7 +78,10 @@ export const emails = pgTable("emails", {
   fromEmail: text("from_email"),
   toEmail: text("to_email"),
   sentAt: timestamp("sent_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("idx_emails_search").using("gin", sql`to_tsvector('english', ${table.subject} || ' ' || ${table.body})`),
+  index("idx_emails_lead_sent_at").on(table.leadId, table.sentAt),
+]);
 
 export const inventory = pgTable("inventory", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -47,13 +91,22 @@ export const inventory = pgTable("inventory", {
   sqFtPerBox: text("sq_ft_per_box"), // stored as text to handle decimal precision
   totalSqFt: text("total_sq_ft"), // stored as text to handle decimal precision
   notes: text("notes"), // For additional notes like "(drop)", "(NIFW)", "discontinued"
+  costPerSqFt: numeric("cost_per_sq_ft", { precision: 10, scale: 2 }), // What we pay; a missing per-box or per-sq-ft price is worked out from the other
+  costPerBox: numeric("cost_per_box", { precision: 10, scale: 2 }),
+  pricePerSqFt: numeric("price_per_sq_ft", { precision: 10, scale: 2 }), // Standard sell price, before any price list
+  pricePerBox: numeric("price_per_box", { precision: 10, scale: 2 }),
+  deletedAt: timestamp("deleted_at"), // Set when the item is moved to the trash; purged after the retention period
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [
+  index("idx_inventory_deleted_at").on(table.deletedAt),
+]);
 
 export const notifications = pgTable("notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // Recipient; null = everyone
+  type: text("type").notNull().default("email_reply"), // 'email_reply', 'lead_assigned', 'task_due', 'web_form' or 'stock_changed'
   leadName: text("lead_name").notNull(),
   fromEmail: text("from_email").notNull(),
   subject: text("subject").notNull(),
@@ -61,6 +114,267 @@ export const notifications = pgTable("notifications", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Append-only record of every write (rows are never updated or deleted; enforced by a trigger)
+export const auditLog = pgTable("audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id"), // No FK so entries survive user deletion; null = system/background job
+  actorName: text("actor_name").notNull(), // Snapshot of the display name at the time of the change
+  entityType: text("entity_type").notNull(), // 'lead', 'company', 'inventory', 'email', 'notification', 'user', 'config', 'pipeline_stage'
+  entityId: varchar("entity_id"),
+  action: text("action").notNull(), // 'create', 'update' or 'delete'
+  before: jsonb("before"),
+  after: jsonb("after"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_audit_log_entity").on(table.entityType, table.entityId),
+  index("idx_audit_log_actor").on(table.actorId),
+  index("idx_audit_log_created_at").on(table.createdAt),
+]);
+
+// Stages a lead moves through; leads.status holds the stage name
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  position: integer("position").notNull().default(0), // Display order, lowest first
+  color: text("color").notNull().default("#6b7280"), // Hex color used for status badges
+  type: text("type").notNull().default("open"), // 'open', 'won' or 'lost'
+  automation: text("automation"), // 'email_sent' or 'email_replied': leads are moved here automatically
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_pipeline_stages_automation").on(table.automation), // At most one stage per automation
+]);
+
+// One row per lead status change, used for the stage timeline and time-in-stage
+export const leadStatusHistory = pgTable("lead_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status"), // null for the status a lead was created with
+  toStatus: text("to_status").notNull(),
+  source: text("source").notNull(), // see LEAD_STATUS_SOURCES
+  actorId: varchar("actor_id"), // No FK so history survives user deletion; null = system/background job
+  actorName: text("actor_name").notNull(),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_lead_status_history_lead").on(table.leadId, table.changedAt),
+]);
+
+// Admin-defined extra fields for leads and companies (e.g. square footage, install date)
+export const customFields = pgTable("custom_fields", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  entityType: text("entity_type").notNull(), // 'lead' or 'company'
+  key: text("key").notNull(), // Identifier used in stored values, filters and import columns
+  label: text("label").notNull(),
+  type: text("type").notNull(), // see CUSTOM_FIELD_TYPES
+  options: jsonb("options").$type<string[]>().notNull().default([]), // Choices for select fields
+  position: integer("position").notNull().default(0), // Display order, lowest first
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_custom_fields_entity_key").on(table.entityType, table.key),
+]);
+
+// Labels for grouping leads across companies and stages (e.g. "contractor", "needs sample")
+export const tags = pgTable("tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  color: text("color").notNull().default("#6b7280"), // Hex color used for tag chips
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_tags_name").on(sql`lower(${table.name})`), // Names are unique regardless of case
+]);
+
+export const leadTags = pgTable("lead_tags", {
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  tagId: varchar("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.leadId, table.tagId] }),
+  index("idx_lead_tags_tag").on(table.tagId),
+]);
+
+// Follow-ups on a lead; the reminder job notifies the assignee once a task falls due
+export const tasks = pgTable("tasks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  dueAt: timestamp("due_at").notNull(),
+  assignedUserId: varchar("assigned_user_id").references(() => users.id, { onDelete: "set null" }), // null = anyone
+  done: integer("done").notNull().default(0), // 0 = open, 1 = done
+  completedAt: timestamp("completed_at"),
+  notifiedAt: timestamp("notified_at"), // When the due reminder was sent; cleared when the due date changes
+  createdBy: varchar("created_by"), // No FK so tasks survive user deletion
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_tasks_lead").on(table.leadId),
+  index("idx_tasks_open_due").on(table.done, table.dueAt),
+]);
+
+// People involved in a lead besides the primary lead email, e.g. the contractor or property manager.
+// Company-wide contacts have no lead.
+export const contacts = pgTable("contacts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").references(() => leads.id, { onDelete: "cascade" }),
+  companyId: varchar("company_id").references(() => companies.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  email: text("email"),
+  phone: text("phone"),
+  role: text("role").notNull().default("other"), // see CONTACT_ROLES
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_contacts_lead").on(table.leadId),
+  index("idx_contacts_company").on(table.companyId),
+  index("idx_contacts_email").on(sql`lower(trim(${table.email}))`), // Inbox sync matches senders against contacts
+]);
+
+// Calls, meetings, site visits and texts logged against a lead; emails live in their own table
+export const activities = pgTable("activities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // see ACTIVITY_TYPES
+  outcome: text("outcome"), // see ACTIVITY_OUTCOMES
+  durationMinutes: integer("duration_minutes"),
+  notes: text("notes"),
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+  createdBy: varchar("created_by"), // No FK so activities survive user deletion
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_activities_lead_occurred").on(table.leadId, table.occurredAt),
+]);
+
+// A sale being worked on for a lead; open deals make up the revenue forecast
+export const deals = pgTable("deals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(), // Returned as a string to keep the cents exact
+  expectedCloseDate: date("expected_close_date"), // YYYY-MM-DD
+  probability: integer("probability").notNull().default(0), // Percent chance of winning
+  stage: text("stage").notNull().default("qualification"), // see DEAL_STAGES
+  closedAt: timestamp("closed_at"), // Set when the deal is won or lost
+  createdBy: varchar("created_by"), // No FK so deals survive user deletion
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_deals_lead_id").on(table.leadId),
+  index("idx_deals_stage_close_date").on(table.stage, table.expectedCloseDate),
+]);
+
+// Points added to (or taken from) a lead's score when it matches the criterion
+export const leadScoreRules = pgTable("lead_score_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  criterion: text("criterion").notNull(), // see LEAD_SCORE_CRITERIA
+  value: text("value"), // Keyword, stage name or number, for criteria that take one
+  points: integer("points").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Hands new unassigned leads that match to a group of reps in turn; rules are tried by position and the first match wins
+export const assignmentRules = pgTable("assignment_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  criterion: text("criterion").notNull(), // see ASSIGNMENT_RULE_CRITERIA
+  value: text("value").notNull(), // Company id, tag id, lead source, or comma-separated keywords
+  userIds: jsonb("user_ids").$type<string[]>().notNull().default([]), // The group, in round-robin order
+  skipAway: integer("skip_away").notNull().default(1), // 1 = pass over reps marked as away
+  lastAssignedUserId: varchar("last_assigned_user_id"), // Round-robin pointer; no FK so removing a rep doesn't reset it
+  position: integer("position").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Why each new lead went to the rep it did (or to nobody), for managers reviewing the rules
+export const leadAssignmentLog = pgTable("lead_assignment_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  ruleId: varchar("rule_id").references(() => assignmentRules.id, { onDelete: "set null" }),
+  ruleName: text("rule_name"), // Snapshot, so the entry still reads after the rule is renamed or deleted
+  assignedUserId: varchar("assigned_user_id").references(() => users.id, { onDelete: "set null" }),
+  source: text("source").notNull(), // see LEAD_SOURCES
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_lead_assignment_log_lead_id").on(table.leadId),
+  index("idx_lead_assignment_log_created_at").on(table.createdAt),
+]);
+
+// A public intake form (e.g. a website contact form) whose submissions become leads of one company
+export const webForms = pgTable("web_forms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+  enabled: integer("enabled").notNull().default(1), // 0 = submissions are rejected
+  redirectUrl: text("redirect_url"), // Where browsers posting the form directly are sent afterwards
+  acknowledgementEnabled: integer("acknowledgement_enabled").notNull().default(0), // 1 = email the submitter
+  acknowledgementSubject: text("acknowledgement_subject"), // Supports the WEB_FORM_PLACEHOLDERS
+  acknowledgementBody: text("acknowledgement_body"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_web_forms_company_id").on(table.companyId),
+]);
+
+// A named set of prices (e.g. retail, contractor, builder) worked out from each product's sell price or cost
+export const priceLists = pgTable("price_lists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  basis: text("basis").notNull().default("price"), // see PRICE_LIST_BASES
+  markupPercent: numeric("markup_percent", { precision: 6, scale: 2 }).notNull().default("0"), // Negative for a discount
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// A price list's own markup or fixed prices for one product or a whole category (product heading);
+// product rules win over category rules, which win over the list's markup
+export const priceListRules = pgTable("price_list_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  priceListId: varchar("price_list_id").notNull().references(() => priceLists.id, { onDelete: "cascade" }),
+  inventoryId: varchar("inventory_id").references(() => inventory.id, { onDelete: "cascade" }), // Set for a product rule...
+  category: text("category"), // ...or this for a category rule
+  markupPercent: numeric("markup_percent", { precision: 6, scale: 2 }), // Either a markup...
+  pricePerSqFt: numeric("price_per_sq_ft", { precision: 10, scale: 2 }), // ...or fixed prices
+  pricePerBox: numeric("price_per_box", { precision: 10, scale: 2 }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_price_list_rules_product").on(table.priceListId, table.inventoryId),
+  uniqueIndex("idx_price_list_rules_category").on(table.priceListId, table.category),
+]);
+
+// A priced quote for a lead; saving again adds the next version, so quotes already sent stay as they were
+export const quotes = pgTable("quotes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(), // 1, 2, 3... per lead
+  wasteFactor: numeric("waste_factor", { precision: 5, scale: 2 }).notNull(), // Percent added to the square footage before counting boxes
+  lines: jsonb("lines").$type<QuoteLine[]>().notNull().default([]), // Snapshot of the products and prices when quoted
+  total: numeric("total", { precision: 12, scale: 2 }).notNull(),
+  notes: text("notes"), // Printed under the lines
+  createdBy: varchar("created_by"), // No FK so quotes survive user deletion
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_quotes_lead_version").on(table.leadId, table.version),
+]);
+
+// Inventory products a lead has asked about, with how much they need; the lead panel shows their current stock
+export const leadProducts = pgTable("lead_products", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull().references(() => leads.id, { onDelete: "cascade" }),
+  inventoryId: varchar("inventory_id").notNull().references(() => inventory.id, { onDelete: "cascade" }),
+  sqFt: numeric("sq_ft", { precision: 12, scale: 2 }), // Square footage wanted; null when the lead hasn't said
+  createdBy: varchar("created_by"), // No FK so links survive user deletion
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_lead_products_lead_inventory").on(table.leadId, table.inventoryId),
+  index("idx_lead_products_inventory").on(table.inventoryId), // Leads waiting on a product
+]);
+
 export const companiesRelations = relations(companies, ({ many }) => ({
   leads: many(leads),
 }));
@@ -71,6 +385,10 @@ export const leadsRelations = relations(leads, ({ many, one }) => ({
     fields: [leads.companyId],
     references: [companies.id],
   }),
+  assignedUser: one(users, {
+    fields: [leads.assignedUserId],
+    references: [users.id],
+  }),
 }));
 
 export const emailsRelations = relations(emails, ({ one }) => ({
@@ -87,18 +405,402 @@ export const notificationsRelations = relations(notifications, ({ one }) => ({
   }),
 }));
 
-export const insertCompanySchema = createInsertSchema(companies).omit({
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// Payloads for admin user management (plain password is hashed server-side)
+export const createUserSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  displayName: z.string().trim().optional().nullable(),
+  role: z.enum(ROLES),
+});
+
+export const updateUserSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters").optional(),
+  displayName: z.string().trim().optional().nullable(),
+  role: z.enum(ROLES).optional(),
+  away: z.number().int().min(0).max(1).optional(),
+});
+
+export const CUSTOM_FIELD_ENTITY_TYPES = ["lead", "company"] as const;
+export const CUSTOM_FIELD_TYPES = ["text", "number", "date", "select"] as const;
+
+// Checked against the field definitions server-side; see server/custom-fields.ts
+export const customFieldValuesSchema = z.record(z.union([z.string(), z.number()]));
+
+export const insertCustomFieldSchema = z.object({
+  entityType: z.enum(CUSTOM_FIELD_ENTITY_TYPES),
+  label: z.string().trim().min(1, "Label is required"),
+  type: z.enum(CUSTOM_FIELD_TYPES),
+  options: z.array(z.string().trim().min(1)).default([]),
+}).refine(field => field.type !== "select" || field.options.length > 0, {
+  message: "Select fields need at least one option",
+  path: ["options"],
+});
+
+// The entity, key and type are fixed once values may have been stored
+export const updateCustomFieldSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").optional(),
+  options: z.array(z.string().trim().min(1)).optional(),
+});
+
+// Free mail providers are shared by everyone, so they can't identify a company
+export const PUBLIC_EMAIL_DOMAINS = ["gmail.com", "googlemail.com", "yahoo.com", "hotmail.com", "outlook.com", "live.com", "msn.com", "aol.com", "icloud.com", "me.com", "protonmail.com", "gmx.com"] as const;
+
+// Lowercase domain of an email address, or undefined if it has none
+export function emailDomain(email: string): string | undefined {
+  const at = email.lastIndexOf("@");
+  const domain = at >= 0 ? email.slice(at + 1).trim().toLowerCase() : "";
+  return domain || undefined;
+}
+
+// Accepts "Example.com", "@example.com" or "https://www.example.com/" and stores "example.com"
+const companyDomainSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .transform(domain => domain.replace(/^@/, "").replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/.*$/, ""))
+  .refine(domain => /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain), "Domains look like example.com")
+  .refine(domain => !(PUBLIC_EMAIL_DOMAINS as readonly string[]).includes(domain), "Public email domains can't be assigned to a company");
+
+export const insertCompanySchema = createInsertSchema(companies, {
+  customFields: customFieldValuesSchema,
+  domains: z.array(companyDomainSchema).transform(domains => Array.from(new Set(domains))),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertLeadSchema = createInsertSchema(leads).omit({
+// Ownership is changed through the assign endpoints only
+export const insertLeadSchema = createInsertSchema(leads, {
+  customFields: customFieldValuesSchema,
+}).omit({
   id: true,
+  assignedUserId: true,
+  score: true,
+  deletedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Columns the lead list can be sorted by
+export const LEAD_SORT_FIELDS = ["createdAt", "updatedAt", "clientName", "score"] as const;
+
+export const assignLeadSchema = z.object({
+  userId: z.string().nullable(),
+});
+
+export const bulkAssignOwnerSchema = z.object({
+  leadIds: z.array(z.string()).min(1, "Lead IDs array is required"),
+  userId: z.string().nullable(),
+});
+
+// Lead fields a merge can take from any of the merged leads; notes are always combined
+export const MERGEABLE_LEAD_FIELDS = ["clientName", "email", "phone", "subject", "leadDetails", "status", "companyId", "assignedUserId"] as const;
+
+export const mergeLeadsSchema = z.object({
+  survivorId: z.string().min(1, "Surviving lead is required"),
+  mergeIds: z.array(z.string()).min(1, "Select at least one lead to merge"),
+  fieldSources: z.record(z.enum(MERGEABLE_LEAD_FIELDS), z.string()).default({}), // Field -> id of the lead to take it from
+});
+
+// Palette offered when picking a tag color; new tags cycle through it
+export const TAG_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#ec4899", "#14b8a6", "#f97316", "#6366f1", "#84cc16"] as const;
+
+export const insertTagSchema = z.object({
+  name: z.string().trim().min(1, "Tag name is required").max(50, "Tag names can be at most 50 characters"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #3b82f6").optional(),
+});
+
+export const updateTagSchema = insertTagSchema.partial();
+
+// Adds or removes every listed tag on every listed lead
+export const bulkLeadTagsSchema = z.object({
+  leadIds: z.array(z.string()).min(1, "Lead IDs array is required"),
+  tagIds: z.array(z.string()).min(1, "Tag IDs array is required"),
+});
+
+export const insertTaskSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  dueAt: z.coerce.date({ invalid_type_error: "Due date is invalid" }),
+  assignedUserId: z.string().nullable().optional(), // Defaults to the lead's owner
+});
+
+export const updateTaskSchema = insertTaskSchema.partial().extend({
+  done: z.boolean().optional(),
+});
+
+export const CONTACT_ROLES = ["homeowner", "contractor", "property_manager", "designer", "architect", "other"] as const;
+
+export const insertContactSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.string().trim().email("Email is invalid").nullable().optional(),
+  phone: z.string().trim().nullable().optional(),
+  role: z.enum(CONTACT_ROLES).default("other"),
+});
+
+export const updateContactSchema = insertContactSchema.partial();
+
+export const ACTIVITY_TYPES = ["call", "meeting", "site_visit", "sms"] as const;
+export const ACTIVITY_OUTCOMES = ["completed", "no_answer", "left_voicemail", "rescheduled", "cancelled", "no_show"] as const;
+
+export const insertActivitySchema = z.object({
+  type: z.enum(ACTIVITY_TYPES),
+  outcome: z.enum(ACTIVITY_OUTCOMES).nullable().optional(),
+  durationMinutes: z.number().int("Duration must be whole minutes").min(0).max(24 * 60).nullable().optional(),
+  notes: z.string().trim().max(5000).nullable().optional(),
+  occurredAt: z.coerce.date({ invalid_type_error: "Date is invalid" }).optional(), // Defaults to now
+});
+
+export const updateActivitySchema = insertActivitySchema.partial();
+
+// What a scoring rule checks; see LEAD_SCORE_CRITERIA_WITH_VALUE for the ones that take a value
+export const LEAD_SCORE_CRITERIA = [
+  "has_phone",
+  "has_company",
+  "details_keyword", // lead details contain the value
+  "has_replied", // at least one received email
+  "min_replies", // at least value received emails
+  "contacted_within_days", // last email, either direction, within value days
+  "no_contact_for_days", // no email for value days (or never)
+  "status", // lead is in the stage named value
+] as const;
+
+export const LEAD_SCORE_CRITERIA_WITH_VALUE: readonly LeadScoreCriterion[] = ["details_keyword", "min_replies", "contacted_within_days", "no_contact_for_days", "status"];
+export const NUMERIC_LEAD_SCORE_CRITERIA: readonly LeadScoreCriterion[] = ["min_replies", "contacted_within_days", "no_contact_for_days"];
+
+export const insertLeadScoreRuleSchema = z.object({
+  criterion: z.enum(LEAD_SCORE_CRITERIA),
+  value: z.string().trim().nullable().optional(),
+  points: z.number().int("Points must be a whole number").min(-100).max(100),
+}).superRefine((rule, ctx) => {
+  if (!LEAD_SCORE_CRITERIA_WITH_VALUE.includes(rule.criterion)) return;
+  if (!rule.value) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "This rule needs a value" });
+  } else if (NUMERIC_LEAD_SCORE_CRITERIA.includes(rule.criterion) && !/^\d+$/.test(rule.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Value must be a whole number" });
+  }
+});
+
+export const PIPELINE_STAGE_TYPES = ["open", "won", "lost"] as const;
+export const PIPELINE_AUTOMATIONS = ["email_sent", "email_replied"] as const;
+
+// What caused a status change: a user, an email automation, lead creation/import, or a deal being won or lost
+export const LEAD_STATUS_SOURCES = ["manual", "email_sent", "email_replied", "created", "import", "deal"] as const;
+
+export const insertPipelineStageSchema = z.object({
+  name: z.string().trim().min(1, "Stage name is required"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #3b82f6"),
+  type: z.enum(PIPELINE_STAGE_TYPES),
+  automation: z.enum(PIPELINE_AUTOMATIONS).nullable().optional(),
+});
+
+export const updatePipelineStageSchema = insertPipelineStageSchema.partial();
+
+export const reorderPipelineStagesSchema = z.object({
+  stageIds: z.array(z.string()).min(1, "Stage IDs array is required"),
+});
+
+export const DEAL_STAGES = ["qualification", "proposal", "negotiation", "won", "lost"] as const;
+export const CLOSED_DEAL_STAGES: readonly DealStage[] = ["won", "lost"];
+
+// Probability a deal gets when none is given; won and lost deals are always 100 and 0
+export const DEAL_STAGE_PROBABILITIES: Record<DealStage, number> = {
+  qualification: 20,
+  proposal: 50,
+  negotiation: 75,
+  won: 100,
+  lost: 0,
+};
+
+export const insertDealSchema = z.object({
+  name: z.string().trim().min(1, "Deal name is required"),
+  amount: z.coerce.number({ invalid_type_error: "Amount must be a number" }).min(0, "Amount can't be negative").max(9999999999).transform(String),
+  expectedCloseDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected close date must be YYYY-MM-DD").nullable().optional(),
+  probability: z.number().int("Probability must be a whole number").min(0).max(100).optional(),
+  stage: z.enum(DEAL_STAGES).default("qualification"),
+});
+
+export const updateDealSchema = insertDealSchema.partial();
+
+// Where a new lead came from, for assignment rules
+export const LEAD_SOURCES = ["manual", "import", "web_form"] as const;
+export const ASSIGNMENT_RULE_CRITERIA = ["company", "tag", "source", "keywords"] as const;
+
+export const insertAssignmentRuleSchema = z.object({
+  name: z.string().trim().min(1, "Rule name is required"),
+  criterion: z.enum(ASSIGNMENT_RULE_CRITERIA),
+  value: z.string().trim().min(1, "This rule needs a value"),
+  userIds: z.array(z.string()).min(1, "Pick at least one rep"),
+  skipAway: z.number().int().min(0).max(1).optional(),
+}).superRefine((rule, ctx) => {
+  if (rule.criterion === "source" && !(LEAD_SOURCES as readonly string[]).includes(rule.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: `Source must be one of ${LEAD_SOURCES.join(", ")}` });
+  }
+});
+
+export const reorderAssignmentRulesSchema = z.object({
+  ruleIds: z.array(z.string()).min(1, "Rule IDs array is required"),
+});
+
+// Blank clears the price; "$1,234.50" and 1234.5 are both accepted and stored as "1234.50"
+export const priceSchema = z.union([z.string(), z.number()]).nullable().optional().transform((value, ctx) => {
+  if (value === null || value === undefined || String(value).trim() === "") return null;
+  const parsed = Number(String(value).replace(/[$,]/g, "").trim());
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a valid price` });
+    return z.NEVER;
+  }
+  return parsed.toFixed(2);
+});
+
+export const PRICE_LIST_BASES = ["price", "cost"] as const;
+
+const markupSchema = z.coerce.number({ invalid_type_error: "Markup must be a number" }).min(-100, "Markup can't be below -100%").max(1000).transform(String);
+
+export const insertPriceListSchema = z.object({
+  name: z.string().trim().min(1, "Price list name is required"),
+  basis: z.enum(PRICE_LIST_BASES).default("price"),
+  markupPercent: markupSchema.default(0),
+});
+
+export const updatePriceListSchema = insertPriceListSchema.partial();
+
+export const insertPriceListRuleSchema = z.object({
+  inventoryId: z.string().min(1).nullable().optional(),
+  category: z.string().trim().min(1).nullable().optional(),
+  markupPercent: markupSchema.nullable().optional(),
+  pricePerSqFt: priceSchema,
+  pricePerBox: priceSchema,
+}).superRefine((rule, ctx) => {
+  if (!rule.inventoryId === !rule.category) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["inventoryId"], message: "Choose either a product or a category" });
+  }
+  const hasFixedPrice = rule.pricePerSqFt !== null || rule.pricePerBox !== null;
+  const hasMarkup = rule.markupPercent !== null && rule.markupPercent !== undefined;
+  if (hasFixedPrice === hasMarkup) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["markupPercent"], message: "Give either a markup or fixed prices" });
+  }
+});
+
+export interface ResolvedPrices {
+  perSqFt?: number;
+  perBox?: number;
+}
+
+// Per-sq-ft and per-box prices, each filled in from the other (and the sq ft per box) when missing
+export function completePrices(perSqFt: number | undefined, perBox: number | undefined, sqFtPerBox: number | undefined): ResolvedPrices {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return {
+    perSqFt: perSqFt ?? (perBox !== undefined && sqFtPerBox ? round(perBox / sqFtPerBox) : undefined),
+    perBox: perBox ?? (perSqFt !== undefined && sqFtPerBox ? round(perSqFt * sqFtPerBox) : undefined),
+  };
+}
+
+/**
+ * A product's prices on a price list, and which level they came from.
+ * Rules for other lists are ignored, so all rules can be passed in.
+ */
+export function priceListPrices(item: Inventory, list: PriceList, rules: PriceListRule[]): ResolvedPrices & { source: "product" | "category" | "list" } {
+  const sqFtPerBox = inventoryNumber(item.sqFtPerBox);
+  const listRules = rules.filter(rule => rule.priceListId === list.id);
+  const productRule = listRules.find(rule => rule.inventoryId === item.id);
+  const categoryRule = item.productHeading ? listRules.find(rule => rule.category === item.productHeading) : undefined;
+  const rule = productRule ?? categoryRule;
+  const source = productRule ? "product" : categoryRule ? "category" : "list";
+
+  if (rule && rule.markupPercent === null) {
+    return { ...completePrices(inventoryNumber(rule.pricePerSqFt), inventoryNumber(rule.pricePerBox), sqFtPerBox), source };
+  }
+  const base = list.basis === "cost"
+    ? completePrices(inventoryNumber(item.costPerSqFt), inventoryNumber(item.costPerBox), sqFtPerBox)
+    : completePrices(inventoryNumber(item.pricePerSqFt), inventoryNumber(item.pricePerBox), sqFtPerBox);
+  const factor = 1 + Number(rule?.markupPercent ?? list.markupPercent) / 100;
+  const applyMarkup = (value: number | undefined) => value === undefined ? undefined : Math.round(value * factor * 100) / 100;
+  return { perSqFt: applyMarkup(base.perSqFt), perBox: applyMarkup(base.perBox), source };
+}
+
+export const QUOTE_PRICE_UNITS = ["sq_ft", "box"] as const;
+export const DEFAULT_QUOTE_WASTE_FACTOR = 10;
+
+export interface QuoteLine {
+  inventoryId: string | null; // null once the product has been purged from inventory
+  product: string;
+  sqFt: number; // Square footage the customer needs, before waste
+  sqFtPerBox: number;
+  boxes: number;
+  priceUnit: QuotePriceUnit;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+// Inventory keeps its numbers as text (e.g. "23.76" or "1,200"); undefined when blank or not a number
+export function inventoryNumber(value: string | null | undefined): number | undefined {
+  const parsed = Number((value ?? "").replace(/,/g, "").trim());
+  return value?.trim() && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Whole boxes needed to cover the area plus the waste factor (a percent)
+export function quoteBoxes(sqFt: number, sqFtPerBox: number, wasteFactor: number): number {
+  // Rounded first so float noise like 11.000000000000002 doesn't cost a whole extra box
+  const exact = Number(((sqFt * (1 + wasteFactor / 100)) / sqFtPerBox).toFixed(6));
+  return Math.ceil(exact);
+}
+
+// Boxes are sold whole, so per-square-foot prices apply to everything in them
+export function quoteLineTotal(boxes: number, sqFtPerBox: number, priceUnit: QuotePriceUnit, unitPrice: number): number {
+  const quantity = priceUnit === "box" ? boxes : boxes * sqFtPerBox;
+  return Math.round(quantity * unitPrice * 100) / 100;
+}
+
+export const insertQuoteSchema = z.object({
+  wasteFactor: z.coerce.number({ invalid_type_error: "Waste factor must be a number" }).min(0, "Waste factor can't be negative").max(100).default(DEFAULT_QUOTE_WASTE_FACTOR),
+  notes: z.string().trim().nullable().optional(),
+  lines: z.array(z.object({
+    inventoryId: z.string().min(1, "Pick a product"),
+    sqFt: z.coerce.number({ invalid_type_error: "Square footage must be a number" }).positive("Square footage must be more than 0"),
+    priceUnit: z.enum(QUOTE_PRICE_UNITS).default("sq_ft"),
+    unitPrice: z.coerce.number({ invalid_type_error: "Unit price must be a number" }).min(0, "Unit price can't be negative"),
+  })).min(1, "Add at least one product"),
+});
+
+export const insertLeadProductSchema = z.object({
+  inventoryId: z.string().min(1, "Pick a product"),
+  sqFt: z.coerce.number({ invalid_type_error: "Square footage must be a number" }).positive("Square footage must be more than 0").max(9999999999).transform(String).nullable().optional(),
+});
+
+export const updateLeadProductSchema = insertLeadProductSchema.pick({ sqFt: true });
+
+// Replaced in web form acknowledgement emails
+export const WEB_FORM_PLACEHOLDERS = ["{{name}}", "{{email}}", "{{subject}}", "{{company}}"] as const;
+
+export const insertWebFormSchema = z.object({
+  name: z.string().trim().min(1, "Form name is required"),
+  companyId: z.string().min(1, "Company is required"),
+  enabled: z.number().int().min(0).max(1).optional(),
+  redirectUrl: z.string().trim().url("Redirect URL must be a full URL like https://example.com/thanks").nullable().optional(),
+  acknowledgementEnabled: z.number().int().min(0).max(1).optional(),
+  acknowledgementSubject: z.string().trim().max(200).nullable().optional(),
+  acknowledgementBody: z.string().trim().max(10000).nullable().optional(),
+}).superRefine((form, ctx) => {
+  if (form.acknowledgementEnabled !== 1) return;
+  if (!form.acknowledgementSubject) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["acknowledgementSubject"], message: "Acknowledgement emails need a subject" });
+  }
+  if (!form.acknowledgementBody) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["acknowledgementBody"], message: "Acknowledgement emails need a body" });
+  }
+});
+
 export const insertEmailSchema = createInsertSchema(emails).omit({
   id: true,
   sentAt: true,
@@ -111,6 +813,10 @@ export const insertInventorySchema = z.object({
   totalSqFt: z.string().nullable(),
   productHeading: z.string().nullable(),
   notes: z.string().nullable(),
+  costPerSqFt: priceSchema,
+  costPerBox: priceSchema,
+  pricePerSqFt: priceSchema,
+  pricePerBox: priceSchema,
 });
 
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
@@ -118,6 +824,12 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   createdAt: true,
 });
 
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "passwordHash">;
+export type TeamMember = Pick<User, "id" | "username" | "displayName" | "role" | "away">;
+export type CreateUserRequest = z.infer<typeof createUserSchema>;
+export type UpdateUserRequest = z.infer<typeof updateUserSchema>;
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
 export type Company = typeof companies.$inferSelect;
 export type InsertLead = z.infer<typeof insertLeadSchema>;
@@ -126,5 +838,66 @@ export type InsertEmail = z.infer<typeof insertEmailSchema>;
 export type Email = typeof emails.$inferSelect;
 export type InsertInventory = z.infer<typeof insertInventorySchema>;
 export type Inventory = typeof inventory.$inferSelect;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type PipelineStageType = typeof PIPELINE_STAGE_TYPES[number];
+export type PipelineAutomation = typeof PIPELINE_AUTOMATIONS[number];
+export type InsertPipelineStage = z.infer<typeof insertPipelineStageSchema>;
+export type UpdatePipelineStage = z.infer<typeof updatePipelineStageSchema>;
+export type LeadSortField = typeof LEAD_SORT_FIELDS[number];
+export type CustomField = typeof customFields.$inferSelect;
+export type CustomFieldEntityType = typeof CUSTOM_FIELD_ENTITY_TYPES[number];
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+export type InsertCustomField = z.infer<typeof insertCustomFieldSchema>;
+export type UpdateCustomField = z.infer<typeof updateCustomFieldSchema>;
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type UpdateTag = z.infer<typeof updateTagSchema>;
+export type BulkLeadTags = z.infer<typeof bulkLeadTagsSchema>;
+export type Task = typeof tasks.$inferSelect;
+export type InsertTask = z.infer<typeof insertTaskSchema>;
+export type UpdateTask = z.infer<typeof updateTaskSchema>;
+export type Contact = typeof contacts.$inferSelect;
+export type ContactRole = typeof CONTACT_ROLES[number];
+export type InsertContact = z.infer<typeof insertContactSchema>;
+export type UpdateContact = z.infer<typeof updateContactSchema>;
+export type Activity = typeof activities.$inferSelect;
+export type ActivityType = typeof ACTIVITY_TYPES[number];
+export type ActivityOutcome = typeof ACTIVITY_OUTCOMES[number];
+export type InsertActivity = z.infer<typeof insertActivitySchema>;
+export type UpdateActivity = z.infer<typeof updateActivitySchema>;
+export type LeadScoreRule = typeof leadScoreRules.$inferSelect;
+export type LeadScoreCriterion = typeof LEAD_SCORE_CRITERIA[number];
+export type InsertLeadScoreRule = z.infer<typeof insertLeadScoreRuleSchema>;
+export type MergeableLeadField = typeof MERGEABLE_LEAD_FIELDS[number];
+export type MergeLeads = z.infer<typeof mergeLeadsSchema>;
+export type LeadStatusSource = typeof LEAD_STATUS_SOURCES[number];
+export type LeadStatusChange = typeof leadStatusHistory.$inferSelect;
+export type Deal = typeof deals.$inferSelect;
+export type DealStage = typeof DEAL_STAGES[number];
+export type InsertDeal = z.infer<typeof insertDealSchema>;
+export type UpdateDeal = z.infer<typeof updateDealSchema>;
+export type LeadSource = typeof LEAD_SOURCES[number];
+export type AssignmentRule = typeof assignmentRules.$inferSelect;
+export type AssignmentRuleCriterion = typeof ASSIGNMENT_RULE_CRITERIA[number];
+export type InsertAssignmentRule = z.infer<typeof insertAssignmentRuleSchema>;
+export type LeadAssignmentLogEntry = typeof leadAssignmentLog.$inferSelect;
+export type PriceList = typeof priceLists.$inferSelect;
+export type PriceListBasis = typeof PRICE_LIST_BASES[number];
+export type InsertPriceList = z.infer<typeof insertPriceListSchema>;
+export type UpdatePriceList = z.infer<typeof updatePriceListSchema>;
+export type PriceListRule = typeof priceListRules.$inferSelect;
+export type InsertPriceListRule = z.infer<typeof insertPriceListRuleSchema>;
+export type PriceListWithRules = PriceList & { rules: PriceListRule[] };
+export type Quote = typeof quotes.$inferSelect;
+export type QuotePriceUnit = typeof QUOTE_PRICE_UNITS[number];
+export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+export type LeadProduct = typeof leadProducts.$inferSelect;
+export type LeadProductWithItem = LeadProduct & { item: Inventory | null }; // null while the product is in the trash
+export type InsertLeadProduct = z.infer<typeof insertLeadProductSchema>;
+export type UpdateLeadProduct = z.infer<typeof updateLeadProductSchema>;
+export type WaitingLead = Pick<Lead, "id" | "clientName" | "email" | "status" | "assignedUserId"> & { leadProductId: string; sqFt: string | null };
+export type WebForm = typeof webForms.$inferSelect;
+export type InsertWebForm = z.infer<typeof insertWebFormSchema>;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type Notification = typeof notifications.$inferSelect;